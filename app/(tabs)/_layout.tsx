@@ -92,6 +92,19 @@ export default function TabLayout() {
           }}
         />
       )}
+      {routes.includes('triage') && (
+        <Tabs.Screen
+          name="triage"
+          options={{
+            title: 'Bilan',
+            tabBarIcon: ({ color }) => (
+              <View style={styles.tabIconContainer}>
+                <MaterialCommunityIcons name="clipboard-pulse" size={28} color={color} />
+              </View>
+            ),
+          }}
+        />
+      )}
       {routes.includes('explore') && (
         <Tabs.Screen
           name="explore"
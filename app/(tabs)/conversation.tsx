@@ -1,13 +1,27 @@
+import { TranscriptExportModal } from '@/components/TranscriptExportModal';
 import { AppCard } from '@/components/ui/AppCard';
 import { StandardHeader } from '@/components/ui/AppHeader';
 import { Colors } from '@/constants/Colors';
-import { ConversationParticipant, ConversationTurn, conversationModeService } from '@/services/conversationModeService';
-import { LANGUAGES } from '@/services/translationService';
+import {
+  ConversationEvent,
+  ConversationParticipant,
+  ConversationTurn,
+  conversationModeService
+} from '@/services/conversationModeService';
+import { conversationSessionService } from '@/services/conversationSessionService';
+import { LANGUAGES } from '@/services/languageRegistry';
+import { ConversationSession, ConversationSessionSummary } from '@/services/types';
+import { useConversation } from '@/hooks/useConversation';
 import { useImprovedUIStyles } from '@/hooks/useImprovedUIStyles';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
-import { useEffect, useState } from 'react';
-import { ScrollView, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+
+// Nom affiché d'un participant
+const getParticipantLabel = (participantId: string) => `Participant ${participantId.replace('participant', '')}`;
 
 /**
  * Page dédiée au mode conversation multilingue à tour de rôle
@@ -16,87 +30,141 @@ export default function ConversationScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme === 'dark' ? 'dark' : 'light'];
   const improvedStyles = useImprovedUIStyles();
+  const router = useRouter();
   
-  const [isActive, setIsActive] = useState(false);
-  const [participants, setParticipants] = useState<ConversationParticipant[]>([]);
-  const [currentParticipant, setCurrentParticipant] = useState<ConversationParticipant | null>(null);
-  const [conversationHistory, setConversationHistory] = useState<ConversationTurn[]>([]);
+  const [activeSession, setActiveSession] = useState<ConversationSession | null>(null);
+  const [pastSessions, setPastSessions] = useState<ConversationSessionSummary[]>([]);
+  const [exportSessionId, setExportSessionId] = useState<string | null>(null);
+  const [turnNotice, setTurnNotice] = useState<string | null>(null);
+  const { speak } = useTextToSpeech();
   
-  // Initialiser le composant
-  useEffect(() => {
-    // Vérifier si le mode conversation est déjà actif
-    const active = conversationModeService.isActive();
-    setIsActive(active);
-    
-    if (active) {
-      updateParticipantsList();
-      updateCurrentParticipant();
-      updateConversationHistory();
+  // Afficher l'attribution automatique des énoncés
+  const handleConversationEvent = useCallback((event: ConversationEvent) => {
+    switch (event.type) {
+      case 'speaker-detected':
+        setTurnNotice(
+          `${getParticipantLabel(event.participantId)} a parlé en ${conversationModeService.getLanguageName(event.language)} (${Math.round(event.confidence * 100)}%)`
+        );
+        break;
+      case 'detection-uncertain':
+        setTurnNotice('Langue incertaine : choisissez la langue parlée sur l\'écran d\'accueil');
+        break;
+      case 'conversation-reset':
+        setTurnNotice(null);
+        break;
     }
   }, []);
   
-  // Mettre à jour la liste des participants
-  const updateParticipantsList = () => {
-    setParticipants(conversationModeService.getParticipants());
-  };
+  // État partagé du mode conversation (participants, tour de parole, historique)
+  const {
+    isActive,
+    participants,
+    currentParticipant,
+    history: conversationHistory
+  } = useConversation(handleConversationEvent);
   
-  // Mettre à jour le participant actuel
-  const updateCurrentParticipant = () => {
-    setCurrentParticipant(conversationModeService.getCurrentParticipant());
-  };
+  // Initialiser le composant
+  useEffect(() => {
+    // Suivre les sessions d'intervention (enregistrées ou supprimées depuis n'importe quel écran)
+    const unsubscribe = conversationSessionService.subscribe(() => {
+      updateSessions();
+    });
+    conversationModeService.restoreActiveSession().then(() => {
+      updateSessions();
+    });
+    return unsubscribe;
+  }, []);
   
-  // Mettre à jour l'historique de la conversation
-  const updateConversationHistory = () => {
-    setConversationHistory(conversationModeService.getConversationHistory());
+  // Mettre à jour la session en cours et la liste des sessions terminées
+  const updateSessions = async () => {
+    const session = conversationSessionService.getActiveSession();
+    setActiveSession(session);
+    const sessions = await conversationSessionService.listSessions();
+    setPastSessions(sessions.filter(summary => summary.id !== session?.id));
   };
   
   // Activer ou désactiver le mode conversation
   const toggleConversationMode = () => {
-    const newState = !isActive;
-    setIsActive(newState);
-    conversationModeService.setActive(newState);
-    
-    if (newState) {
-      // Initialiser le mode conversation si nécessaire
+    // Initialiser le mode conversation si nécessaire (les participants d'une session en cours sont conservés)
+    if (!isActive && !conversationSessionService.getActiveSession()) {
       conversationModeService.initializeConversation();
-      updateParticipantsList();
-      updateCurrentParticipant();
+    } else {
+      conversationModeService.setActive(!isActive);
     }
   };
   
   // Passer au participant suivant
   const handleNextParticipant = () => {
     conversationModeService.nextParticipant();
-    updateCurrentParticipant();
   };
   
   // Ajouter un nouveau participant
   const handleAddParticipant = () => {
     // Par défaut, ajouter un participant avec la langue française
     conversationModeService.addParticipant('fr');
-    updateParticipantsList();
-    updateCurrentParticipant();
   };
   
   // Supprimer un participant
   const handleRemoveParticipant = (participantId: string) => {
     conversationModeService.removeParticipant(participantId);
-    updateParticipantsList();
-    updateCurrentParticipant();
   };
   
   // Mettre à jour la langue préférée d'un participant
   const handleLanguageChange = (participantId: string, language: string) => {
     conversationModeService.updateParticipantLanguage(participantId, language);
-    updateParticipantsList();
   };
   
   // Effacer l'historique de la conversation
   const handleClearHistory = () => {
     conversationModeService.clearConversationHistory();
-    updateConversationHistory();
   };
   
+  // Démarrer une nouvelle session d'intervention
+  const handleStartSession = async () => {
+    await conversationModeService.startSession();
+  };
+  
+  // Terminer la session d'intervention en cours
+  const handleEndSession = () => {
+    Alert.alert(
+      'Terminer la session',
+      'La session sera enregistrée et pourra être consultée ou rouverte plus tard.',
+      [
+        { text: 'Annuler', style: 'cancel' },
+        {
+          text: 'Terminer',
+          onPress: () => conversationModeService.endSession()
+        }
+      ]
+    );
+  };
+  
+  // Rouvrir une session passée pour la consulter ou la poursuivre
+  const handleResumeSession = async (sessionId: string) => {
+    const resumed = await conversationModeService.resumeSession(sessionId);
+    if (!resumed) {
+      Alert.alert('Erreur', 'Impossible de rouvrir cette session.');
+      return;
+    }
+    conversationModeService.setActive(true);
+  };
+  
+  // Supprimer une session passée
+  const handleDeleteSession = (session: ConversationSessionSummary) => {
+    Alert.alert(
+      'Supprimer la session',
+      `Supprimer définitivement « ${session.title} » et ses ${session.turnCount} tours de parole ?`,
+      [
+        { text: 'Annuler', style: 'cancel' },
+        { text: 'Supprimer', style: 'destructive', onPress: () => conversationSessionService.deleteSession(session.id) }
+      ]
+    );
+  };
+  
+  // Formater la date et l'heure d'une session
+  const formatSessionDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+  
   // Rendre un élément de la liste des participants
   const renderParticipantItem = (item: ConversationParticipant) => {
     const isCurrentParticipant = currentParticipant?.id === item.id;
@@ -159,27 +227,48 @@ export default function ConversationScreen() {
     );
   };
   
+  // Relire à haute voix la traduction d'un tour de parole
+  const speakTranslation = (item: ConversationTurn) => {
+    if (item.translatedText && item.targetLanguage) {
+      speak(item.translatedText, item.targetLanguage, { interrupt: true });
+    }
+  };
+
   // Rendre un élément de l'historique de la conversation
   const renderHistoryItem = (item: ConversationTurn) => {
-    const participant = participants.find(p => p.id === item.participantId);
-    
-    if (!participant) return null;
-    
     return (
       <View key={`${item.participantId}-${item.timestamp}`} style={styles.historyItem}>
         <View style={styles.historyItemHeader}>
           <MaterialCommunityIcons name="account" size={16} color="#666" />
           <Text style={styles.historyParticipant}>
-            {`Participant ${participant.id.replace('participant', '')}`}
+            {`Participant ${item.participantId.replace('participant', '')}`}
           </Text>
           <Text style={styles.historyTime}>
             {new Date(item.timestamp).toLocaleTimeString()}
           </Text>
+          {item.translatedText && item.targetLanguage && (
+            <TouchableOpacity
+              style={styles.historySpeakButton}
+              onPress={() => speakTranslation(item)}
+            >
+              <MaterialCommunityIcons name="volume-high" size={18} color="#144291" />
+            </TouchableOpacity>
+          )}
         </View>
         <View style={styles.historyContent}>
           <Text style={styles.historyText}>{item.originalText}</Text>
+          {item.translations && Object.keys(item.translations).length > 1 ? (
+            Object.entries(item.translations).map(([language, translation]) => (
+              <Text key={language} style={styles.historyTranslation}>
+                {`${conversationModeService.getLanguageName(language)} : ${translation}`}
+              </Text>
+            ))
+          ) : item.translatedText && (
+            <Text style={styles.historyTranslation}>{item.translatedText}</Text>
+          )}
           <Text style={styles.historyLanguage}>
             Langue détectée: {conversationModeService.getLanguageName(item.detectedLanguage)}
+            {item.targetLanguage && ` → ${conversationModeService.getLanguageName(item.targetLanguage)}`}
           </Text>
         </View>
       </View>
@@ -217,6 +306,76 @@ export default function ConversationScreen() {
               {isActive ? "Désactiver le mode conversation" : "Activer le mode conversation"}
             </Text>
           </TouchableOpacity>
+          
+          <TouchableOpacity
+            style={[styles.toggleButton, { backgroundColor: colors.primary }]}
+            onPress={() => router.push('/face-to-face')}
+          >
+            <MaterialCommunityIcons name="tablet" size={24} color="#fff" />
+            <Text style={styles.toggleButtonText}>Vue face à face</Text>
+          </TouchableOpacity>
+        </AppCard>
+        
+        <AppCard 
+          title="Session d'intervention" 
+          icon="clipboard-text-clock" 
+          style={{ marginVertical: 10, marginHorizontal: 16 }}
+        >
+          {activeSession ? (
+            <View style={styles.sessionRow}>
+              <View style={styles.sessionInfo}>
+                <Text style={[styles.sessionTitle, { color: colors.primary }]}>{activeSession.title}</Text>
+                <Text style={styles.sessionDetails}>
+                  En cours depuis {formatSessionDate(activeSession.startedAt)} · {activeSession.turns.length} tour(s) de parole
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.sessionAction} onPress={() => setExportSessionId(activeSession.id)}>
+                <MaterialCommunityIcons name="export-variant" size={22} color={colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.clearButton} onPress={handleEndSession}>
+                <MaterialCommunityIcons name="stop-circle-outline" size={18} color="#ff5252" />
+                <Text style={styles.clearButtonText}>Terminer</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={styles.description}>
+              Aucune session en cours. Une session démarre automatiquement à la première traduction.
+            </Text>
+          )}
+          
+          <TouchableOpacity 
+            style={[styles.nextButton, { backgroundColor: colors.primary }]}
+            onPress={handleStartSession}
+          >
+            <MaterialCommunityIcons name="clipboard-plus-outline" size={22} color="#fff" />
+            <Text style={styles.nextButtonText}>Nouvelle session</Text>
+          </TouchableOpacity>
+          
+          {pastSessions.length > 0 && (
+            <View style={styles.sessionList}>
+              <Text style={[styles.historyTitle, { color: colors.primary }]}>Sessions précédentes</Text>
+              {pastSessions.map(session => (
+                <View key={session.id} style={styles.sessionRow}>
+                  <View style={styles.sessionInfo}>
+                    <Text style={styles.sessionTitle}>{session.title}</Text>
+                    <Text style={styles.sessionDetails}>
+                      {formatSessionDate(session.startedAt)}
+                      {session.endedAt && ` – ${formatSessionDate(session.endedAt)}`} · {session.turnCount} tour(s) de parole
+                    </Text>
+                  </View>
+                  <TouchableOpacity style={styles.sessionAction} onPress={() => setExportSessionId(session.id)}>
+                    <MaterialCommunityIcons name="export-variant" size={22} color={colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.sessionAction} onPress={() => handleResumeSession(session.id)}>
+                    <MaterialCommunityIcons name="folder-open-outline" size={22} color={colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.sessionAction} onPress={() => handleDeleteSession(session)}>
+                    <MaterialCommunityIcons name="delete-outline" size={22} color="#ff5252" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
         </AppCard>
         
         {isActive && (
@@ -239,6 +398,13 @@ export default function ConversationScreen() {
                 </TouchableOpacity>
               </View>
               
+              {turnNotice && (
+                <View style={styles.detectedLanguageContainer}>
+                  <MaterialCommunityIcons name="account-voice" size={16} color="#4caf50" />
+                  <Text style={styles.detectedLanguageText}>{turnNotice}</Text>
+                </View>
+              )}
+              
               <View style={styles.participantsList}>
                 {participants.map(renderParticipantItem)}
               </View>
@@ -296,10 +462,10 @@ export default function ConversationScreen() {
                 3. Sélectionnez la langue préférée pour chaque participant.
               </Text>
               <Text style={styles.instructionText}>
-                4. Utilisez le bouton &quot;Participant suivant&quot; pour passer la parole.
+                4. La parole passe automatiquement au participant suivant ; le bouton &quot;Participant suivant&quot; permet de la passer manuellement.
               </Text>
               <Text style={styles.instructionText}>
-                5. Parlez dans votre langue, la détection automatique identifiera la langue.
+                5. Parlez dans votre langue : la détection automatique identifie qui parle et traduit pour chacun des autres participants.
               </Text>
               <Text style={styles.instructionText}>
                 6. Consultez l&apos;historique pour voir les tours de parole précédents.
@@ -308,6 +474,8 @@ export default function ConversationScreen() {
           </>
         )}
       </ScrollView>
+      
+      <TranscriptExportModal sessionId={exportSessionId} onClose={() => setExportSessionId(null)} />
     </View>
   );
 }
@@ -490,6 +658,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  historySpeakButton: {
+    marginLeft: 8,
+    padding: 2,
+  },
   historyContent: {
     marginLeft: 22,
   },
@@ -497,6 +669,38 @@ const styles = StyleSheet.create({
     fontSize: 15,
     marginBottom: 4,
   },
+  historyTranslation: {
+    fontSize: 15,
+    color: '#144291',
+    marginBottom: 4,
+  },
+  sessionList: {
+    marginTop: 16,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sessionInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  sessionTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  sessionDetails: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sessionAction: {
+    padding: 6,
+    marginLeft: 4,
+  },
   historyLanguage: {
     fontSize: 12,
     color: '#4caf50',
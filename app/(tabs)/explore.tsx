@@ -2,194 +2,117 @@ import { Collapsible } from '@/components/Collapsible';
 import { Theme } from '@/constants/Theme';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
-import React, { useState } from 'react';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
 import { Alert, Platform, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { AppButton } from '../../components/ui/AppButton';
 import { AppCard } from '../../components/ui/AppCard';
 import { StandardHeader } from '../../components/ui/AppHeader';
-import { LANGUAGES, translateText } from '../../services/translationService';
+import { PhraseAnswerPanel } from '../../components/PhraseAnswerPanel';
+import { TranslationVerificationModal, TranslationVerificationMode } from '../../components/TranslationVerificationModal';
+import { usePhraseCatalog } from '../../hooks/usePhraseCatalog';
+import { useTextToSpeech } from '../../hooks/useTextToSpeech';
+import { LANGUAGES } from '../../services/languageRegistry';
+import { describeAnswer, recordAnswer } from '../../services/phraseAnswerService';
+import { phraseRepository } from '../../services/phraseRepository';
+import { getTranslationErrorMessage, translateBatch, translateTextWithResult } from '../../services/translationService';
+import { translationVerificationService } from '../../services/translationVerificationService';
+import { Phrase, PhraseAnswer, VerifiedTranslation } from '../../services/types';
 
-// Import conditionnels pour éviter les erreurs dans les environnements non compatibles
-let Tts: any = null;
+// Origine d'une traduction : vérifiée manuellement, catalogue, saisie pour une phrase personnalisée ou automatique
+type TranslationSource = 'verified' | 'catalog' | 'custom' | 'machine';
 
-// Vérifier si nous sommes dans un environnement web
-const isWeb = Platform.OS === 'web';
-
-// Créer une implémentation factice pour les environnements non compatibles
-const createMockTts = () => ({
-  speak: (text: string) => {
-    console.log('Mock TTS would speak:', text);
-    // Utiliser l'API Web Speech si disponible dans l'environnement web
-    if (isWeb && 'speechSynthesis' in window) {
-      try {
-        const utterance = new SpeechSynthesisUtterance(text);
-        window.speechSynthesis.speak(utterance);
-      } catch (error) {
-        console.error('Web Speech API error:', error);
-      }
-    }
-    return Promise.resolve();
-  },
-  setDefaultLanguage: (lang: string) => {
-    console.log('Mock TTS would set language to:', lang);
-    return Promise.resolve();
-  },
-  addEventListener: () => {},
-  removeEventListener: () => {},
-});
-
-// Importer le module réel seulement si nous ne sommes pas sur le web
-if (!isWeb) {
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    Tts = require('react-native-tts').default;
-  } catch (error) {
-    console.warn('Could not load TTS module:', error);
-  }
+// Traduction affichée pour une phrase, avec son origine
+interface KnownTranslation {
+  text: string;
+  source: TranslationSource;
+  verification?: VerifiedTranslation;
 }
 
-// Si le module n'a pas pu être chargé, utiliser l'implémentation factice
-if (!Tts) Tts = createMockTts();
-
-// Type pour les phrases d'urgence
-interface EmergencyPhrase {
-  fr: string;
-  translations: Record<string, string>;
-}
-
-// Phrases d'urgence par catégorie
-const EMERGENCY_PHRASES: Record<string, EmergencyPhrase[]> = {
-  medical: [
-    { fr: "Où avez-vous mal ?", translations: { en: "Where does it hurt?" } },
-    { fr: "Avez-vous des difficultés à respirer ?", translations: { en: "Do you have trouble breathing?" } },
-    { fr: "Êtes-vous allergique à des médicaments ?", translations: { en: "Are you allergic to any medications?" } },
-    { fr: "Prenez-vous des médicaments ?", translations: { en: "Are you taking any medications?" } },
-    { fr: "Avez-vous des antécédents médicaux ?", translations: { en: "Do you have any medical history?" } },
-    { fr: "Depuis quand ressentez-vous cette douleur ?", translations: { en: "How long have you been feeling this pain?" } },
-    { fr: "Avez-vous perdu connaissance ?", translations: { en: "Did you lose consciousness?" } },
-  ],
-  fire: [
-    { fr: "Y a-t-il d'autres personnes à l'intérieur ?", translations: { en: "Are there other people inside?" } },
-    { fr: "Combien de personnes sont à l'intérieur ?", translations: { en: "How many people are inside?" } },
-    { fr: "Où se trouvent-elles ?", translations: { en: "Where are they?" } },
-    { fr: "Y a-t-il des produits dangereux à l'intérieur ?", translations: { en: "Are there any hazardous materials inside?" } },
-    { fr: "Depuis combien de temps l'incendie a-t-il commencé ?", translations: { en: "How long has the fire been burning?" } },
-  ],
-  reassurance: [
-    { fr: "Nous sommes là pour vous aider.", translations: { en: "We are here to help you." } },
-    { fr: "Restez calme, les secours sont là.", translations: { en: "Stay calm, help is here." } },
-    { fr: "Tout va bien se passer.", translations: { en: "Everything will be fine." } },
-    { fr: "Nous allons prendre soin de vous.", translations: { en: "We will take care of you." } },
-    { fr: "Les secours sont en route.", translations: { en: "Help is on the way." } },
-  ],
-  evacuation: [
-    { fr: "Nous devons évacuer le bâtiment.", translations: { en: "We need to evacuate the building." } },
-    { fr: "Suivez-moi, s&apos;il vous plaît.", translations: { en: "Please follow me." } },
-    { fr: "Ne prenez pas l'ascenseur.", translations: { en: "Do not use the elevator." } },
-    { fr: "Utilisez les escaliers.", translations: { en: "Use the stairs." } },
-    { fr: "Restez baissé pour éviter la fumée.", translations: { en: "Stay low to avoid the smoke." } },
-  ],
-  general: [
-    { fr: "Comment vous appelez-vous ?", translations: { en: "What is your name?" } },
-    { fr: "Comprenez-vous ce que je dis ?", translations: { en: "Do you understand what I'm saying?" } },
-    { fr: "Pouvez-vous parler plus lentement ?", translations: { en: "Can you speak more slowly?" } },
-    { fr: "Avez-vous besoin d'un interprète ?", translations: { en: "Do you need an interpreter?" } },
-    { fr: "Avez-vous un téléphone ?", translations: { en: "Do you have a phone?" } },
-    { fr: "Pouvez-vous appeler quelqu'un qui parle français ?", translations: { en: "Can you call someone who speaks French?" } },
-  ],
+// Badge affiché pour chaque origine de traduction ; seules les traductions non vérifiées peuvent être validées
+const SOURCE_BADGES: Record<
+  TranslationSource,
+  { icon: 'shield-check' | 'account-edit' | 'robot-outline'; color: string; label: string; isVerified: boolean }
+> = {
+  verified: { icon: 'shield-check', color: '#2E7D32', label: 'Vérifiée', isVerified: true },
+  catalog: { icon: 'shield-check', color: '#2E7D32', label: 'Vérifiée', isVerified: true },
+  custom: { icon: 'account-edit', color: '#1565C0', label: 'Traduction personnalisée', isVerified: false },
+  machine: { icon: 'robot-outline', color: '#E65100', label: 'Traduction automatique', isVerified: false },
 };
 
-// Type pour les icônes Material Community
-type MaterialCommunityIconName = 'medical-bag' | 'fire' | 'hand-heart' | 'exit-run' | 'comment-question';
-
-// Type pour les catégories
-interface Category {
-  id: string;
-  name: string;
-  icon: MaterialCommunityIconName;
-}
-
-// Catégories avec icônes
-const CATEGORIES: Category[] = [
-  { id: 'medical', name: 'Médical', icon: 'medical-bag' },
-  { id: 'fire', name: 'Incendie', icon: 'fire' },
-  { id: 'reassurance', name: 'Réconfort', icon: 'hand-heart' },
-  { id: 'evacuation', name: 'Évacuation', icon: 'exit-run' },
-  { id: 'general', name: 'Général', icon: 'comment-question' },
-];
-
 export default function EmergencyPhrasesScreen() {
   const theme = Theme;
+  const router = useRouter();
+  const { categories } = usePhraseCatalog();
   
   const [translatingPhrase, setTranslatingPhrase] = useState<string | null>(null);
   const [targetLanguage, setTargetLanguage] = useState('en');
   const [isTranslating, setIsTranslating] = useState(false);
   const [highVisibilityMode, setHighVisibilityMode] = useState(false);
   const [lastPlayedPhrase, setLastPlayedPhrase] = useState<string | null>(null);
+  // Traductions obtenues par l'API, indexées par langue cible puis par phrase française
+  const [translatedPhrases, setTranslatedPhrases] = useState<Record<string, Record<string, string>>>({});
+  // Phrase en cours de validation ou de correction
+  const [verificationTarget, setVerificationTarget] = useState<{ phrase: Phrase; translation: string; mode: TranslationVerificationMode } | null>(null);
+  const [, setVerificationRevision] = useState(0);
+  // Question lue à laquelle la victime peut répondre par pictogrammes
+  const [answerTarget, setAnswerTarget] = useState<{ phrase: Phrase; question: string; language: string } | null>(null);
+  const { speak, error: speechError } = useTextToSpeech();
   
-  // Fonction pour prononcer une phrase
-  const speakPhrase = async (phrase: string, langCode: string) => {
-    try {
-      // Pour react-native-tts, nous devons utiliser speak directement
-      // car setLanguage n'est pas disponible sur tous les appareils
-      
-      // Prononcer la phrase avec la langue spécifiée
-      const speakPromise = new Promise<void>((resolve, reject) => {
-        try {
-          // Configurer l'écouteur d'événement avant de parler
-          const finishHandler = () => {
-            Tts.removeEventListener('tts-finish', finishHandler);
-            resolve();
-          };
-          
-          const errorHandler = (err: any) => {
-            Tts.removeEventListener('tts-error', errorHandler);
-            reject(err);
-          };
-          
-          // Attendre la fin de la synthèse vocale
-          Tts.addEventListener('tts-finish', finishHandler);
-          Tts.addEventListener('tts-error', errorHandler);
-          
-          // Vérifier si Tts est disponible
-          if (!Tts) {
-            console.error('TTS module is not available');
-            reject(new Error('TTS module is not available'));
-            return;
-          }
-          
-          // D'abord configurer la langue si la méthode existe
-          if (typeof Tts.setDefaultLanguage === 'function') {
-            try {
-              Tts.setDefaultLanguage(langCode);
-            } catch (langError) {
-              console.warn('Error setting TTS language:', langError);
-            }
-          }
-          
-          // Lancer la synthèse vocale si la méthode existe
-          if (typeof Tts.speak === 'function') {
-            Tts.speak(phrase);
-          } else {
-            console.error('TTS speak function is not available');
-            reject(new Error('TTS speak function is not available'));
-          }
-        } catch (innerError) {
-          reject(innerError);
-        }
-      });
-      
-      // Attendre que la promesse soit résolue
-      await speakPromise;
-      return;
-    } catch (error) {
-      console.error('TTS error:', error);
+  // Signaler les phrases qui n'ont pas pu être prononcées
+  useEffect(() => {
+    if (speechError) {
       Alert.alert('Erreur', 'Impossible de prononcer la phrase.');
     }
+  }, [speechError]);
+  
+  // Re-rendre l'écran à chaque validation ou correction de traduction
+  useEffect(() => {
+    const unsubscribe = translationVerificationService.subscribe(() => setVerificationRevision(value => value + 1));
+    translationVerificationService.initialize();
+    return unsubscribe;
+  }, []);
+  
+  // Retourne la traduction connue d'une phrase : vérifiée manuellement, puis prédéfinie ou personnalisée, puis obtenue par l'API
+  const getKnownTranslation = (phrase: Phrase): KnownTranslation | undefined => {
+    const verification = translationVerificationService.getVerification(phrase.fr, 'fr', targetLanguage);
+    if (verification) {
+      return { text: verification.translation, source: 'verified', verification };
+    }
+    
+    const catalogTranslation = phrase.translations[targetLanguage];
+    if (catalogTranslation) {
+      return { text: catalogTranslation, source: phrase.isCustom ? 'custom' : 'catalog' };
+    }
+    
+    const machineTranslation = translatedPhrases[targetLanguage]?.[phrase.fr];
+    return machineTranslation ? { text: machineTranslation, source: 'machine' } : undefined;
   };
-
+  
+  // Pré-traduit en une seule requête groupée les phrases d'une catégorie à son ouverture
+  const pretranslateCategory = async (categoryId: string) => {
+    const missingPhrases = phraseRepository.query({ category: categoryId })
+      .filter(phrase => !getKnownTranslation(phrase))
+      .map(phrase => phrase.fr);
+    if (missingPhrases.length === 0) return;
+    
+    const language = targetLanguage;
+    const results = await translateBatch(missingPhrases, 'fr', language, true);
+    const translations: Record<string, string> = {};
+    results.forEach(result => {
+      if (!result.error && result.text) {
+        translations[result.source] = result.text;
+      }
+    });
+    
+    setTranslatedPhrases(previous => ({
+      ...previous,
+      [language]: { ...previous[language], ...translations }
+    }));
+  };
+  
   // Fonction pour gérer la lecture d'une phrase d'urgence
-  const handleEmergencyPhrase = async (phrase: EmergencyPhrase) => {
+  const handleEmergencyPhrase = async (phrase: Phrase) => {
     // Ne rien faire si déjà en train de traduire/parler
     if (isTranslating || lastPlayedPhrase === phrase.fr) return;
     
@@ -210,33 +133,43 @@ export default function EmergencyPhrasesScreen() {
       }
     }
     
-    // D'abord en français
-    await speakPhrase(phrase.fr, 'fr');
+    // D'abord en français : les phrases d'urgence passent devant les autres lectures
+    speak(phrase.fr, 'fr', { priority: 'emergency' });
     
     // Puis dans la langue cible
     try {
       // Vérifier si nous avons déjà une traduction pour cette phrase
-      let translatedPhrase = phrase.translations[targetLanguage];
+      let translatedPhrase = getKnownTranslation(phrase)?.text;
       
       // Si pas de traduction prédéfinie, utiliser l'API de traduction
       if (!translatedPhrase) {
         setIsTranslating(true);
-        translatedPhrase = await translateText(phrase.fr, 'fr', targetLanguage);
+        const result = await translateTextWithResult(phrase.fr, 'fr', targetLanguage, true);
+        setIsTranslating(false);
         
-        // Vérifier si la traduction est une erreur
-        if (translatedPhrase.startsWith('[') && translatedPhrase.endsWith(']')) {
-          // L'erreur a déjà été gérée par le service de traduction
-          // Ne pas prononcer les messages d'erreur
-          setIsTranslating(false);
-          setTranslatingPhrase('');
+        // Ne pas prononcer les messages d'erreur, mais informer l'utilisateur
+        if (result.error) {
+          Alert.alert('Traduction indisponible', getTranslationErrorMessage(result.error));
           return;
         }
         
-        setIsTranslating(false);
+        translatedPhrase = result.text;
+        if (!result.isVerified) {
+          setTranslatedPhrases(previous => ({
+            ...previous,
+            [result.targetLang]: { ...previous[result.targetLang], [phrase.fr]: result.text }
+          }));
+        }
       }
       
       // Prononcer la phrase traduite
-      await speakPhrase(translatedPhrase, targetLanguage);
+      const language = targetLanguage;
+      await speak(translatedPhrase, language, { priority: 'emergency' });
+      
+      // Proposer à la victime de répondre si la phrase est une question
+      if (phrase.answerType) {
+        setAnswerTarget({ phrase, question: translatedPhrase, language });
+      }
     } catch (error) {
       console.error('Translation or TTS error:', error);
       Alert.alert('Erreur', 'Impossible de traduire ou prononcer la phrase.');
@@ -245,14 +178,31 @@ export default function EmergencyPhrasesScreen() {
     }
   };
 
+  // Enregistrer la réponse de la victime dans la transcription
+  const handleAnswer = async (answer: PhraseAnswer) => {
+    if (!answerTarget) return;
+    const { phrase, language } = answerTarget;
+    setAnswerTarget(null);
+    try {
+      await recordAnswer(phrase, answer, language);
+      Alert.alert('Réponse enregistrée', describeAnswer(phrase, answer));
+    } catch (error) {
+      console.error('Answer recording error:', error);
+      Alert.alert('Erreur', 'Impossible d\'enregistrer la réponse.');
+    }
+  };
+
   // Rendu d'une phrase
-  const renderPhrase = (phrase: EmergencyPhrase, index: number) => {
+  const renderPhrase = (phrase: Phrase) => {
     const isActive = translatingPhrase === phrase.fr;
     const wasLastPlayed = lastPlayedPhrase === phrase.fr;
+    const translation = getKnownTranslation(phrase);
+    const badge = translation && SOURCE_BADGES[translation.source];
+    const isPinned = phraseRepository.isPinned(phrase.id);
     
     return (
       <TouchableOpacity 
-        key={index} 
+        key={phrase.id} 
         style={[
           styles.phraseCard,
           isActive && styles.activeCard,
@@ -276,18 +226,59 @@ export default function EmergencyPhrasesScreen() {
           </Text>
           
           {/* Traduction si disponible */}
-          {phrase.translations[targetLanguage] && (
-            <Text 
-              style={[
-                styles.translationText,
-                highVisibilityMode && styles.highVisibilityTranslation
-              ]}
-            >
-              {phrase.translations[targetLanguage]}
-            </Text>
+          {translation && badge && (
+            <>
+              <Text 
+                style={[
+                  styles.translationText,
+                  highVisibilityMode && styles.highVisibilityTranslation
+                ]}
+              >
+                {translation.text}
+              </Text>
+              
+              {/* Statut de la traduction : vérifiée, personnalisée ou automatique */}
+              <View style={styles.verificationRow}>
+                <View style={[styles.verificationBadge, styles[`${translation.source}Badge`]]}>
+                  <MaterialCommunityIcons name={badge.icon} size={14} color={badge.color} />
+                  <Text style={[styles.verificationBadgeText, { color: badge.color }]}>
+                    {translation.verification
+                      ? `${translation.verification.correctedFrom ? 'Corrigée' : 'Vérifiée'} par ${translation.verification.verifiedBy}`
+                      : badge.label}
+                  </Text>
+                </View>
+                
+                {!badge.isVerified && (
+                  <TouchableOpacity
+                    style={styles.verificationAction}
+                    onPress={() => setVerificationTarget({ phrase, translation: translation.text, mode: 'verify' })}
+                  >
+                    <MaterialCommunityIcons name="check-decagram-outline" size={20} color="#2E7D32" />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.verificationAction}
+                  onPress={() => setVerificationTarget({ phrase, translation: translation.text, mode: 'correct' })}
+                >
+                  <MaterialCommunityIcons name="flag-outline" size={20} color={theme.colors.secondary} />
+                </TouchableOpacity>
+              </View>
+            </>
           )}
         </View>
         
+        {/* Épingler la phrase dans la barre d'accès rapide de l'accueil */}
+        <TouchableOpacity
+          style={styles.pinButton}
+          onPress={() => phraseRepository.setPinned(phrase.id, !isPinned)}
+        >
+          <MaterialCommunityIcons
+            name={isPinned ? "pin" : "pin-outline"}
+            size={22}
+            color={isPinned ? theme.colors.secondary : "#999999"}
+          />
+        </TouchableOpacity>
+        
         {/* Indicateur de chargement ou bouton de lecture */}
         <TouchableOpacity 
           style={[
@@ -316,6 +307,8 @@ export default function EmergencyPhrasesScreen() {
       <StandardHeader 
         title="Phrases d'urgence"
         showLogo={false}
+        rightIcon="playlist-edit"
+        onRightIconPress={() => router.push('/phrase-editor')}
       />
       
       <AppCard
@@ -347,7 +340,7 @@ export default function EmergencyPhrasesScreen() {
       </AppCard>
       
       <ScrollView style={styles.scrollView} contentContainerStyle={{ paddingBottom: 20 }}>
-        {CATEGORIES.map((category) => (
+        {categories.map((category) => (
           <Collapsible 
             key={category.id} 
             title={
@@ -372,24 +365,50 @@ export default function EmergencyPhrasesScreen() {
               {...styles.categoryContainer, ...styles.highVisibilityCategoryContainer} : 
               styles.categoryContainer
             }
+            onToggle={(isOpen) => {
+              if (isOpen) pretranslateCategory(category.id);
+            }}
           >
             <View style={styles.phrasesContainer}>
-              {EMERGENCY_PHRASES[category.id].map((phrase, index) => 
-                renderPhrase(phrase, index)
-              )}
+              {phraseRepository.query({ category: category.id }).map(renderPhrase)}
             </View>
           </Collapsible>
         ))}
         
         <View style={styles.infoContainer}>
           <Text style={styles.infoText}>
-            Appuyez sur une phrase pour l&#39;écouter en français puis dans la langue sélectionnée.
+            Appuyez sur une phrase pour l&#39;écouter en français puis dans la langue sélectionnée. Après une question, la victime peut répondre en touchant des pictogrammes : sa réponse est ajoutée à la transcription avec sa signification en français.
+          </Text>
+          <Text style={styles.infoText}>
+            Touchez l&#39;épingle pour afficher une phrase sur l&#39;écran d&#39;accueil. Le bouton en haut à droite permet d&#39;ajouter vos propres phrases et catégories.
+          </Text>
+          <Text style={styles.infoText}>
+            Les traductions automatiques peuvent être validées par un interprète ou signalées comme fausses avec une correction : les traductions vérifiées sont ensuite toujours utilisées en priorité.
           </Text>
           <Text style={styles.infoText}>
             Ces phrases sont conçues pour aider les sapeurs-pompiers à communiquer avec des personnes ne parlant pas français lors d&#39;interventions d&#39;urgence.
           </Text>
         </View>
       </ScrollView>
+      
+      <TranslationVerificationModal
+        visible={verificationTarget !== null}
+        mode={verificationTarget?.mode ?? 'verify'}
+        sourceText={verificationTarget?.phrase.fr ?? ''}
+        sourceLang="fr"
+        targetLang={targetLanguage}
+        translation={verificationTarget?.translation ?? ''}
+        onClose={() => setVerificationTarget(null)}
+      />
+      
+      <PhraseAnswerPanel
+        visible={answerTarget !== null}
+        answerType={answerTarget?.phrase.answerType ?? null}
+        question={answerTarget?.question ?? ''}
+        language={answerTarget?.language ?? targetLanguage}
+        onAnswer={handleAnswer}
+        onClose={() => setAnswerTarget(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -529,6 +548,43 @@ const styles = StyleSheet.create({
     color: '#666666',
     fontStyle: 'italic',
   },
+  verificationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  verificationBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  verifiedBadge: {
+    backgroundColor: 'rgba(46, 125, 50, 0.1)',
+  },
+  catalogBadge: {
+    backgroundColor: 'rgba(46, 125, 50, 0.1)',
+  },
+  customBadge: {
+    backgroundColor: 'rgba(21, 101, 192, 0.1)',
+  },
+  machineBadge: {
+    backgroundColor: 'rgba(230, 81, 0, 0.1)',
+  },
+  verificationBadgeText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  verificationAction: {
+    padding: 4,
+    marginLeft: 6,
+  },
+  pinButton: {
+    padding: 8,
+    marginRight: 6,
+  },
   speakButton: {
     backgroundColor: '#144291',
     width: 48,
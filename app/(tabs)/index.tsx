@@ -1,5 +1,6 @@
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
@@ -12,6 +13,9 @@ import {
   View,
 } from 'react-native';
 
+import { LanguageCandidateChips } from '../../components/LanguageCandidateChips';
+import { TranscriptExportModal } from '../../components/TranscriptExportModal';
+
 // Composants optimisés
 import {
   MemoizedLanguagePicker,
@@ -19,21 +23,33 @@ import {
 } from '../../components/optimized/MemoizedComponents';
 
 // Hooks d'optimisation
+import { useAudioCapture } from '../../hooks/useAudioCapture';
+import { useConversation } from '../../hooks/useConversation';
 import { useOptimizedHomeScreenStyles } from '../../hooks/useHomeScreenOptimization';
+import { usePhraseCatalog } from '../../hooks/usePhraseCatalog';
+import { useSpeechRecognition } from '../../hooks/useSpeechRecognition';
+import { useTextToSpeech } from '../../hooks/useTextToSpeech';
 
 // Services et utilitaires
 import { Colors } from '../../constants/Colors';
-import { detectLanguageFromText } from '../../services/languageDetectionService';
-import { LANGUAGES, translateText, downloadLanguage } from '../../services/translationService';
-
-// Phrases d'urgence locales
-const emergencyPhrases = [
-  { fr: "J'ai besoin d'aide", en: "I need help" },
-  { fr: "Appelez un médecin", en: "Call a doctor" },
-  { fr: "Où est l'hôpital ?", en: "Where is the hospital?" },
-  { fr: "Je ne me sens pas bien", en: "I don't feel well" },
-  { fr: "Au secours !", en: "Help!" }
-];
+import { audioCaptureService, AudioClipAnalysis } from '../../services/audioCaptureService';
+import { ConversationTurn, conversationModeService } from '../../services/conversationModeService';
+import { conversationSessionService } from '../../services/conversationSessionService';
+import { detectLanguageFromText, getCloseCandidates } from '../../services/languageDetectionService';
+import { getLanguageName, getSpeechLocale, isSupportedLanguage, LANGUAGES } from '../../services/languageRegistry';
+import {
+  downloadLanguage,
+  getTranslationErrorMessage,
+  translateTextWithResult
+} from '../../services/translationService';
+import {
+  AudioClip,
+  LanguageCandidate,
+  Phrase,
+  SpeechRecognitionErrorType,
+  TranslationError,
+  TranslationErrorType
+} from '../../services/types';
 
 // Types pour notre application
 interface ConversationEntry {
@@ -44,57 +60,61 @@ interface ConversationEntry {
   timestamp: string;
 }
 
-interface EmergencyPhrase {
-  fr: string;
-  en: string;
+// Texte en attente de traduction tant que l'utilisateur n'a pas choisi sa langue
+interface PendingLanguageChoice {
+  text: string;
+  candidates: LanguageCandidate[];
+  // Enregistrement de l'énoncé, à joindre au tour de parole une fois la langue choisie
+  audioUri?: string;
 }
 
-// Services factices pour éviter les erreurs
-const conversationModeService = {
-  isActive: () => false,
-  getCurrentParticipant: () => null,
-  nextParticipant: () => {},
-  getParticipants: () => [],
-  setActive: (active: boolean) => {},
-  processTextInput: (text: string) => text
-};
+// Convertir les tours de parole de la session en cours pour l'historique
+const toConversationEntries = (turns: ConversationTurn[]): ConversationEntry[] =>
+  turns.map(turn => ({
+    original: turn.originalText,
+    translated: turn.translatedText ?? '',
+    sourceLanguage: turn.detectedLanguage,
+    targetLanguage: turn.targetLanguage ?? '',
+    timestamp: new Date(turn.timestamp).toISOString(),
+  }));
 
 function HomeScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme === 'dark' ? 'dark' : 'light'];
+  // Phrases épinglées dans la barre d'accès rapide
+  const { pinnedPhrases: emergencyPhrases } = usePhraseCatalog();
 
   const styles = useOptimizedHomeScreenStyles(colorScheme);
 
-  const [isListening, setIsListening] = useState(false);
   const [spokenText, setSpokenText] = useState('');
   const [translatedText, setTranslatedText] = useState('');
+  const [translationError, setTranslationError] = useState<TranslationError | null>(null);
   const [sourceLanguage, setSourceLanguage] = useState('fr');
   const [targetLanguage, setTargetLanguage] = useState('en');
   const [isTranslating, setIsTranslating] = useState(false);
+  // Langue choisie par la victime sur l'écran « Montrez votre langue »
+  const { targetLanguage: pickedLanguage, pickedAt } = useLocalSearchParams<{ targetLanguage?: string; pickedAt?: string }>();
+  const router = useRouter();
   const [autoDetectLanguage, setAutoDetectLanguage] = useState(false);
   const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
+  const [unsupportedLanguage, setUnsupportedLanguage] = useState<string | null>(null);
+  const [pendingLanguageChoice, setPendingLanguageChoice] = useState<PendingLanguageChoice | null>(null);
   const [downloadedLanguages, setDownloadedLanguages] = useState<string[]>([]);
   const [conversationHistory, setConversationHistory] = useState<ConversationEntry[]>([]);
-  const [conversationModeActive, setConversationModeActive] = useState(false);
+  const [exportSessionId, setExportSessionId] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(true);
 
   const scrollViewRef = useRef<ScrollView>(null);
 
-  // Lire le texte traduit (avec useCallback pour éviter les dépendances cycliques)
-  const speakText = useCallback(async (text: string) => {
-    try {
-      // Dans une vraie application, nous utiliserions une API de synthèse vocale plus complète
-      // Pour l'exemple, nous utilisons simplement console.log sans options spécifiques
-      console.log(text);
-    } catch (error) {
-      console.error('TTS error:', error);
-    }
-  }, []);
+  // Lecture à haute voix des traductions (file partagée avec les autres écrans)
+  const { speak } = useTextToSpeech();
+
+  // Mode conversation partagé avec l'écran Conversation
+  const { isActive: conversationModeActive } = useConversation();
 
   // Gérer le changement de mode conversation
   const handleConversationModeToggle = useCallback(() => {
     const newState = !conversationModeActive;
-    setConversationModeActive(newState);
     conversationModeService.setActive(newState);
     
     // Si on active le mode conversation, activer aussi la détection automatique de langue
@@ -104,28 +124,66 @@ function HomeScreen() {
   }, [conversationModeActive, autoDetectLanguage]);
 
   // Utiliser useCallback pour éviter les dépendances cycliques
-  const translateTextCallback = useCallback(async (text: string) => {
+  // La langue source peut être imposée (langue choisie parmi les candidates de la détection)
+  // et l'enregistrement de l'énoncé joint au tour de parole
+  const translateTextCallback = useCallback(async (text: string, chosenSourceLanguage?: string, audioUri?: string) => {
     if (!text) return;
     
     setIsTranslating(true);
+    setTranslationError(null);
+    setPendingLanguageChoice(null);
+    setUnsupportedLanguage(null);
     
     try {
+      // En mode conversation, le service attribue l'énoncé au participant qui parle et le traduit pour les autres
+      const outcome = conversationModeActive
+        ? await conversationModeService.processTextInput(text, chosenSourceLanguage, audioUri)
+        : null;
+      if (outcome) {
+        const closeCandidates = outcome.detection ? getCloseCandidates(outcome.detection) : [];
+        if (outcome.turn) {
+          const { turn } = outcome;
+          setDetectedLanguage(turn.detectedLanguage);
+          setSourceLanguage(turn.detectedLanguage);
+          setTargetLanguage(turn.targetLanguage ?? targetLanguage);
+          setTranslatedText(turn.translatedText ?? '');
+          if (turn.translatedText && turn.targetLanguage) {
+            speak(turn.translatedText, turn.targetLanguage);
+          }
+        } else if (closeCandidates.length > 0) {
+          setDetectedLanguage(null);
+          setPendingLanguageChoice({ text, candidates: closeCandidates, audioUri });
+        } else {
+          setTranslatedText('');
+          setTranslationError(outcome.error ?? {
+            type: TranslationErrorType.UNKNOWN_ERROR,
+            message: 'Impossible de traduire cet énoncé'
+          });
+        }
+        return;
+      }
+      
       // Si la détection automatique est activée, détecter la langue du texte
-      let sourceLang = sourceLanguage;
+      let sourceLang = chosenSourceLanguage ?? sourceLanguage;
       
-      if (autoDetectLanguage) {
+      if (autoDetectLanguage && !chosenSourceLanguage) {
         try {
-          const detectionResult = await detectLanguageFromText(text);
-          if (detectionResult.isReliable) {
+          const detectionResult = await detectLanguageFromText(text, conversationModeService.getDetectionHints());
+          const closeCandidates = getCloseCandidates(detectionResult);
+          if (detectionResult.status === 'unsupported') {
+            setUnsupportedLanguage(detectionResult.detectedLanguage);
+          }
+          
+          if (closeCandidates.length > 0) {
+            // Plusieurs langues proches : attendre le choix de l'utilisateur avant de traduire
+            setDetectedLanguage(null);
+            setPendingLanguageChoice({ text, candidates: closeCandidates, audioUri });
+            return;
+          } else if (detectionResult.isReliable) {
             sourceLang = detectionResult.detectedLanguage;
             setDetectedLanguage(sourceLang);
             // Mettre à jour l'état de la langue source pour l'interface utilisateur
             setSourceLanguage(sourceLang);
-            
-            // Si le mode conversation est actif, traiter le texte avec le service de conversation
-            if (conversationModeActive) {
-              await conversationModeService.processTextInput(text);
-            }
           } else {
             // Si la détection n'est pas fiable, utiliser la langue source définie
             setDetectedLanguage(null);
@@ -138,40 +196,94 @@ function HomeScreen() {
         setDetectedLanguage(null);
       }
       
-      // Utiliser notre service de traduction amélioré avec l'API Google Cloud Translation
-      const translatedResult = await translateText(text, sourceLang, targetLanguage);
+      // Utiliser notre service de traduction avec résultat structuré
+      const result = await translateTextWithResult(text, sourceLang, targetLanguage);
       
-      // Vérifier si la traduction est une erreur (format [message d'erreur])
-      if (translatedResult.startsWith('[') && translatedResult.endsWith(']')) {
-        // L'erreur a déjà été gérée par le service de traduction
+      if (result.error) {
         // Nous n'ajoutons pas les erreurs à l'historique de conversation
-        setTranslatedText(translatedResult);
+        setTranslatedText('');
+        setTranslationError(result.error);
       } else {
         // Traduction réussie
-        setTranslatedText(translatedResult);
+        setTranslatedText(result.text);
         
-        // Ajouter à l'historique de conversation
-        const newEntry: ConversationEntry = {
-          original: text,
-          translated: translatedResult,
-          sourceLanguage: autoDetectLanguage && detectedLanguage ? detectedLanguage : sourceLanguage,
+        // Enregistrer le tour de parole dans la session d'intervention (l'historique suit la session)
+        conversationModeService.recordTurn({
+          originalText: text,
+          translatedText: result.text,
+          sourceLanguage: sourceLang,
           targetLanguage,
-          timestamp: new Date().toISOString(),
-        };
-        
-        setConversationHistory(prevHistory => [...prevHistory, newEntry]);
+          audioUri,
+        });
         
         // Lire la traduction à haute voix
-        speakText(translatedResult);
+        speak(result.text, targetLanguage);
       }
     } catch (error) {
       console.error('Translation error:', error);
       // Cette partie ne devrait pas être atteinte car les erreurs sont gérées dans le service de traduction
-      setTranslatedText(`[Erreur de traduction]`);
+      setTranslatedText('');
+      setTranslationError({
+        type: TranslationErrorType.UNKNOWN_ERROR,
+        message: error instanceof Error ? error.message : String(error)
+      });
     } finally {
       setIsTranslating(false);
     }
-  }, [sourceLanguage, targetLanguage, speakText, autoDetectLanguage, detectedLanguage, conversationModeActive]);
+  }, [sourceLanguage, targetLanguage, speak, autoDetectLanguage, conversationModeActive]);
+
+  // Reconnaissance vocale : le texte dicté s'affiche au fil de l'eau et chaque énoncé final est traduit
+  const {
+    isListening,
+    isSpeechDetected,
+    partialText,
+    error: speechError,
+    start: startListening,
+    stop: stopListening,
+  } = useSpeechRecognition(translateTextCallback);
+
+  // Énoncé enregistré puis analysé en ligne : langue détectée sur l'audio, transcription traduite
+  const handleAnalyzedClip = useCallback((clip: AudioClip, analysis: AudioClipAnalysis | null) => {
+    if (!analysis?.transcript) {
+      audioCaptureService.deleteClip(clip.uri);
+      Alert.alert('Enregistrement', 'Aucune parole n\'a été reconnue dans l\'enregistrement.');
+      return;
+    }
+    setSpokenText(analysis.transcript);
+    translateTextCallback(
+      analysis.transcript,
+      analysis.detection.isReliable ? analysis.detection.detectedLanguage : undefined,
+      clip.uri
+    );
+  }, [translateTextCallback]);
+
+  const detectionHints = conversationModeService.getDetectionHints();
+  const candidateLanguages = Array.from(new Set([
+    ...(detectionHints.participantLanguages ?? []),
+    ...(detectionHints.recentLanguages ?? []),
+  ]));
+  const {
+    isRecording,
+    isAnalyzing,
+    durationMs: recordingDurationMs,
+    start: startRecording,
+    stop: stopRecording,
+  } = useAudioCapture(handleAnalyzedClip, sourceLanguage, candidateLanguages.length > 0 ? candidateLanguages : undefined);
+
+  useEffect(() => {
+    if (partialText) {
+      setSpokenText(partialText);
+    }
+  }, [partialText]);
+
+  useEffect(() => {
+    if (!speechError || speechError.type === SpeechRecognitionErrorType.NO_MATCH) return;
+    if (speechError.type === SpeechRecognitionErrorType.PERMISSION_DENIED) {
+      Alert.alert('Microphone', 'Autorisez l\'accès au microphone pour utiliser la reconnaissance vocale.');
+    } else {
+      Alert.alert('Reconnaissance vocale', 'La reconnaissance vocale est indisponible. Vous pouvez utiliser les phrases prédéfinies.');
+    }
+  }, [speechError]);
 
   // Initialisation
   useEffect(() => {
@@ -189,17 +301,61 @@ function HomeScreen() {
     loadDownloadedLanguages();
   }, []);
 
+  // Appliquer la langue choisie par la victime
+  useEffect(() => {
+    if (pickedLanguage && isSupportedLanguage(pickedLanguage)) {
+      setTargetLanguage(pickedLanguage);
+    }
+  }, [pickedLanguage, pickedAt]);
+
+  // Exporter la transcription de la session en cours
+  const openTranscriptExport = () => {
+    const session = conversationSessionService.getActiveSession();
+    if (!session) {
+      Alert.alert('Aucune session en cours', 'La session d\'intervention a été terminée : exportez-la depuis l\'onglet Conversation.');
+      return;
+    }
+    setExportSessionId(session.id);
+  };
+
+  // Afficher l'historique de la session d'intervention en cours, conservé entre les écrans
+  useEffect(() => {
+    const updateHistory = () => {
+      setConversationHistory(toConversationEntries(conversationSessionService.getActiveSession()?.turns ?? []));
+    };
+    const unsubscribe = conversationSessionService.subscribe(updateHistory);
+    conversationModeService.restoreActiveSession().then(updateHistory);
+    return unsubscribe;
+  }, []);
+
+  // Démarrer/arrêter l'enregistrement analysé en ligne
+  const toggleRecording = async () => {
+    try {
+      if (isRecording) {
+        await stopRecording();
+      } else {
+        setSpokenText('');
+        setTranslatedText('');
+        setTranslationError(null);
+        await startRecording();
+      }
+    } catch (error) {
+      console.error('Toggle recording error:', error);
+      Alert.alert('Microphone', 'Impossible de démarrer l\'enregistrement.');
+    }
+  };
+
   // Démarrer/arrêter la reconnaissance vocale
   const toggleListening = async () => {
     try {
       if (isListening) {
-        // Arrêter la reconnaissance vocale
-        setIsListening(false);
+        // Arrêter l'écoute : le résultat final déclenche la traduction
+        await stopListening();
       } else {
-        // Démarrer la reconnaissance vocale
         setSpokenText('');
-        console.log('Starting voice recognition in language:', sourceLanguage);
-        setIsListening(true);
+        setTranslatedText('');
+        setTranslationError(null);
+        await startListening(getSpeechLocale(sourceLanguage));
       }
     } catch (error) {
       console.error('Toggle listening error:', error);
@@ -244,8 +400,16 @@ function HomeScreen() {
     }
   };
 
+  // Traduire le texte en attente dans la langue choisie parmi les candidates de la détection
+  const selectCandidateLanguage = (language: string) => {
+    if (!pendingLanguageChoice) return;
+    setSourceLanguage(language);
+    setDetectedLanguage(language);
+    translateTextCallback(pendingLanguageChoice.text, language, pendingLanguageChoice.audioUri);
+  };
+
   // Utiliser une phrase d'urgence prédéfinie
-  const handleEmergencyPhrase = (phrase: EmergencyPhrase) => {
+  const handleEmergencyPhrase = (phrase: Phrase) => {
     setSpokenText(phrase.fr);
     translateTextCallback(phrase.fr);
   };
@@ -279,6 +443,8 @@ function HomeScreen() {
                 onLanguageChange={(value: string) => {
                   setSourceLanguage(value);
                   setDetectedLanguage(null);
+                  setUnsupportedLanguage(null);
+                  setPendingLanguageChoice(null);
                 }}
                 languages={LANGUAGES}
                 style={[styles.picker, autoDetectLanguage ? {opacity: 0.7} : {}]}
@@ -294,9 +460,21 @@ function HomeScreen() {
             </View>
             {detectedLanguage && (
               <Text style={styles.detectedLanguageText}>
-                Langue détectée: {LANGUAGES.find(l => l.code === detectedLanguage)?.name}
+                Langue détectée: {getLanguageName(detectedLanguage)}
+              </Text>
+            )}
+            {unsupportedLanguage && (
+              <Text style={[styles.detectedLanguageText, { color: colors.error }]}>
+                Langue non prise en charge: {unsupportedLanguage}
               </Text>
             )}
+            {pendingLanguageChoice && (
+              <LanguageCandidateChips
+                candidates={pendingLanguageChoice.candidates}
+                onSelect={selectCandidateLanguage}
+                primaryColor={colors.primary}
+              />
+            )}
           </View>
         </View>
 
@@ -316,8 +494,9 @@ function HomeScreen() {
                 onLanguageChange={(value: string) => {
                   setTargetLanguage(value);
                   if (spokenText) {
-                    translateText(spokenText, sourceLanguage, value).then(result => {
-                      setTranslatedText(result);
+                    translateTextWithResult(spokenText, sourceLanguage, value).then(result => {
+                      setTranslatedText(result.text);
+                      setTranslationError(result.error ?? null);
                     });
                   }
                 }}
@@ -326,6 +505,13 @@ function HomeScreen() {
                 colors={colors}
               />
             </View>
+            <TouchableOpacity
+              style={styles.languagePickerButton}
+              onPress={() => router.push('/language-picker')}
+              accessibilityLabel="Demander sa langue à la victime"
+            >
+              <Ionicons name="hand-left" size={20} color="#fff" />
+            </TouchableOpacity>
             {!downloadedLanguages.includes(targetLanguage) && (
               <TouchableOpacity
                 style={styles.downloadButton}
@@ -345,9 +531,9 @@ function HomeScreen() {
           <Text style={styles.sectionTitle}>Phrases d&apos;urgence</Text>
         </View>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-          {emergencyPhrases.map((phrase, index) => (
+          {emergencyPhrases.map((phrase) => (
             <TouchableOpacity
-              key={index}
+              key={phrase.id}
               style={styles.phraseButton}
               onPress={() => handleEmergencyPhrase(phrase)}
             >
@@ -382,31 +568,54 @@ function HomeScreen() {
               <ActivityIndicator size="small" color={colors.primary} />
               <Text style={styles.loadingText}>Traduction en cours...</Text>
             </View>
+          ) : translationError ? (
+            <View style={styles.translationErrorContainer}>
+              <Ionicons
+                name={translationError.type === TranslationErrorType.NETWORK_ERROR ? 'cloud-offline' : 'alert-circle'}
+                size={20}
+                color={colors.error}
+              />
+              <Text style={styles.translationErrorText}>
+                {getTranslationErrorMessage(translationError)}
+              </Text>
+            </View>
           ) : translatedText ? (
             <MemoizedMessageBubble
               text={translatedText}
               isSource={false}
               language={targetLanguage}
-              onSpeak={() => speakText(translatedText)}
+              onSpeak={() => speak(translatedText, targetLanguage, { interrupt: true })}
               colors={colors}
             />
           ) : null}
         </View>
 
         <View style={styles.toolbarContainer}>
+          <TouchableOpacity
+            style={[styles.recordButton, (isListening || isAnalyzing) && { opacity: 0.4 }]}
+            onPress={toggleRecording}
+            disabled={isListening || isAnalyzing}
+            accessibilityLabel={isRecording ? 'Arrêter l\'enregistrement' : 'Enregistrer pour la détection en ligne'}
+          >
+            <Ionicons name={isRecording ? 'stop' : 'radio-button-on'} size={20} color={colors.error} />
+          </TouchableOpacity>
+
           <TouchableOpacity 
-            style={styles.micButton}
+            style={[styles.micButton, (isRecording || isAnalyzing) && { opacity: 0.4 }]}
             onPress={toggleListening}
+            disabled={isRecording || isAnalyzing}
           >
             <Ionicons name={isListening ? 'mic-off' : 'mic'} size={28} color="#fff" />
           </TouchableOpacity>
           
-          {(spokenText || translatedText) && (
+          {(spokenText || translatedText || translationError || pendingLanguageChoice) && (
             <TouchableOpacity 
               style={styles.clearButton}
               onPress={() => {
                 setSpokenText('');
                 setTranslatedText('');
+                setTranslationError(null);
+                setPendingLanguageChoice(null);
               }}
             >
               <Ionicons name="close" size={20} color={colors.text} />
@@ -417,7 +626,18 @@ function HomeScreen() {
         {isListening && (
           <View style={styles.recordingStatusContainer}>
             <View style={styles.recordingIndicator} />
-            <Text style={styles.recordingText}>Écoute en cours...</Text>
+            <Text style={styles.recordingText}>{isSpeechDetected ? 'Parole détectée...' : 'Écoute en cours...'}</Text>
+          </View>
+        )}
+
+        {(isRecording || isAnalyzing) && (
+          <View style={styles.recordingStatusContainer}>
+            <View style={styles.recordingIndicator} />
+            <Text style={styles.recordingText}>
+              {isRecording
+                ? `Enregistrement... ${Math.floor(recordingDurationMs / 1000)} s`
+                : 'Analyse de l\'enregistrement...'}
+            </Text>
           </View>
         )}
       </View>
@@ -426,6 +646,14 @@ function HomeScreen() {
       <View style={styles.sectionHeader}>
         <Ionicons name="time-outline" size={20} color={colors.primary} />
         <Text style={styles.sectionTitle}>Historique de conversation</Text>
+        {conversationHistory.length > 0 && (
+          <TouchableOpacity
+            style={{ marginLeft: 'auto', padding: 4 }}
+            onPress={openTranscriptExport}
+          >
+            <Ionicons name="share-outline" size={20} color={colors.primary} />
+          </TouchableOpacity>
+        )}
       </View>
       <View style={styles.historyContainer}>
         <ScrollView 
@@ -465,6 +693,8 @@ function HomeScreen() {
         
 
       </ScrollView>
+      
+      <TranscriptExportModal sessionId={exportSessionId} onClose={() => setExportSessionId(null)} />
     </SafeAreaView>
   );
 }
@@ -0,0 +1,311 @@
+import { PhraseResponder } from '@/components/PhraseResponder';
+import { AppButton } from '@/components/ui/AppButton';
+import { AppCard } from '@/components/ui/AppCard';
+import { StandardHeader } from '@/components/ui/AppHeader';
+import { Colors } from '@/constants/Colors';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { conversationModeService } from '@/services/conversationModeService';
+import { getTextDirection, LANGUAGES } from '@/services/languageRegistry';
+import { describeAnswerMeaning, recordAnswer } from '@/services/phraseAnswerService';
+import {
+  buildTriageSummary,
+  getNextQuestionId,
+  getTriageFlows,
+  getTriageQuestion,
+  resolveTriagePhrase,
+  translateTriagePhrase
+} from '@/services/triageService';
+import { PhraseAnswer, TriageAnswerRecord, TriageFlow } from '@/services/types';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+
+/**
+ * Bilans guidés : questionnaires SAMPLE, OPQRST...
+ * Chaque question est lue en français puis dans la langue de la victime, qui
+ * répond par pictogrammes ; la question suivante dépend de sa réponse. À la
+ * fin du bilan, les réponses retenues sont ajoutées à la transcription et
+ * résumées en français ; un bilan abandonné n'est pas enregistré
+ */
+export default function TriageScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme === 'dark' ? 'dark' : 'light'];
+  const { speak, stop } = useTextToSpeech();
+  const flows = useMemo(() => getTriageFlows(), []);
+
+  const [language, setLanguage] = useState(
+    () => conversationModeService.getParticipants()[1]?.preferredLanguage ?? 'en'
+  );
+  const [flow, setFlow] = useState<TriageFlow | null>(null);
+  const [questionId, setQuestionId] = useState<string | null>(null);
+  const [records, setRecords] = useState<TriageAnswerRecord[]>([]);
+  // Question traduite dans la langue de la victime (null tant qu'elle n'est pas prête)
+  const [questionText, setQuestionText] = useState<string | null>(null);
+
+  const question = useMemo(
+    () => (flow && questionId ? getTriageQuestion(flow, questionId) : undefined),
+    [flow, questionId]
+  );
+  const phrase = useMemo(() => (flow && question ? resolveTriagePhrase(flow, question) : undefined), [flow, question]);
+  const isFinished = flow !== null && questionId === null;
+
+  // Poser chaque nouvelle question : en français puis dans la langue de la victime
+  useEffect(() => {
+    if (!question || !phrase) return;
+    let cancelled = false;
+    setQuestionText(null);
+    speak(phrase.fr, 'fr', { priority: 'emergency' });
+
+    translateTriagePhrase(question, phrase, language).then(translation => {
+      if (cancelled) return;
+      if (!translation) {
+        setQuestionText(phrase.fr);
+        Alert.alert('Traduction indisponible', 'La question n\'a pas pu être traduite : montrez-la en français.');
+        return;
+      }
+      setQuestionText(translation);
+      speak(translation, language, { priority: 'emergency' });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [question, phrase, language, speak]);
+
+  // Relire la question en cours
+  const repeatQuestion = () => {
+    if (!phrase) return;
+    speak(phrase.fr, 'fr', { priority: 'emergency' });
+    if (questionText && questionText !== phrase.fr) {
+      speak(questionText, language, { priority: 'emergency' });
+    }
+  };
+
+  const startFlow = (selected: TriageFlow) => {
+    setRecords([]);
+    setFlow(selected);
+    setQuestionId(selected.start);
+  };
+
+  const closeFlow = () => {
+    stop();
+    setFlow(null);
+    setQuestionId(null);
+    setRecords([]);
+  };
+
+  // Conserver la réponse et passer à la question suivante ; à la fin, enregistrer les réponses dans la transcription
+  const handleAnswer = (answer: PhraseAnswer) => {
+    if (!question || !phrase) return;
+    const answered = [...records, { question, phrase, answer, language }];
+    const nextQuestionId = getNextQuestionId(question, answer);
+    setRecords(answered);
+    setQuestionId(nextQuestionId);
+    if (nextQuestionId === null) {
+      recordAnswers(answered);
+    }
+  };
+
+  // Ajouter les réponses du bilan à la transcription, dans l'ordre des questions
+  const recordAnswers = async (answered: TriageAnswerRecord[]) => {
+    try {
+      for (const record of answered) {
+        await recordAnswer(record.phrase, record.answer, record.language);
+      }
+    } catch (error) {
+      console.error('Triage answer recording error:', error);
+      Alert.alert('Erreur', 'Impossible d\'enregistrer les réponses du bilan.');
+    }
+  };
+
+  // Revenir à la question précédente pour corriger la réponse
+  const goBack = () => {
+    const last = records[records.length - 1];
+    if (!last) return;
+    setRecords(previous => previous.slice(0, -1));
+    setQuestionId(last.question.id);
+  };
+
+  const renderFlowList = () => (
+    <>
+      <AppCard
+        title="Langue de la victime"
+        icon="translate"
+        style={{ marginVertical: 10, marginHorizontal: 16 }}
+      >
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={language}
+            style={styles.picker}
+            onValueChange={value => setLanguage(value)}
+            dropdownIconColor={colors.primary}
+          >
+            {LANGUAGES.filter(lang => lang.code !== 'fr').map(lang => (
+              <Picker.Item key={lang.code} label={lang.name} value={lang.code} />
+            ))}
+          </Picker>
+        </View>
+      </AppCard>
+
+      {flows.map(item => (
+        <AppCard
+          key={item.id}
+          title={item.title}
+          subtitle={item.description}
+          icon="clipboard-pulse"
+          onPress={() => startFlow(item)}
+          style={{ marginVertical: 10, marginHorizontal: 16 }}
+        >
+          <Text style={styles.description}>{`${item.questions.length} questions au maximum`}</Text>
+        </AppCard>
+      ))}
+    </>
+  );
+
+  const renderQuestion = () => (
+    <AppCard
+      title={flow?.title}
+      subtitle={`Question ${records.length + 1}`}
+      icon="clipboard-pulse"
+      style={{ marginVertical: 10, marginHorizontal: 16 }}
+    >
+      <Text style={styles.questionFrench}>{phrase?.fr}</Text>
+      <Text style={[styles.questionTranslated, { color: colors.primary, writingDirection: getTextDirection(language) }]}>
+        {questionText ?? '…'}
+      </Text>
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={styles.actionButton} onPress={goBack} disabled={records.length === 0}>
+          <MaterialCommunityIcons name="arrow-left" size={20} color={records.length === 0 ? '#bbb' : colors.primary} />
+          <Text style={[styles.actionText, { color: records.length === 0 ? '#bbb' : colors.primary }]}>Précédente</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={repeatQuestion}>
+          <MaterialCommunityIcons name="replay" size={20} color={colors.primary} />
+          <Text style={[styles.actionText, { color: colors.primary }]}>Relire</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={closeFlow}>
+          <MaterialCommunityIcons name="close" size={20} color="#C62828" />
+          <Text style={[styles.actionText, { color: '#C62828' }]}>Abandonner</Text>
+        </TouchableOpacity>
+      </View>
+
+      {phrase && (
+        <PhraseResponder
+          key={`${phrase.id}-${records.length}`}
+          answerType={phrase.answerType ?? null}
+          language={language}
+          onAnswer={handleAnswer}
+        />
+      )}
+    </AppCard>
+  );
+
+  const renderSummary = () => (
+    <AppCard
+      title={`${flow?.title} terminé`}
+      icon="clipboard-check"
+      style={{ marginVertical: 10, marginHorizontal: 16 }}
+    >
+      {records.map((record, index) => (
+        <View key={`${record.question.id}-${index}`} style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>{record.question.label}</Text>
+          <Text style={styles.summaryValue}>{describeAnswerMeaning(record.answer)}</Text>
+        </View>
+      ))}
+      <AppButton
+        title="Lire le bilan"
+        icon="volume-high"
+        onPress={() => flow && speak(buildTriageSummary(flow, records), 'fr')}
+        type="outline"
+        fullWidth
+        style={{ marginTop: 16 }}
+      />
+      <AppButton
+        title="Nouveau bilan"
+        icon="clipboard-plus"
+        onPress={closeFlow}
+        fullWidth
+        style={{ marginTop: 8 }}
+      />
+    </AppCard>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StandardHeader title="Bilan guidé" />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {!flow && renderFlowList()}
+        {flow && !isFinished && renderQuestion()}
+        {isFinished && renderSummary()}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+  },
+  questionFrench: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  questionTranslated: {
+    fontSize: 24,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  summaryRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#222',
+  },
+});
@@ -0,0 +1,188 @@
+import { FaceToFacePanel } from '@/components/FaceToFacePanel';
+import { Colors } from '@/constants/Colors';
+import { useConversation } from '@/hooks/useConversation';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { ConversationParticipant, ConversationTurn, conversationModeService } from '@/services/conversationModeService';
+import { getSpeechLocale } from '@/services/languageRegistry';
+import { getTranslationErrorMessage } from '@/services/translationService';
+import { SpeechRecognitionErrorType } from '@/services/types';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+interface PanelNotice {
+  participantId: string;
+  message: string;
+}
+
+/**
+ * Vue face à face : le téléphone est posé entre le sapeur-pompier et la victime
+ * L'écran est partagé en deux moitiés, celle de la victime (deuxième participant)
+ * étant retournée ; chacun dispose de son microphone et lit en grand la traduction
+ * de ce que dit l'autre
+ */
+export default function FaceToFaceScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme === 'dark' ? 'dark' : 'light'];
+  const { participants, currentParticipant, history } = useConversation();
+  const { speak } = useTextToSpeech();
+  const [listeningParticipantId, setListeningParticipantId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<PanelNotice | null>(null);
+  // Participant dont le microphone est ouvert, lu à la réception du résultat final
+  const speakerRef = useRef<ConversationParticipant | null>(null);
+
+  // Activer le mode conversation (deux participants par défaut si aucun n'est défini)
+  // et rétablir l'état précédent en quittant la vue
+  useEffect(() => {
+    const wasActive = conversationModeService.isActive();
+    conversationModeService.setActive(true);
+    return () => {
+      conversationModeService.setActive(wasActive);
+    };
+  }, []);
+
+  // Traduire l'énoncé pour l'autre partie et le lui lire
+  const handleFinalResult = async (text: string) => {
+    const speaker = speakerRef.current;
+    if (!speaker || !text) return;
+
+    const outcome = await conversationModeService.processTextInput(text, speaker.preferredLanguage);
+    if (!outcome?.turn) {
+      setNotice({
+        participantId: speaker.id,
+        message: outcome?.error ? getTranslationErrorMessage(outcome.error) : 'La traduction a échoué.'
+      });
+      return;
+    }
+    setNotice(null);
+    const { translatedText, targetLanguage, detectedLanguage } = outcome.turn;
+    if (translatedText && targetLanguage && targetLanguage !== detectedLanguage) {
+      speak(translatedText, targetLanguage);
+    }
+  };
+
+  const {
+    isListening,
+    partialText,
+    error: speechError,
+    start: startListening,
+    stop: stopListening,
+  } = useSpeechRecognition(handleFinalResult);
+
+  useEffect(() => {
+    if (!isListening) {
+      setListeningParticipantId(null);
+    }
+  }, [isListening]);
+
+  useEffect(() => {
+    if (!speechError || speechError.type === SpeechRecognitionErrorType.NO_MATCH || !speakerRef.current) return;
+    setNotice({
+      participantId: speakerRef.current.id,
+      message: speechError.type === SpeechRecognitionErrorType.PERMISSION_DENIED
+        ? 'Autorisez l\'accès au microphone pour utiliser la reconnaissance vocale.'
+        : 'La reconnaissance vocale est indisponible.'
+    });
+  }, [speechError]);
+
+  // Ouvrir le microphone d'un participant (ou arrêter l'écoute en cours)
+  const toggleListening = async (participant: ConversationParticipant) => {
+    try {
+      if (isListening) {
+        // Arrêter l'écoute : le résultat final déclenche la traduction
+        await stopListening();
+        return;
+      }
+      speakerRef.current = participant;
+      setListeningParticipantId(participant.id);
+      setNotice(null);
+      conversationModeService.setCurrentParticipant(participant.id);
+      await startListening(getSpeechLocale(participant.preferredLanguage));
+    } catch (error) {
+      console.error('Toggle listening error:', error);
+    }
+  };
+
+  // Dernier énoncé adressé à un participant par l'autre partie
+  const getReceivedTurn = (participantId: string): ConversationTurn | null =>
+    [...history].reverse().find(turn => turn.participantId !== participantId) ?? null;
+
+  const renderPanel = (participant: ConversationParticipant, rotated: boolean) => (
+    <FaceToFacePanel
+      participant={participant}
+      receivedTurn={getReceivedTurn(participant.id)}
+      isCurrent={currentParticipant?.id === participant.id}
+      isListening={listeningParticipantId === participant.id}
+      partialText={partialText}
+      notice={notice?.participantId === participant.id ? notice.message : null}
+      rotated={rotated}
+      onToggleMic={() => toggleListening(participant)}
+      onSpeak={(text, language) => speak(text, language, { interrupt: true })}
+      colors={colors}
+    />
+  );
+
+  const [firefighter, victim] = participants;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background, paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      {firefighter && victim ? (
+        <>
+          {renderPanel(victim, true)}
+          <View style={styles.divider}>
+            <View style={[styles.dividerLine, { backgroundColor: colors.primary }]} />
+            <TouchableOpacity style={[styles.closeButton, { backgroundColor: colors.primary }]} onPress={() => router.back()}>
+              <MaterialCommunityIcons name="close" size={20} color="#fff" />
+              <Text style={styles.closeButtonText}>Quitter le face à face</Text>
+            </TouchableOpacity>
+            <View style={[styles.dividerLine, { backgroundColor: colors.primary }]} />
+          </View>
+          {renderPanel(firefighter, false)}
+        </>
+      ) : (
+        <Text style={[styles.emptyText, { color: colors.text }]}>
+          Ajoutez deux participants dans l&apos;onglet Conversation pour utiliser la vue face à face.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 2,
+  },
+  closeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginHorizontal: 8,
+  },
+  closeButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    margin: 32,
+  },
+});
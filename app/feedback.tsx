@@ -20,9 +20,16 @@ import {
   useColorScheme,
   View
 } from 'react-native';
+import { PhraseCatalogExchangePanel } from '../components/PhraseCatalogExchangePanel';
 import { StorageOptimizationPanel } from '../components/StorageOptimizationPanel';
+import { TtsSettingsPanel } from '../components/TtsSettingsPanel';
+import { VoiceActivitySettingsPanel } from '../components/VoiceActivitySettingsPanel';
 import { AppButton } from '../components/ui/AppButton';
 import { AppCard } from '../components/ui/AppCard';
+import { getLocalTranslationServerUrl, setLocalTranslationServerUrl } from '../config';
+import { getLanguageName, getLanguagesWithCapability } from '../services/languageRegistry';
+import { phrasebookPackService } from '../services/phrasebookPackService';
+import { InstalledPhrasebookPack } from '../services/types';
 
 // Importer les fonctions de gestion du cache
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -30,7 +37,6 @@ import {
   clearTranslationCache,
   downloadLanguage,
   getTranslationCacheStats,
-  LANGUAGES,
   setTranslationCacheLimit
 } from '../services/translationService';
 
@@ -63,10 +69,16 @@ export default function FeedbackScreen() {
   const [isDownloading, setIsDownloading] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
   const [isConnected, setIsConnected] = useState(true);
+  const [localServerUrl, setLocalServerUrl] = useState(getLocalTranslationServerUrl());
+  const [isSavingServer, setIsSavingServer] = useState(false);
+  const [installedPacks, setInstalledPacks] = useState<InstalledPhrasebookPack[]>([]);
+  const [packsSize, setPacksSize] = useState(0);
+  const [updatingPack, setUpdatingPack] = useState<string | null>(null);
   
   // Charger les statistiques du cache au chargement de l'écran
   useEffect(() => {
     loadCacheStats();
+    loadInstalledPacks();
     
     // Vérifier la connectivité
     const unsubscribe = NetInfo.addEventListener(state => {
@@ -93,6 +105,16 @@ export default function FeedbackScreen() {
     }
   };
   
+  // Fonction pour charger les packs de phrases installés et leur taille
+  const loadInstalledPacks = async () => {
+    try {
+      setInstalledPacks(await phrasebookPackService.getInstalledPacks());
+      setPacksSize(await phrasebookPackService.getTotalSize());
+    } catch (error) {
+      console.error('Error loading phrasebook packs:', error);
+    }
+  };
+  
   // Fonction pour effacer le cache
   const handleClearCache = async () => {
     Alert.alert(
@@ -147,6 +169,12 @@ export default function FeedbackScreen() {
       const success = await downloadLanguage(selectedLanguage);
       if (success) {
         await loadCacheStats();
+        await loadInstalledPacks();
+      } else {
+        Alert.alert(
+          'Téléchargement impossible',
+          `Aucun pack de phrases n'a pu être installé pour : ${getLanguageName(selectedLanguage)}.`
+        );
       }
     } catch (error) {
       console.error('Error downloading language:', error);
@@ -159,6 +187,74 @@ export default function FeedbackScreen() {
     }
   };
   
+  // Fonction pour mettre à jour un pack de phrases installé
+  const handleUpdatePack = async (pack: InstalledPhrasebookPack) => {
+    if (!isConnected) {
+      Alert.alert('Connexion requise', 'Vous devez être connecté à Internet pour mettre à jour un pack.');
+      return;
+    }
+    
+    setUpdatingPack(pack.targetLang);
+    try {
+      const updated = await phrasebookPackService.updatePack(pack.sourceLang, pack.targetLang);
+      await loadInstalledPacks();
+      Alert.alert(
+        'Mise à jour',
+        updated ? 'Le pack de phrases a été mis à jour.' : 'Le pack de phrases est déjà à jour.'
+      );
+    } catch (error) {
+      console.error('Error updating phrasebook pack:', error);
+      Alert.alert('Erreur', 'Impossible de mettre à jour le pack de phrases.');
+    } finally {
+      setUpdatingPack(null);
+    }
+  };
+  
+  // Fonction pour supprimer un pack de phrases installé
+  const handleUninstallPack = (pack: InstalledPhrasebookPack) => {
+    Alert.alert(
+      'Supprimer le pack',
+      `Les phrases en ${getLanguageName(pack.targetLang)} ne seront plus disponibles hors ligne.`,
+      [
+        { text: 'Annuler', style: 'cancel' },
+        {
+          text: 'Supprimer',
+          style: 'destructive',
+          onPress: async () => {
+            await phrasebookPackService.uninstallPack(pack.sourceLang, pack.targetLang);
+            await loadInstalledPacks();
+          }
+        }
+      ]
+    );
+  };
+  
+  // Fonction pour enregistrer l'URL du serveur de traduction local
+  const handleSaveLocalServer = async () => {
+    const url = localServerUrl.trim();
+    if (url && !/^https?:\/\//.test(url)) {
+      Alert.alert('URL invalide', 'L\'adresse du serveur doit commencer par http:// ou https://');
+      return;
+    }
+    
+    setIsSavingServer(true);
+    try {
+      const success = await setLocalTranslationServerUrl(url);
+      if (success) {
+        setLocalServerUrl(getLocalTranslationServerUrl());
+        Alert.alert(
+          'Succès',
+          url ? 'Le serveur de traduction local a été enregistré.' : 'Le serveur de traduction local a été désactivé.'
+        );
+      }
+    } catch (error) {
+      console.error('Error saving local server:', error);
+      Alert.alert('Erreur', 'Impossible d\'enregistrer le serveur de traduction local.');
+    } finally {
+      setIsSavingServer(false);
+    }
+  };
+  
   // Formater la date pour l'affichage
   const formatDate = (date: Date) => {
     return date.toLocaleString('fr-FR', {
@@ -170,10 +266,15 @@ export default function FeedbackScreen() {
     });
   };
   
-  // Obtenir le nom d'une langue à partir de son code
-  const getLanguageName = (code: string) => {
-    const language = LANGUAGES.find(lang => lang.code === code);
-    return language ? language.name : code;
+  // Formater une taille en KB ou MB
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) {
+      return `${bytes} octets`;
+    } else if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    } else {
+      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
   };
 
   const handleSubmit = () => {
@@ -433,7 +534,7 @@ export default function FeedbackScreen() {
                         onValueChange={(value) => setSelectedLanguage(value)}
                         dropdownIconColor="#4361ee"
                       >
-                        {LANGUAGES.filter(lang => lang.code !== 'fr').map((lang) => (
+                        {getLanguagesWithCapability('offlinePack').map((lang) => (
                           <Picker.Item key={lang.code} label={lang.name} value={lang.code} />
                         ))}
                       </Picker>
@@ -455,8 +556,93 @@ export default function FeedbackScreen() {
                         Vous devez être connecté à Internet pour télécharger des langues.
                       </Text>
                     )}
+                    
+                    {/* Packs de phrases installés */}
+                    <View style={styles.packsContainer}>
+                      <View style={styles.statRow}>
+                        <Text style={styles.statLabel}>Espace utilisé par les packs:</Text>
+                        <Text style={styles.statValue}>{formatSize(packsSize)}</Text>
+                      </View>
+                      
+                      {installedPacks.map(pack => (
+                        <View key={`${pack.sourceLang}-${pack.targetLang}`} style={styles.statRow}>
+                          <Text style={styles.statLabel}>
+                            {getLanguageName(pack.targetLang)} (v{pack.version}, {pack.phraseCount} phrases)
+                          </Text>
+                          <Text style={styles.statValue}>{formatSize(pack.sizeBytes)}</Text>
+                          <TouchableOpacity
+                            style={styles.packAction}
+                            onPress={() => handleUpdatePack(pack)}
+                            disabled={updatingPack !== null}
+                          >
+                            {updatingPack === pack.targetLang ? (
+                              <ActivityIndicator size="small" color="#4361ee" />
+                            ) : (
+                              <MaterialCommunityIcons name="update" size={20} color="#4361ee" />
+                            )}
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.packAction}
+                            onPress={() => handleUninstallPack(pack)}
+                          >
+                            <MaterialCommunityIcons name="delete-outline" size={20} color="#e74c3c" />
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                    </View>
                   </AppCard>
                   
+                  {/* Section du serveur de traduction local */}
+                  <AppCard
+                    title="Serveur de traduction local"
+                    icon="server-network"
+                    style={styles.section}
+                  >
+                    <Text style={styles.cardDescription}>
+                      Adresse d&apos;un serveur compatible LibreTranslate sur le réseau local (ex: à la caserne).
+                      Il est utilisé avant l&apos;API Google Cloud lorsqu&apos;il est joignable. Laissez vide pour le désactiver.
+                    </Text>
+                    
+                    <TextInput
+                      style={[
+                        styles.input,
+                        styles.serverInput,
+                        { 
+                          backgroundColor: isDark ? '#2a2a2a' : '#f5f5f5',
+                          color: colors.text,
+                          borderColor: isDark ? '#444' : '#e0e0e0'
+                        }
+                      ]}
+                      placeholder="http://192.168.1.20:5000"
+                      placeholderTextColor={isDark ? '#888' : '#999'}
+                      keyboardType="url"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      value={localServerUrl}
+                      onChangeText={setLocalServerUrl}
+                    />
+                    
+                    <AppButton 
+                      title="Enregistrer le serveur"
+                      icon="content-save"
+                      onPress={handleSaveLocalServer}
+                      disabled={isSavingServer}
+                      loading={isSavingServer}
+                      type="primary"
+                      size="medium"
+                      fullWidth
+                    />
+                  </AppCard>
+                  
+                  {/* Section de détection de fin de phrase */}
+                  <VoiceActivitySettingsPanel />
+                  
+                  {/* Section des voix de lecture */}
+                  <TtsSettingsPanel />
+                  
+                  {/* Section d'import/export du catalogue de phrases */}
+                  <PhraseCatalogExchangePanel />
+                  
                   {/* Section d'optimisation du stockage */}
                   <StorageOptimizationPanel />
                   
@@ -626,6 +812,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: '#f5f5f5',
   },
+  serverInput: {
+    marginBottom: 16,
+  },
   textArea: {
     height: 120,
     borderWidth: 1,
@@ -711,6 +900,13 @@ const styles = StyleSheet.create({
     height: 50,
     width: '100%',
   },
+  packsContainer: {
+    marginTop: 16,
+  },
+  packAction: {
+    marginLeft: 12,
+    padding: 4,
+  },
   warningText: {
     color: '#e74c3c',
     fontSize: 14,
@@ -0,0 +1,166 @@
+import { Colors } from '@/constants/Colors';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { conversationModeService } from '@/services/conversationModeService';
+import { LANGUAGES } from '@/services/languageRegistry';
+import { Language } from '@/services/types';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// Pause entre deux questions lues à haute voix (ms)
+const PROMPT_PAUSE_MS = 800;
+
+/**
+ * Choix de la langue de la victime : « montrez votre langue »
+ * Chaque langue est une grande tuile avec son nom natif et la question
+ * « Parlez-vous … ? » écrite dans cette langue ; les questions peuvent être
+ * lues à tour de rôle. La langue touchée devient la langue préférée de la
+ * victime (deuxième participant) et la langue cible de l'écran d'accueil
+ */
+export default function LanguagePickerScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = Colors[isDark ? 'dark' : 'light'];
+  const { speak, stop } = useTextToSpeech();
+  const [isCycling, setIsCycling] = useState(false);
+  const [promptedLanguage, setPromptedLanguage] = useState<string | null>(null);
+
+  // Lire en boucle la question de chaque langue disposant d'une voix
+  useEffect(() => {
+    if (!isCycling) return;
+    const spokenLanguages = LANGUAGES.filter(language => language.capabilities.tts);
+    let cancelled = false;
+
+    const cycle = async () => {
+      for (let index = 0; !cancelled; index = (index + 1) % spokenLanguages.length) {
+        const language = spokenLanguages[index];
+        setPromptedLanguage(language.code);
+        await speak(language.speakPrompt, language.code);
+        await new Promise(resolve => setTimeout(resolve, PROMPT_PAUSE_MS));
+      }
+    };
+    cycle();
+
+    return () => {
+      cancelled = true;
+      stop();
+      setPromptedLanguage(null);
+    };
+  }, [isCycling, speak, stop]);
+
+  // Enregistrer la langue de la victime et revenir à l'écran d'accueil
+  const selectLanguage = (language: Language) => {
+    setIsCycling(false);
+    conversationModeService.updateParticipantLanguage(conversationModeService.getVictim().id, language.code);
+    // L'horodatage permet d'appliquer à nouveau une langue déjà choisie
+    router.navigate({ pathname: '/', params: { targetLanguage: language.code, pickedAt: String(Date.now()) } });
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background, paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()} accessibilityLabel="Fermer">
+          <MaterialCommunityIcons name="close" size={26} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerTitles}>
+          <Text style={[styles.title, { color: colors.text }]}>Montrez votre langue</Text>
+          <Text style={styles.subtitle}>Point to your language</Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.headerButton, isCycling && { backgroundColor: colors.primary }]}
+          onPress={() => setIsCycling(value => !value)}
+          accessibilityLabel={isCycling ? 'Arrêter la lecture des questions' : 'Lire les questions à haute voix'}
+        >
+          <MaterialCommunityIcons
+            name={isCycling ? 'volume-off' : 'volume-high'}
+            size={26}
+            color={isCycling ? '#fff' : colors.primary}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={[styles.grid, { paddingBottom: insets.bottom + 16 }]}>
+        {LANGUAGES.map(language => {
+          const isPrompted = promptedLanguage === language.code;
+          return (
+            <TouchableOpacity
+              key={language.code}
+              style={[
+                styles.tile,
+                { backgroundColor: isDark ? '#1f2933' : '#f5f7fb', borderColor: isPrompted ? colors.primary : 'transparent' }
+              ]}
+              onPress={() => selectLanguage(language)}
+              accessibilityLabel={language.name}
+            >
+              <Text style={[styles.nativeName, { color: colors.primary }]}>{language.nativeName}</Text>
+              <Text style={[styles.prompt, { color: colors.text, writingDirection: language.direction }]}>
+                {language.speakPrompt}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitles: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+  },
+  tile: {
+    width: '48%',
+    minHeight: 120,
+    borderRadius: 16,
+    borderWidth: 3,
+    padding: 12,
+    marginBottom: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  nativeName: {
+    fontSize: 24,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  prompt: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
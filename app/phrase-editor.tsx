@@ -0,0 +1,485 @@
+import { StandardHeader } from '@/components/ui/AppHeader';
+import { Colors } from '@/constants/Colors';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React, { useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { AppButton } from '../components/ui/AppButton';
+import { AppCard } from '../components/ui/AppCard';
+import { usePhraseCatalog } from '../hooks/usePhraseCatalog';
+import { getLanguageName, LANGUAGES } from '../services/languageRegistry';
+import { CUSTOM_CATEGORY_ICONS, phraseRepository } from '../services/phraseRepository';
+import { Phrase } from '../services/types';
+
+export default function PhraseEditorScreen() {
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = Colors[isDark ? 'dark' : 'light'];
+  const { categories } = usePhraseCatalog();
+
+  // États pour le formulaire de catégorie
+  const [categoryName, setCategoryName] = useState('');
+  const [categoryIcon, setCategoryIcon] = useState(CUSTOM_CATEGORY_ICONS[0]);
+
+  // États pour le formulaire de phrase
+  const [editingPhraseId, setEditingPhraseId] = useState<string | null>(null);
+  const [phraseCategory, setPhraseCategory] = useState(categories[0]?.id ?? 'general');
+  const [phraseText, setPhraseText] = useState('');
+  const [phraseTags, setPhraseTags] = useState('');
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const [translationLanguage, setTranslationLanguage] = useState('en');
+  const [translationText, setTranslationText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const customCategories = categories.filter(category => category.isCustom);
+  const customPhrases = phraseRepository.query().filter(phrase => phrase.isCustom);
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: isDark ? '#2a2a2a' : '#f5f5f5',
+      color: colors.text,
+      borderColor: isDark ? '#444' : '#e0e0e0'
+    }
+  ];
+
+  // Réinitialiser le formulaire de phrase
+  const resetPhraseForm = () => {
+    setEditingPhraseId(null);
+    setPhraseText('');
+    setPhraseTags('');
+    setTranslations({});
+    setTranslationText('');
+  };
+
+  // Créer une catégorie personnalisée
+  const handleAddCategory = async () => {
+    if (!categoryName.trim()) {
+      Alert.alert('Nom requis', 'Veuillez saisir un nom pour la catégorie.');
+      return;
+    }
+
+    const category = await phraseRepository.addCategory(categoryName, categoryIcon);
+    if (category) {
+      setCategoryName('');
+      setPhraseCategory(category.id);
+    } else {
+      Alert.alert('Erreur', 'Impossible de créer la catégorie.');
+    }
+  };
+
+  // Supprimer une catégorie personnalisée et ses phrases
+  const handleDeleteCategory = (categoryId: string, name: string) => {
+    Alert.alert(
+      'Supprimer la catégorie',
+      `La catégorie « ${name} » et toutes ses phrases seront supprimées.`,
+      [
+        { text: 'Annuler', style: 'cancel' },
+        {
+          text: 'Supprimer',
+          style: 'destructive',
+          onPress: async () => {
+            await phraseRepository.deleteCategory(categoryId);
+            if (phraseCategory === categoryId) {
+              setPhraseCategory('general');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Ajouter ou remplacer une traduction dans le formulaire
+  const handleAddTranslation = () => {
+    if (!translationText.trim()) return;
+    setTranslations(previous => ({ ...previous, [translationLanguage]: translationText.trim() }));
+    setTranslationText('');
+  };
+
+  // Retirer une traduction du formulaire
+  const handleRemoveTranslation = (code: string) => {
+    setTranslations(previous => {
+      const { [code]: _removed, ...rest } = previous;
+      return rest;
+    });
+  };
+
+  // Charger une phrase existante dans le formulaire
+  const handleEditPhrase = (phrase: Phrase) => {
+    setEditingPhraseId(phrase.id);
+    setPhraseCategory(phrase.category);
+    setPhraseText(phrase.fr);
+    setPhraseTags(phrase.tags.join(', '));
+    setTranslations(phrase.translations);
+  };
+
+  // Enregistrer la phrase (création ou modification)
+  const handleSavePhrase = async () => {
+    if (!phraseText.trim()) {
+      Alert.alert('Texte requis', 'Veuillez saisir la phrase en français.');
+      return;
+    }
+
+    const input = {
+      category: phraseCategory,
+      fr: phraseText,
+      translations,
+      tags: phraseTags.split(',').map(tag => tag.trim()).filter(Boolean)
+    };
+
+    setIsSaving(true);
+    try {
+      const success = editingPhraseId
+        ? await phraseRepository.updatePhrase(editingPhraseId, input)
+        : !!(await phraseRepository.addPhrase(input));
+
+      if (success) {
+        resetPhraseForm();
+      } else {
+        Alert.alert('Erreur', 'Impossible d\'enregistrer la phrase.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Supprimer une phrase personnalisée
+  const handleDeletePhrase = (phrase: Phrase) => {
+    Alert.alert(
+      'Supprimer la phrase',
+      `« ${phrase.fr} » sera supprimée.`,
+      [
+        { text: 'Annuler', style: 'cancel' },
+        {
+          text: 'Supprimer',
+          style: 'destructive',
+          onPress: async () => {
+            await phraseRepository.deletePhrase(phrase.id);
+            if (editingPhraseId === phrase.id) {
+              resetPhraseForm();
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingBottom: insets.bottom + 10,
+          backgroundColor: colors.background
+        }
+      ]}>
+        <StandardHeader
+          title="Éditeur de phrases"
+          showBackButton
+        />
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {/* Catégories personnalisées */}
+          <AppCard
+            title="Catégories personnalisées"
+            icon="folder-plus"
+            style={styles.section}
+          >
+            {customCategories.map(category => (
+              <View key={category.id} style={styles.listRow}>
+                <MaterialCommunityIcons name={category.icon as any} size={20} color={colors.primary} />
+                <Text style={[styles.listText, { color: colors.text }]}>{category.name}</Text>
+                <TouchableOpacity
+                  style={styles.rowAction}
+                  onPress={() => handleDeleteCategory(category.id, category.name)}
+                >
+                  <MaterialCommunityIcons name="delete-outline" size={20} color={colors.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <TextInput
+              style={inputStyle}
+              placeholder="Nom de la catégorie (ex: Site chimique)"
+              placeholderTextColor={isDark ? '#888' : '#999'}
+              value={categoryName}
+              onChangeText={setCategoryName}
+            />
+
+            <View style={styles.iconPalette}>
+              {CUSTOM_CATEGORY_ICONS.map(icon => (
+                <TouchableOpacity
+                  key={icon}
+                  style={[
+                    styles.iconOption,
+                    categoryIcon === icon && { borderColor: colors.primary, backgroundColor: colors.primary + '20' }
+                  ]}
+                  onPress={() => setCategoryIcon(icon)}
+                >
+                  <MaterialCommunityIcons name={icon as any} size={22} color={colors.primary} />
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <AppButton
+              title="Ajouter la catégorie"
+              icon="plus"
+              onPress={handleAddCategory}
+              type="outline"
+              size="medium"
+              fullWidth
+            />
+          </AppCard>
+
+          {/* Formulaire de phrase */}
+          <AppCard
+            title={editingPhraseId ? 'Modifier la phrase' : 'Nouvelle phrase'}
+            icon="text-box-plus"
+            style={styles.section}
+          >
+            <Text style={[styles.label, { color: colors.text }]}>Catégorie</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={phraseCategory}
+                style={styles.picker}
+                onValueChange={(value) => setPhraseCategory(value)}
+              >
+                {categories.map(category => (
+                  <Picker.Item key={category.id} label={category.name} value={category.id} />
+                ))}
+              </Picker>
+            </View>
+
+            <Text style={[styles.label, { color: colors.text }]}>Phrase en français</Text>
+            <TextInput
+              style={inputStyle}
+              placeholder="Ex: Dirigez-vous vers le point de rassemblement B"
+              placeholderTextColor={isDark ? '#888' : '#999'}
+              value={phraseText}
+              onChangeText={setPhraseText}
+            />
+
+            <Text style={[styles.label, { color: colors.text }]}>Tags (séparés par des virgules)</Text>
+            <TextInput
+              style={inputStyle}
+              placeholder="Ex: chimie, rassemblement"
+              placeholderTextColor={isDark ? '#888' : '#999'}
+              autoCapitalize="none"
+              value={phraseTags}
+              onChangeText={setPhraseTags}
+            />
+
+            <Text style={[styles.label, { color: colors.text }]}>Traductions</Text>
+            {Object.entries(translations).map(([code, text]) => (
+              <View key={code} style={styles.listRow}>
+                <Text style={[styles.listText, { color: colors.text }]}>
+                  {getLanguageName(code)} : {text}
+                </Text>
+                <TouchableOpacity style={styles.rowAction} onPress={() => handleRemoveTranslation(code)}>
+                  <MaterialCommunityIcons name="close" size={20} color={colors.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={translationLanguage}
+                style={styles.picker}
+                onValueChange={(value) => setTranslationLanguage(value)}
+              >
+                {LANGUAGES.filter(lang => lang.code !== 'fr').map(lang => (
+                  <Picker.Item key={lang.code} label={lang.name} value={lang.code} />
+                ))}
+              </Picker>
+            </View>
+            <View style={styles.translationRow}>
+              <TextInput
+                style={[inputStyle, styles.translationInput]}
+                placeholder="Traduction"
+                placeholderTextColor={isDark ? '#888' : '#999'}
+                value={translationText}
+                onChangeText={setTranslationText}
+              />
+              <TouchableOpacity style={styles.rowAction} onPress={handleAddTranslation}>
+                <MaterialCommunityIcons name="plus-circle" size={28} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <AppButton
+              title={editingPhraseId ? 'Enregistrer les modifications' : 'Ajouter la phrase'}
+              icon="content-save"
+              onPress={handleSavePhrase}
+              disabled={isSaving}
+              loading={isSaving}
+              type="primary"
+              size="medium"
+              fullWidth
+            />
+            {editingPhraseId && (
+              <AppButton
+                title="Annuler"
+                onPress={resetPhraseForm}
+                type="outline"
+                size="medium"
+                fullWidth
+                style={{ marginTop: 8 }}
+              />
+            )}
+          </AppCard>
+
+          {/* Phrases personnalisées */}
+          <AppCard
+            title="Mes phrases"
+            icon="format-list-bulleted"
+            style={styles.section}
+          >
+            {customPhrases.length === 0 && (
+              <Text style={styles.emptyText}>Aucune phrase personnalisée pour le moment.</Text>
+            )}
+            {customPhrases.map(phrase => {
+              const isPinned = phraseRepository.isPinned(phrase.id);
+              return (
+                <View key={phrase.id} style={styles.listRow}>
+                  <View style={styles.listContent}>
+                    <Text style={[styles.listText, { color: colors.text }]}>{phrase.fr}</Text>
+                    <Text style={styles.listSubtext}>
+                      {phraseRepository.getCategory(phrase.category)?.name}
+                      {Object.keys(phrase.translations).length > 0 &&
+                        ` · ${Object.keys(phrase.translations).map(getLanguageName).join(', ')}`}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.rowAction}
+                    onPress={() => phraseRepository.setPinned(phrase.id, !isPinned)}
+                  >
+                    <MaterialCommunityIcons
+                      name={isPinned ? 'pin' : 'pin-outline'}
+                      size={20}
+                      color={isPinned ? colors.secondary : colors.icon}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.rowAction} onPress={() => handleEditPhrase(phrase)}>
+                    <MaterialCommunityIcons name="pencil" size={20} color={colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.rowAction} onPress={() => handleDeletePhrase(phrase)}>
+                    <MaterialCommunityIcons name="delete-outline" size={20} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </AppCard>
+        </ScrollView>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  pickerContainer: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    width: '100%',
+  },
+  iconPalette: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    marginBottom: 8,
+  },
+  listContent: {
+    flex: 1,
+  },
+  listText: {
+    flex: 1,
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  listSubtext: {
+    fontSize: 12,
+    color: '#888',
+    marginLeft: 8,
+    marginTop: 2,
+  },
+  rowAction: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  translationRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  translationInput: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    fontStyle: 'italic',
+  },
+});
@@ -1,6 +1,8 @@
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { LanguageCandidate } from '../services/types';
+import { LanguageCandidateChips } from './LanguageCandidateChips';
 
 interface AutoDetectLanguageButtonProps {
   isActive: boolean;
@@ -8,6 +10,9 @@ interface AutoDetectLanguageButtonProps {
   detectedLanguage: string | null;
   languageName?: string;
   primaryColor: string;
+  // Langues proches entre lesquelles la détection hésite
+  candidates?: LanguageCandidate[];
+  onSelectCandidate?: (language: string) => void;
 }
 
 /**
@@ -18,7 +23,9 @@ export const AutoDetectLanguageButton: React.FC<AutoDetectLanguageButtonProps> =
   onToggle,
   detectedLanguage,
   languageName,
-  primaryColor
+  primaryColor,
+  candidates = [],
+  onSelectCandidate
 }) => {
   return (
     <View style={styles.container}>
@@ -50,6 +57,14 @@ export const AutoDetectLanguageButton: React.FC<AutoDetectLanguageButtonProps> =
           Langue détectée: {languageName || detectedLanguage}
         </Text>
       )}
+      
+      {isActive && candidates.length > 1 && onSelectCandidate && (
+        <LanguageCandidateChips
+          candidates={candidates}
+          onSelect={onSelectCandidate}
+          primaryColor={primaryColor}
+        />
+      )}
     </View>
   );
 };
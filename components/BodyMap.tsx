@@ -0,0 +1,208 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { DimensionValue, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { getBodyRegionName, getBodyRegions, MAX_PAIN_INTENSITY } from '../services/bodyMapService';
+import { getTextDirection } from '../services/languageRegistry';
+import { BodySide, PainLocation } from '../services/types';
+
+interface BodyMapProps {
+  selections: PainLocation[];
+  onChange: (selections: PainLocation[]) => void;
+  language: string;
+}
+
+// Position d'une zone sur la silhouette, en pourcentage de la largeur et de la hauteur
+interface RegionRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  round?: boolean;
+}
+
+// Silhouette vue de face : le côté droit de la victime est à gauche de l'écran
+const FRONT_LAYOUT: Record<string, RegionRect> = {
+  head: { left: 40, top: 0, width: 20, height: 12, round: true },
+  neck: { left: 45, top: 12, width: 10, height: 4 },
+  chest: { left: 32, top: 16, width: 36, height: 16 },
+  abdomen: { left: 34, top: 32, width: 32, height: 12 },
+  pelvis: { left: 34, top: 44, width: 32, height: 8 },
+  'right-arm': { left: 19, top: 17, width: 12, height: 30 },
+  'left-arm': { left: 69, top: 17, width: 12, height: 30 },
+  'right-hand': { left: 17, top: 48, width: 12, height: 7, round: true },
+  'left-hand': { left: 71, top: 48, width: 12, height: 7, round: true },
+  'right-leg': { left: 34, top: 53, width: 15, height: 37 },
+  'left-leg': { left: 51, top: 53, width: 15, height: 37 },
+  'right-foot': { left: 30, top: 91, width: 19, height: 7, round: true },
+  'left-foot': { left: 51, top: 91, width: 19, height: 7, round: true },
+};
+
+// Zones propres à la silhouette vue de dos, placées comme leur équivalent de face
+const BACK_EQUIVALENTS: Record<string, string> = {
+  'back-of-head': 'head',
+  'upper-back': 'chest',
+  'lower-back': 'abdomen',
+  buttocks: 'pelvis',
+};
+
+// Position d'une zone : vue de dos, la silhouette est retournée horizontalement
+const getRegionRect = (regionId: string, side: BodySide): RegionRect => {
+  const rect = FRONT_LAYOUT[BACK_EQUIVALENTS[regionId] ?? regionId];
+  return side === 'front' ? rect : { ...rect, left: 100 - rect.left - rect.width };
+};
+
+const percent = (value: number): DimensionValue => `${value}%`;
+
+// Couleur d'une zone selon l'intensité de la douleur (0 : non sélectionnée)
+const INTENSITY_COLORS = ['#dfe6ee', '#FFB74D', '#F57C00', '#C62828'];
+
+/**
+ * Carte du corps pour localiser la douleur
+ * La victime touche les zones douloureuses sur la silhouette de face ou de dos ;
+ * chaque nouveau toucher augmente l'intensité jusqu'à la désélection. Les zones
+ * choisies sont nommées dans sa langue et en français
+ */
+export const BodyMap: React.FC<BodyMapProps> = ({ selections, onChange, language }) => {
+  const [side, setSide] = useState<BodySide>('front');
+  const direction = getTextDirection(language);
+
+  const getIntensity = (regionId: string) =>
+    selections.find(selection => selection.region === regionId)?.intensity ?? 0;
+
+  // Augmenter l'intensité d'une zone, puis la retirer au-delà du maximum
+  const toggleRegion = (regionId: string) => {
+    const intensity = getIntensity(regionId) + 1;
+    const others = selections.filter(selection => selection.region !== regionId);
+    onChange(intensity > MAX_PAIN_INTENSITY ? others : [...others, { region: regionId, side, intensity }]);
+  };
+
+  return (
+    <View>
+      <View style={styles.sideSwitch}>
+        {(['front', 'back'] as const).map(value => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.sideButton, side === value && styles.sideButtonActive]}
+            onPress={() => setSide(value)}
+          >
+            <MaterialCommunityIcons
+              name={value === 'front' ? 'human-handsdown' : 'rotate-3d-variant'}
+              size={18}
+              color={side === value ? '#fff' : '#144291'}
+            />
+            <Text style={[styles.sideButtonText, side === value && styles.sideButtonTextActive]}>
+              {value === 'front' ? 'Face' : 'Dos'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.silhouette}>
+        {getBodyRegions(side).map(region => {
+          const rect = getRegionRect(region.id, side);
+          const intensity = getIntensity(region.id);
+          return (
+            <TouchableOpacity
+              key={region.id}
+              style={[
+                styles.region,
+                {
+                  left: percent(rect.left),
+                  top: percent(rect.top),
+                  width: percent(rect.width),
+                  height: percent(rect.height),
+                  backgroundColor: INTENSITY_COLORS[intensity],
+                },
+                rect.round && styles.roundRegion
+              ]}
+              onPress={() => toggleRegion(region.id)}
+              accessibilityLabel={getBodyRegionName(region.id, language)}
+            />
+          );
+        })}
+      </View>
+
+      {selections.map(selection => (
+        <View key={selection.region} style={styles.selectionRow}>
+          <View style={[styles.intensityDot, { backgroundColor: INTENSITY_COLORS[selection.intensity] }]} />
+          <Text style={[styles.selectionName, { writingDirection: direction }]}>
+            {getBodyRegionName(selection.region, language)}
+          </Text>
+          <Text style={styles.selectionFrench}>{getBodyRegionName(selection.region, 'fr')}</Text>
+          <Text style={styles.selectionIntensity}>{`${selection.intensity}/${MAX_PAIN_INTENSITY}`}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sideSwitch: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  sideButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#144291',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginHorizontal: 4,
+  },
+  sideButtonActive: {
+    backgroundColor: '#144291',
+  },
+  sideButtonText: {
+    color: '#144291',
+    marginLeft: 4,
+    fontWeight: '500',
+  },
+  sideButtonTextActive: {
+    color: '#fff',
+  },
+  silhouette: {
+    alignSelf: 'center',
+    width: 180,
+    height: 320,
+    marginBottom: 8,
+  },
+  region: {
+    position: 'absolute',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ffffff',
+  },
+  roundRegion: {
+    borderRadius: 100,
+  },
+  selectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  intensityDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  selectionName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#222',
+  },
+  selectionFrench: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+  },
+  selectionIntensity: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#444',
+  },
+});
@@ -13,6 +13,7 @@ interface CollapsibleProps {
   containerStyle?: ViewStyle;
   contentStyle?: ViewStyle;
   initiallyOpen?: boolean;
+  onToggle?: (isOpen: boolean) => void;
 }
 
 export function Collapsible({ 
@@ -21,7 +22,8 @@ export function Collapsible({
   titleStyle, 
   containerStyle, 
   contentStyle,
-  initiallyOpen = false 
+  initiallyOpen = false,
+  onToggle
 }: PropsWithChildren & CollapsibleProps) {
   const [isOpen, setIsOpen] = useState(initiallyOpen);
   const theme = useColorScheme() ?? 'light';
@@ -30,7 +32,11 @@ export function Collapsible({
     <ThemedView style={containerStyle}>
       <TouchableOpacity
         style={styles.heading}
-        onPress={() => setIsOpen((value) => !value)}
+        onPress={() => {
+          const next = !isOpen;
+          setIsOpen(next);
+          onToggle?.(next);
+        }}
         activeOpacity={0.8}>
         <IconSymbol
           name="chevron.right"
@@ -2,12 +2,12 @@ import * as React from 'react';
 import { StyleSheet, Text, View, TouchableOpacity, FlatList } from 'react-native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { ConversationModeButton } from './ConversationModeButton';
+import { useConversation } from '../hooks/useConversation';
 import { ConversationParticipant, conversationModeService } from '../services/conversationModeService';
-import { LANGUAGES } from '../services/translationService';
+import { getLanguageName, LANGUAGES } from '../services/languageRegistry';
 import { Picker } from '@react-native-picker/picker';
 
 interface ConversationModePanelProps {
-  isActive: boolean;
   onToggle: () => void;
   primaryColor: string;
   secondaryColor: string;
@@ -18,59 +18,36 @@ interface ConversationModePanelProps {
  * Ce mode permet à plusieurs utilisateurs de parler à tour de rôle avec détection automatique de la langue
  */
 export const ConversationModePanel: React.FC<ConversationModePanelProps> = React.memo(({
-  isActive,
   onToggle,
   primaryColor,
   secondaryColor
 }) => {
-  const [participants, setParticipants] = React.useState<ConversationParticipant[]>([]);
-  const [currentParticipant, setCurrentParticipant] = React.useState<ConversationParticipant | null>(null);
-
-  // Mettre à jour la liste des participants
-  const updateParticipantsList = React.useCallback(() => {
-    setParticipants(conversationModeService.getParticipants());
-  }, []);
-
-  // Initialiser le mode conversation lorsqu'il est activé
-  React.useEffect(() => {
-    if (isActive) {
-      // Initialiser le mode conversation avec deux participants par défaut
-      conversationModeService.initializeConversation();
-      updateParticipantsList();
-      setCurrentParticipant(conversationModeService.getCurrentParticipant());
-    }
-  }, [isActive, updateParticipantsList]);
+  // État partagé du mode conversation (activé depuis n'importe quel écran)
+  const { isActive, participants, currentParticipant } = useConversation();
 
   // Passer au participant suivant
   const handleNextParticipant = React.useCallback(() => {
-    const nextParticipant = conversationModeService.nextParticipant();
-    setCurrentParticipant(nextParticipant);
+    conversationModeService.nextParticipant();
   }, []);
 
   // Ajouter un nouveau participant
   const handleAddParticipant = React.useCallback(() => {
-    const newParticipant = conversationModeService.addParticipant('fr');
-    updateParticipantsList();
-    return newParticipant;
-  }, [updateParticipantsList]);
+    conversationModeService.addParticipant('fr');
+  }, []);
 
   // Supprimer un participant
   const handleRemoveParticipant = React.useCallback((participantId: string) => {
     conversationModeService.removeParticipant(participantId);
-    updateParticipantsList();
-    setCurrentParticipant(conversationModeService.getCurrentParticipant());
-  }, [updateParticipantsList]);
+  }, []);
 
   // Changer la langue d'un participant
   const handleParticipantLanguageChange = React.useCallback((participantId: string, language: string) => {
     conversationModeService.updateParticipantLanguage(participantId, language);
-    updateParticipantsList();
-  }, [updateParticipantsList]);
+  }, []);
 
   // Rendre un élément de la liste des participants
   const renderParticipantItem = React.useCallback(({ item }: { item: ConversationParticipant }) => {
     const isCurrentParticipant = currentParticipant?.id === item.id;
-    const languageName = LANGUAGES.find(lang => lang.code === item.preferredLanguage)?.name || item.preferredLanguage;
     
     return (
       <View style={[
@@ -121,14 +98,14 @@ export const ConversationModePanel: React.FC<ConversationModePanelProps> = React
           <View style={styles.detectedLanguageContainer}>
             <MaterialCommunityIcons name="auto-fix" size={16} color="#4caf50" />
             <Text style={styles.detectedLanguageText}>
-              Dernière langue détectée: {conversationModeService.getLanguageName(item.lastDetectedLanguage)}
+              Dernière langue détectée: {getLanguageName(item.lastDetectedLanguage)}
               {item.detectionConfidence && ` (${Math.round(item.detectionConfidence * 100)}%)`}
             </Text>
           </View>
         )}
       </View>
     );
-  }, [participants.length, primaryColor, handleRemoveParticipant, handleParticipantLanguageChange]);
+  }, [currentParticipant?.id, participants.length, primaryColor, handleRemoveParticipant, handleParticipantLanguageChange]);
 
   if (!isActive) {
     return (
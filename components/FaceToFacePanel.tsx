@@ -0,0 +1,153 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ConversationParticipant, ConversationTurn } from '../services/conversationModeService';
+import { getLanguage, getLanguageName } from '../services/languageRegistry';
+import { MemoizedMessageBubble } from './optimized/MemoizedComponents';
+
+interface FaceToFacePanelProps {
+  participant: ConversationParticipant;
+  receivedTurn: ConversationTurn | null;
+  isCurrent: boolean;
+  isListening: boolean;
+  partialText: string;
+  notice: string | null;
+  rotated?: boolean;
+  onToggleMic: () => void;
+  onSpeak: (text: string, language: string) => void;
+  colors: any;
+}
+
+/**
+ * Texte d'un tour de parole dans la langue d'un participant
+ * @param turn - Tour de parole reçu
+ * @param language - Langue préférée du participant qui le lit
+ * @returns La traduction dans cette langue, ou le texte original à défaut
+ */
+const getTextForLanguage = (turn: ConversationTurn, language: string): string => {
+  if (turn.translations?.[language]) {
+    return turn.translations[language];
+  }
+  return turn.targetLanguage === language && turn.translatedText ? turn.translatedText : turn.originalText;
+};
+
+/**
+ * Moitié d'écran de la vue face à face
+ * Affiche la langue du participant, son microphone et, en grands caractères,
+ * le dernier énoncé de l'autre partie traduit dans sa langue. La moitié de
+ * la victime est retournée pour être lue depuis l'autre côté du téléphone
+ */
+export const FaceToFacePanel: React.FC<FaceToFacePanelProps> = ({
+  participant,
+  receivedTurn,
+  isCurrent,
+  isListening,
+  partialText,
+  notice,
+  rotated = false,
+  onToggleMic,
+  onSpeak,
+  colors
+}) => {
+  const language = participant.preferredLanguage;
+  const receivedText = receivedTurn ? getTextForLanguage(receivedTurn, language) : '';
+
+  return (
+    <View style={[
+      styles.container,
+      rotated && styles.rotated,
+      isCurrent && { borderColor: colors.primary }
+    ]}>
+      <View style={styles.header}>
+        <MaterialCommunityIcons
+          name={isCurrent ? 'account-voice' : 'account'}
+          size={22}
+          color={isCurrent ? colors.primary : '#666'}
+        />
+        <Text style={[styles.languageName, { color: colors.text }]}>
+          {getLanguage(language)?.nativeName ?? getLanguageName(language)}
+        </Text>
+      </View>
+
+      <View style={styles.content}>
+        {isListening && partialText ? (
+          <MemoizedMessageBubble
+            text={partialText}
+            isSource={true}
+            language={language}
+            colors={colors}
+            large
+          />
+        ) : receivedText ? (
+          <MemoizedMessageBubble
+            text={receivedText}
+            isSource={false}
+            language={language}
+            onSpeak={() => onSpeak(receivedText, language)}
+            colors={colors}
+            large
+          />
+        ) : (
+          <MaterialCommunityIcons name="chat-processing-outline" size={48} color="#d1d5db" style={styles.placeholder} />
+        )}
+        {notice && (
+          <Text style={[styles.notice, { color: colors.secondary }]}>
+            {notice}
+          </Text>
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.micButton, { backgroundColor: isListening ? colors.secondary : colors.primary }]}
+        onPress={onToggleMic}
+        accessibilityLabel={`Microphone ${getLanguageName(language)}`}
+      >
+        <MaterialCommunityIcons name={isListening ? 'microphone-off' : 'microphone'} size={36} color="#fff" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    borderWidth: 3,
+    borderColor: 'transparent',
+    borderRadius: 16,
+    margin: 4,
+  },
+  rotated: {
+    transform: [{ rotate: '180deg' }],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  languageName: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'stretch',
+  },
+  placeholder: {
+    alignSelf: 'center',
+  },
+  notice: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  micButton: {
+    alignSelf: 'center',
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,68 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { getLanguageName } from '../services/languageRegistry';
+import { LanguageCandidate } from '../services/types';
+
+interface LanguageCandidateChipsProps {
+  candidates: LanguageCandidate[];
+  onSelect: (language: string) => void;
+  primaryColor: string;
+}
+
+/**
+ * Liste des langues proches proposées par la détection automatique
+ * L'utilisateur choisit la langue parlée quand la détection hésite entre plusieurs langues
+ */
+export const LanguageCandidateChips: React.FC<LanguageCandidateChipsProps> = ({
+  candidates,
+  onSelect,
+  primaryColor
+}) => {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Langue incertaine, choisissez :</Text>
+      <View style={styles.chips}>
+        {candidates.map(candidate => (
+          <TouchableOpacity
+            key={candidate.language}
+            style={[styles.chip, { borderColor: primaryColor }]}
+            onPress={() => onSelect(candidate.language)}
+            accessibilityLabel={`Choisir ${getLanguageName(candidate.language)}`}
+          >
+            <Text style={[styles.chipText, { color: primaryColor }]}>
+              {getLanguageName(candidate.language)} · {Math.round(candidate.confidence * 100)} %
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 12,
+    color: '#ff9800',
+    fontStyle: 'italic',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '500',
+  }
+});
@@ -18,7 +18,9 @@ import {
 } from 'react-native';
 import { getGoogleCloudApiKey } from '../config';
 import { Theme } from '../constants/Theme';
-import { LANGUAGES, translateText } from '../services/translationService';
+import { getLanguageName, LANGUAGES } from '../services/languageRegistry';
+import { getTranslationErrorMessage, translateBatch } from '../services/translationService';
+import { TranslationError } from '../services/types';
 import { Collapsible } from './Collapsible';
 
 // Service de reconnaissance de texte utilisant l'API Google Cloud Vision
@@ -97,6 +99,22 @@ const recognizeTextFromImage = async (imageUri: string): Promise<string> => {
   }
 };
 
+// Traduit un texte multi-paragraphes en une seule requête groupée
+const translateParagraphs = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string
+): Promise<{ text: string; error?: TranslationError }> => {
+  const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  const results = await translateBatch(paragraphs, sourceLang, targetLang);
+  const failed = results.find(result => result.error);
+
+  if (failed) {
+    return { text: '', error: failed.error };
+  }
+  return { text: results.map(result => result.text).join('\n\n') };
+};
+
 // Types de médias supportés
 type MediaType = 'image' | 'document' | null;
 
@@ -114,6 +132,7 @@ const MediaTranslator: React.FC = () => {
   const [mediaType, setMediaType] = useState<MediaType>(null);
   const [recognizedText, setRecognizedText] = useState<string>('');
   const [translatedText, setTranslatedText] = useState<string>('');
+  const [translationError, setTranslationError] = useState<TranslationError | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [sourceLang, setSourceLang] = useState<string>('fr');
   const [targetLang, setTargetLang] = useState<string>('en');
@@ -206,6 +225,7 @@ const MediaTranslator: React.FC = () => {
     setIsProcessing(true);
     setRecognizedText('');
     setTranslatedText('');
+    setTranslationError(null);
 
     try {
       // Utiliser l'API Google Cloud Vision pour extraire le texte de l'image
@@ -215,11 +235,7 @@ const MediaTranslator: React.FC = () => {
         setRecognizedText(extractedText);
         
         // Traduire le texte extrait
-        const translated = await translateText(extractedText, sourceLang, targetLang);
-        setTranslatedText(translated);
-        
-        // Ajouter au historique
-        addToHistory(extractedText, translated);
+        await translateRecognizedText(extractedText);
       } else {
         Alert.alert('Information', 'Aucun texte n\'a été détecté dans cette image.');
       }
@@ -236,6 +252,7 @@ const MediaTranslator: React.FC = () => {
     setIsProcessing(true);
     setRecognizedText('');
     setTranslatedText('');
+    setTranslationError(null);
 
     try {
       let text = '';
@@ -259,11 +276,7 @@ const MediaTranslator: React.FC = () => {
         setRecognizedText(text);
         
         // Traduire le texte extrait
-        const translated = await translateText(text, sourceLang, targetLang);
-        setTranslatedText(translated);
-        
-        // Ajouter au historique
-        addToHistory(text, translated);
+        await translateRecognizedText(text);
       } else {
         Alert.alert('Information', 'Aucun texte n\'a été détecté dans ce document.');
       }
@@ -275,6 +288,18 @@ const MediaTranslator: React.FC = () => {
     }
   };
 
+  // Fonction pour traduire un texte extrait et l'ajouter à l'historique
+  const translateRecognizedText = async (text: string) => {
+    const result = await translateParagraphs(text, sourceLang, targetLang);
+    setTranslatedText(result.text);
+    setTranslationError(result.error ?? null);
+    
+    // Les erreurs ne sont pas ajoutées à l'historique
+    if (!result.error) {
+      addToHistory(text, result.text);
+    }
+  };
+
   // Fonction pour ajouter un résultat à l'historique
   const addToHistory = (text: string, translation: string) => {
     const newResult: RecognitionResult = {
@@ -294,6 +319,7 @@ const MediaTranslator: React.FC = () => {
     setMediaType(null);
     setRecognizedText('');
     setTranslatedText('');
+    setTranslationError(null);
   };
 
   // Fonction pour traduire à nouveau avec une langue cible différente
@@ -302,15 +328,17 @@ const MediaTranslator: React.FC = () => {
     
     setIsProcessing(true);
     try {
-      const translated = await translateText(recognizedText, sourceLang, targetLang);
-      setTranslatedText(translated);
+      const result = await translateParagraphs(recognizedText, sourceLang, targetLang);
+      setTranslatedText(result.text);
+      setTranslationError(result.error ?? null);
+      if (result.error) return;
       
       // Mettre à jour l'historique
       const updatedHistory = [...recognitionHistory];
       if (updatedHistory.length > 0) {
         updatedHistory[0] = {
           ...updatedHistory[0],
-          translation: translated,
+          translation: result.text,
           targetLang,
         };
         setRecognitionHistory(updatedHistory);
@@ -493,7 +521,16 @@ const MediaTranslator: React.FC = () => {
           >
             <View style={styles.textContainer}>
               <ScrollView style={styles.textScrollView}>
-                <Text style={styles.translatedText}>{translatedText}</Text>
+                {translationError ? (
+                  <View style={styles.translationErrorContainer}>
+                    <MaterialCommunityIcons name="alert-circle-outline" size={18} color="#e74c3c" />
+                    <Text style={styles.translationErrorText}>
+                      {getTranslationErrorMessage(translationError)}
+                    </Text>
+                  </View>
+                ) : (
+                  <Text style={styles.translatedText}>{translatedText}</Text>
+                )}
               </ScrollView>
               {translatedText.length > 0 && (
                 <TouchableOpacity 
@@ -522,7 +559,7 @@ const MediaTranslator: React.FC = () => {
           {recognitionHistory.map((item, index) => (
             <View key={index} style={styles.historyItem}>
               <Text style={styles.historyItemTitle}>
-                {LANGUAGES.find(lang => lang.code === item.sourceLang)?.name} → {LANGUAGES.find(lang => lang.code === item.targetLang)?.name}
+                {getLanguageName(item.sourceLang)} → {getLanguageName(item.targetLang)}
               </Text>
               <Text style={styles.historyItemText} numberOfLines={2}>{item.text}</Text>
               <Text style={styles.historyItemTranslation} numberOfLines={2}>{item.translation}</Text>
@@ -751,6 +788,16 @@ const styles = StyleSheet.create({
     lineHeight: 26,
     fontFamily: Platform.OS === 'ios' ? 'System' : 'sans-serif',
   },
+  translationErrorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  translationErrorText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 15,
+    color: '#e74c3c',
+  },
   translatedText: {
     fontSize: 16,
     color: '#2c3e50',
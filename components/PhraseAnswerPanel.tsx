@@ -0,0 +1,70 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { getTextDirection } from '../services/languageRegistry';
+import { PhraseAnswer, PhraseAnswerType } from '../services/types';
+import { PhraseResponder } from './PhraseResponder';
+
+interface PhraseAnswerPanelProps {
+  visible: boolean;
+  answerType: PhraseAnswerType | null;
+  question: string;
+  language: string;
+  onAnswer: (answer: PhraseAnswer) => void;
+  onClose: () => void;
+}
+
+/**
+ * Répondeur à pictogrammes affiché après la lecture d'une question
+ * La question traduite est rappelée au-dessus des pictogrammes de réponse
+ */
+export const PhraseAnswerPanel: React.FC<PhraseAnswerPanelProps> = ({
+  visible,
+  answerType,
+  question,
+  language,
+  onAnswer,
+  onClose
+}) => {
+  const direction = getTextDirection(language);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.panel}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} accessibilityLabel="Fermer">
+            <MaterialCommunityIcons name="close" size={26} color="#666" />
+          </TouchableOpacity>
+          <Text style={[styles.question, { writingDirection: direction }]}>{question}</Text>
+          <PhraseResponder key={question} answerType={answerType} language={language} onAnswer={onAnswer} />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  panel: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  closeButton: {
+    alignSelf: 'flex-end',
+    padding: 4,
+  },
+  question: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#222',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+});
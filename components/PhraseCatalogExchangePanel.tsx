@@ -0,0 +1,309 @@
+import { Picker } from '@react-native-picker/picker';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import React, { useState } from 'react';
+import { Alert, Platform, Share, StyleSheet, Text, useColorScheme, View } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Theme } from '../constants/Theme';
+import { getLanguageName, LANGUAGES } from '../services/languageRegistry';
+import {
+  applyPhraseCatalogImport,
+  exportPhraseCatalog,
+  getPhraseCatalogFileName,
+  validatePhraseCatalogImport
+} from '../services/phraseCatalogExchangeService';
+import { PhraseCatalogFormat, PhraseCatalogImportReport } from '../services/types';
+import { AppButton } from './ui/AppButton';
+import { AppCard } from './ui/AppCard';
+
+// Nombre maximum de phrases listées par rubrique du rapport
+const REPORT_PREVIEW_LIMIT = 5;
+
+const FORMATS: { value: PhraseCatalogFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV (tableur, toutes les langues)' },
+  { value: 'xliff-1.2', label: 'XLIFF 1.2' },
+  { value: 'xliff-2.0', label: 'XLIFF 2.0' },
+];
+
+/**
+ * Panneau d'import/export du catalogue de phrases (CSV, XLIFF 1.2 et 2.0)
+ * Un import est d'abord validé ; le rapport est affiché et le catalogue
+ * n'est modifié qu'après confirmation
+ */
+export const PhraseCatalogExchangePanel = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = Colors[isDark ? 'dark' : 'light'];
+  const theme = Theme;
+
+  const [format, setFormat] = useState<PhraseCatalogFormat>('csv');
+  const [targetLanguage, setTargetLanguage] = useState('en');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [report, setReport] = useState<PhraseCatalogImportReport | null>(null);
+
+  // Liste tronquée de phrases pour le rapport
+  const formatPhraseList = (phrases: string[]) =>
+    phrases.slice(0, REPORT_PREVIEW_LIMIT).join(' · ') +
+    (phrases.length > REPORT_PREVIEW_LIMIT ? ` (+${phrases.length - REPORT_PREVIEW_LIMIT})` : '');
+
+  // Fonction pour exporter le catalogue et le partager
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const content = await exportPhraseCatalog(format, format === 'csv' ? undefined : targetLanguage);
+      const fileName = getPhraseCatalogFileName(format, targetLanguage);
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(fileUri, content);
+
+      // iOS partage le fichier ; Android ne partage que du texte via l'API Share
+      await Share.share(
+        Platform.OS === 'ios' ? { url: fileUri, title: fileName } : { message: content, title: fileName }
+      );
+    } catch (error) {
+      console.error('Error exporting phrase catalog:', error);
+      Alert.alert('Erreur', 'Impossible d\'exporter le catalogue de phrases.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Fonction pour choisir un fichier et valider son contenu
+  const handlePickImport = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/xml', 'text/xml', 'application/x-xliff+xml', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets || result.assets.length === 0) {
+        return;
+      }
+
+      setIsValidating(true);
+      const asset = result.assets[0];
+      const content = await FileSystem.readAsStringAsync(asset.uri);
+      setReport(await validatePhraseCatalogImport(content, asset.name));
+    } catch (error) {
+      console.error('Error reading phrase catalog import:', error);
+      Alert.alert('Erreur', 'Impossible de lire le fichier sélectionné.');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  // Fonction pour appliquer l'import validé
+  const handleApplyImport = async () => {
+    if (!report) return;
+
+    setIsApplying(true);
+    try {
+      const summary = await applyPhraseCatalogImport(report, `Import ${report.fileName}`);
+      setReport(null);
+      Alert.alert(
+        'Import terminé',
+        `${summary.addedPhrases} phrase(s) ajoutée(s), ${summary.updatedPhrases} mise(s) à jour, ` +
+        `${summary.createdCategories} catégorie(s) créée(s).\n` +
+        `${summary.verifiedTranslations} traduction(s) vérifiée(s) et ${summary.machineTranslations} traduction(s) à vérifier enregistrées.`
+      );
+    } catch (error) {
+      console.error('Error applying phrase catalog import:', error);
+      Alert.alert('Erreur', 'Impossible d\'importer le catalogue de phrases.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const missingLanguages = report ? Object.keys(report.missingTranslations) : [];
+
+  return (
+    <AppCard
+      title="Import / export des phrases"
+      icon="file-swap"
+      iconColor={theme.colors.primary}
+      style={styles.container}
+    >
+      <Text style={[styles.description, { color: isDark ? '#aaaaaa' : '#666666' }]}>
+        Échangez le catalogue de phrases avec les interprètes : source française, catégorie,
+        traductions et statut de vérification, au format CSV (tableur) ou XLIFF (outils de traduction).
+      </Text>
+
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={format}
+          style={styles.picker}
+          onValueChange={(value) => setFormat(value)}
+          dropdownIconColor={theme.colors.primary}
+        >
+          {FORMATS.map(item => (
+            <Picker.Item key={item.value} label={item.label} value={item.value} />
+          ))}
+        </Picker>
+      </View>
+
+      {/* Un document XLIFF correspond à une seule langue cible */}
+      {format !== 'csv' && (
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={targetLanguage}
+            style={styles.picker}
+            onValueChange={(value) => setTargetLanguage(value)}
+            dropdownIconColor={theme.colors.primary}
+          >
+            {LANGUAGES.filter(lang => lang.code !== 'fr').map(lang => (
+              <Picker.Item key={lang.code} label={lang.name} value={lang.code} />
+            ))}
+          </Picker>
+        </View>
+      )}
+
+      <View style={styles.buttonRow}>
+        <AppButton
+          title="Exporter"
+          icon="export"
+          onPress={handleExport}
+          disabled={isExporting}
+          loading={isExporting}
+          type="outline"
+          size="medium"
+          style={styles.rowButton}
+        />
+        <AppButton
+          title="Importer"
+          icon="import"
+          onPress={handlePickImport}
+          disabled={isValidating || isApplying}
+          loading={isValidating}
+          type="primary"
+          size="medium"
+          style={styles.rowButton}
+        />
+      </View>
+
+      {/* Rapport de validation de l'import */}
+      {report && (
+        <View style={[styles.report, { borderColor: isDark ? '#444' : '#e0e0e0' }]}>
+          <Text style={[styles.reportTitle, { color: colors.text }]}>
+            {report.fileName} ({report.format.toUpperCase()})
+          </Text>
+
+          {report.errors.map(error => (
+            <Text key={error} style={styles.errorText}>{error}</Text>
+          ))}
+
+          {report.errors.length === 0 && (
+            <>
+              <Text style={[styles.reportLine, { color: colors.text }]}>
+                {report.newPhraseCount} nouvelle(s) phrase(s), {report.updatedPhraseCount} phrase(s) existante(s)
+              </Text>
+              <Text style={[styles.reportLine, { color: colors.text }]}>
+                Langues : {report.languages.map(getLanguageName).join(', ') || 'aucune'}
+              </Text>
+
+              {report.unknownLanguages.length > 0 && (
+                <Text style={styles.warningText}>
+                  Codes de langue inconnus (ignorés) : {report.unknownLanguages.join(', ')}
+                </Text>
+              )}
+              {report.duplicates.length > 0 && (
+                <Text style={styles.warningText}>
+                  Doublons (première occurrence conservée) : {formatPhraseList(report.duplicates)}
+                </Text>
+              )}
+              {missingLanguages.map(lang => (
+                <Text key={lang} style={styles.warningText}>
+                  Traductions manquantes en {getLanguageName(lang)} ({report.missingTranslations[lang].length}) :{' '}
+                  {formatPhraseList(report.missingTranslations[lang])}
+                </Text>
+              ))}
+              {report.unknownCategories.length > 0 && (
+                <Text style={[styles.reportLine, { color: colors.text }]}>
+                  Catégories créées : {report.unknownCategories.join(', ')}
+                </Text>
+              )}
+            </>
+          )}
+
+          <View style={styles.buttonRow}>
+            <AppButton
+              title="Annuler"
+              onPress={() => setReport(null)}
+              disabled={isApplying}
+              type="outline"
+              size="small"
+              style={styles.rowButton}
+            />
+            <AppButton
+              title="Appliquer l'import"
+              icon="check"
+              onPress={handleApplyImport}
+              disabled={isApplying || report.errors.length > 0}
+              loading={isApplying}
+              type="primary"
+              size="small"
+              style={styles.rowButton}
+            />
+          </View>
+        </View>
+      )}
+    </AppCard>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+  },
+  description: {
+    fontSize: 14,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  pickerContainer: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+    width: '100%',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  rowButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  report: {
+    marginTop: 16,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  reportTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  reportLine: {
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#E65100',
+    marginBottom: 6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#e74c3c',
+    marginBottom: 6,
+  },
+});
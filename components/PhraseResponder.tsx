@@ -0,0 +1,235 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { getTextDirection } from '../services/languageRegistry';
+import { getAnswerLabels } from '../services/phraseAnswerService';
+import { PainLocation, PhraseAnswer, PhraseAnswerType } from '../services/types';
+import { BodyMap } from './BodyMap';
+
+interface PhraseResponderProps {
+  answerType: PhraseAnswerType | null;
+  language: string;
+  onAnswer: (answer: PhraseAnswer) => void;
+}
+
+// Nombre maximal de chiffres saisis sur le pavé numérique
+const MAX_DIGITS = 3;
+
+// Touches du pavé numérique, ligne par ligne
+const KEYPAD_ROWS = [['1', '2', '3'], ['4', '5', '6'], ['7', '8', '9'], ['erase', '0', 'confirm']];
+
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+// Visage et couleur de chaque niveau de douleur (0 à 10)
+const PAIN_LEVELS = Array.from({ length: 11 }, (_, level) => ({
+  level,
+  icon: (level <= 1 ? 'emoticon-happy-outline'
+    : level <= 3 ? 'emoticon-outline'
+    : level <= 5 ? 'emoticon-neutral-outline'
+    : level <= 7 ? 'emoticon-sad-outline'
+    : 'emoticon-cry-outline') as IconName,
+  color: `hsl(${Math.round(120 - level * 12)}, 70%, 42%)`,
+}));
+
+/**
+ * Pictogrammes de réponse à une question
+ * La victime répond sans parler, dans sa langue : oui / non / je ne sais pas,
+ * nombre sur un pavé numérique, niveau de douleur de 0 à 10 ou zones
+ * douloureuses sur la carte du corps. Le pavé et la carte repartent de zéro
+ * à chaque montage : changer la `key` du composant à chaque question
+ */
+export const PhraseResponder: React.FC<PhraseResponderProps> = ({ answerType, language, onAnswer }) => {
+  const [digits, setDigits] = useState('');
+  const [painLocations, setPainLocations] = useState<PainLocation[]>([]);
+  const labels = getAnswerLabels(language);
+  const direction = getTextDirection(language);
+
+  const pressKey = (key: string) => {
+    if (key === 'erase') {
+      setDigits(value => value.slice(0, -1));
+    } else if (key === 'confirm') {
+      if (digits) onAnswer({ type: 'number', value: parseInt(digits, 10) });
+    } else if (digits.length < MAX_DIGITS) {
+      setDigits(value => (value === '0' ? key : value + key));
+    }
+  };
+
+  const renderYesNo = () => (
+    <View style={styles.yesNoRow}>
+      {([
+        { value: 'yes', icon: 'check-circle', color: '#2E7D32', label: labels.yes },
+        { value: 'no', icon: 'close-circle', color: '#C62828', label: labels.no },
+        { value: 'unknown', icon: 'help-circle', color: '#757575', label: labels.unknown },
+      ] as const).map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.yesNoButton, { borderColor: option.color }]}
+          onPress={() => onAnswer({ type: 'yes-no', value: option.value })}
+          accessibilityLabel={option.label}
+        >
+          <MaterialCommunityIcons name={option.icon} size={56} color={option.color} />
+          <Text style={[styles.yesNoLabel, { color: option.color, writingDirection: direction }]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderKeypad = () => (
+    <View>
+      <Text style={styles.numberDisplay}>{digits || '–'}</Text>
+      {KEYPAD_ROWS.map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.keypadRow}>
+          {row.map(key => (
+            <TouchableOpacity
+              key={key}
+              style={[
+                styles.key,
+                key === 'confirm' && { backgroundColor: digits ? '#2E7D32' : '#a5d6a7' },
+                key === 'erase' && styles.eraseKey
+              ]}
+              onPress={() => pressKey(key)}
+              disabled={key === 'confirm' && !digits}
+            >
+              {key === 'confirm' ? (
+                <MaterialCommunityIcons name="check" size={32} color="#fff" />
+              ) : key === 'erase' ? (
+                <MaterialCommunityIcons name="backspace-outline" size={28} color="#333" />
+              ) : (
+                <Text style={styles.keyText}>{key}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderPainScale = () => (
+    <View>
+      <View style={styles.painScale}>
+        {PAIN_LEVELS.map(({ level, icon, color }) => (
+          <TouchableOpacity
+            key={level}
+            style={[styles.painButton, { borderColor: color }]}
+            onPress={() => onAnswer({ type: 'pain-scale', value: level })}
+            accessibilityLabel={`${level}/10`}
+          >
+            <MaterialCommunityIcons name={icon} size={30} color={color} />
+            <Text style={[styles.painLevel, { color }]}>{level}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.painLabels}>
+        <Text style={[styles.painLabel, { color: PAIN_LEVELS[0].color, writingDirection: direction }]}>0 = {labels.noPain}</Text>
+        <Text style={[styles.painLabel, { color: PAIN_LEVELS[10].color, writingDirection: direction }]}>10 = {labels.worstPain}</Text>
+      </View>
+    </View>
+  );
+
+  const renderBodyMap = () => (
+    <View>
+      <BodyMap selections={painLocations} onChange={setPainLocations} language={language} />
+      <TouchableOpacity
+        style={[styles.confirmButton, { backgroundColor: painLocations.length > 0 ? '#2E7D32' : '#a5d6a7' }]}
+        onPress={() => onAnswer({ type: 'body-map', value: painLocations })}
+        disabled={painLocations.length === 0}
+        accessibilityLabel="OK"
+      >
+        <MaterialCommunityIcons name="check" size={32} color="#fff" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View>
+      {answerType === 'yes-no' && renderYesNo()}
+      {answerType === 'number' && renderKeypad()}
+      {answerType === 'pain-scale' && renderPainScale()}
+      {answerType === 'body-map' && renderBodyMap()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  yesNoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  yesNoButton: {
+    flex: 1,
+    alignItems: 'center',
+    borderWidth: 3,
+    borderRadius: 16,
+    paddingVertical: 16,
+    marginHorizontal: 4,
+  },
+  yesNoLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  numberDisplay: {
+    fontSize: 40,
+    fontWeight: '700',
+    textAlign: 'center',
+    color: '#144291',
+    marginBottom: 12,
+  },
+  keypadRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  key: {
+    width: 80,
+    height: 64,
+    margin: 6,
+    borderRadius: 12,
+    backgroundColor: '#eef2f7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  eraseKey: {
+    backgroundColor: '#e0e0e0',
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '600',
+    color: '#222',
+  },
+  painScale: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  painButton: {
+    width: 56,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  painLevel: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  painLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  confirmButton: {
+    alignSelf: 'center',
+    width: 120,
+    height: 56,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  painLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
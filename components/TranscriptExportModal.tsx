@@ -0,0 +1,129 @@
+import { Theme } from '@/constants/Theme';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { conversationSessionService } from '../services/conversationSessionService';
+import { exportTranscript, shareTranscript } from '../services/transcriptExportService';
+import { TranscriptFormat } from '../services/types';
+import { AppButton } from './ui/AppButton';
+
+interface TranscriptExportModalProps {
+  // Session à exporter, ou null pour masquer la fenêtre
+  sessionId: string | null;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { format: TranscriptFormat; label: string; description: string; icon: string }[] = [
+  { format: 'pdf', label: 'Rapport PDF', description: 'Original et traduction côte à côte', icon: 'file-pdf-box' },
+  { format: 'text', label: 'Texte brut', description: 'Lisible dans tout éditeur', icon: 'file-document-outline' },
+  { format: 'json', label: 'JSON', description: 'Pour les logiciels de débriefing', icon: 'code-json' },
+];
+
+/**
+ * Fenêtre d'export de la transcription d'une session
+ * Le fichier est enregistré sur l'appareil puis proposé au partage
+ */
+export const TranscriptExportModal: React.FC<TranscriptExportModalProps> = ({ sessionId, onClose }) => {
+  const theme = Theme;
+  const [exportingFormat, setExportingFormat] = useState<TranscriptFormat | null>(null);
+
+  const handleExport = async (format: TranscriptFormat) => {
+    if (!sessionId) return;
+
+    setExportingFormat(format);
+    try {
+      const session = await conversationSessionService.getSession(sessionId);
+      if (!session || session.turns.length === 0) {
+        Alert.alert('Transcription vide', 'Cette session ne contient aucun tour de parole.');
+        return;
+      }
+
+      const fileUri = await exportTranscript(session, format);
+      onClose();
+      if (!(await shareTranscript(fileUri, format))) {
+        Alert.alert('Transcription enregistrée', `Le partage n'est pas disponible sur cet appareil. Fichier : ${fileUri}`);
+      }
+    } catch (error) {
+      console.error('Error exporting transcript:', error);
+      Alert.alert('Erreur', 'Impossible d\'exporter la transcription.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <Modal visible={sessionId !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Exporter la transcription</Text>
+
+          {FORMAT_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.format}
+              style={styles.option}
+              onPress={() => handleExport(option.format)}
+              disabled={exportingFormat !== null}
+            >
+              <MaterialCommunityIcons name={option.icon as any} size={28} color={theme.colors.primary} />
+              <View style={styles.optionText}>
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </View>
+              {exportingFormat === option.format && <ActivityIndicator size="small" color={theme.colors.primary} />}
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.actions}>
+            <AppButton title="Annuler" type="outline" size="small" onPress={onClose} disabled={exportingFormat !== null} />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  optionText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333333',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+});
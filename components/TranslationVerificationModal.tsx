@@ -0,0 +1,182 @@
+import { Theme } from '@/constants/Theme';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, StyleSheet, Text, TextInput, View } from 'react-native';
+import { translationVerificationService } from '../services/translationVerificationService';
+import { AppButton } from './ui/AppButton';
+
+export type TranslationVerificationMode = 'verify' | 'correct';
+
+interface TranslationVerificationModalProps {
+  visible: boolean;
+  mode: TranslationVerificationMode;
+  sourceText: string;
+  sourceLang: string;
+  targetLang: string;
+  translation: string;
+  onClose: () => void;
+}
+
+/**
+ * Fenêtre de vérification d'une traduction
+ * En mode "verify", la traduction affichée est validée telle quelle ;
+ * en mode "correct", elle est signalée comme fausse et remplacée par la correction saisie
+ */
+export const TranslationVerificationModal: React.FC<TranslationVerificationModalProps> = ({
+  visible,
+  mode,
+  sourceText,
+  sourceLang,
+  targetLang,
+  translation,
+  onClose
+}) => {
+  const theme = Theme;
+  const [verifierName, setVerifierName] = useState('');
+  const [correction, setCorrection] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Réinitialiser le formulaire à chaque ouverture
+  useEffect(() => {
+    if (visible) {
+      setVerifierName(translationVerificationService.getLastVerifierName());
+      setCorrection(translation);
+    }
+  }, [visible, translation]);
+
+  const isCorrection = mode === 'correct';
+  const canConfirm = verifierName.trim().length > 0 &&
+    (!isCorrection || (correction.trim().length > 0 && correction.trim() !== translation.trim()));
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    const saved = isCorrection
+      ? await translationVerificationService.correct(sourceText, sourceLang, targetLang, translation, correction, verifierName)
+      : await translationVerificationService.verify(sourceText, sourceLang, targetLang, translation, verifierName);
+    setIsSaving(false);
+
+    if (!saved) {
+      Alert.alert('Erreur', 'Impossible d\'enregistrer la vérification.');
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.dialog}>
+          <View style={styles.titleRow}>
+            <MaterialCommunityIcons
+              name={isCorrection ? 'alert-octagon' : 'shield-check'}
+              size={24}
+              color={isCorrection ? theme.colors.secondary : '#2E7D32'}
+            />
+            <Text style={styles.title}>
+              {isCorrection ? 'Corriger la traduction' : 'Valider la traduction'}
+            </Text>
+          </View>
+
+          <Text style={styles.label}>Texte original ({sourceLang.toUpperCase()})</Text>
+          <Text style={styles.value}>{sourceText}</Text>
+
+          <Text style={styles.label}>
+            {isCorrection ? 'Traduction signalée comme fausse' : 'Traduction'} ({targetLang.toUpperCase()})
+          </Text>
+          <Text style={[styles.value, isCorrection && styles.incorrectValue]}>{translation}</Text>
+
+          {isCorrection && (
+            <>
+              <Text style={styles.label}>Traduction corrigée</Text>
+              <TextInput
+                style={styles.input}
+                value={correction}
+                onChangeText={setCorrection}
+                multiline
+              />
+            </>
+          )}
+
+          <Text style={styles.label}>Vérifiée par</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Nom ou matricule (ex: Sgt. Martin, interprète)"
+            placeholderTextColor="#999"
+            value={verifierName}
+            onChangeText={setVerifierName}
+          />
+
+          <View style={styles.actions}>
+            <AppButton title="Annuler" type="outline" size="small" onPress={onClose} />
+            <AppButton
+              title="Confirmer"
+              icon="check"
+              size="small"
+              onPress={handleConfirm}
+              disabled={!canConfirm || isSaving}
+              loading={isSaving}
+              style={styles.confirmButton}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginLeft: 10,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 4,
+  },
+  value: {
+    fontSize: 16,
+    color: '#333333',
+    marginBottom: 12,
+  },
+  incorrectValue: {
+    textDecorationLine: 'line-through',
+    color: '#999999',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#333333',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  confirmButton: {
+    marginLeft: 10,
+  },
+});
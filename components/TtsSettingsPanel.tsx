@@ -0,0 +1,277 @@
+import { Picker } from '@react-native-picker/picker';
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, useColorScheme, View } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Theme } from '../constants/Theme';
+import { getLanguage, getLanguagesWithCapability } from '../services/languageRegistry';
+import { synthesizeEmergencyPhrases } from '../services/translationService';
+import { DEFAULT_TTS_VOICE_SETTINGS, ttsService } from '../services/ttsService';
+import { TtsVoice, TtsVoiceSettings } from '../services/types';
+import { AppButton } from './ui/AppButton';
+import { AppCard } from './ui/AppCard';
+
+interface SettingRange {
+  key: 'rate' | 'pitch' | 'volume';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SETTING_RANGES: SettingRange[] = [
+  { key: 'rate', label: 'Débit', min: 0.5, max: 2, step: 0.1 },
+  { key: 'pitch', label: 'Hauteur', min: 0.6, max: 1.8, step: 0.1 },
+  { key: 'volume', label: 'Volume', min: 0.1, max: 1, step: 0.1 },
+];
+
+// Valeur affichée en pourcentage (1 = 100 %)
+const formatPercent = (value: number) => `${Math.round(value * 100)} %`;
+
+/**
+ * Panneau de réglage de la voix utilisée pour chaque langue
+ * Permet de choisir une voix installée et d'ajuster débit, hauteur et volume
+ */
+export const TtsSettingsPanel = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = Colors[isDark ? 'dark' : 'light'];
+  const theme = Theme;
+  const languages = getLanguagesWithCapability('tts');
+
+  const [language, setLanguage] = useState('en');
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const [settings, setSettings] = useState<TtsVoiceSettings>(DEFAULT_TTS_VOICE_SETTINGS);
+  const [preparationProgress, setPreparationProgress] = useState<string | null>(null);
+  const hasInstalledVoice = voices.some(voice => voice.isInstalled);
+
+  useEffect(() => {
+    let isMounted = true;
+    ttsService.initialize().then(() => {
+      if (isMounted) setSettings(ttsService.getVoiceSettings(language));
+    });
+    ttsService.getVoices(language).then(languageVoices => {
+      if (isMounted) setVoices(languageVoices);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [language]);
+
+  // Fonction pour enregistrer un réglage modifié
+  const updateSettings = async (changes: Partial<TtsVoiceSettings>) => {
+    setSettings(previous => ({ ...previous, ...changes }));
+    if (!(await ttsService.setVoiceSettings(language, changes))) {
+      Alert.alert('Erreur', 'Impossible d\'enregistrer les réglages de la voix.');
+    }
+  };
+
+  const changeSetting = (range: SettingRange, direction: 1 | -1) => {
+    const value = Math.round(Math.min(range.max, Math.max(range.min, settings[range.key] + direction * range.step)) * 10) / 10;
+    if (value !== settings[range.key]) {
+      updateSettings({ [range.key]: value });
+    }
+  };
+
+  const resetSettings = async () => {
+    setSettings({ ...DEFAULT_TTS_VOICE_SETTINGS });
+    await ttsService.resetVoiceSettings(language);
+  };
+
+  // Prononce le nom de la langue avec la voix réglée
+  const testVoice = () => {
+    ttsService.speak(getLanguage(language)?.nativeName ?? language, language, { interrupt: true });
+  };
+
+  // Synthétise en ligne les phrases d'urgence pour les prononcer hors connexion
+  const prepareOfflineSpeech = async () => {
+    setPreparationProgress('0 %');
+    const count = await synthesizeEmergencyPhrases(language, (processed, total) => {
+      setPreparationProgress(`${Math.round((processed / total) * 100)} %`);
+    });
+    setPreparationProgress(null);
+    if (count > 0) {
+      Alert.alert('Lecture hors ligne', `${count} phrases d'urgence sont disponibles sans connexion.`);
+    } else {
+      Alert.alert('Erreur', 'Impossible de préparer la lecture hors ligne. Vérifiez votre connexion internet.');
+    }
+  };
+
+  return (
+    <AppCard
+      title="Voix de lecture"
+      icon="account-voice"
+      iconColor={theme.colors.primary}
+      style={styles.container}
+    >
+      <Text style={[styles.description, { color: isDark ? '#aaaaaa' : '#666666' }]}>
+        Choisissez la voix et le débit de lecture des traductions pour chaque langue.
+      </Text>
+
+      <Text style={[styles.label, { color: colors.text }]}>Langue</Text>
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={language}
+          style={[styles.picker, { color: colors.text }]}
+          onValueChange={value => setLanguage(value)}
+          dropdownIconColor={theme.colors.primary}
+        >
+          {languages.map(lang => (
+            <Picker.Item key={lang.code} label={lang.name} value={lang.code} />
+          ))}
+        </Picker>
+      </View>
+
+      <Text style={[styles.label, { color: colors.text }]}>Voix</Text>
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={settings.voiceId ?? ''}
+          style={[styles.picker, { color: colors.text }]}
+          onValueChange={value => updateSettings({ voiceId: value || undefined })}
+          dropdownIconColor={theme.colors.primary}
+        >
+          <Picker.Item label="Voix par défaut de l'appareil" value="" />
+          {voices.map(voice => (
+            <Picker.Item
+              key={voice.id}
+              label={`${voice.name} (${voice.locale})${voice.isInstalled ? '' : ' – à télécharger'}`}
+              value={voice.id}
+            />
+          ))}
+        </Picker>
+      </View>
+      {!hasInstalledVoice && (
+        <>
+          <Text style={[styles.warning, { color: theme.colors.error }]}>
+            Aucune voix installée sur l&apos;appareil pour cette langue : la lecture utilise une voix en ligne.
+          </Text>
+          <AppButton
+            title={preparationProgress ? `Préparation… ${preparationProgress}` : 'Préparer la lecture hors ligne'}
+            icon="download"
+            onPress={prepareOfflineSpeech}
+            type="outline"
+            size="small"
+            disabled={preparationProgress !== null}
+            style={styles.prepareButton}
+          />
+        </>
+      )}
+
+      {SETTING_RANGES.map(range => (
+        <View key={range.key} style={styles.setting}>
+          <Text style={[styles.settingLabel, { color: colors.text }]}>{range.label}</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={[styles.stepperButton, { backgroundColor: theme.colors.primary }]}
+              onPress={() => changeSetting(range, -1)}
+              disabled={settings[range.key] <= range.min}
+            >
+              <Text style={styles.stepperButtonText}>-</Text>
+            </TouchableOpacity>
+            <Text style={[styles.settingValue, { color: colors.text }]}>
+              {formatPercent(settings[range.key])}
+            </Text>
+            <TouchableOpacity
+              style={[styles.stepperButton, { backgroundColor: theme.colors.primary }]}
+              onPress={() => changeSetting(range, 1)}
+              disabled={settings[range.key] >= range.max}
+            >
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <AppButton
+          title="Écouter"
+          icon="play"
+          onPress={testVoice}
+          size="small"
+          style={styles.actionButton}
+        />
+        <AppButton
+          title="Valeurs par défaut"
+          icon="restore"
+          onPress={resetSettings}
+          type="outline"
+          size="small"
+          style={styles.actionButton}
+        />
+      </View>
+    </AppCard>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+  },
+  description: {
+    fontSize: 14,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#dddddd',
+    borderRadius: 8,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+  },
+  warning: {
+    fontSize: 12,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  prepareButton: {
+    marginBottom: 12,
+  },
+  setting: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  settingLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  settingValue: {
+    fontSize: 15,
+    minWidth: 72,
+    textAlign: 'center',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
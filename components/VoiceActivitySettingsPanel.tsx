@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, useColorScheme, View } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Theme } from '../constants/Theme';
+import { VoiceActivitySettings } from '../services/types';
+import {
+  DEFAULT_VOICE_ACTIVITY_SETTINGS,
+  loadVoiceActivitySettings,
+  saveVoiceActivitySettings
+} from '../services/voiceActivityService';
+import { AppButton } from './ui/AppButton';
+import { AppCard } from './ui/AppCard';
+
+interface SettingRange {
+  key: keyof VoiceActivitySettings;
+  label: string;
+  description: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SETTING_RANGES: SettingRange[] = [
+  {
+    key: 'speechMarginDb',
+    label: 'Sensibilité',
+    description: 'Écart au-dessus du bruit ambiant pour détecter la parole. Augmentez-le sur une intervention très bruyante.',
+    unit: 'dB',
+    min: 2,
+    max: 20,
+    step: 1,
+  },
+  {
+    key: 'hangoverMs',
+    label: 'Fin de phrase',
+    description: 'Durée de silence avant de considérer la phrase terminée.',
+    unit: 'ms',
+    min: 400,
+    max: 3000,
+    step: 200,
+  },
+  {
+    key: 'minSpeechMs',
+    label: 'Parole minimale',
+    description: 'Les bruits plus brefs (claquement, bip) ne déclenchent pas la détection.',
+    unit: 'ms',
+    min: 100,
+    max: 1000,
+    step: 50,
+  },
+];
+
+/**
+ * Panneau de réglage de la détection de fin de phrase (activité vocale)
+ * Les réglages s'appliquent à partir de la prochaine écoute
+ */
+export const VoiceActivitySettingsPanel = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = Colors[isDark ? 'dark' : 'light'];
+  const theme = Theme;
+
+  const [settings, setSettings] = useState<VoiceActivitySettings>(DEFAULT_VOICE_ACTIVITY_SETTINGS);
+
+  useEffect(() => {
+    loadVoiceActivitySettings().then(setSettings);
+  }, []);
+
+  // Fonction pour enregistrer un réglage modifié
+  const updateSettings = async (newSettings: VoiceActivitySettings) => {
+    setSettings(newSettings);
+    if (!(await saveVoiceActivitySettings(newSettings))) {
+      Alert.alert('Erreur', 'Impossible d\'enregistrer les réglages de détection de la parole.');
+    }
+  };
+
+  const changeSetting = (range: SettingRange, direction: 1 | -1) => {
+    const value = Math.min(range.max, Math.max(range.min, settings[range.key] + direction * range.step));
+    if (value !== settings[range.key]) {
+      updateSettings({ ...settings, [range.key]: value });
+    }
+  };
+
+  return (
+    <AppCard
+      title="Détection de fin de phrase"
+      icon="waveform"
+      iconColor={theme.colors.primary}
+      style={styles.container}
+    >
+      <Text style={[styles.description, { color: isDark ? '#aaaaaa' : '#666666' }]}>
+        L&apos;écoute s&apos;arrête automatiquement à la fin de chaque phrase, en tenant compte du bruit ambiant.
+      </Text>
+
+      {SETTING_RANGES.map(range => (
+        <View key={range.key} style={styles.setting}>
+          <View style={styles.settingHeader}>
+            <Text style={[styles.settingLabel, { color: colors.text }]}>{range.label}</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => changeSetting(range, -1)}
+                disabled={settings[range.key] <= range.min}
+              >
+                <Text style={styles.stepperButtonText}>-</Text>
+              </TouchableOpacity>
+              <Text style={[styles.settingValue, { color: colors.text }]}>
+                {settings[range.key]} {range.unit}
+              </Text>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => changeSetting(range, 1)}
+                disabled={settings[range.key] >= range.max}
+              >
+                <Text style={styles.stepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+          <Text style={[styles.settingDescription, { color: isDark ? '#aaaaaa' : '#666666' }]}>
+            {range.description}
+          </Text>
+        </View>
+      ))}
+
+      <AppButton
+        title="Valeurs par défaut"
+        icon="restore"
+        onPress={() => updateSettings({ ...DEFAULT_VOICE_ACTIVITY_SETTINGS })}
+        type="outline"
+        size="small"
+        fullWidth
+      />
+    </AppCard>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+  },
+  description: {
+    fontSize: 14,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  setting: {
+    marginBottom: 16,
+  },
+  settingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  settingLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  settingValue: {
+    fontSize: 15,
+    minWidth: 72,
+    textAlign: 'center',
+  },
+  settingDescription: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -18,6 +18,7 @@ interface MemoizedMessageBubbleProps {
   language?: string;
   onSpeak?: () => void;
   colors: any;
+  large?: boolean;
 }
 
 interface MemoizedEmergencyPhraseProps {
@@ -70,7 +71,7 @@ export const MemoizedLanguagePicker = memo<MemoizedLanguagePickerProps>(
 
 // Composant Message Bubble mémorisé
 export const MemoizedMessageBubble = memo<MemoizedMessageBubbleProps>(
-  ({ text, isSource, language, onSpeak, colors }) => {
+  ({ text, isSource, language, onSpeak, colors, large = false }) => {
     const bubbleStyle = isSource ? styles.messageBubbleSource : styles.messageBubbleTarget;
     const headerColor = isSource ? colors.primary : colors.secondary;
 
@@ -86,7 +87,7 @@ export const MemoizedMessageBubble = memo<MemoizedMessageBubbleProps>(
             {isSource ? 'Texte reconnu' : `Traduction ${language ? `(${language})` : ''}`}
           </Text>
         </View>
-        <Text style={[styles.messageText, { color: colors.text }]}>{text}</Text>
+        <Text style={[styles.messageText, large && styles.messageTextLarge, { color: colors.text }]}>{text}</Text>
         {!isSource && onSpeak && (
           <TouchableOpacity style={styles.speakButton} onPress={onSpeak}>
             <Ionicons name="volume-high" size={24} color="#fff" />
@@ -100,7 +101,8 @@ export const MemoizedMessageBubble = memo<MemoizedMessageBubbleProps>(
       prevProps.text === nextProps.text &&
       prevProps.isSource === nextProps.isSource &&
       prevProps.language === nextProps.language &&
-      prevProps.colors === nextProps.colors
+      prevProps.colors === nextProps.colors &&
+      prevProps.large === nextProps.large
     );
   }
 );
@@ -192,6 +194,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 24,
   },
+  // Texte lisible à distance (vue face à face)
+  messageTextLarge: {
+    fontSize: 26,
+    lineHeight: 36,
+    paddingRight: 40,
+  },
   speakButton: {
     position: 'absolute',
     right: 12,
@@ -1,21 +1,19 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { memo, useCallback } from 'react';
 import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-
-interface EmergencyPhrase {
-  fr: string;
-  translations: Record<string, string>;
-}
+import { phraseRepository } from '../../services/phraseRepository';
+import { Phrase } from '../../services/types';
 
 interface MemoizedEmergencyPhrasesProps {
-  phrases: EmergencyPhrase[];
+  // Par défaut, les phrases épinglées du catalogue
+  phrases?: Phrase[];
   onPhrasePress: (phrase: string) => void;
   colorScheme: string | null | undefined;
   colors: any;
 }
 
 const MemoizedEmergencyPhrases = memo<MemoizedEmergencyPhrasesProps>(({
-  phrases,
+  phrases = phraseRepository.getPinnedPhrases(),
   onPhrasePress,
   colorScheme,
   colors
@@ -86,9 +84,9 @@ const MemoizedEmergencyPhrases = memo<MemoizedEmergencyPhrasesProps>(({
       </View>
       <View style={styles.phrasesContainer}>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-          {phrases.map((phrase, index) => (
+          {phrases.map((phrase) => (
             <TouchableOpacity
-              key={index}
+              key={phrase.id}
               style={styles.emergencyPhraseButton}
               onPress={() => handlePhrasePress(phrase.fr)}
             >
@@ -1,7 +1,7 @@
 import React, { memo } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
-import { LANGUAGES } from '../../services/translationService';
+import { LANGUAGES } from '../../services/languageRegistry';
 
 interface MemoizedLanguagePickerProps {
   label: string;
@@ -24,12 +24,25 @@ import {
  */
 const API_KEY_STORAGE_KEY = 'GOOGLE_CLOUD_API_KEY';
 
+/**
+ * Clé de stockage pour l'URL du serveur de traduction local (compatible LibreTranslate)
+ * @constant {string}
+ * @private
+ */
+const LOCAL_TRANSLATION_SERVER_STORAGE_KEY = 'LOCAL_TRANSLATION_SERVER_URL';
+
 /**
  * Variable en mémoire pour stocker la clé API (évite les lectures répétées)
  * @private
  */
 let cachedApiKey = '';
 
+/**
+ * Variable en mémoire pour l'URL du serveur de traduction local
+ * @private
+ */
+let cachedLocalTranslationServerUrl = '';
+
 /**
  * Indicateur de chargement initial
  * @private
@@ -156,10 +169,91 @@ export const clearApiKey = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * Charge l'URL du serveur de traduction local depuis AsyncStorage
+ *
+ * L'URL n'est pas une donnée sensible : elle est stockée en clair.
+ *
+ * @async
+ * @function loadLocalTranslationServerUrl
+ * @returns {Promise<string>} L'URL du serveur ou une chaîne vide si non configurée
+ */
+export const loadLocalTranslationServerUrl = async (): Promise<string> => {
+  try {
+    const storedUrl = await AsyncStorage.getItem(LOCAL_TRANSLATION_SERVER_STORAGE_KEY);
+    cachedLocalTranslationServerUrl = storedUrl || '';
+  } catch (error) {
+    console.error('Erreur lors du chargement de l\'URL du serveur local:', error);
+  }
+  return cachedLocalTranslationServerUrl;
+};
+
+/**
+ * Définit l'URL du serveur de traduction local
+ *
+ * Une chaîne vide supprime la configuration. Le slash final éventuel est retiré.
+ *
+ * @async
+ * @function setLocalTranslationServerUrl
+ * @param {string} url - URL de base du serveur (ex: 'http://192.168.1.20:5000')
+ * @returns {Promise<boolean>} true si l'enregistrement a réussi
+ *
+ * @example
+ * await setLocalTranslationServerUrl('http://192.168.1.20:5000');
+ */
+export const setLocalTranslationServerUrl = async (url: string): Promise<boolean> => {
+  try {
+    const normalizedUrl = url.trim().replace(/\/+$/, '');
+    if (normalizedUrl) {
+      await AsyncStorage.setItem(LOCAL_TRANSLATION_SERVER_STORAGE_KEY, normalizedUrl);
+    } else {
+      await AsyncStorage.removeItem(LOCAL_TRANSLATION_SERVER_STORAGE_KEY);
+    }
+    cachedLocalTranslationServerUrl = normalizedUrl;
+    return true;
+  } catch (error) {
+    console.error('Erreur lors de l\'enregistrement de l\'URL du serveur local:', error);
+    return false;
+  }
+};
+
+/**
+ * Récupère l'URL du serveur de traduction local
+ *
+ * @function getLocalTranslationServerUrl
+ * @returns {string} L'URL du serveur ou une chaîne vide si non configurée
+ */
+export const getLocalTranslationServerUrl = (): string => {
+  return cachedLocalTranslationServerUrl;
+};
+
+/**
+ * URL de base des packs de phrases hors ligne (dossier contenant `manifest.json`)
+ *
+ * Définie à la compilation par la variable d'environnement `EXPO_PUBLIC_PHRASEBOOK_PACKS_URL`.
+ * Une chaîne vide désactive le téléchargement des packs.
+ *
+ * @constant {string}
+ */
+export const PHRASEBOOK_PACKS_BASE_URL = (process.env.EXPO_PUBLIC_PHRASEBOOK_PACKS_URL || '').replace(/\/+$/, '');
+
+/**
+ * Adresse du service de synthèse vocale en ligne (API compatible Google Cloud Text-to-Speech)
+ *
+ * Définie à la compilation par la variable d'environnement `EXPO_PUBLIC_CLOUD_TTS_URL`,
+ * par défaut l'API Google Cloud Text-to-Speech. La clé API Google Cloud est
+ * ajoutée à la requête si elle est configurée.
+ *
+ * @constant {string}
+ */
+export const CLOUD_TTS_URL = (
+  process.env.EXPO_PUBLIC_CLOUD_TTS_URL || 'https://texttospeech.googleapis.com/v1/text:synthesize'
+).replace(/\/+$/, '');
+
 /**
  * Initialise le module de configuration
  *
- * Charge automatiquement la clé API au démarrage de l'application.
+ * Charge automatiquement la clé API et l'URL du serveur local au démarrage de l'application.
  * Cette fonction est appelée automatiquement lors de l'import du module.
  *
  * @async
@@ -170,6 +264,7 @@ export const initializeConfig = async (): Promise<void> => {
   if (!isInitialized) {
     await loadApiKey();
   }
+  await loadLocalTranslationServerUrl();
 };
 
 // Initialisation automatique au chargement du module
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { audioCaptureService, AudioClipAnalysis } from '../services/audioCaptureService';
+import { AudioClip } from '../services/types';
+import { getVoiceActivitySettings, VoiceActivityDetector } from '../services/voiceActivityService';
+
+/**
+ * Hook pour enregistrer un énoncé et l'analyser en ligne
+ * L'enregistrement s'arrête de lui-même quand la détection d'activité vocale,
+ * alimentée par le niveau du microphone, signale la fin de l'énoncé.
+ * À la fin de l'enregistrement (arrêt manuel, fin d'énoncé ou durée maximale), la langue
+ * est détectée puis l'énoncé transcrit ; `onAnalyzed` reçoit l'enregistrement
+ * et son analyse, ou une analyse null si elle a échoué
+ */
+export const useAudioCapture = (
+  onAnalyzed: (clip: AudioClip, analysis: AudioClipAnalysis | null) => void,
+  fallbackLanguage: string = 'fr',
+  candidateLanguages?: string[]
+) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [durationMs, setDurationMs] = useState(0);
+  // Toujours utiliser les derniers paramètres sans se réabonner
+  const optionsRef = useRef({ onAnalyzed, fallbackLanguage, candidateLanguages });
+  optionsRef.current = { onAnalyzed, fallbackLanguage, candidateLanguages };
+
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+
+  useEffect(() => {
+    const detector = new VoiceActivityDetector();
+    detectorRef.current = detector;
+    const unsubscribeDetector = detector.subscribe(activity => {
+      if (activity.type === 'speech-end') {
+        audioCaptureService.stop();
+      }
+    });
+
+    const unsubscribe = audioCaptureService.subscribe(async event => {
+      if (event.type === 'status') {
+        setDurationMs(event.durationMs);
+        if (event.meteringDb !== undefined) {
+          detector.processLevel(event.meteringDb);
+        }
+        return;
+      }
+
+      setIsRecording(false);
+      if (!event.clip) return;
+      const { onAnalyzed: notify, fallbackLanguage: fallback, candidateLanguages: candidates } = optionsRef.current;
+      setIsAnalyzing(true);
+      try {
+        notify(event.clip, await audioCaptureService.analyzeClip(event.clip, fallback, candidates));
+      } catch (error) {
+        console.error('Audio clip analysis error:', error);
+        notify(event.clip, null);
+      } finally {
+        setIsAnalyzing(false);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeDetector();
+      audioCaptureService.cancel();
+    };
+  }, []);
+
+  const start = useCallback(async () => {
+    setDurationMs(0);
+    detectorRef.current?.reset();
+    detectorRef.current?.updateSettings(getVoiceActivitySettings());
+    await audioCaptureService.start();
+    setIsRecording(true);
+  }, []);
+  const stop = useCallback(() => audioCaptureService.stop(), []);
+
+  return {
+    isRecording,
+    isAnalyzing,
+    durationMs,
+    start,
+    stop,
+  };
+};
@@ -0,0 +1,33 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ConversationEvent, conversationModeService } from '../services/conversationModeService';
+
+/**
+ * Hook pour suivre l'état du mode conversation
+ * Re-rend le composant à chaque événement du service (participants, tours,
+ * activation) afin que tous les écrans affichent la même conversation
+ * @param onEvent - Callback optionnel appelé pour chaque événement
+ */
+export const useConversation = (onEvent?: (event: ConversationEvent) => void) => {
+  const [revision, setRevision] = useState(0);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    return conversationModeService.subscribe(event => {
+      setRevision(value => value + 1);
+      onEventRef.current?.(event);
+    });
+  }, []);
+
+  return useMemo(() => {
+    const participants = conversationModeService.getParticipants();
+    const currentId = participants.length > 0 ? conversationModeService.getCurrentParticipant().id : null;
+    return {
+      revision,
+      isActive: conversationModeService.isActive(),
+      participants,
+      currentParticipant: participants.find(participant => participant.id === currentId) ?? null,
+      history: conversationModeService.getConversationHistory(),
+    };
+  }, [revision]);
+};
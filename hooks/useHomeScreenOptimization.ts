@@ -273,6 +273,14 @@ export const useOptimizedHomeScreenStyles = (colorScheme: 'light' | 'dark' | nul
       marginTop: 8,
       alignItems: 'center' as const,
     },
+    languagePickerButton: {
+      backgroundColor: colors.primary,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 6,
+      marginTop: 8,
+      alignItems: 'center' as const,
+    },
     phrasesContainer: {
       marginBottom: 32, // Augmenté de 20 à 32 pour meilleure séparation
     },
@@ -335,6 +343,22 @@ export const useOptimizedHomeScreenStyles = (colorScheme: 'light' | 'dark' | nul
       fontSize: 14,
       color: colors.text,
     },
+    translationErrorContainer: {
+      flexDirection: 'row' as const,
+      alignItems: 'center' as const,
+      backgroundColor: colorScheme === 'dark' ? 'rgba(244, 67, 54, 0.15)' : 'rgba(244, 67, 54, 0.08)',
+      borderWidth: 1,
+      borderColor: colorScheme === 'dark' ? 'rgba(244, 67, 54, 0.3)' : 'rgba(244, 67, 54, 0.2)',
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 12,
+    },
+    translationErrorText: {
+      flex: 1,
+      marginLeft: 8,
+      fontSize: 14,
+      color: colors.error,
+    },
     toolbarContainer: {
       flexDirection: 'row' as const,
       justifyContent: 'center' as const,
@@ -356,6 +380,18 @@ export const useOptimizedHomeScreenStyles = (colorScheme: 'light' | 'dark' | nul
       shadowRadius: 8,
       elevation: 8,
     },
+    recordButton: {
+      position: 'absolute' as const,
+      left: 0,
+      backgroundColor: colorScheme === 'dark' ? '#1f2937' : '#ffffff',
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      justifyContent: 'center' as const,
+      alignItems: 'center' as const,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
     clearButton: {
       position: 'absolute' as const,
       right: 0,
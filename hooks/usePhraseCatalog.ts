@@ -0,0 +1,24 @@
+import { useEffect, useMemo, useState } from 'react';
+import { phraseRepository } from '../services/phraseRepository';
+
+/**
+ * Hook pour suivre le catalogue de phrases
+ * Re-rend le composant à chaque modification (phrases personnalisées, épingles)
+ * et retourne les catégories et les phrases épinglées à jour
+ */
+export const usePhraseCatalog = () => {
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = phraseRepository.subscribe(() => setRevision(value => value + 1));
+    // Rafraîchir une fois les données personnalisées chargées
+    phraseRepository.initialize().then(() => setRevision(value => value + 1));
+    return unsubscribe;
+  }, []);
+
+  return useMemo(() => ({
+    revision,
+    categories: phraseRepository.getCategories(),
+    pinnedPhrases: phraseRepository.getPinnedPhrases(),
+  }), [revision]);
+};
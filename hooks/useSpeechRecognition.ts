@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getSpeechRecognizer } from '../services/speechRecognitionService';
+import { SpeechRecognitionError } from '../services/types';
+import { getVoiceActivitySettings, VoiceActivityDetector } from '../services/voiceActivityService';
+
+/**
+ * Hook pour piloter le moteur de reconnaissance vocale actif
+ * Expose le texte partiel en cours de dictée et appelle `onFinalResult`
+ * avec le texte définitif de chaque énoncé. L'écoute est arrêtée dès que la
+ * détection d'activité vocale signale la fin de l'énoncé
+ */
+export const useSpeechRecognition = (onFinalResult: (text: string) => void) => {
+  const [isListening, setIsListening] = useState(false);
+  const [partialText, setPartialText] = useState('');
+  const [error, setError] = useState<SpeechRecognitionError | null>(null);
+  const [isSpeechDetected, setIsSpeechDetected] = useState(false);
+  // Toujours appeler la dernière version du callback sans se réabonner
+  const onFinalResultRef = useRef(onFinalResult);
+  onFinalResultRef.current = onFinalResult;
+
+  useEffect(() => {
+    const recognizer = getSpeechRecognizer();
+    const detector = new VoiceActivityDetector();
+    const unsubscribeDetector = detector.subscribe(activity => {
+      if (activity.type === 'speech-start') {
+        setIsSpeechDetected(true);
+      } else {
+        setIsSpeechDetected(false);
+        // Fin de l'énoncé : le résultat final est émis par le moteur
+        recognizer.stop();
+      }
+    });
+
+    const unsubscribe = recognizer.subscribe(event => {
+      switch (event.type) {
+        case 'start':
+          detector.reset();
+          detector.updateSettings(getVoiceActivitySettings());
+          setIsListening(true);
+          setIsSpeechDetected(false);
+          setPartialText('');
+          setError(null);
+          break;
+        case 'partial':
+          setPartialText(event.text);
+          break;
+        case 'volume':
+          detector.processLevel(event.levelDb);
+          break;
+        case 'final':
+          setPartialText(event.text);
+          onFinalResultRef.current(event.text);
+          break;
+        case 'error':
+          setError(event.error);
+          break;
+        case 'end':
+          setIsListening(false);
+          setIsSpeechDetected(false);
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeDetector();
+      if (recognizer.isRecognizing()) {
+        recognizer.cancel();
+      }
+    };
+  }, []);
+
+  const start = useCallback((locale: string) => getSpeechRecognizer().start(locale), []);
+  const stop = useCallback(() => getSpeechRecognizer().stop(), []);
+  const cancel = useCallback(() => getSpeechRecognizer().cancel(), []);
+
+  return {
+    isListening,
+    isSpeechDetected,
+    partialText,
+    error,
+    start,
+    stop,
+    cancel,
+  };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TtsSpeakRequest, ttsService } from '../services/ttsService';
+import { TtsUtterance } from '../services/types';
+
+/**
+ * Hook pour lire des textes à haute voix avec le service de synthèse vocale
+ * Expose l'énoncé en cours et la dernière erreur de lecture des énoncés
+ * demandés par ce hook ; la file d'attente est partagée par tous les écrans
+ */
+export const useTextToSpeech = () => {
+  const [currentUtterance, setCurrentUtterance] = useState<TtsUtterance | null>(ttsService.getCurrentUtterance());
+  const [error, setError] = useState<string | null>(null);
+  // Énoncés demandés par ce hook, pour ignorer les erreurs des autres écrans
+  const ownUtteranceIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    return ttsService.subscribe(event => {
+      switch (event.type) {
+        case 'start':
+          setCurrentUtterance(event.utterance);
+          break;
+        case 'error':
+          if (ownUtteranceIds.current.has(event.utterance.id)) {
+            setError(event.message);
+          }
+          break;
+        case 'idle':
+          setCurrentUtterance(null);
+          break;
+      }
+    });
+  }, []);
+
+  const speak = useCallback((text: string, language: string, request?: TtsSpeakRequest) => {
+    const { utterance, completed } = ttsService.enqueue(text, language, request);
+    if (!utterance) return completed;
+    ownUtteranceIds.current.add(utterance.id);
+    setError(null);
+    return completed.finally(() => ownUtteranceIds.current.delete(utterance.id));
+  }, []);
+  const stop = useCallback(() => ttsService.stop(), []);
+
+  return {
+    isSpeaking: currentUtterance !== null,
+    currentUtterance,
+    error,
+    speak,
+    stop,
+  };
+};
@@ -1,6 +1,8 @@
 import { useCallback, useRef, useState } from 'react';
-import { translateText } from '../services/translationService';
+import { getTranslationErrorMessage, translateTextWithResult } from '../services/translationService';
+import { ttsService } from '../services/ttsService';
 import { useDebouncedCallback } from './usePerformanceOptimization';
+import { useTextToSpeech } from './useTextToSpeech';
 
 // Vérifier si AbortController est disponible dans l'environnement
 const isAbortControllerSupported = typeof AbortController !== 'undefined';
@@ -109,7 +111,13 @@ export const useTranslationOptimization = ({
       onTranslationStart?.();
 
       // Appel à l'API de traduction
-      const result = await translateText(trimmedText, sourceLanguage, targetLanguage);
+      const translationResult = await translateTextWithResult(trimmedText, sourceLanguage, targetLanguage);
+      
+      // Les erreurs typées sont remontées à l'appelant plutôt que mises en cache
+      if (translationResult.error) {
+        throw new Error(getTranslationErrorMessage(translationResult.error));
+      }
+      const result = translationResult.text;
       
       // Vérifier si la traduction n'a pas été annulée
       if (!abortController.signal.aborted && result) {
@@ -163,127 +171,34 @@ export const useTranslationOptimization = ({
   };
 };
 
-/**
- * Hook pour optimiser la reconnaissance vocale
- */
-export const useVoiceRecognitionOptimization = () => {
-  const [isListening, setIsListening] = useState(false);
-  const [recognizedText, setRecognizedText] = useState('');
-  // Dans React Native, setTimeout retourne un nombre, pas un objet Timeout
-  const recognitionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const silenceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  // Démarre l'écoute avec timeout automatique
-  const startListeningWithTimeout = useCallback((maxDuration: number = 30000) => {
-    setIsListening(true);
-    setRecognizedText('');
-
-    // Timeout de sécurité pour arrêter l'écoute automatiquement
-    recognitionTimeoutRef.current = setTimeout(() => {
-      stopListening();
-    }, maxDuration);
-  }, []);
-
-  // Arrête l'écoute
-  const stopListening = useCallback(() => {
-    setIsListening(false);
-    
-    // Nettoyer les timeouts
-    if (recognitionTimeoutRef.current) {
-      clearTimeout(recognitionTimeoutRef.current);
-      recognitionTimeoutRef.current = null;
-    }
-    
-    if (silenceTimeoutRef.current) {
-      clearTimeout(silenceTimeoutRef.current);
-      silenceTimeoutRef.current = null;
-    }
-  }, []);
-
-  // Gère la détection de silence pour arrêter automatiquement
-  const handleSilenceDetection = useCallback((silenceDuration: number = 3000) => {
-    if (silenceTimeoutRef.current) {
-      clearTimeout(silenceTimeoutRef.current);
-    }
-
-    silenceTimeoutRef.current = setTimeout(() => {
-      if (isListening && recognizedText) {
-        stopListening();
-      }
-    }, silenceDuration);
-  }, [isListening, recognizedText, stopListening]);
-
-  // Met à jour le texte reconnu
-  const updateRecognizedText = useCallback((text: string) => {
-    setRecognizedText(text);
-    // Redémarrer le timer de silence quand on reçoit du nouveau texte
-    handleSilenceDetection();
-  }, [handleSilenceDetection]);
-
-  return {
-    isListening,
-    recognizedText,
-    startListeningWithTimeout,
-    stopListening,
-    updateRecognizedText,
-    setRecognizedText,
-  };
-};
-
 /**
  * Hook pour optimiser la synthèse vocale
+ * Les textes sont lus par le service de synthèse vocale ; un même texte
+ * demandé plusieurs fois de suite n'est lu qu'une fois
  */
 export const useTextToSpeechOptimization = () => {
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const speechQueueRef = useRef<string[]>([]);
-  const currentSpeechRef = useRef<string>('');
-
-  // Ajoute un texte à la queue de synthèse vocale
-  const queueSpeech = useCallback((text: string) => {
-    if (!text || text === currentSpeechRef.current) {
-      return;
-    }
-
-    speechQueueRef.current.push(text);
-    processNextSpeech();
-  }, []);
+  const { isSpeaking, speak, stop } = useTextToSpeech();
+  const lastQueuedTextRef = useRef<string>('');
 
-  // Traite le prochain élément de la queue
-  const processNextSpeech = useCallback(async () => {
-    if (isSpeaking || speechQueueRef.current.length === 0) {
+  // Ajoute un texte à la file de synthèse vocale
+  const queueSpeech = useCallback((text: string, language: string) => {
+    if (!text || text === lastQueuedTextRef.current) {
       return;
     }
 
-    const nextText = speechQueueRef.current.shift();
-    if (!nextText) return;
-
-    try {
-      setIsSpeaking(true);
-      currentSpeechRef.current = nextText;
-      
-      // Ici, vous intégreriez votre logique TTS réelle
-      // Exemple: await Tts.speak(nextText);
-      
-      // Simulation pour l'exemple - remplacez par votre implémentation réelle
-      await new Promise<void>(resolve => setTimeout(resolve, 1000));
-      
-    } catch (error) {
-      console.error('Erreur de synthèse vocale:', error);
-    } finally {
-      setIsSpeaking(false);
-      currentSpeechRef.current = '';
-      
-      // Traiter le prochain élément de la queue
-      setTimeout(processNextSpeech, 100);
-    }
-  }, [isSpeaking]);
+    lastQueuedTextRef.current = text;
+    speak(text, language).finally(() => {
+      if (lastQueuedTextRef.current === text) {
+        lastQueuedTextRef.current = '';
+      }
+    });
+  }, [speak]);
 
-  // Arrête la synthèse vocale et vide la queue
+  // Arrête la synthèse vocale et vide la file
   const stopSpeech = useCallback(() => {
-    speechQueueRef.current = [];
-    setIsSpeaking(false);
-    currentSpeechRef.current = '';
-  }, []);
+    lastQueuedTextRef.current = '';
+    stop();
+  }, [stop]);
 
   // Version debounced pour éviter les appels trop fréquents
   const debouncedQueueSpeech = useDebouncedCallback(queueSpeech, 300);
@@ -292,6 +207,6 @@ export const useTextToSpeechOptimization = () => {
     isSpeaking,
     queueSpeech: debouncedQueueSpeech,
     stopSpeech,
-    speechQueue: speechQueueRef.current,
+    speechQueue: ttsService.getQueue().map(utterance => utterance.text),
   };
 };
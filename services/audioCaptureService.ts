@@ -0,0 +1,496 @@
+/**
+ * @fileoverview Service de capture audio pour la reconnaissance vocale en ligne
+ *
+ * Ce service enregistre la parole au microphone dans le format attendu par
+ * l'API Google Cloud Speech-to-Text : mono à 16 kHz, en PCM 16 bits (WAV)
+ * sur iOS. Android ne sachant pas enregistrer de PCM, l'audio y est
+ * enregistré en AMR large bande à 16 kHz, également accepté par l'API.
+ * Les enregistrements sont conservés sur l'appareil afin de pouvoir être
+ * joints aux tours de parole d'une session.
+ *
+ * @module services/audioCaptureService
+ * @requires buffer
+ * @requires expo-av
+ * @requires expo-file-system
+ * @requires react-native
+ * @requires ./languageDetectionService
+ * @requires ./languageRegistry
+ * @requires ./types
+ */
+
+import { Buffer } from 'buffer';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { detectLanguageFromAudio, LanguageDetectionResult, transcribeAudio } from './languageDetectionService';
+import { getSpeechLocale } from './languageRegistry';
+import { AudioClip, PcmAudio, SpeechAudioFormat } from './types';
+
+/**
+ * Configuration de la capture audio
+ *
+ * @constant {Object} AUDIO_CAPTURE_CONFIG
+ * @property {number} SAMPLE_RATE - Fréquence d'échantillonnage (Hz)
+ * @property {number} CHANNELS - Nombre de canaux (mono)
+ * @property {number} BITS_PER_SAMPLE - Résolution du PCM
+ * @property {number} MAX_DURATION_MS - Durée maximale d'un enregistrement (limite de 60 s de l'API synchrone)
+ * @property {number} DETECTION_CHUNK_MS - Durée de l'extrait envoyé pour la détection de langue
+ * @property {number} STATUS_INTERVAL_MS - Intervalle des mises à jour d'état (durée, niveau sonore)
+ * @property {string} DIRECTORY - Dossier des enregistrements
+ * @private
+ */
+const AUDIO_CAPTURE_CONFIG = {
+  SAMPLE_RATE: 16000,
+  CHANNELS: 1,
+  BITS_PER_SAMPLE: 16,
+  MAX_DURATION_MS: 55000,
+  DETECTION_CHUNK_MS: 5000,
+  STATUS_INTERVAL_MS: 100,
+  DIRECTORY: `${FileSystem.documentDirectory}recordings/`,
+};
+
+/**
+ * Options d'enregistrement expo-av par plateforme
+ *
+ * @constant {Audio.RecordingOptions}
+ * @private
+ */
+const RECORDING_OPTIONS: Audio.RecordingOptions = {
+  isMeteringEnabled: true,
+  android: {
+    extension: '.amr',
+    outputFormat: Audio.AndroidOutputFormat.AMR_WB,
+    audioEncoder: Audio.AndroidAudioEncoder.AMR_WB,
+    sampleRate: AUDIO_CAPTURE_CONFIG.SAMPLE_RATE,
+    numberOfChannels: AUDIO_CAPTURE_CONFIG.CHANNELS,
+    bitRate: 23850,
+  },
+  ios: {
+    extension: '.wav',
+    outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+    audioQuality: Audio.IOSAudioQuality.HIGH,
+    sampleRate: AUDIO_CAPTURE_CONFIG.SAMPLE_RATE,
+    numberOfChannels: AUDIO_CAPTURE_CONFIG.CHANNELS,
+    bitRate: AUDIO_CAPTURE_CONFIG.SAMPLE_RATE * AUDIO_CAPTURE_CONFIG.BITS_PER_SAMPLE,
+    linearPCMBitDepth: AUDIO_CAPTURE_CONFIG.BITS_PER_SAMPLE,
+    linearPCMIsBigEndian: false,
+    linearPCMIsFloat: false,
+  },
+  web: {
+    mimeType: 'audio/webm;codecs=opus',
+    bitsPerSecond: 32000,
+  },
+};
+
+/**
+ * Format audio et type MIME produits sur la plateforme courante
+ * @private
+ */
+const getPlatformAudioFormat = (): { format: SpeechAudioFormat; mimeType: string; extension: string } => {
+  if (Platform.OS === 'android') {
+    return { format: { encoding: 'AMR_WB', sampleRateHertz: 16000 }, mimeType: 'audio/amr-wb', extension: 'amr' };
+  }
+  if (Platform.OS === 'web') {
+    return { format: { encoding: 'WEBM_OPUS', sampleRateHertz: 48000 }, mimeType: 'audio/webm', extension: 'webm' };
+  }
+  return { format: { encoding: 'LINEAR16', sampleRateHertz: 16000 }, mimeType: 'audio/wav', extension: 'wav' };
+};
+
+/**
+ * Encapsule des échantillons PCM dans un fichier WAV (en-tête RIFF de 44 octets)
+ *
+ * @function wrapPcmInWav
+ * @param {string} pcmBase64 - Échantillons PCM little-endian encodés en base64
+ * @param {number} [sampleRate=16000] - Fréquence d'échantillonnage
+ * @param {number} [channels=1] - Nombre de canaux
+ * @param {number} [bitsPerSample=16] - Nombre de bits par échantillon
+ * @returns {string} Le fichier WAV encodé en base64
+ *
+ * @example
+ * await FileSystem.writeAsStringAsync(uri, wrapPcmInWav(pcmBase64), { encoding: FileSystem.EncodingType.Base64 });
+ */
+export const wrapPcmInWav = (
+  pcmBase64: string,
+  sampleRate: number = AUDIO_CAPTURE_CONFIG.SAMPLE_RATE,
+  channels: number = AUDIO_CAPTURE_CONFIG.CHANNELS,
+  bitsPerSample: number = AUDIO_CAPTURE_CONFIG.BITS_PER_SAMPLE
+): string => {
+  const pcm = Buffer.from(pcmBase64, 'base64');
+  const blockAlign = channels * (bitsPerSample / 8);
+  const header = Buffer.alloc(44);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]).toString('base64');
+};
+
+/**
+ * Extrait les échantillons PCM d'un fichier WAV
+ *
+ * Les blocs sont parcourus un à un : iOS insère par exemple un bloc `FLLR`
+ * de remplissage entre l'en-tête `fmt ` et les données.
+ *
+ * @function unwrapWav
+ * @param {string} wavBase64 - Fichier WAV encodé en base64
+ * @returns {PcmAudio} Les échantillons PCM et leur format
+ * @throws {Error} Si le fichier n'est pas un WAV PCM valide
+ */
+export const unwrapWav = (wavBase64: string): PcmAudio => {
+  const wav = Buffer.from(wavBase64, 'base64');
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Fichier WAV invalide');
+  }
+
+  let format: Omit<PcmAudio, 'pcmBase64'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      if (wav.readUInt16LE(chunkStart) !== 1) {
+        throw new Error('Seul le PCM non compressé est pris en charge');
+      }
+      format = {
+        channels: wav.readUInt16LE(chunkStart + 2),
+        sampleRate: wav.readUInt32LE(chunkStart + 4),
+        bitsPerSample: wav.readUInt16LE(chunkStart + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('Bloc de format WAV manquant');
+      }
+      // Un enregistrement interrompu peut annoncer une taille supérieure au contenu
+      const data = wav.subarray(chunkStart, Math.min(chunkStart + chunkSize, wav.length));
+      return { ...format, pcmBase64: data.toString('base64') };
+    }
+
+    // Les blocs sont alignés sur 2 octets
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('Bloc de données WAV manquant');
+};
+
+/**
+ * Découpe des échantillons PCM en extraits de durée fixe
+ *
+ * @function splitPcmIntoChunks
+ * @param {PcmAudio} audio - Échantillons PCM et leur format
+ * @param {number} chunkDurationMs - Durée de chaque extrait en millisecondes
+ * @returns {string[]} Les extraits PCM encodés en base64, dans l'ordre
+ */
+export const splitPcmIntoChunks = (audio: PcmAudio, chunkDurationMs: number): string[] => {
+  const pcm = Buffer.from(audio.pcmBase64, 'base64');
+  const blockAlign = audio.channels * (audio.bitsPerSample / 8);
+  // Taille arrondie à un nombre entier d'échantillons
+  const chunkSize = Math.max(blockAlign, Math.floor((audio.sampleRate * chunkDurationMs) / 1000) * blockAlign);
+
+  const chunks: string[] = [];
+  for (let start = 0; start < pcm.length; start += chunkSize) {
+    chunks.push(pcm.subarray(start, start + chunkSize).toString('base64'));
+  }
+  return chunks;
+};
+
+/**
+ * Événement émis pendant la capture audio
+ *
+ * - `status` : mise à jour périodique de la durée et du niveau sonore (dBFS, de -160 à 0)
+ * - `stopped` : fin de l'enregistrement, par l'utilisateur ou à la durée maximale
+ *
+ * @typedef {Object} AudioCaptureEvent
+ */
+export type AudioCaptureEvent =
+  | { type: 'status'; durationMs: number; meteringDb?: number }
+  | { type: 'stopped'; clip: AudioClip | null; reason: 'user' | 'max-duration' };
+
+/**
+ * Résultat de l'analyse d'un enregistrement
+ *
+ * @interface AudioClipAnalysis
+ * @property {LanguageDetectionResult} detection - Langue détectée sur le début de l'enregistrement
+ * @property {string|null} transcript - Transcription complète, ou null si rien n'a été reconnu
+ */
+export interface AudioClipAnalysis {
+  detection: LanguageDetectionResult;
+  transcript: string | null;
+}
+
+/**
+ * Service singleton de capture audio
+ *
+ * @class AudioCaptureService
+ * @example
+ * await audioCaptureService.start();
+ * const clip = await audioCaptureService.stop();
+ * if (clip) {
+ *   const { detection, transcript } = await audioCaptureService.analyzeClip(clip);
+ * }
+ */
+class AudioCaptureService {
+  private recording: Audio.Recording | null = null;
+  private maxDurationMs = AUDIO_CAPTURE_CONFIG.MAX_DURATION_MS;
+  private listeners = new Set<(event: AudioCaptureEvent) => void>();
+  // Arrêt en cours, partagé entre l'arrêt manuel et l'arrêt à la durée maximale
+  private stoppingPromise: Promise<AudioClip | null> | null = null;
+
+  /**
+   * Demande l'autorisation d'utiliser le microphone
+   *
+   * @async
+   * @returns {Promise<boolean>} true si l'autorisation est accordée
+   */
+  async requestPermission(): Promise<boolean> {
+    const { granted } = await Audio.requestPermissionsAsync();
+    return granted;
+  }
+
+  /**
+   * Indique si un enregistrement est en cours
+   *
+   * @returns {boolean} true si le microphone enregistre
+   */
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Abonne une fonction aux événements de capture
+   *
+   * @param {Function} listener - Fonction appelée à chaque événement
+   * @returns {Function} Fonction de désabonnement
+   */
+  subscribe(listener: (event: AudioCaptureEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Démarre un enregistrement (l'enregistrement en cours est annulé)
+   *
+   * @async
+   * @param {number} [maxDurationMs=55000] - Durée au-delà de laquelle l'enregistrement est arrêté
+   * @returns {Promise<void>}
+   * @throws {Error} Si l'accès au microphone est refusé
+   */
+  async start(maxDurationMs: number = AUDIO_CAPTURE_CONFIG.MAX_DURATION_MS): Promise<void> {
+    await this.cancel();
+    if (!(await this.requestPermission())) {
+      throw new Error('Accès au microphone refusé');
+    }
+
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+    });
+
+    this.maxDurationMs = Math.min(maxDurationMs, AUDIO_CAPTURE_CONFIG.MAX_DURATION_MS);
+    const { recording } = await Audio.Recording.createAsync(
+      RECORDING_OPTIONS,
+      status => {
+        if (!status.isRecording || !this.recording) return;
+        this.emit({ type: 'status', durationMs: status.durationMillis, meteringDb: status.metering });
+        if (status.durationMillis >= this.maxDurationMs) {
+          this.finishRecording('max-duration');
+        }
+      },
+      AUDIO_CAPTURE_CONFIG.STATUS_INTERVAL_MS
+    );
+    this.recording = recording;
+  }
+
+  /**
+   * Arrête l'enregistrement et conserve le fichier
+   *
+   * @async
+   * @returns {Promise<AudioClip|null>} L'enregistrement, ou null si aucun n'était en cours
+   */
+  async stop(): Promise<AudioClip | null> {
+    return this.finishRecording('user');
+  }
+
+  /**
+   * Annule l'enregistrement et supprime le fichier
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async cancel(): Promise<void> {
+    const recording = this.recording;
+    if (!recording) return;
+    this.recording = null;
+
+    try {
+      await recording.stopAndUnloadAsync();
+      const uri = recording.getURI();
+      if (uri) {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      }
+    } catch (error) {
+      console.error('Error cancelling audio capture:', error);
+    } finally {
+      await this.resetAudioMode();
+    }
+  }
+
+  /**
+   * Lit le contenu audio d'un enregistrement pour l'API Speech-to-Text
+   *
+   * Les enregistrements WAV sont désencapsulés : l'API attend du PCM brut.
+   *
+   * @async
+   * @param {AudioClip} clip - Enregistrement à lire
+   * @returns {Promise<string>} Le contenu audio encodé en base64
+   */
+  async readClipAudio(clip: AudioClip): Promise<string> {
+    const content = await FileSystem.readAsStringAsync(clip.uri, { encoding: FileSystem.EncodingType.Base64 });
+    return clip.format.encoding === 'LINEAR16' ? unwrapWav(content).pcmBase64 : content;
+  }
+
+  /**
+   * Détecte la langue d'un enregistrement puis le transcrit
+   *
+   * La détection n'utilise que le début de l'enregistrement (extrait de 5 s en
+   * PCM) ; la transcription est faite dans la langue détectée, ou dans la langue
+   * indiquée si la détection n'est pas fiable.
+   *
+   * @async
+   * @param {AudioClip} clip - Enregistrement à analyser
+   * @param {string} [fallbackLanguage='fr'] - Langue utilisée si la détection n'est pas fiable
+   * @param {string[]} [candidateLanguages] - Langues attendues, la plus probable en premier
+   * @returns {Promise<AudioClipAnalysis>} La langue détectée et la transcription
+   */
+  async analyzeClip(
+    clip: AudioClip,
+    fallbackLanguage: string = 'fr',
+    candidateLanguages?: string[]
+  ): Promise<AudioClipAnalysis> {
+    const audioBase64 = await this.readClipAudio(clip);
+    const detectionAudio = clip.format.encoding === 'LINEAR16'
+      ? splitPcmIntoChunks(
+          {
+            pcmBase64: audioBase64,
+            sampleRate: clip.format.sampleRateHertz,
+            channels: clip.channels,
+            bitsPerSample: AUDIO_CAPTURE_CONFIG.BITS_PER_SAMPLE,
+          },
+          AUDIO_CAPTURE_CONFIG.DETECTION_CHUNK_MS
+        )[0] ?? audioBase64
+      : audioBase64;
+
+    const detection = await detectLanguageFromAudio(detectionAudio, clip.format, candidateLanguages);
+    const language = detection.isReliable ? detection.detectedLanguage : fallbackLanguage;
+    const transcript = await transcribeAudio(audioBase64, getSpeechLocale(language), clip.format);
+
+    return { detection, transcript };
+  }
+
+  /**
+   * Supprime le fichier d'un enregistrement
+   *
+   * @async
+   * @param {string} uri - URI du fichier
+   * @returns {Promise<void>}
+   */
+  async deleteClip(uri: string): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    } catch (error) {
+      console.error('Error deleting audio clip:', error);
+    }
+  }
+
+  /**
+   * Arrête l'enregistrement, déplace le fichier dans le dossier des enregistrements et notifie les abonnés
+   * @private
+   */
+  private finishRecording(reason: 'user' | 'max-duration'): Promise<AudioClip | null> {
+    if (!this.stoppingPromise) {
+      this.stoppingPromise = this.saveRecording(reason).finally(() => {
+        this.stoppingPromise = null;
+      });
+    }
+    return this.stoppingPromise;
+  }
+
+  /**
+   * Enregistre le fichier de l'enregistrement en cours
+   * @private
+   */
+  private async saveRecording(reason: 'user' | 'max-duration'): Promise<AudioClip | null> {
+    const recording = this.recording;
+    if (!recording) return null;
+    this.recording = null;
+
+    let clip: AudioClip | null = null;
+    try {
+      const status = await recording.stopAndUnloadAsync();
+      const uri = recording.getURI();
+      if (uri) {
+        const { format, mimeType, extension } = getPlatformAudioFormat();
+        const recordedAt = Date.now();
+        const clipUri = `${AUDIO_CAPTURE_CONFIG.DIRECTORY}clip-${recordedAt}.${extension}`;
+
+        await FileSystem.makeDirectoryAsync(AUDIO_CAPTURE_CONFIG.DIRECTORY, { intermediates: true });
+        await FileSystem.moveAsync({ from: uri, to: clipUri });
+        clip = {
+          uri: clipUri,
+          durationMs: Math.min(status.durationMillis, this.maxDurationMs),
+          format,
+          channels: AUDIO_CAPTURE_CONFIG.CHANNELS,
+          mimeType,
+          recordedAt,
+        };
+      }
+    } catch (error) {
+      console.error('Error stopping audio capture:', error);
+    } finally {
+      await this.resetAudioMode();
+    }
+
+    this.emit({ type: 'stopped', clip, reason });
+    return clip;
+  }
+
+  /**
+   * Rend la session audio à la lecture (haut-parleur) après un enregistrement
+   * @private
+   */
+  private async resetAudioMode(): Promise<void> {
+    try {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+    } catch (error) {
+      console.error('Error resetting audio mode:', error);
+    }
+  }
+
+  /**
+   * Diffuse un événement aux abonnés
+   * @private
+   */
+  private emit(event: AudioCaptureEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+/**
+ * Instance singleton du service de capture audio
+ * @constant {AudioCaptureService}
+ */
+export const audioCaptureService = new AudioCaptureService();
@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Zones de la carte du corps
+ *
+ * Ce module décrit les zones que la victime peut toucher sur la silhouette
+ * de face ou de dos, avec leur nom dans chacune des langues de l'application,
+ * et formule en français la liste des zones
+ * douloureuses désignées.
+ *
+ * @module services/bodyMapService
+ * @requires ./languageRegistry
+ * @requires ./types
+ */
+
+import { toLanguageCode } from './languageRegistry';
+import { BodySide, PainLocation } from './types';
+
+/**
+ * Zone de la carte du corps
+ *
+ * @interface BodyRegion
+ * @property {string} id - Identifiant stable de la zone
+ * @property {BodySide[]} sides - Faces de la silhouette sur lesquelles la zone apparaît
+ * @property {Record<string, string>} names - Nom de la zone par code de langue ('fr' obligatoire)
+ */
+export interface BodyRegion {
+  id: string;
+  sides: BodySide[];
+  names: Record<string, string>;
+}
+
+/**
+ * Intensité maximale d'une zone douloureuse (1 : légère, 2 : modérée, 3 : forte)
+ * @constant {number}
+ */
+export const MAX_PAIN_INTENSITY = 3;
+
+/**
+ * Intensités en français, de 1 à `MAX_PAIN_INTENSITY`
+ * @constant {string[]}
+ * @private
+ */
+const INTENSITY_LABELS = ['légère', 'modérée', 'forte'];
+
+/**
+ * Langue des noms utilisés quand la langue de la victime n'est pas traduite
+ * @constant {string}
+ * @private
+ */
+const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Zones de la carte du corps
+ * Les côtés (droit, gauche) sont ceux de la victime
+ * @constant {BodyRegion[]}
+ * @private
+ */
+const BODY_REGIONS: BodyRegion[] = [
+  {
+    id: 'head',
+    sides: ['front'],
+    names: {
+      fr: 'Tête', en: 'Head', es: 'Cabeza', de: 'Kopf', it: 'Testa', ar: 'الرأس', zh: '头', ru: 'Голова',
+      pt: 'Cabeça', nl: 'Hoofd', pl: 'Głowa', ja: '頭', ko: '머리', tr: 'Baş', hi: 'सिर', ro: 'Cap',
+      uk: 'Голова', sv: 'Huvud', el: 'Κεφάλι',
+    },
+  },
+  {
+    id: 'back-of-head',
+    sides: ['back'],
+    names: {
+      fr: 'Arrière de la tête', en: 'Back of the head', es: 'Parte posterior de la cabeza', de: 'Hinterkopf',
+      it: 'Parte posteriore della testa', ar: 'مؤخرة الرأس', zh: '后脑', ru: 'Затылок',
+      pt: 'Parte de trás da cabeça', nl: 'Achterhoofd', pl: 'Tył głowy', ja: '後頭部', ko: '뒤통수',
+      tr: 'Başın arkası', hi: 'सिर का पिछला भाग', ro: 'Partea din spate a capului', uk: 'Потилиця',
+      sv: 'Bakhuvud', el: 'Πίσω μέρος του κεφαλιού',
+    },
+  },
+  {
+    id: 'neck',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Cou', en: 'Neck', es: 'Cuello', de: 'Hals', it: 'Collo', ar: 'الرقبة', zh: '脖子', ru: 'Шея',
+      pt: 'Pescoço', nl: 'Nek', pl: 'Szyja', ja: '首', ko: '목', tr: 'Boyun', hi: 'गर्दन', ro: 'Gât', uk: 'Шия',
+      sv: 'Hals', el: 'Λαιμός',
+    },
+  },
+  {
+    id: 'chest',
+    sides: ['front'],
+    names: {
+      fr: 'Poitrine', en: 'Chest', es: 'Pecho', de: 'Brust', it: 'Petto', ar: 'الصدر', zh: '胸部', ru: 'Грудь',
+      pt: 'Peito', nl: 'Borst', pl: 'Klatka piersiowa', ja: '胸', ko: '가슴', tr: 'Göğüs', hi: 'छाती',
+      ro: 'Piept', uk: 'Груди', sv: 'Bröst', el: 'Στήθος',
+    },
+  },
+  {
+    id: 'abdomen',
+    sides: ['front'],
+    names: {
+      fr: 'Ventre', en: 'Stomach', es: 'Vientre', de: 'Bauch', it: 'Pancia', ar: 'البطن', zh: '肚子',
+      ru: 'Живот', pt: 'Barriga', nl: 'Buik', pl: 'Brzuch', ja: 'お腹', ko: '배', tr: 'Karın', hi: 'पेट',
+      ro: 'Burtă', uk: 'Живіт', sv: 'Mage', el: 'Κοιλιά',
+    },
+  },
+  {
+    id: 'pelvis',
+    sides: ['front'],
+    names: {
+      fr: 'Bassin', en: 'Pelvis', es: 'Pelvis', de: 'Becken', it: 'Bacino', ar: 'الحوض', zh: '骨盆', ru: 'Таз',
+      pt: 'Bacia', nl: 'Bekken', pl: 'Miednica', ja: '骨盤', ko: '골반', tr: 'Leğen', hi: 'श्रोणि', ro: 'Bazin',
+      uk: 'Таз', sv: 'Bäcken', el: 'Λεκάνη',
+    },
+  },
+  {
+    id: 'upper-back',
+    sides: ['back'],
+    names: {
+      fr: 'Haut du dos', en: 'Upper back', es: 'Parte superior de la espalda', de: 'Oberer Rücken',
+      it: 'Parte alta della schiena', ar: 'أعلى الظهر', zh: '上背部', ru: 'Верхняя часть спины',
+      pt: 'Parte superior das costas', nl: 'Bovenrug', pl: 'Górna część pleców', ja: '背中の上部', ko: '등 위쪽',
+      tr: 'Sırtın üst kısmı', hi: 'ऊपरी पीठ', ro: 'Partea superioară a spatelui', uk: 'Верхня частина спини',
+      sv: 'Övre delen av ryggen', el: 'Πάνω μέρος της πλάτης',
+    },
+  },
+  {
+    id: 'lower-back',
+    sides: ['back'],
+    names: {
+      fr: 'Bas du dos', en: 'Lower back', es: 'Parte baja de la espalda', de: 'Unterer Rücken',
+      it: 'Parte bassa della schiena', ar: 'أسفل الظهر', zh: '下背部', ru: 'Поясница',
+      pt: 'Parte inferior das costas', nl: 'Onderrug', pl: 'Dolna część pleców', ja: '腰', ko: '허리', tr: 'Bel',
+      hi: 'कमर', ro: 'Partea de jos a spatelui', uk: 'Поперек', sv: 'Ländrygg', el: 'Μέση',
+    },
+  },
+  {
+    id: 'buttocks',
+    sides: ['back'],
+    names: {
+      fr: 'Fesses', en: 'Buttocks', es: 'Glúteos', de: 'Gesäß', it: 'Glutei', ar: 'الأرداف', zh: '臀部',
+      ru: 'Ягодицы', pt: 'Nádegas', nl: 'Billen', pl: 'Pośladki', ja: 'お尻', ko: '엉덩이', tr: 'Kalça',
+      hi: 'नितंब', ro: 'Fese', uk: 'Сідниці', sv: 'Skinkor', el: 'Γλουτοί',
+    },
+  },
+  {
+    id: 'right-arm',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Bras droit', en: 'Right arm', es: 'Brazo derecho', de: 'Rechter Arm', it: 'Braccio destro',
+      ar: 'الذراع الأيمن', zh: '右臂', ru: 'Правая рука', pt: 'Braço direito', nl: 'Rechterarm',
+      pl: 'Prawe ramię', ja: '右腕', ko: '오른팔', tr: 'Sağ kol', hi: 'दाहिनी बाँह', ro: 'Brațul drept',
+      uk: 'Права рука', sv: 'Höger arm', el: 'Δεξί μπράτσο',
+    },
+  },
+  {
+    id: 'left-arm',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Bras gauche', en: 'Left arm', es: 'Brazo izquierdo', de: 'Linker Arm', it: 'Braccio sinistro',
+      ar: 'الذراع الأيسر', zh: '左臂', ru: 'Левая рука', pt: 'Braço esquerdo', nl: 'Linkerarm',
+      pl: 'Lewe ramię', ja: '左腕', ko: '왼팔', tr: 'Sol kol', hi: 'बाईं बाँह', ro: 'Brațul stâng',
+      uk: 'Ліва рука', sv: 'Vänster arm', el: 'Αριστερό μπράτσο',
+    },
+  },
+  {
+    id: 'right-hand',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Main droite', en: 'Right hand', es: 'Mano derecha', de: 'Rechte Hand', it: 'Mano destra',
+      ar: 'اليد اليمنى', zh: '右手', ru: 'Правая кисть', pt: 'Mão direita', nl: 'Rechterhand', pl: 'Prawa dłoń',
+      ja: '右手', ko: '오른손', tr: 'Sağ el', hi: 'दाहिना हाथ', ro: 'Mâna dreaptă', uk: 'Права кисть',
+      sv: 'Höger hand', el: 'Δεξί χέρι',
+    },
+  },
+  {
+    id: 'left-hand',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Main gauche', en: 'Left hand', es: 'Mano izquierda', de: 'Linke Hand', it: 'Mano sinistra',
+      ar: 'اليد اليسرى', zh: '左手', ru: 'Левая кисть', pt: 'Mão esquerda', nl: 'Linkerhand', pl: 'Lewa dłoń',
+      ja: '左手', ko: '왼손', tr: 'Sol el', hi: 'बायाँ हाथ', ro: 'Mâna stângă', uk: 'Ліва кисть',
+      sv: 'Vänster hand', el: 'Αριστερό χέρι',
+    },
+  },
+  {
+    id: 'right-leg',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Jambe droite', en: 'Right leg', es: 'Pierna derecha', de: 'Rechtes Bein', it: 'Gamba destra',
+      ar: 'الساق اليمنى', zh: '右腿', ru: 'Правая нога', pt: 'Perna direita', nl: 'Rechterbeen',
+      pl: 'Prawa noga', ja: '右脚', ko: '오른쪽 다리', tr: 'Sağ bacak', hi: 'दाहिनी टाँग', ro: 'Piciorul drept',
+      uk: 'Права нога', sv: 'Höger ben', el: 'Δεξί πόδι',
+    },
+  },
+  {
+    id: 'left-leg',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Jambe gauche', en: 'Left leg', es: 'Pierna izquierda', de: 'Linkes Bein', it: 'Gamba sinistra',
+      ar: 'الساق اليسرى', zh: '左腿', ru: 'Левая нога', pt: 'Perna esquerda', nl: 'Linkerbeen', pl: 'Lewa noga',
+      ja: '左脚', ko: '왼쪽 다리', tr: 'Sol bacak', hi: 'बाईं टाँग', ro: 'Piciorul stâng', uk: 'Ліва нога',
+      sv: 'Vänster ben', el: 'Αριστερό πόδι',
+    },
+  },
+  {
+    id: 'right-foot',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Pied droit', en: 'Right foot', es: 'Pie derecho', de: 'Rechter Fuß', it: 'Piede destro',
+      ar: 'القدم اليمنى', zh: '右脚', ru: 'Правая стопа', pt: 'Pé direito', nl: 'Rechtervoet',
+      pl: 'Prawa stopa', ja: '右足', ko: '오른발', tr: 'Sağ ayak', hi: 'दाहिना पैर', ro: 'Laba piciorului drept',
+      uk: 'Права стопа', sv: 'Höger fot', el: 'Δεξί πέλμα',
+    },
+  },
+  {
+    id: 'left-foot',
+    sides: ['front', 'back'],
+    names: {
+      fr: 'Pied gauche', en: 'Left foot', es: 'Pie izquierdo', de: 'Linker Fuß', it: 'Piede sinistro',
+      ar: 'القدم اليسرى', zh: '左脚', ru: 'Левая стопа', pt: 'Pé esquerdo', nl: 'Linkervoet', pl: 'Lewa stopa',
+      ja: '左足', ko: '왼발', tr: 'Sol ayak', hi: 'बायाँ पैर', ro: 'Laba piciorului stâng', uk: 'Ліва стопа',
+      sv: 'Vänster fot', el: 'Αριστερό πέλμα',
+    },
+  },
+];
+
+/**
+ * Retourne les zones d'une face de la silhouette
+ *
+ * @function getBodyRegions
+ * @param {BodySide} side - Face de la silhouette
+ * @returns {BodyRegion[]} Les zones de cette face
+ */
+export const getBodyRegions = (side: BodySide): BodyRegion[] =>
+  BODY_REGIONS.filter(region => region.sides.includes(side));
+
+/**
+ * Retourne le nom d'une zone dans une langue
+ *
+ * @function getBodyRegionName
+ * @param {string} regionId - Identifiant de la zone
+ * @param {string} language - Code de langue ou locale
+ * @returns {string} Le nom de la zone, en anglais si la langue n'est pas traduite
+ *
+ * @example
+ * getBodyRegionName('left-arm', 'es'); // 'Brazo izquierdo'
+ */
+export const getBodyRegionName = (regionId: string, language: string): string => {
+  const region = BODY_REGIONS.find(candidate => candidate.id === regionId);
+  if (!region) {
+    return regionId;
+  }
+  return region.names[toLanguageCode(language) ?? ''] ?? region.names[FALLBACK_LANGUAGE] ?? region.names.fr;
+};
+
+/**
+ * Formule en français la liste des zones douloureuses
+ *
+ * @function describePainLocations
+ * @param {PainLocation[]} locations - Zones désignées par la victime
+ * @returns {string} La liste en français (ex: 'Tête (forte), Bras gauche (légère)')
+ */
+export const describePainLocations = (locations: PainLocation[]): string =>
+  locations
+    .map(location => `${getBodyRegionName(location.region, 'fr')} (${INTENSITY_LABELS[location.intensity - 1] ?? location.intensity})`)
+    .join(', ');
@@ -1,26 +1,82 @@
-import { detectLanguageFromText, LanguageDetectionResult } from './languageDetectionService';
-import { LANGUAGES } from './translationService';
+import { conversationSessionService } from './conversationSessionService';
+import {
+  detectLanguageFromText,
+  getCloseCandidates,
+  LanguageDetectionHints,
+  LanguageDetectionResult
+} from './languageDetectionService';
+import { getLanguageName, toLanguageCode } from './languageRegistry';
+import { translateTextWithResult } from './translationService';
+import {
+  ConversationParticipant,
+  ConversationSession,
+  ConversationTurn,
+  PainLocation,
+  TranslationError
+} from './types';
+
+export type { ConversationParticipant, ConversationTurn } from './types';
 
 /**
- * Interface pour représenter un participant à la conversation
+ * Données d'un tour de parole traduit à enregistrer
  */
-export interface ConversationParticipant {
-  id: string;
-  preferredLanguage: string;
-  lastDetectedLanguage?: string;
-  detectionConfidence?: number;
+export interface ConversationTurnInput {
+  originalText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  participantId?: string;
+  audioUri?: string;
+  translations?: Record<string, string>;
+  painLocations?: PainLocation[];
 }
 
 /**
- * Interface pour représenter un tour de parole dans la conversation
+ * Résultat du traitement d'un énoncé en mode conversation
  */
-export interface ConversationTurn {
-  participantId: string;
-  originalText: string;
-  detectedLanguage: string;
-  timestamp: number;
+export interface ConversationUtteranceOutcome {
+  // Résultat de la détection de langue (null si la langue a été choisie par l'utilisateur)
+  detection: LanguageDetectionResult | null;
+  // Tour de parole enregistré, null si la langue est incertaine ou si aucune traduction n'a réussi
+  turn: ConversationTurn | null;
+  // Erreur de traduction vers la première langue cible (celle du participant suivant en priorité)
+  error?: TranslationError;
 }
 
+/**
+ * Événements du mode conversation
+ * - active-changed : le mode conversation a été activé ou désactivé
+ * - conversation-reset : participants et historique remplacés (nouvelle conversation, session rouverte...)
+ * - participant-added / participant-removed / participant-changed : liste des participants modifiée
+ * - speaker-detected : l'énoncé est attribué à un autre participant que celui attendu
+ * - detection-uncertain : plusieurs langues sont proches, l'utilisateur doit choisir
+ * - turn-recorded : un tour de parole traduit a été enregistré
+ * - turn-changed : c'est au tour d'un autre participant de parler
+ */
+export type ConversationEvent =
+  | { type: 'active-changed'; active: boolean }
+  | { type: 'conversation-reset' }
+  | { type: 'participant-added'; participant: ConversationParticipant }
+  | { type: 'participant-removed'; participantId: string }
+  | { type: 'participant-changed'; participant: ConversationParticipant }
+  | { type: 'speaker-detected'; participantId: string; language: string; confidence: number }
+  | { type: 'detection-uncertain'; text: string; detection: LanguageDetectionResult }
+  | { type: 'turn-recorded'; turn: ConversationTurn }
+  | { type: 'turn-changed'; participantId: string };
+
+/**
+ * Participants par défaut : l'intervenant (français) et la personne secourue (anglais)
+ */
+const createDefaultParticipants = (): ConversationParticipant[] => [
+  { id: 'participant1', preferredLanguage: 'fr' },
+  { id: 'participant2', preferredLanguage: 'en' }
+];
+
+/**
+ * Nombre de langues récentes transmises comme indices à la détection de langue
+ */
+const MAX_RECENT_LANGUAGES = 4;
+
 /**
  * Service pour gérer le mode conversation avec détection automatique de la langue
  * Ce service permet à plusieurs utilisateurs de parler à tour de rôle
@@ -32,6 +88,9 @@ class ConversationModeService {
   private currentParticipantIndex: number = 0;
   private active: boolean = false;
   private languageDetectionThreshold: number = 0.7;
+  // Plus grand numéro de participant attribué, pour ne jamais réutiliser un identifiant
+  private participantCount: number = 0;
+  private listeners = new Set<(event: ConversationEvent) => void>();
 
   /**
    * Initialiser le mode conversation
@@ -40,13 +99,11 @@ class ConversationModeService {
   public initializeConversation(initialParticipants: ConversationParticipant[] = []): void {
     this.participants = initialParticipants.length > 0 
       ? initialParticipants 
-      : [
-          { id: 'participant1', preferredLanguage: 'fr' },
-          { id: 'participant2', preferredLanguage: 'en' }
-        ];
+      : createDefaultParticipants();
     this.conversationHistory = [];
     this.currentParticipantIndex = 0;
-    this.active = true;
+    this.emit({ type: 'conversation-reset' });
+    this.setActive(true);
   }
 
   /**
@@ -54,11 +111,15 @@ class ConversationModeService {
    * @param active - true pour activer, false pour désactiver
    */
   public setActive(active: boolean): void {
-    this.active = active;
-    
     // Si on active le mode conversation, initialiser avec des participants par défaut
     if (active && this.participants.length === 0) {
       this.initializeConversation();
+      return;
+    }
+    
+    if (this.active !== active) {
+      this.active = active;
+      this.emit({ type: 'active-changed', active });
     }
   }
   
@@ -71,39 +132,235 @@ class ConversationModeService {
   }
 
   /**
-   * Traiter le texte d'entrée pour le participant actuel
-   * @param text - Texte à analyser
+   * S'abonner aux événements du mode conversation
+   * @param listener - Fonction appelée à chaque événement
+   * @returns La fonction de désabonnement
+   */
+  public subscribe(listener: (event: ConversationEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  /**
+   * Obtenir le seuil de confiance au-delà duquel la langue détectée désigne le participant qui parle
+   * @returns Le seuil, entre 0 et 1
+   */
+  public getLanguageDetectionThreshold(): number {
+    return this.languageDetectionThreshold;
+  }
+  
+  /**
+   * Modifier le seuil de confiance de la détection de langue
+   * @param threshold - Nouveau seuil, entre 0 et 1
+   */
+  public setLanguageDetectionThreshold(threshold: number): void {
+    this.languageDetectionThreshold = Math.min(1, Math.max(0, threshold));
+  }
+
+  /**
+   * Traiter un énoncé : détection de la langue, attribution au participant, traduction et tour suivant
+   * L'énoncé est attribué au participant dont la langue préférée (ou la dernière langue détectée)
+   * correspond à la langue détectée, si la confiance atteint le seuil de détection ; sinon au
+   * participant actuel, dans sa langue préférée. Il est traduit dans la langue de chacun des
+   * autres participants, puis la parole passe au participant suivant.
+   * @param text - Texte de l'énoncé
+   * @param chosenLanguage - Langue choisie par l'utilisateur (la détection est alors ignorée)
+   * @param audioUri - Enregistrement de l'énoncé, joint au tour de parole
+   * @returns Le résultat du traitement, ou null si le mode conversation est inactif
    */
-  public async processTextInput(text: string): Promise<void> {
+  public async processTextInput(
+    text: string,
+    chosenLanguage?: string,
+    audioUri?: string
+  ): Promise<ConversationUtteranceOutcome | null> {
     if (!this.active || !this.participants.length) {
-      return;
+      return null;
     }
     
+    let detection: LanguageDetectionResult | null = null;
+    let language = chosenLanguage ? toLanguageCode(chosenLanguage) : null;
+    let confidence = 1;
+    
     try {
-      // Détecter la langue du texte
-      const detectionResult = await detectLanguageFromText(text);
+      if (!language) {
+        // Détecter la langue du texte
+        detection = await detectLanguageFromText(text, this.getDetectionHints());
+        if (detection.status === 'detected' && detection.confidence >= this.languageDetectionThreshold) {
+          language = detection.detectedLanguage;
+          confidence = detection.confidence;
+        } else if (getCloseCandidates(detection).length > 0) {
+          this.emit({ type: 'detection-uncertain', text, detection });
+          return { detection, turn: null };
+        }
+      }
+      
+      // Attribuer l'énoncé au participant qui parle cette langue
+      const speaker = language ? this.findSpeaker(language) : this.getCurrentParticipant();
+      if (language) {
+        this.updateParticipantDetectedLanguage(speaker.id, language, confidence);
+        if (speaker.id !== this.getCurrentParticipant().id) {
+          this.emit({ type: 'speaker-detected', participantId: speaker.id, language, confidence });
+        }
+      }
+      const sourceLanguage = language ?? speaker.preferredLanguage;
+      const speakerIndex = this.participants.findIndex(p => p.id === speaker.id);
+      if (speakerIndex !== this.currentParticipantIndex) {
+        this.currentParticipantIndex = speakerIndex;
+        this.emit({ type: 'turn-changed', participantId: speaker.id });
+      }
+      
+      // Traduire dans la langue de chacun des autres participants
+      const nextSpeaker = this.participants[(this.currentParticipantIndex + 1) % this.participants.length];
+      const targetLanguages = Array.from(new Set(
+        [nextSpeaker, ...this.participants]
+          .filter(participant => participant.id !== speaker.id)
+          .map(participant => participant.preferredLanguage)
+          .filter(targetLanguage => targetLanguage !== sourceLanguage)
+      ));
+      const results = await Promise.all(
+        targetLanguages.map(targetLanguage => translateTextWithResult(text, sourceLanguage, targetLanguage))
+      );
       
-      if (detectionResult.isReliable) {
-        const currentParticipant = this.getCurrentParticipant();
-        
-        // Mettre à jour la dernière langue détectée pour le participant actuel
-        this.updateParticipantDetectedLanguage(
-          currentParticipant.id,
-          detectionResult.detectedLanguage,
-          detectionResult.confidence
-        );
-        
-        // Enregistrer ce tour de parole dans l'historique
-        this.conversationHistory.push({
-          participantId: currentParticipant.id,
-          originalText: text,
-          detectedLanguage: detectionResult.detectedLanguage,
-          timestamp: Date.now()
-        });
+      const translations: Record<string, string> = {};
+      results.forEach((result, index) => {
+        if (!result.error && result.text) {
+          translations[targetLanguages[index]] = result.text;
+        }
+      });
+      const primaryTarget = targetLanguages.find(targetLanguage => translations[targetLanguage]);
+      if (targetLanguages.length > 0 && !primaryTarget) {
+        return { detection, turn: null, error: results[0].error };
       }
+      
+      const turn = await this.recordTurn({
+        originalText: text,
+        translatedText: primaryTarget ? translations[primaryTarget] : text,
+        sourceLanguage,
+        targetLanguage: primaryTarget ?? sourceLanguage,
+        participantId: speaker.id,
+        audioUri,
+        translations
+      });
+      
+      // Donner la parole au participant suivant
+      this.nextParticipant();
+      return { detection, turn, ...(results[0]?.error ? { error: results[0].error } : {}) };
     } catch (error) {
       console.error('Erreur lors du traitement du texte en mode conversation:', error);
+      return { detection, turn: null };
+    }
+  }
+  
+  /**
+   * Obtenir les indices de contexte pour la détection de langue
+   * Langues préférées des participants (si le mode conversation est actif)
+   * et langues des derniers tours de parole, la plus récente en premier
+   * @returns Les langues à favoriser lors de la détection
+   */
+  public getDetectionHints(): LanguageDetectionHints {
+    const recentLanguages = [...this.conversationHistory]
+      .reverse()
+      .flatMap(turn => [turn.detectedLanguage, turn.targetLanguage ?? '']);
+    return {
+      participantLanguages: this.active ? this.participants.map(p => p.preferredLanguage) : [],
+      recentLanguages: Array.from(new Set(recentLanguages.filter(Boolean))).slice(0, MAX_RECENT_LANGUAGES)
+    };
+  }
+  
+  /**
+   * Enregistrer un tour de parole traduit dans l'historique et dans la session en cours
+   * Une session est démarrée automatiquement si aucune n'est en cours
+   * @param input - Texte original, traduction, langues et participant (par défaut, le participant actuel)
+   * @returns Le tour de parole enregistré
+   */
+  public async recordTurn(input: ConversationTurnInput): Promise<ConversationTurn> {
+    if (this.participants.length === 0) {
+      this.participants = createDefaultParticipants();
+    }
+    
+    const turn: ConversationTurn = {
+      participantId: input.participantId ?? this.getCurrentParticipant().id,
+      originalText: input.originalText,
+      detectedLanguage: input.sourceLanguage,
+      translatedText: input.translatedText,
+      targetLanguage: input.targetLanguage,
+      ...(input.translations ? { translations: input.translations } : {}),
+      ...(input.audioUri ? { audioUri: input.audioUri } : {}),
+      ...(input.painLocations?.length ? { painLocations: input.painLocations } : {}),
+      timestamp: Date.now()
+    };
+    this.conversationHistory.push(turn);
+    await conversationSessionService.appendTurn(turn, this.participants);
+    this.emit({ type: 'turn-recorded', turn });
+    return turn;
+  }
+  
+  /**
+   * Démarrer une nouvelle session d'intervention (la session en cours est terminée)
+   * @param title - Titre de la session (par défaut, la date de début)
+   * @returns La session démarrée
+   */
+  public async startSession(title?: string): Promise<ConversationSession> {
+    if (this.participants.length === 0) {
+      this.participants = createDefaultParticipants();
+    }
+    this.conversationHistory = [];
+    this.emit({ type: 'conversation-reset' });
+    return conversationSessionService.startSession(this.participants, title);
+  }
+  
+  /**
+   * Terminer la session d'intervention en cours
+   * @returns La session terminée ou null si aucune n'était en cours
+   */
+  public async endSession(): Promise<ConversationSession | null> {
+    this.conversationHistory = [];
+    this.emit({ type: 'conversation-reset' });
+    return conversationSessionService.endSession();
+  }
+  
+  /**
+   * Rouvrir une session passée : ses participants et ses tours de parole sont restaurés
+   * @param sessionId - Identifiant de la session
+   * @returns true si la session a été rouverte
+   */
+  public async resumeSession(sessionId: string): Promise<boolean> {
+    const session = await conversationSessionService.reopenSession(sessionId);
+    if (!session) return false;
+    
+    this.restoreSession(session);
+    return true;
+  }
+  
+  /**
+   * Restaurer la session en cours (après un redémarrage de l'application)
+   * @returns true si une session en cours a été restaurée
+   */
+  public async restoreActiveSession(): Promise<boolean> {
+    await conversationSessionService.initialize();
+    const session = conversationSessionService.getActiveSession();
+    if (!session) return false;
+    
+    // Ne pas écraser un historique plus récent que la session chargée
+    if (this.conversationHistory.length <= session.turns.length) {
+      this.restoreSession(session);
     }
+    return true;
+  }
+  
+  /**
+   * Charger les participants et l'historique d'une session
+   * @param session - Session à charger
+   */
+  private restoreSession(session: ConversationSession): void {
+    this.participants = session.participants.length > 0
+      ? session.participants.map(participant => ({ ...participant }))
+      : createDefaultParticipants();
+    this.conversationHistory = [...session.turns];
+    this.currentParticipantIndex = 0;
+    this.emit({ type: 'conversation-reset' });
   }
   
   /**
@@ -112,21 +369,26 @@ class ConversationModeService {
    * @returns Le nom de la langue ou le code si la langue n'est pas trouvée
    */
   public getLanguageName(languageCode: string): string {
-    const language = LANGUAGES.find(lang => lang.code === languageCode);
-    return language ? language.name : languageCode;
+    return getLanguageName(languageCode);
   }
   
   /**
    * Ajouter un participant à la conversation
+   * Son numéro suit le plus grand numéro déjà attribué (participants et tours
+   * de parole), même après le retrait d'un participant
    * @param preferredLanguage - Langue préférée du participant
    * @returns L'ID du participant ajouté
    */
   public addParticipant(preferredLanguage: string): string {
-    const participantId = `participant${this.participants.length + 1}`;
-    this.participants.push({
-      id: participantId,
-      preferredLanguage
-    });
+    const usedNumbers = [
+      ...this.participants.map(p => p.id),
+      ...this.conversationHistory.map(turn => turn.participantId),
+    ].map(id => Number(id.replace('participant', '')) || 0);
+    this.participantCount = Math.max(this.participantCount, ...usedNumbers) + 1;
+    const participantId = `participant${this.participantCount}`;
+    const participant: ConversationParticipant = { id: participantId, preferredLanguage };
+    this.participants = [...this.participants, participant];
+    this.emit({ type: 'participant-added', participant: { ...participant } });
     return participantId;
   }
 
@@ -141,12 +403,7 @@ class ConversationModeService {
     detectedLanguage: string,
     confidence: number
   ): void {
-    const participantIndex = this.participants.findIndex(p => p.id === participantId);
-    
-    if (participantIndex !== -1) {
-      this.participants[participantIndex].lastDetectedLanguage = detectedLanguage;
-      this.participants[participantIndex].detectionConfidence = confidence;
-    }
+    this.updateParticipant(participantId, { lastDetectedLanguage: detectedLanguage, detectionConfidence: confidence });
   }
   
   /**
@@ -163,32 +420,81 @@ class ConversationModeService {
    */
   public nextParticipant(): ConversationParticipant {
     this.currentParticipantIndex = (this.currentParticipantIndex + 1) % this.participants.length;
-    return this.getCurrentParticipant();
+    const participant = this.getCurrentParticipant();
+    this.emit({ type: 'turn-changed', participantId: participant.id });
+    return participant;
   }
-  
+
+  /**
+   * Donner la parole à un participant (par exemple quand il appuie sur son microphone)
+   * @param participantId - ID du participant
+   * @returns true si le participant existe, false sinon
+   */
+  public setCurrentParticipant(participantId: string): boolean {
+    const index = this.participants.findIndex(p => p.id === participantId);
+    if (index === -1) {
+      return false;
+    }
+    if (index !== this.currentParticipantIndex) {
+      this.currentParticipantIndex = index;
+      this.emit({ type: 'turn-changed', participantId });
+    }
+    return true;
+  }
+
   /**
    * Obtenir la liste des participants
    * @returns La liste des participants
    */
   public getParticipants(): ConversationParticipant[] {
-    return [...this.participants];
+    return this.participants.map(participant => ({ ...participant }));
+  }
+  
+  /**
+   * Obtenir la victime, par convention le deuxième participant
+   * Les participants par défaut sont créés si la conversation n'en a aucun, et
+   * la victime est ajoutée si seul l'intervenant participe
+   * @returns La victime
+   */
+  public getVictim(): ConversationParticipant {
+    const [firefighter, victim] = createDefaultParticipants();
+    if (this.participants.length === 0) {
+      this.participants = [firefighter, victim];
+      this.currentParticipantIndex = 0;
+      this.emit({ type: 'conversation-reset' });
+    } else if (this.participants.length === 1) {
+      this.addParticipant(victim.preferredLanguage);
+    }
+    return { ...this.participants[1] };
   }
   
   /**
    * Supprimer un participant de la conversation
+   * Si le participant courant change (il a été supprimé), l'événement turn-changed est émis
    * @param participantId - ID du participant à supprimer
    * @returns true si le participant a été supprimé, false sinon
    */
   public removeParticipant(participantId: string): boolean {
-    const initialLength = this.participants.length;
+    const removedIndex = this.participants.findIndex(p => p.id === participantId);
+    if (removedIndex === -1) {
+      return false;
+    }
+    const currentId = this.participants[this.currentParticipantIndex]?.id;
     this.participants = this.participants.filter(p => p.id !== participantId);
     
-    // Ajuster l'index du participant courant si nécessaire
-    if (this.currentParticipantIndex >= this.participants.length) {
+    // Garder le même participant courant : son index recule si un participant le précédait
+    if (removedIndex < this.currentParticipantIndex) {
+      this.currentParticipantIndex -= 1;
+    } else if (this.currentParticipantIndex >= this.participants.length) {
       this.currentParticipantIndex = 0;
     }
     
-    return this.participants.length < initialLength;
+    this.emit({ type: 'participant-removed', participantId });
+    const current = this.participants[this.currentParticipantIndex];
+    if (current && current.id !== currentId) {
+      this.emit({ type: 'turn-changed', participantId: current.id });
+    }
+    return true;
   }
   
   /**
@@ -204,6 +510,7 @@ class ConversationModeService {
    */
   public clearConversationHistory(): void {
     this.conversationHistory = [];
+    this.emit({ type: 'conversation-reset' });
   }
   
   /**
@@ -213,12 +520,50 @@ class ConversationModeService {
    * @returns true si la mise à jour a réussi, false sinon
    */
   public updateParticipantLanguage(participantId: string, preferredLanguage: string): boolean {
-    const participant = this.participants.find(p => p.id === participantId);
-    if (!participant) return false;
+    return this.updateParticipant(participantId, { preferredLanguage });
+  }
+  
+  /**
+   * Modifier un participant et prévenir les abonnés
+   * @param participantId - ID du participant
+   * @param changes - Champs à modifier
+   * @returns true si le participant existe
+   */
+  private updateParticipant(participantId: string, changes: Partial<Omit<ConversationParticipant, 'id'>>): boolean {
+    const participantIndex = this.participants.findIndex(p => p.id === participantId);
+    if (participantIndex === -1) return false;
     
-    participant.preferredLanguage = preferredLanguage;
+    const participant = { ...this.participants[participantIndex], ...changes };
+    this.participants = this.participants.map((p, index) => index === participantIndex ? participant : p);
+    this.emit({ type: 'participant-changed', participant: { ...participant } });
     return true;
   }
+  
+  /**
+   * Trouver le participant qui parle une langue
+   * Le participant actuel est préféré, puis les autres dans l'ordre des tours ;
+   * la langue préférée compte avant la dernière langue détectée
+   * @param language - Code de la langue détectée
+   * @returns Le participant correspondant, ou le participant actuel si aucun ne parle cette langue
+   */
+  private findSpeaker(language: string): ConversationParticipant {
+    const inTurnOrder = this.participants.map(
+      (_, offset) => this.participants[(this.currentParticipantIndex + offset) % this.participants.length]
+    );
+    const speaks = (participantLanguage?: string) =>
+      !!participantLanguage && toLanguageCode(participantLanguage) === language;
+    return inTurnOrder.find(participant => speaks(participant.preferredLanguage))
+      ?? inTurnOrder.find(participant => speaks(participant.lastDetectedLanguage))
+      ?? this.getCurrentParticipant();
+  }
+  
+  /**
+   * Diffuser un événement aux abonnés
+   * @param event - Événement à diffuser
+   */
+  private emit(event: ConversationEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
 
 
 }
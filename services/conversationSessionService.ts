@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Service de sessions d'intervention
+ *
+ * Une session regroupe les tours de parole d'une intervention (texte original,
+ * traduction, langues et participant). Elle est enregistrée au fil de l'eau
+ * dans AsyncStorage afin de pouvoir être consultée ou reprise plus tard,
+ * notamment lors des débriefings.
+ *
+ * @module services/conversationSessionService
+ * @requires @react-native-async-storage/async-storage
+ * @requires expo-file-system
+ * @requires ./types
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { ConversationParticipant, ConversationSession, ConversationSessionSummary, ConversationTurn } from './types';
+
+/**
+ * Clés de stockage AsyncStorage
+ *
+ * @constant {Object} STORAGE_KEYS
+ * @property {string} INDEX - Résumés de toutes les sessions
+ * @property {string} ACTIVE_SESSION - Identifiant de la session en cours
+ * @property {string} SESSION_PREFIX - Préfixe de la clé de chaque session
+ * @private
+ */
+const STORAGE_KEYS = {
+  INDEX: 'conversationSessions_v1',
+  ACTIVE_SESSION: 'activeConversationSession',
+  SESSION_PREFIX: 'conversationSession_',
+};
+
+/**
+ * Titre par défaut d'une session
+ * @private
+ */
+const getDefaultTitle = (startedAt: number): string =>
+  `Intervention du ${new Date(startedAt).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })}`;
+
+/**
+ * Construit le résumé d'une session
+ * @private
+ */
+const toSummary = ({ turns, ...session }: ConversationSession): ConversationSessionSummary => ({
+  ...session,
+  turnCount: turns.length,
+});
+
+/**
+ * Service singleton de gestion des sessions d'intervention
+ *
+ * @class ConversationSessionService
+ * @example
+ * await conversationSessionService.startSession(participants);
+ * await conversationSessionService.appendTurn(turn, participants);
+ * await conversationSessionService.endSession();
+ *
+ * const sessions = await conversationSessionService.listSessions();
+ * const session = await conversationSessionService.getSession(sessions[0].id);
+ */
+class ConversationSessionService {
+  private summaries: ConversationSessionSummary[] = [];
+  private activeSession: ConversationSession | null = null;
+  private listeners = new Set<() => void>();
+  private loadingPromise: Promise<void> | null = null;
+  // Démarrage automatique en cours, partagé par les tours de parole enregistrés en même temps
+  private startingPromise: Promise<ConversationSession> | null = null;
+  // Écritures séquentielles pour ne perdre aucun tour de parole
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Charge l'index des sessions et la session en cours
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.loadSessions();
+    }
+    return this.loadingPromise;
+  }
+
+  /**
+   * Abonne une fonction aux modifications des sessions
+   *
+   * @param {Function} listener - Fonction appelée après chaque modification
+   * @returns {Function} Fonction de désabonnement
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Retourne la session en cours
+   *
+   * @returns {ConversationSession|null} Une copie de la session en cours ou null
+   */
+  getActiveSession(): ConversationSession | null {
+    return this.activeSession ? { ...this.activeSession, turns: [...this.activeSession.turns] } : null;
+  }
+
+  /**
+   * Liste les sessions enregistrées, de la plus récente à la plus ancienne
+   *
+   * @async
+   * @returns {Promise<ConversationSessionSummary[]>} Les résumés des sessions
+   */
+  async listSessions(): Promise<ConversationSessionSummary[]> {
+    await this.initialize();
+    return [...this.summaries].sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Charge une session et ses tours de parole
+   *
+   * @async
+   * @param {string} id - Identifiant de la session
+   * @returns {Promise<ConversationSession|null>} La session ou null si elle est introuvable
+   */
+  async getSession(id: string): Promise<ConversationSession | null> {
+    await this.initialize();
+    if (this.activeSession?.id === id) {
+      return this.getActiveSession();
+    }
+
+    try {
+      const sessionJson = await AsyncStorage.getItem(`${STORAGE_KEYS.SESSION_PREFIX}${id}`);
+      return sessionJson ? JSON.parse(sessionJson) : null;
+    } catch (error) {
+      console.error('Error loading conversation session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Démarre une nouvelle session (la session en cours est terminée)
+   *
+   * @async
+   * @param {ConversationParticipant[]} participants - Participants de la session
+   * @param {string} [title] - Titre de la session (par défaut, la date de début)
+   * @returns {Promise<ConversationSession>} La session démarrée
+   */
+  async startSession(participants: ConversationParticipant[], title?: string): Promise<ConversationSession> {
+    await this.endSession();
+
+    const startedAt = Date.now();
+    const session: ConversationSession = {
+      id: `session.${startedAt.toString(36)}${Math.random().toString(36).substring(2, 8)}`,
+      title: title?.trim() || getDefaultTitle(startedAt),
+      startedAt,
+      participants: participants.map(participant => ({ ...participant })),
+      turns: [],
+    };
+    this.activeSession = session;
+    await this.persist(session);
+    return { ...session };
+  }
+
+  /**
+   * Enregistre un tour de parole dans la session en cours
+   *
+   * Une session est démarrée automatiquement si aucune n'est en cours, afin
+   * qu'aucun échange ne soit perdu ; des tours enregistrés en même temps
+   * rejoignent la même session.
+   *
+   * @async
+   * @param {ConversationTurn} turn - Tour de parole à enregistrer
+   * @param {ConversationParticipant[]} participants - Participants à jour (langues détectées)
+   * @returns {Promise<void>}
+   */
+  async appendTurn(turn: ConversationTurn, participants: ConversationParticipant[]): Promise<void> {
+    await this.initialize();
+    if (!this.activeSession) {
+      if (!this.startingPromise) {
+        this.startingPromise = this.startSession(participants).finally(() => {
+          this.startingPromise = null;
+        });
+      }
+      await this.startingPromise;
+    }
+
+    const session = this.activeSession!;
+    session.turns = [...session.turns, turn];
+    session.participants = participants.map(participant => ({ ...participant }));
+    await this.persist(session);
+  }
+
+  /**
+   * Termine la session en cours
+   *
+   * @async
+   * @returns {Promise<ConversationSession|null>} La session terminée ou null si aucune n'était en cours
+   */
+  async endSession(): Promise<ConversationSession | null> {
+    await this.initialize();
+    const session = this.activeSession;
+    if (!session) {
+      return null;
+    }
+
+    session.endedAt = Date.now();
+    this.activeSession = null;
+    await this.persist(session);
+    return session;
+  }
+
+  /**
+   * Rouvre une session terminée pour poursuivre l'intervention
+   *
+   * @async
+   * @param {string} id - Identifiant de la session
+   * @returns {Promise<ConversationSession|null>} La session rouverte ou null si elle est introuvable
+   */
+  async reopenSession(id: string): Promise<ConversationSession | null> {
+    const session = await this.getSession(id);
+    if (!session) {
+      return null;
+    }
+    if (this.activeSession?.id !== id) {
+      await this.endSession();
+    }
+
+    delete session.endedAt;
+    this.activeSession = session;
+    await this.persist(session);
+    return this.getActiveSession();
+  }
+
+  /**
+   * Supprime une session et ses enregistrements audio
+   *
+   * @async
+   * @param {string} id - Identifiant de la session
+   * @returns {Promise<boolean>} true si la session a été supprimée
+   */
+  async deleteSession(id: string): Promise<boolean> {
+    await this.initialize();
+    if (!this.summaries.some(summary => summary.id === id)) {
+      return false;
+    }
+    const audioUris = ((await this.getSession(id))?.turns ?? [])
+      .map(turn => turn.audioUri)
+      .filter((uri): uri is string => Boolean(uri));
+
+    if (this.activeSession?.id === id) {
+      this.activeSession = null;
+    }
+    this.summaries = this.summaries.filter(summary => summary.id !== id);
+    this.notify();
+
+    try {
+      await this.enqueue(async () => {
+        await AsyncStorage.removeItem(`${STORAGE_KEYS.SESSION_PREFIX}${id}`);
+        await this.saveIndex();
+      });
+      await Promise.all(audioUris.map(uri => FileSystem.deleteAsync(uri, { idempotent: true })));
+      return true;
+    } catch (error) {
+      console.error('Error deleting conversation session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Charge l'index et la session en cours depuis AsyncStorage
+   * @private
+   */
+  private async loadSessions(): Promise<void> {
+    try {
+      const [indexJson, activeId] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEYS.INDEX),
+        AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_SESSION),
+      ]);
+      this.summaries = indexJson ? JSON.parse(indexJson) : [];
+
+      if (activeId) {
+        const sessionJson = await AsyncStorage.getItem(`${STORAGE_KEYS.SESSION_PREFIX}${activeId}`);
+        this.activeSession = sessionJson ? JSON.parse(sessionJson) : null;
+      }
+      this.notify();
+    } catch (error) {
+      console.error('Error loading conversation sessions:', error);
+    }
+  }
+
+  /**
+   * Enregistre une session, met à jour l'index et notifie les abonnés
+   * @private
+   */
+  private async persist(session: ConversationSession): Promise<void> {
+    const summary = toSummary(session);
+    const index = this.summaries.findIndex(existing => existing.id === session.id);
+    this.summaries = index >= 0
+      ? this.summaries.map(existing => (existing.id === session.id ? summary : existing))
+      : [...this.summaries, summary];
+    this.notify();
+
+    const snapshot = JSON.stringify(session);
+    try {
+      await this.enqueue(async () => {
+        await AsyncStorage.setItem(`${STORAGE_KEYS.SESSION_PREFIX}${session.id}`, snapshot);
+        await this.saveIndex();
+      });
+    } catch (error) {
+      console.error('Error saving conversation session:', error);
+    }
+  }
+
+  /**
+   * Enregistre l'index des sessions et l'identifiant de la session en cours
+   * @private
+   */
+  private async saveIndex(): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.INDEX, JSON.stringify(this.summaries));
+    if (this.activeSession) {
+      await AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_SESSION, this.activeSession.id);
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.ACTIVE_SESSION);
+    }
+  }
+
+  /**
+   * Ajoute une écriture à la file d'attente
+   * @private
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(task);
+    // La file continue même si une écriture échoue
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Notifie les abonnés d'une modification
+   * @private
+   */
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Instance singleton du service de sessions d'intervention
+ * @constant {ConversationSessionService}
+ */
+export const conversationSessionService = new ConversationSessionService();
@@ -1,26 +1,166 @@
 import NetInfo from '@react-native-community/netinfo';
 import { getGoogleCloudApiKey } from '../config';
-import { LANGUAGES } from './translationService';
+import { getLanguagesWithCapability, getSpeechLocale, isSupportedLanguage, toLanguageCode } from './languageRegistry';
+import { detectLanguageOffline } from './offlineLanguageDetector';
+import { LanguageCandidate, SpeechAudioFormat } from './types';
 
 /**
  * Service de détection automatique de langue utilisant l'API Google Cloud Speech-to-Text
  * Ce service permet de détecter automatiquement la langue parlée lors de la reconnaissance vocale
  */
 
+// Issue d'une détection : langue supportée, langue identifiée mais non supportée, ou aucune langue identifiée
+export type LanguageDetectionStatus = 'detected' | 'unsupported' | 'undetermined';
+
 // Interface pour les résultats de détection de langue
 export interface LanguageDetectionResult {
+  status: LanguageDetectionStatus;
+  // Langue la plus probable : code réel si elle n'est pas supportée, 'fr' si aucune langue n'est identifiée
   detectedLanguage: string;
   confidence: number;
-  isReliable: boolean;
+  isReliable: boolean; // Toujours false si la langue n'est pas supportée
+  candidates: LanguageCandidate[]; // Langues supportées les plus probables, la plus probable en premier
   detectedText?: string; // Texte détecté lors de la reconnaissance vocale
 }
 
+// Indices de contexte qui favorisent certaines langues lors de la détection
+export interface LanguageDetectionHints {
+  participantLanguages?: string[]; // Langues préférées des participants à la conversation
+  recentLanguages?: string[]; // Langues utilisées récemment, la plus récente en premier
+}
+
+// Réponse de la méthode speech:recognize de l'API Google Cloud Speech-to-Text
+interface SpeechRecognizeResponse {
+  results?: {
+    alternatives?: { transcript?: string; confidence?: number }[];
+    languageCode?: string;
+    languageDetectionConfidence?: number;
+  }[];
+}
+
+// Format attendu par défaut : PCM 16 bits mono à 16 kHz
+const DEFAULT_AUDIO_FORMAT: SpeechAudioFormat = { encoding: 'LINEAR16', sampleRateHertz: 16000 };
+
+// L'API accepte une langue principale et au plus 3 langues alternatives par requête
+const MAX_ALTERNATIVE_LANGUAGES = 3;
+
+// Langues candidates par défaut : les premières langues du registre reconnues à l'oral
+const DEFAULT_CANDIDATE_LANGUAGES = getLanguagesWithCapability('stt')
+  .slice(0, MAX_ALTERNATIVE_LANGUAGES + 1)
+  .map(language => language.code);
+
+// Confiance à partir de laquelle la détection hors ligne d'un texte suffit, sans appel à l'API
+const OFFLINE_RELIABLE_CONFIDENCE = 0.6;
+
+// Nombre de langues candidates retournées
+const MAX_DETECTION_CANDIDATES = 3;
+
+// Nombre de langues évaluées hors ligne avant l'application des indices de contexte
+const OFFLINE_CANDIDATE_POOL = 6;
+
+// Multiplicateurs de confiance des langues suggérées par le contexte
+const PARTICIPANT_LANGUAGE_BOOST = 1.5;
+const RECENT_LANGUAGE_BOOST = 1.2;
+
+// Écart de confiance en dessous duquel deux langues candidates sont considérées comme proches
+const CLOSE_CANDIDATE_MARGIN = 0.15;
+
+// Résultat retourné quand aucune langue n'a pu être identifiée
+const createUndeterminedResult = (): LanguageDetectionResult => ({
+  status: 'undetermined',
+  detectedLanguage: 'fr',
+  confidence: 0,
+  isReliable: false,
+  candidates: []
+});
+
+// Résultat d'une détection à partir de ses langues candidates, la plus probable en premier
+const createDetectedResult = (
+  candidates: LanguageCandidate[],
+  isReliable: boolean,
+  detectedText?: string
+): LanguageDetectionResult => ({
+  status: 'detected',
+  detectedLanguage: candidates[0].language,
+  confidence: candidates[0].confidence,
+  isReliable,
+  candidates,
+  ...(detectedText !== undefined ? { detectedText } : {})
+});
+
+/**
+ * Favorise les langues suggérées par le contexte et reclasse les candidates
+ * La confiance des langues des participants et des langues récentes est augmentée,
+ * puis toutes les confiances sont ramenées à leur somme initiale
+ * @param candidates - Langues candidates
+ * @param hints - Langues des participants et langues récentes
+ * @returns Les candidates reclassées, la plus probable en premier
+ */
+export const applyDetectionHints = (
+  candidates: LanguageCandidate[],
+  hints: LanguageDetectionHints = {}
+): LanguageCandidate[] => {
+  const toCodes = (languages: string[] = []) =>
+    new Set(languages.map(toLanguageCode).filter((code): code is string => code !== null));
+  const participantLanguages = toCodes(hints.participantLanguages);
+  const recentLanguages = toCodes(hints.recentLanguages);
+
+  const boosted = candidates.map(candidate => ({
+    language: candidate.language,
+    confidence: candidate.confidence
+      * (participantLanguages.has(candidate.language) ? PARTICIPANT_LANGUAGE_BOOST : 1)
+      * (recentLanguages.has(candidate.language) ? RECENT_LANGUAGE_BOOST : 1)
+  }));
+  const initialTotal = candidates.reduce((sum, candidate) => sum + candidate.confidence, 0);
+  const boostedTotal = boosted.reduce((sum, candidate) => sum + candidate.confidence, 0);
+  const scale = boostedTotal > 0 ? initialTotal / boostedTotal : 1;
+
+  return boosted
+    .map(candidate => ({ ...candidate, confidence: Math.min(1, candidate.confidence * scale) }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+/**
+ * Langues candidates assez proches de la plus probable pour demander à l'utilisateur de choisir
+ * @param result - Résultat de détection
+ * @param margin - Écart de confiance maximal avec la langue la plus probable
+ * @returns Les langues proches, la plus probable en premier (vide si la détection n'est pas ambiguë)
+ */
+export const getCloseCandidates = (
+  result: LanguageDetectionResult,
+  margin: number = CLOSE_CANDIDATE_MARGIN
+): LanguageCandidate[] => {
+  if (result.status !== 'detected' || result.candidates.length < 2) {
+    return [];
+  }
+  const closeCandidates = result.candidates.filter(candidate => candidate.confidence >= result.confidence - margin);
+  return closeCandidates.length > 1 ? closeCandidates : [];
+};
+
+// Langues suggérées par le contexte en premier, puis les autres langues attendues
+const orderByHints = (languages: string[], hints: LanguageDetectionHints): string[] => {
+  const hinted = [...(hints.participantLanguages ?? []), ...(hints.recentLanguages ?? [])];
+  const codes = new Set(languages.map(language => toLanguageCode(language) ?? language));
+  return Array.from(new Set([
+    ...hinted.filter(language => codes.has(toLanguageCode(language) ?? language)),
+    ...languages
+  ]));
+};
+
 /**
  * Détecte la langue d'un fichier audio en utilisant l'API Google Cloud Speech-to-Text
  * @param audioBase64 - Contenu audio encodé en base64
+ * @param format - Encodage et fréquence d'échantillonnage de l'audio (par défaut LINEAR16 à 16 kHz)
+ * @param candidateLanguages - Langues ou locales attendues, la plus probable en premier (4 au plus sont envoyées à l'API)
+ * @param hints - Langues des participants et langues récentes, envoyées à l'API avant les autres langues attendues
  * @returns Une promesse contenant le résultat de la détection de langue
  */
-export const detectLanguageFromAudio = async (audioBase64: string): Promise<LanguageDetectionResult> => {
+export const detectLanguageFromAudio = async (
+  audioBase64: string,
+  format: SpeechAudioFormat = DEFAULT_AUDIO_FORMAT,
+  candidateLanguages: string[] = DEFAULT_CANDIDATE_LANGUAGES,
+  hints: LanguageDetectionHints = {}
+): Promise<LanguageDetectionResult> => {
   try {
     // Vérifier la connexion Internet
     const netInfo = await NetInfo.fetch();
@@ -31,14 +171,19 @@ export const detectLanguageFromAudio = async (audioBase64: string): Promise<Lang
     // Préparer la requête pour l'API Google Cloud Speech-to-Text
     const apiUrl = `https://speech.googleapis.com/v1/speech:recognize?key=${getGoogleCloudApiKey()}`;
     
+    // Locales BCP-47 valides des langues candidates (ex: 'ar' -> 'ar-SA'), sans doublon
+    const [primaryLocale = 'fr-FR', ...alternativeLocales] = Array.from(
+      new Set(orderByHints(candidateLanguages, hints).filter(isSupportedLanguage).map(getSpeechLocale))
+    );
+
     // Configurer la requête pour détecter la langue
     const requestBody = {
       config: {
-        encoding: 'LINEAR16',
-        sampleRateHertz: 16000,
-        languageCode: 'fr-FR', // Langue par défaut pour aider l'API
+        encoding: format.encoding,
+        sampleRateHertz: format.sampleRateHertz,
+        languageCode: primaryLocale, // Langue la plus probable pour aider l'API
         model: 'default',
-        alternativeLanguageCodes: LANGUAGES.map(lang => `${lang.code}-${lang.code.toUpperCase()}`).slice(0, 4), // Limité aux 4 premières langues
+        alternativeLanguageCodes: alternativeLocales.slice(0, MAX_ALTERNATIVE_LANGUAGES),
         enableAutomaticPunctuation: true,
         enableLanguageIdentification: true, // Activer la détection de langue
       },
@@ -64,56 +209,143 @@ export const detectLanguageFromAudio = async (audioBase64: string): Promise<Lang
     }
 
     // Analyser la réponse
-    const data = await response.json();
+    const data: SpeechRecognizeResponse = await response.json();
     
     // Extraire les informations de détection de langue
     if (data.results && data.results.length > 0 && data.results[0].languageCode) {
-      // Récupérer le code de langue (format: 'fr-FR' -> 'fr')
-      const detectedLangCode = data.results[0].languageCode.split('-')[0].toLowerCase();
+      // Récupérer le code de langue (format: 'fr-fr' -> 'fr'), null si non supportée
+      const detectedLangCode = toLanguageCode(data.results[0].languageCode);
+      const confidence = data.results[0].languageDetectionConfidence || 0.5;
       
       // Récupérer le texte transcrit
       const detectedText = data.results[0].alternatives && data.results[0].alternatives[0] ? 
         data.results[0].alternatives[0].transcript : undefined;
       
-      // Vérifier si la langue détectée est supportée par notre application
-      const isSupported = LANGUAGES.some(lang => lang.code === detectedLangCode);
+      if (!detectedLangCode) {
+        return {
+          status: 'unsupported',
+          detectedLanguage: data.results[0].languageCode.toLowerCase(),
+          confidence,
+          isReliable: false,
+          candidates: [],
+          detectedText
+        };
+      }
       
-      return {
-        detectedLanguage: isSupported ? detectedLangCode : 'fr', // Par défaut 'fr' si non supportée
-        confidence: data.results[0].languageDetectionConfidence || 0.5,
-        isReliable: (data.results[0].languageDetectionConfidence || 0) > 0.7,
+      return createDetectedResult(
+        [{ language: detectedLangCode, confidence }],
+        (data.results[0].languageDetectionConfidence || 0) > 0.7,
         detectedText
-      };
+      );
     }
     
-    // Si aucune langue n'est détectée, retourner la langue par défaut
-    return {
-      detectedLanguage: 'fr',
-      confidence: 0,
-      isReliable: false
-    };
+    // Si aucune langue n'est détectée, retourner un résultat indéterminé
+    return createUndeterminedResult();
   } catch (error) {
     console.error('Language detection error:', error);
-    // En cas d'erreur, retourner la langue par défaut
-    return {
-      detectedLanguage: 'fr',
-      confidence: 0,
-      isReliable: false
-    };
+    // En cas d'erreur, retourner un résultat indéterminé
+    return createUndeterminedResult();
   }
 };
 
 /**
- * Détecte la langue d'un texte en utilisant l'API Google Cloud Translation
- * Méthode alternative si la détection audio n'est pas disponible
+ * Transcrit un fichier audio dans une langue connue avec l'API Google Cloud Speech-to-Text
+ * @param audioBase64 - Contenu audio encodé en base64
+ * @param languageCode - Locale de la langue parlée (ex: 'fr-FR')
+ * @param format - Encodage et fréquence d'échantillonnage de l'audio (par défaut LINEAR16 à 16 kHz)
+ * @returns Une promesse contenant le texte transcrit, ou null si rien n'a été reconnu
+ */
+export const transcribeAudio = async (
+  audioBase64: string,
+  languageCode: string,
+  format: SpeechAudioFormat = DEFAULT_AUDIO_FORMAT
+): Promise<string | null> => {
+  try {
+    // Vérifier la connexion Internet
+    const netInfo = await NetInfo.fetch();
+    if (!netInfo.isConnected) {
+      throw new Error('Pas de connexion Internet. Veuillez vous connecter et réessayer.');
+    }
+
+    const apiUrl = `https://speech.googleapis.com/v1/speech:recognize?key=${getGoogleCloudApiKey()}`;
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        config: {
+          encoding: format.encoding,
+          sampleRateHertz: format.sampleRateHertz,
+          languageCode,
+          enableAutomaticPunctuation: true,
+        },
+        audio: {
+          content: audioBase64
+        }
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error('Google Speech API error:', errorData);
+      throw new Error(`Erreur API Google Speech: ${errorData.error?.message || 'Erreur inconnue'}`);
+    }
+
+    // Chaque résultat correspond à une portion consécutive de l'audio
+    const data: SpeechRecognizeResponse = await response.json();
+    const transcript = (data.results ?? [])
+      .map(result => result.alternatives?.[0]?.transcript ?? '')
+      .join(' ')
+      .trim();
+
+    return transcript || null;
+  } catch (error) {
+    console.error('Audio transcription error:', error);
+    return null;
+  }
+};
+
+/**
+ * Détecte la langue d'un texte sur l'appareil, sans connexion
  * @param text - Texte à analyser
+ * @param hints - Langues des participants et langues récentes
+ * @returns Le résultat de la détection, ou null si le texte ne contient aucune lettre reconnue
+ */
+const detectLanguageFromTextOffline = (text: string, hints: LanguageDetectionHints): LanguageDetectionResult | null => {
+  const candidates = applyDetectionHints(detectLanguageOffline(text, OFFLINE_CANDIDATE_POOL), hints)
+    .slice(0, MAX_DETECTION_CANDIDATES);
+  if (candidates.length === 0) {
+    return null;
+  }
+  return createDetectedResult(candidates, candidates[0].confidence >= OFFLINE_RELIABLE_CONFIDENCE, text);
+};
+
+/**
+ * Détecte la langue d'un texte
+ * Une première passe est faite sur l'appareil ; l'API Google Cloud Translation
+ * n'est interrogée que si ce résultat n'est pas fiable. Sans connexion, le
+ * résultat de l'appareil est retourné.
+ * @param text - Texte à analyser
+ * @param hints - Langues des participants et langues récentes, favorisées dans le classement
  * @returns Une promesse contenant le résultat de la détection de langue
  */
-export const detectLanguageFromText = async (text: string): Promise<LanguageDetectionResult> => {
+export const detectLanguageFromText = async (
+  text: string,
+  hints: LanguageDetectionHints = {}
+): Promise<LanguageDetectionResult> => {
+  const offlineResult = detectLanguageFromTextOffline(text, hints);
+  if (offlineResult?.isReliable) {
+    return offlineResult;
+  }
+
   try {
-    // Vérifier la connexion Internet
+    // Sans connexion Internet, se contenter de la détection sur l'appareil
     const netInfo = await NetInfo.fetch();
     if (!netInfo.isConnected) {
+      if (offlineResult) {
+        return offlineResult;
+      }
       throw new Error('Pas de connexion Internet. Veuillez vous connecter et réessayer.');
     }
 
@@ -147,32 +379,37 @@ export const detectLanguageFromText = async (text: string): Promise<LanguageDete
     // Extraire les informations de détection de langue
     if (data.data && data.data.detections && data.data.detections.length > 0) {
       const detection = data.data.detections[0][0];
-      const detectedLangCode = detection.language.toLowerCase();
+      const confidence = detection.confidence || 0.5;
       
       // Vérifier si la langue détectée est supportée par notre application
-      const isSupported = LANGUAGES.some(lang => lang.code === detectedLangCode);
+      const detectedLangCode = toLanguageCode(detection.language);
+      if (!detectedLangCode) {
+        return {
+          status: 'unsupported',
+          detectedLanguage: detection.language.toLowerCase(),
+          confidence,
+          isReliable: false,
+          candidates: offlineResult?.candidates ?? [],
+          detectedText: text
+        };
+      }
+      
+      // Compléter avec les autres langues proposées par l'appareil, sur la confiance restante
+      const candidates = applyDetectionHints([
+        { language: detectedLangCode, confidence },
+        ...(offlineResult?.candidates ?? [])
+          .filter(candidate => candidate.language !== detectedLangCode)
+          .map(candidate => ({ ...candidate, confidence: candidate.confidence * (1 - confidence) }))
+      ], hints).slice(0, MAX_DETECTION_CANDIDATES);
       
-      return {
-        detectedLanguage: isSupported ? detectedLangCode : 'fr', // Par défaut 'fr' si non supportée
-        confidence: detection.confidence || 0.5,
-        isReliable: (detection.confidence || 0) > 0.7 && detection.isReliable,
-        detectedText: text
-      };
+      return createDetectedResult(candidates, candidates[0].confidence > 0.7 && detection.isReliable, text);
     }
     
-    // Si aucune langue n'est détectée, retourner la langue par défaut
-    return {
-      detectedLanguage: 'fr',
-      confidence: 0,
-      isReliable: false
-    };
+    // Si aucune langue n'est détectée, retourner la détection sur l'appareil ou un résultat indéterminé
+    return offlineResult ?? createUndeterminedResult();
   } catch (error) {
     console.error('Language detection error:', error);
-    // En cas d'erreur, retourner la langue par défaut
-    return {
-      detectedLanguage: 'fr',
-      confidence: 0,
-      isReliable: false
-    };
+    // En cas d'erreur, retourner la détection sur l'appareil ou un résultat indéterminé
+    return offlineResult ?? createUndeterminedResult();
   }
 };
@@ -0,0 +1,350 @@
+/**
+ * @fileoverview Registre des langues de l'application
+ *
+ * Ce module décrit chaque langue supportée : code ISO 639-1, noms en
+ * français et dans la langue elle-même, écriture, sens d'écriture, locale
+ * BCP-47 utilisée par défaut pour la voix (reconnaissance et synthèse),
+ * variantes régionales et fonctionnalités disponibles. Tous les services
+ * qui manipulent des langues s'appuient sur ce registre.
+ *
+ * @module services/languageRegistry
+ * @requires ./types
+ */
+
+import { Language, LanguageCapabilities } from './types';
+
+/**
+ * Fonctionnalités d'une langue cible disposant de tous les services
+ * @constant {LanguageCapabilities}
+ * @private
+ */
+const FULL_SUPPORT: LanguageCapabilities = { stt: true, tts: true, ocr: true, offlinePack: true };
+
+/**
+ * Liste des langues supportées par l'application
+ *
+ * Le français est la langue source des packs de phrases : aucun pack
+ * hors ligne n'est proposé pour lui.
+ *
+ * @constant {Language[]}
+ */
+export const LANGUAGES: Language[] = [
+  {
+    code: 'fr',
+    name: 'Français',
+    nativeName: 'Français',
+    speakPrompt: 'Parlez-vous français ?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'fr-FR',
+    variants: [
+      { locale: 'fr-CA', name: 'Français (Canada)' },
+      { locale: 'fr-BE', name: 'Français (Belgique)' },
+      { locale: 'fr-CH', name: 'Français (Suisse)' },
+    ],
+    capabilities: { ...FULL_SUPPORT, offlinePack: false },
+  },
+  {
+    code: 'en',
+    name: 'Anglais',
+    nativeName: 'English',
+    speakPrompt: 'Do you speak English?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'en-GB',
+    variants: [{ locale: 'en-US', name: 'Anglais (États-Unis)' }],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'es',
+    name: 'Espagnol',
+    nativeName: 'Español',
+    speakPrompt: '¿Habla usted español?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'es-ES',
+    variants: [{ locale: 'es-MX', name: 'Espagnol (Mexique)' }],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'de',
+    name: 'Allemand',
+    nativeName: 'Deutsch',
+    speakPrompt: 'Sprechen Sie Deutsch?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'de-DE',
+    variants: [
+      { locale: 'de-AT', name: 'Allemand (Autriche)' },
+      { locale: 'de-CH', name: 'Allemand (Suisse)' },
+    ],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'it',
+    name: 'Italien',
+    nativeName: 'Italiano',
+    speakPrompt: 'Parla italiano?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'it-IT',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'pt',
+    name: 'Portugais',
+    nativeName: 'Português',
+    speakPrompt: 'Fala português?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'pt-PT',
+    variants: [{ locale: 'pt-BR', name: 'Portugais (Brésil)' }],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'nl',
+    name: 'Néerlandais',
+    nativeName: 'Nederlands',
+    speakPrompt: 'Spreekt u Nederlands?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'nl-NL',
+    variants: [{ locale: 'nl-BE', name: 'Néerlandais (Belgique)' }],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'pl',
+    name: 'Polonais',
+    nativeName: 'Polski',
+    speakPrompt: 'Czy mówi Pan po polsku?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'pl-PL',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'ru',
+    name: 'Russe',
+    nativeName: 'Русский',
+    speakPrompt: 'Вы говорите по-русски?',
+    script: 'Cyrl',
+    direction: 'ltr',
+    speechLocale: 'ru-RU',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'ar',
+    name: 'Arabe',
+    nativeName: 'العربية',
+    speakPrompt: 'هل تتكلم العربية؟',
+    script: 'Arab',
+    direction: 'rtl',
+    speechLocale: 'ar-SA',
+    variants: [
+      { locale: 'ar-MA', name: 'Arabe (Maroc)' },
+      { locale: 'ar-DZ', name: 'Arabe (Algérie)' },
+      { locale: 'ar-TN', name: 'Arabe (Tunisie)' },
+      { locale: 'ar-EG', name: 'Arabe (Égypte)' },
+    ],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'zh',
+    name: 'Chinois',
+    nativeName: '中文',
+    speakPrompt: '你会说中文吗？',
+    script: 'Hans',
+    direction: 'ltr',
+    speechLocale: 'zh-CN',
+    variants: [
+      { locale: 'zh-TW', name: 'Chinois (Taïwan)' },
+      { locale: 'zh-HK', name: 'Chinois (Hong Kong)' },
+    ],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'ja',
+    name: 'Japonais',
+    nativeName: '日本語',
+    speakPrompt: '日本語を話せますか？',
+    script: 'Jpan',
+    direction: 'ltr',
+    speechLocale: 'ja-JP',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'ko',
+    name: 'Coréen',
+    nativeName: '한국어',
+    speakPrompt: '한국어를 할 줄 아세요?',
+    script: 'Kore',
+    direction: 'ltr',
+    speechLocale: 'ko-KR',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'tr',
+    name: 'Turc',
+    nativeName: 'Türkçe',
+    speakPrompt: 'Türkçe konuşuyor musunuz?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'tr-TR',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    speakPrompt: 'क्या आप हिन्दी बोलते हैं?',
+    script: 'Deva',
+    direction: 'ltr',
+    speechLocale: 'hi-IN',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'ro',
+    name: 'Roumain',
+    nativeName: 'Română',
+    speakPrompt: 'Vorbiți limba română?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'ro-RO',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'uk',
+    name: 'Ukrainien',
+    nativeName: 'Українська',
+    speakPrompt: 'Ви розмовляєте українською?',
+    script: 'Cyrl',
+    direction: 'ltr',
+    speechLocale: 'uk-UA',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'sv',
+    name: 'Suédois',
+    nativeName: 'Svenska',
+    speakPrompt: 'Talar du svenska?',
+    script: 'Latn',
+    direction: 'ltr',
+    speechLocale: 'sv-SE',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+  {
+    code: 'el',
+    name: 'Grec',
+    nativeName: 'Ελληνικά',
+    speakPrompt: 'Μιλάτε ελληνικά;',
+    script: 'Grek',
+    direction: 'ltr',
+    speechLocale: 'el-GR',
+    variants: [],
+    capabilities: FULL_SUPPORT,
+  },
+];
+
+/**
+ * Retourne la langue correspondant à un code ou à une locale
+ *
+ * @function getLanguage
+ * @param {string} codeOrLocale - Code ISO 639-1 ou locale BCP-47 (ex: 'pt', 'pt-BR', 'en-us')
+ * @returns {Language|undefined} La langue, ou undefined si elle n'est pas supportée
+ *
+ * @example
+ * getLanguage('ar-MA')?.direction; // 'rtl'
+ */
+export const getLanguage = (codeOrLocale: string): Language | undefined => {
+  const code = codeOrLocale.split(/[-_]/)[0].toLowerCase();
+  return LANGUAGES.find(language => language.code === code);
+};
+
+/**
+ * Indique si une langue est supportée par l'application
+ *
+ * @function isSupportedLanguage
+ * @param {string} codeOrLocale - Code ISO 639-1 ou locale BCP-47
+ * @returns {boolean} true si la langue est dans le registre
+ */
+export const isSupportedLanguage = (codeOrLocale: string): boolean => getLanguage(codeOrLocale) !== undefined;
+
+/**
+ * Convertit une locale en code de langue de l'application
+ *
+ * @function toLanguageCode
+ * @param {string} codeOrLocale - Code ISO 639-1 ou locale BCP-47 (ex: 'fr-CA')
+ * @returns {string|null} Le code ISO 639-1, ou null si la langue n'est pas supportée
+ *
+ * @example
+ * toLanguageCode('pt-br'); // 'pt'
+ */
+export const toLanguageCode = (codeOrLocale: string): string | null => getLanguage(codeOrLocale)?.code ?? null;
+
+/**
+ * Nom en français d'une langue ou d'une variante régionale
+ *
+ * @function getLanguageName
+ * @param {string} codeOrLocale - Code ISO 639-1 ou locale BCP-47
+ * @returns {string} Le nom de la langue (ex: 'Portugais (Brésil)'), ou le code s'il est inconnu
+ */
+export const getLanguageName = (codeOrLocale: string): string => {
+  const language = getLanguage(codeOrLocale);
+  if (!language) {
+    return codeOrLocale;
+  }
+  const variant = language.variants.find(item => item.locale.toLowerCase() === codeOrLocale.toLowerCase());
+  return variant?.name ?? language.name;
+};
+
+/**
+ * Locale BCP-47 à utiliser pour la voix (reconnaissance et synthèse)
+ *
+ * Une locale déjà régionale connue du registre est conservée (ex: 'ar-MA') ;
+ * un code de langue est converti en sa locale par défaut (ex: 'ar' → 'ar-SA').
+ *
+ * @function getSpeechLocale
+ * @param {string} codeOrLocale - Code ISO 639-1 ou locale BCP-47
+ * @returns {string} La locale BCP-47, ou la valeur reçue si la langue est inconnue
+ *
+ * @example
+ * await getSpeechRecognizer().start(getSpeechLocale('ar')); // 'ar-SA'
+ */
+export const getSpeechLocale = (codeOrLocale: string): string => {
+  const language = getLanguage(codeOrLocale);
+  if (!language) {
+    return codeOrLocale;
+  }
+  const variant = language.variants.find(item => item.locale.toLowerCase() === codeOrLocale.toLowerCase());
+  return variant?.locale ?? language.speechLocale;
+};
+
+/**
+ * Liste les langues disposant d'une fonctionnalité
+ *
+ * @function getLanguagesWithCapability
+ * @param {keyof LanguageCapabilities} capability - Fonctionnalité recherchée (ex: 'offlinePack')
+ * @returns {Language[]} Les langues concernées, dans l'ordre du registre
+ */
+export const getLanguagesWithCapability = (capability: keyof LanguageCapabilities): Language[] =>
+  LANGUAGES.filter(language => language.capabilities[capability]);
+
+/**
+ * Sens d'écriture d'une langue
+ *
+ * @function getTextDirection
+ * @param {string} codeOrLocale - Code ISO 639-1 ou locale BCP-47
+ * @returns {'ltr'|'rtl'} Le sens d'écriture ('ltr' si la langue est inconnue)
+ */
+export const getTextDirection = (codeOrLocale: string): 'ltr' | 'rtl' =>
+  getLanguage(codeOrLocale)?.direction ?? 'ltr';
@@ -0,0 +1,303 @@
+/**
+ * @fileoverview Détection hors ligne de la langue d'un texte
+ *
+ * Ce module identifie la langue d'un texte sans connexion, en deux étapes :
+ * l'analyse des écritures Unicode présentes dans le texte restreint les
+ * candidates aux langues du registre qui utilisent l'écriture dominante
+ * (cyrillique, arabe, devanagari...), puis les profils de n-grammes de
+ * caractères de chaque langue départagent les langues d'une même écriture.
+ * Les profils sont calculés au premier appel à partir de courts textes de
+ * référence.
+ *
+ * @module services/offlineLanguageDetector
+ * @requires ./languageRegistry
+ * @requires ./types
+ */
+
+import { LANGUAGES } from './languageRegistry';
+import { LanguageCandidate } from './types';
+
+/**
+ * Textes de référence servant à construire le profil de chaque langue
+ *
+ * Vocabulaire courant et vocabulaire des interventions de secours, pour que
+ * les profils reflètent les phrases réellement échangées sur le terrain.
+ *
+ * @constant {Record<string, string>}
+ * @private
+ */
+const REFERENCE_TEXTS: Record<string, string> = {
+  fr: "Bonjour, je suis pompier et je suis là pour vous aider. Est-ce que vous avez mal quelque part ? Ne bougez pas, restez calme. Y a-t-il d'autres personnes dans la maison ? Nous allons vous emmener à l'hôpital. Pouvez-vous respirer normalement ? Quel est votre nom et votre âge ? Prenez-vous des médicaments ? Il faut sortir du bâtiment maintenant, suivez-moi. Votre famille est prévenue, tout va bien se passer. Où est-ce que ça fait mal ? C'est une urgence, appelez les secours. le la les un une des de du et est pas que qui dans pour avec sur au aux ce cette il elle nous vous ils je tu mais ou donc où quand comment très bien merci oui non aussi tout tous faire avoir être peut besoin médecin aide feu blessé eau maintenant ici là-bas suite avez êtes votre vos mon ma mes",
+  en: "Hello, I am a firefighter and I am here to help you. Are you hurt anywhere? Do not move, stay calm. Is there anyone else in the house? We are going to take you to the hospital. Can you breathe normally? What is your name and how old are you? Do you take any medication? We need to leave the building now, follow me. Your family has been told, everything will be fine. Where does it hurt? This is an emergency, call for help with the phone. the a an and is are was were not that which who in for with on at to of this it he she we you they I but or so where when how very well thank thanks yes no also all do have be can need doctor help fire hurt water now here there right your my our their",
+  es: "Hola, soy bombero y estoy aquí para ayudarle. ¿Le duele algo? No se mueva, mantenga la calma. ¿Hay otras personas en la casa? Vamos a llevarle al hospital. ¿Puede respirar con normalidad? ¿Cómo se llama y cuántos años tiene? ¿Toma algún medicamento? Tenemos que salir del edificio ahora, sígame. Su familia está avisada, todo va a salir bien. ¿Dónde le duele? Es una emergencia, llame a los servicios de urgencia. el la los las un una unos de del y es son no que quien en para con por al este esta él ella nosotros usted ustedes ellos yo pero o donde cuando cómo muy bien gracias sí también todo hacer tener ser estar puede necesito médico ayuda fuego herido agua ahora aquí allí mismo su sus mi dolor",
+  de: "Hallo, ich bin Feuerwehrmann und ich bin hier, um Ihnen zu helfen. Haben Sie irgendwo Schmerzen? Bewegen Sie sich nicht, bleiben Sie ruhig. Sind noch andere Personen im Haus? Wir bringen Sie jetzt ins Krankenhaus. Können Sie normal atmen? Wie heißen Sie und wie alt sind Sie? Nehmen Sie Medikamente? Wir müssen das Gebäude sofort verlassen, folgen Sie mir. Ihre Familie ist benachrichtigt, alles wird gut. Wo tut es weh? Das ist ein Notfall, rufen Sie die Rettung. der die das ein eine und ist sind nicht dass wer in für mit auf an zu von dem den des ich du er sie wir ihr aber oder wo wann wie sehr gut danke ja nein auch alle machen haben sein kann brauche Arzt Hilfe Feuer verletzt Wasser jetzt hier dort sofort mein Ihr",
+  it: "Buongiorno, sono un vigile del fuoco e sono qui per aiutarla. Ha dolore da qualche parte? Non si muova, stia calmo. Ci sono altre persone nella casa? La portiamo all'ospedale. Riesce a respirare normalmente? Come si chiama e quanti anni ha? Prende dei farmaci? Dobbiamo uscire dall'edificio adesso, mi segua. La sua famiglia è stata avvisata, andrà tutto bene. Dove le fa male? Questa è un'emergenza, chiami i soccorsi. il lo la le gli un una di del della e è sono non che chi in per con su al alla questo questa lui lei noi voi loro io ma o dove quando come molto bene grazie sì anche tutto fare avere essere può bisogno medico aiuto fuoco ferito acqua adesso qui là subito suo mio dolore",
+  pt: "Olá, eu sou bombeiro e estou aqui para ajudar você. Sente dor em algum lugar? Não se mexa, fique calmo. Há outras pessoas dentro da casa? Vamos levar você para o hospital. Consegue respirar normalmente? Qual é o seu nome e quantos anos tem? Toma algum medicamento? Precisamos sair do edifício agora, siga-me. A sua família já foi avisada, tudo vai correr bem. Onde é que dói? Isto é uma emergência, chame o socorro. o a os as um uma de do da e é são não que quem em para com por ao no na este esta ele ela nós você vocês eles eu mas ou onde quando como muito bem obrigado sim também tudo fazer ter ser estar pode preciso médico ajuda fogo ferido água agora aqui ali seu sua meu dor",
+  nl: "Hallo, ik ben brandweerman en ik ben hier om u te helpen. Heeft u ergens pijn? Beweeg niet, blijf rustig. Zijn er nog andere mensen in het huis? We brengen u naar het ziekenhuis. Kunt u normaal ademen? Hoe heet u en hoe oud bent u? Neemt u medicijnen? We moeten het gebouw nu verlaten, volg mij. Uw familie is op de hoogte, alles komt goed. Waar doet het pijn? Dit is een noodgeval, bel de hulpdiensten. de het een en is zijn niet dat wie in voor met op aan te van dit deze hij zij wij u jullie ik maar of waar wanneer hoe heel goed dank ja nee ook alle doen hebben kan nodig dokter hulp brand gewond water nu hier daar meteen uw mijn",
+  pl: "Dzień dobry, jestem strażakiem i jestem tutaj, żeby panu pomóc. Czy coś pana boli? Proszę się nie ruszać, proszę zachować spokój. Czy w domu są jeszcze inne osoby? Zabierzemy pana do szpitala. Czy może pan normalnie oddychać? Jak się pan nazywa i ile ma pan lat? Czy bierze pan jakieś leki? Musimy teraz wyjść z budynku, proszę iść za mną. Pana rodzina została powiadomiona, wszystko będzie dobrze. Gdzie boli? To jest nagły wypadek, proszę wezwać pomoc. i w na z do nie to jest są że kto dla o po od ten ta on ona my wy oni ja ale lub gdzie kiedy jak bardzo dobrze dziękuję tak też wszystko robić mieć być może potrzebuję lekarz pomoc ogień ranny woda teraz tutaj tam natychmiast pan pani mój",
+  ru: "Здравствуйте, я пожарный, и я здесь, чтобы вам помочь. У вас что-нибудь болит? Не двигайтесь, сохраняйте спокойствие. В доме есть ещё люди? Мы отвезём вас в больницу. Вы можете нормально дышать? Как вас зовут и сколько вам лет? Вы принимаете какие-нибудь лекарства? Нам нужно сейчас же выйти из здания, идите за мной. Ваша семья предупреждена, всё будет хорошо. Где болит? Это срочный вызов, позвоните в скорую помощь. и в на с к не это есть что кто для о по от этот эта он она мы вы они я но или где когда как очень хорошо спасибо да нет тоже всё делать иметь быть может нужен врач помощь огонь ранен вода сейчас здесь там прямо ваш мой",
+  uk: "Добрий день, я пожежник, і я тут, щоб вам допомогти. У вас щось болить? Не рухайтеся, зберігайте спокій. Чи є ще люди в будинку? Ми відвеземо вас до лікарні. Ви можете нормально дихати? Як вас звати і скільки вам років? Ви приймаєте якісь ліки? Нам потрібно негайно вийти з будівлі, йдіть за мною. Вашу родину повідомлено, усе буде добре. Де болить? Це надзвичайна ситуація, викличте швидку допомогу, будь ласка. і й в у на з до не це є що хто для про по від цей ця він вона ми ви вони я але або де коли як дуже добре дякую так ні теж усе робити мати бути може потрібен лікар допомога вогонь поранений вода зараз тут там негайно ваш мій",
+  ar: "مرحبا، أنا رجل إطفاء وأنا هنا لمساعدتك. هل تشعر بألم في مكان ما؟ لا تتحرك، ابق هادئا. هل يوجد أشخاص آخرون في المنزل؟ سنأخذك إلى المستشفى. هل يمكنك التنفس بشكل طبيعي؟ ما اسمك وكم عمرك؟ هل تتناول أي أدوية؟ يجب أن نخرج من المبنى الآن، اتبعني. تم إبلاغ عائلتك، كل شيء سيكون على ما يرام. أين تشعر بالألم؟ هذه حالة طارئة، اتصل بالإسعاف.",
+  zh: "你好，我是消防员，我来这里帮助你。你哪里疼吗？不要动，保持冷静。房子里还有其他人吗？我们会送你去医院。你能正常呼吸吗？你叫什么名字，今年多大了？你在吃什么药吗？我们现在必须离开这栋楼，请跟我来。已经通知你的家人了，一切都会好的。哪里疼？这是紧急情况，请叫救护车。",
+  ja: "こんにちは、私は消防士です。あなたを助けに来ました。どこか痛いところはありますか？動かないでください、落ち着いてください。家の中にほかに人はいますか？これから病院に連れて行きます。普通に息ができますか？お名前と年齢を教えてください。何か薬を飲んでいますか？今すぐ建物から出なければなりません、ついて来てください。ご家族には連絡しました、大丈夫ですよ。どこが痛いですか？これは緊急事態です、救急車を呼んでください。",
+  ko: "안녕하세요, 저는 소방관이고 당신을 도와드리러 왔습니다. 어디 아픈 곳이 있나요? 움직이지 마시고 침착하세요. 집 안에 다른 사람이 있나요? 병원으로 모셔다 드리겠습니다. 정상적으로 숨을 쉴 수 있나요? 이름과 나이가 어떻게 되세요? 복용하는 약이 있나요? 지금 바로 건물에서 나가야 합니다, 저를 따라오세요. 가족에게 연락했습니다, 다 괜찮을 거예요. 어디가 아프세요? 응급 상황입니다, 구급차를 불러 주세요.",
+  tr: "Merhaba, ben itfaiyeciyim ve size yardım etmek için buradayım. Bir yeriniz ağrıyor mu? Kıpırdamayın, sakin olun. Evde başka kimse var mı? Sizi hastaneye götüreceğiz. Normal nefes alabiliyor musunuz? Adınız ne ve kaç yaşındasınız? Herhangi bir ilaç kullanıyor musunuz? Binadan hemen çıkmamız gerekiyor, beni takip edin. Ailenize haber verildi, her şey yoluna girecek. Neresi ağrıyor? Bu bir acil durum, lütfen ambulans çağırın. ve bir bu şu o da de değil ne kim için ile üzerinde ben sen biz siz onlar ama veya nerede ne zaman nasıl çok iyi teşekkürler evet hayır hepsi yapmak var yok olabilir ihtiyacım doktor yardım yangın yaralı su şimdi burada orada hemen sizin benim",
+  hi: "नमस्ते, मैं एक अग्निशामक हूँ और मैं आपकी मदद करने के लिए यहाँ हूँ। क्या आपको कहीं दर्द हो रहा है? हिलिए मत, शांत रहिए। क्या घर में और लोग हैं? हम आपको अस्पताल ले जाएँगे। क्या आप ठीक से साँस ले पा रहे हैं? आपका नाम क्या है और आपकी उम्र क्या है? क्या आप कोई दवा लेते हैं? हमें अभी इमारत से बाहर निकलना होगा, मेरे पीछे आइए। आपके परिवार को बता दिया गया है, सब ठीक हो जाएगा। कहाँ दर्द हो रहा है? यह आपातकाल है, एम्बुलेंस बुलाइए।",
+  ro: "Bună ziua, sunt pompier și sunt aici ca să vă ajut. Vă doare undeva? Nu vă mișcați, rămâneți calm. Mai sunt și alte persoane în casă? Vă ducem la spital. Puteți să respirați normal? Cum vă numiți și câți ani aveți? Luați vreun medicament? Trebuie să ieșim din clădire acum, veniți după mine. Familia dumneavoastră a fost anunțată, totul va fi bine. Unde vă doare? Este o urgență, chemați ambulanța. și în pe cu la de din nu este sunt că cine pentru un o acest această el ea noi voi ei eu dar sau unde când cum foarte bine mulțumesc da nu și tot face avea fi poate nevoie medic ajutor foc rănit apă acum aici acolo imediat dumneavoastră meu",
+  sv: "Hej, jag är brandman och jag är här för att hjälpa dig. Har du ont någonstans? Rör dig inte, var lugn. Finns det fler personer i huset? Vi ska köra dig till sjukhuset. Kan du andas normalt? Vad heter du och hur gammal är du? Tar du någon medicin? Vi måste lämna byggnaden nu, följ med mig. Din familj har fått veta, allt kommer att bli bra. Var gör det ont? Det här är ett nödläge, ring efter ambulans. och i på med till av en ett är inte att som för om den det detta han hon vi ni de jag men eller var när hur mycket bra tack ja nej också alla göra ha vara kan behöver läkare hjälp brand skadad vatten nu här där genast din min",
+  el: "Γεια σας, είμαι πυροσβέστης και είμαι εδώ για να σας βοηθήσω. Πονάτε κάπου; Μην κουνιέστε, μείνετε ήρεμος. Υπάρχουν άλλα άτομα μέσα στο σπίτι; Θα σας πάμε στο νοσοκομείο. Μπορείτε να αναπνεύσετε κανονικά; Πώς σας λένε και πόσων χρονών είστε; Παίρνετε κάποια φάρμακα; Πρέπει να βγούμε από το κτίριο τώρα, ακολουθήστε με. Η οικογένειά σας ειδοποιήθηκε, όλα θα πάνε καλά. Πού πονάτε; Είναι επείγον, καλέστε ασθενοφόρο.",
+};
+
+/**
+ * Plages Unicode des écritures reconnues
+ *
+ * Les idéogrammes (`Hani`) sont partagés par le chinois et le japonais ;
+ * les kana (`Kana`) ne sont utilisés que par le japonais.
+ *
+ * @constant {Array<[string, number, number]>}
+ * @private
+ */
+const SCRIPT_RANGES: [string, number, number][] = [
+  ['Latn', 0x0041, 0x005a],
+  ['Latn', 0x0061, 0x007a],
+  ['Latn', 0x00c0, 0x024f],
+  ['Latn', 0x1e00, 0x1eff],
+  ['Grek', 0x0370, 0x03ff],
+  ['Grek', 0x1f00, 0x1fff],
+  ['Cyrl', 0x0400, 0x052f],
+  ['Arab', 0x0600, 0x06ff],
+  ['Arab', 0x0750, 0x077f],
+  ['Arab', 0xfb50, 0xfdff],
+  ['Arab', 0xfe70, 0xfeff],
+  ['Deva', 0x0900, 0x097f],
+  ['Hang', 0x1100, 0x11ff],
+  ['Hang', 0x3130, 0x318f],
+  ['Hang', 0xac00, 0xd7af],
+  ['Kana', 0x3040, 0x30ff],
+  ['Hani', 0x3400, 0x4dbf],
+  ['Hani', 0x4e00, 0x9fff],
+];
+
+/**
+ * Écritures détectées utilisables par chaque écriture du registre
+ * @constant {Record<string, string[]>}
+ * @private
+ */
+const REGISTRY_SCRIPTS: Record<string, string[]> = {
+  Latn: ['Latn'],
+  Grek: ['Grek'],
+  Cyrl: ['Cyrl'],
+  Arab: ['Arab'],
+  Deva: ['Deva'],
+  Hans: ['Hani'],
+  Jpan: ['Kana', 'Hani'],
+  Kore: ['Hang', 'Hani'],
+};
+
+/**
+ * Longueurs des n-grammes de caractères comparés
+ * @constant {number[]}
+ * @private
+ */
+const NGRAM_SIZES = [1, 2, 3];
+
+/**
+ * Lissage des fréquences : un n-gramme absent du profil d'une langue reste possible
+ * @constant {number}
+ * @private
+ */
+const SMOOTHING = 0.5;
+
+/**
+ * Nombre de lettres à partir duquel un texte est assez long pour une détection fiable
+ * @constant {number}
+ * @private
+ */
+const RELIABLE_TEXT_LENGTH = 20;
+
+/**
+ * Facteur appliqué aux écarts de vraisemblance moyenne entre deux langues
+ *
+ * Plus il est élevé, plus la langue la mieux notée concentre la confiance.
+ *
+ * @constant {number}
+ * @private
+ */
+const SCORE_SCALE = 6;
+
+/**
+ * Profil de n-grammes d'un texte : fréquences et nombre total de n-grammes
+ * @private
+ */
+interface NgramProfile {
+  counts: Map<string, number>;
+  total: number;
+}
+
+// Profils des langues, calculés au premier appel
+let languageProfiles: Map<string, NgramProfile> | null = null;
+
+/**
+ * Retourne l'écriture d'un caractère, ou null pour les chiffres, espaces et ponctuations
+ *
+ * @function getCharacterScript
+ * @param {number} codePoint - Point de code Unicode
+ * @returns {string|null} Le code ISO 15924 de l'écriture (ex: 'Cyrl')
+ * @private
+ */
+const getCharacterScript = (codePoint: number): string | null => {
+  const range = SCRIPT_RANGES.find(([, start, end]) => codePoint >= start && codePoint <= end);
+  return range ? range[0] : null;
+};
+
+/**
+ * Compte les lettres de chaque écriture présentes dans un texte
+ *
+ * @function countScripts
+ * @param {string} text - Texte à analyser
+ * @returns {Map<string, number>} Le nombre de lettres par écriture
+ * @private
+ */
+const countScripts = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const character of text) {
+    const script = getCharacterScript(character.codePointAt(0) ?? 0);
+    if (script) {
+      counts.set(script, (counts.get(script) ?? 0) + 1);
+    }
+  }
+  return counts;
+};
+
+/**
+ * Calcule le profil de n-grammes d'un texte
+ *
+ * Le texte est mis en minuscules et réduit à ses mots ; chaque mot est
+ * entouré d'espaces pour que les débuts et fins de mots soient pris en compte.
+ *
+ * @function buildProfile
+ * @param {string} text - Texte à analyser
+ * @returns {NgramProfile} Le profil du texte
+ * @private
+ */
+const buildProfile = (text: string): NgramProfile => {
+  const counts = new Map<string, number>();
+  let total = 0;
+  const words = text.normalize('NFC').toLowerCase().split(/[\s\d.,;:!?¿¡'"«»“”„()[\]{}\-–—/\\。、，！？：；（）「」]+/);
+
+  words.filter(Boolean).forEach(word => {
+    const characters = Array.from(` ${word} `);
+    NGRAM_SIZES.forEach(size => {
+      for (let i = 0; i + size <= characters.length; i++) {
+        const ngram = characters.slice(i, i + size).join('');
+        if (ngram !== ' ') {
+          counts.set(ngram, (counts.get(ngram) ?? 0) + 1);
+          total++;
+        }
+      }
+    });
+  });
+
+  return { counts, total };
+};
+
+/**
+ * Vraisemblance moyenne d'un texte selon le profil d'une langue
+ *
+ * Moyenne, sur les n-grammes du texte, du logarithme de leur fréquence
+ * lissée dans le profil de la langue (modèle bayésien naïf).
+ *
+ * @function scoreProfile
+ * @param {NgramProfile} text - Profil du texte
+ * @param {NgramProfile} language - Profil de la langue
+ * @returns {number} Le logarithme moyen (négatif ; plus il est proche de 0, plus le texte ressemble à la langue)
+ * @private
+ */
+const scoreProfile = (text: NgramProfile, language: NgramProfile): number => {
+  const denominator = Math.log(language.total + SMOOTHING * (language.counts.size + 1));
+  let logLikelihood = 0;
+  text.counts.forEach((count, ngram) => {
+    logLikelihood += count * (Math.log((language.counts.get(ngram) ?? 0) + SMOOTHING) - denominator);
+  });
+  return text.total > 0 ? logLikelihood / text.total : -Infinity;
+};
+
+/**
+ * Retourne les profils des langues du registre (calculés une seule fois)
+ * @private
+ */
+const getLanguageProfiles = (): Map<string, NgramProfile> => {
+  if (!languageProfiles) {
+    languageProfiles = new Map(
+      LANGUAGES.filter(language => REFERENCE_TEXTS[language.code]).map(language => [
+        language.code,
+        buildProfile(REFERENCE_TEXTS[language.code]),
+      ])
+    );
+  }
+  return languageProfiles;
+};
+
+/**
+ * Détecte la langue d'un texte sans connexion
+ *
+ * Seules les langues dont l'écriture correspond aux lettres du texte sont
+ * candidates ; leur confiance tient compte de la part du texte écrite dans
+ * cette écriture, de la proximité de son profil de n-grammes et de la
+ * longueur du texte (un mot isolé reste ambigu).
+ *
+ * @function detectLanguageOffline
+ * @param {string} text - Texte à analyser
+ * @param {number} [maxCandidates=3] - Nombre maximal de langues retournées
+ * @returns {LanguageCandidate[]} Les langues candidates, la plus probable en premier (vide si le texte ne contient pas de lettres)
+ *
+ * @example
+ * detectLanguageOffline('Де болить?');
+ * // [{ language: 'uk', confidence: 0.41 }, { language: 'ru', confidence: 0.29 }] : phrase courte, ambiguë
+ *
+ * const [best] = detectLanguageOffline('Вам потрібен лікар?');
+ * // best: { language: 'uk', confidence: 0.89 }
+ */
+export const detectLanguageOffline = (text: string, maxCandidates: number = 3): LanguageCandidate[] => {
+  const scriptCounts = countScripts(text);
+  const letterCount = Array.from(scriptCounts.values()).reduce((sum, count) => sum + count, 0);
+  if (letterCount === 0) {
+    return [];
+  }
+
+  // Part des lettres du texte écrites dans l'écriture de chaque langue
+  const scriptShares = LANGUAGES.map(language => {
+    const scripts = REGISTRY_SCRIPTS[language.script] ?? [language.script];
+    const letters = scripts.reduce((sum, script) => sum + (scriptCounts.get(script) ?? 0), 0);
+    return { language: language.code, share: letters / letterCount };
+  });
+  const bestShare = Math.max(...scriptShares.map(item => item.share));
+  if (bestShare === 0) {
+    return [];
+  }
+
+  // Les langues de l'écriture dominante sont départagées par leurs n-grammes
+  const profiles = getLanguageProfiles();
+  const textProfile = buildProfile(text);
+  const scored = scriptShares
+    .filter(item => item.share === bestShare)
+    .map(item => {
+      const profile = profiles.get(item.language);
+      return { ...item, score: profile ? scoreProfile(textProfile, profile) : -Infinity };
+    });
+
+  const bestScore = Math.max(...scored.map(item => item.score));
+  const weights = scored.map(item =>
+    Number.isFinite(bestScore) ? Math.exp((item.score - bestScore) * SCORE_SCALE) : 1
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const lengthFactor = Math.min(1, letterCount / RELIABLE_TEXT_LENGTH);
+
+  return scored
+    .map((item, index) => ({
+      language: item.language,
+      confidence: item.share * (weights[index] / totalWeight) * (0.5 + 0.5 * lengthFactor),
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, maxCandidates);
+};
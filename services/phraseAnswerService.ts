@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Réponses de la victime aux questions du catalogue
+ *
+ * Ce service fournit les libellés du répondeur à pictogrammes dans la langue
+ * de la victime (oui, non, je ne sais pas, échelle de douleur) et enregistre
+ * chaque réponse dans la transcription de la conversation, accompagnée de sa
+ * signification en français.
+ *
+ * @module services/phraseAnswerService
+ * @requires ./bodyMapService
+ * @requires ./conversationModeService
+ * @requires ./languageRegistry
+ * @requires ./types
+ */
+
+import { describePainLocations, getBodyRegionName, MAX_PAIN_INTENSITY } from './bodyMapService';
+import { ConversationTurn, conversationModeService } from './conversationModeService';
+import { toLanguageCode } from './languageRegistry';
+import { Phrase, PhraseAnswer } from './types';
+
+/**
+ * Libellés du répondeur dans une langue
+ *
+ * @interface PhraseAnswerLabels
+ * @property {string} yes - Oui
+ * @property {string} no - Non
+ * @property {string} unknown - Je ne sais pas
+ * @property {string} noPain - Extrémité basse de l'échelle de douleur (0)
+ * @property {string} worstPain - Extrémité haute de l'échelle de douleur (10)
+ */
+export interface PhraseAnswerLabels {
+  yes: string;
+  no: string;
+  unknown: string;
+  noPain: string;
+  worstPain: string;
+}
+
+/**
+ * Langue des libellés utilisés quand la langue de la victime n'est pas traduite
+ * @constant {string}
+ * @private
+ */
+const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Libellés du répondeur par code de langue
+ * @constant {Record<string, PhraseAnswerLabels>}
+ * @private
+ */
+const ANSWER_LABELS: Record<string, PhraseAnswerLabels> = {
+  fr: { yes: 'Oui', no: 'Non', unknown: 'Je ne sais pas', noPain: 'Aucune douleur', worstPain: 'Douleur maximale' },
+  en: { yes: 'Yes', no: 'No', unknown: 'I don\'t know', noPain: 'No pain', worstPain: 'Worst pain' },
+  es: { yes: 'Sí', no: 'No', unknown: 'No lo sé', noPain: 'Sin dolor', worstPain: 'Dolor máximo' },
+  de: { yes: 'Ja', no: 'Nein', unknown: 'Ich weiß nicht', noPain: 'Keine Schmerzen', worstPain: 'Stärkste Schmerzen' },
+  it: { yes: 'Sì', no: 'No', unknown: 'Non lo so', noPain: 'Nessun dolore', worstPain: 'Dolore massimo' },
+  pt: { yes: 'Sim', no: 'Não', unknown: 'Não sei', noPain: 'Sem dor', worstPain: 'Dor máxima' },
+  nl: { yes: 'Ja', no: 'Nee', unknown: 'Ik weet het niet', noPain: 'Geen pijn', worstPain: 'Ergste pijn' },
+  pl: { yes: 'Tak', no: 'Nie', unknown: 'Nie wiem', noPain: 'Brak bólu', worstPain: 'Najsilniejszy ból' },
+  ru: { yes: 'Да', no: 'Нет', unknown: 'Не знаю', noPain: 'Нет боли', worstPain: 'Сильнейшая боль' },
+  ar: { yes: 'نعم', no: 'لا', unknown: 'لا أعرف', noPain: 'لا ألم', worstPain: 'أشد ألم' },
+  zh: { yes: '是', no: '不是', unknown: '不知道', noPain: '不痛', worstPain: '最痛' },
+  ja: { yes: 'はい', no: 'いいえ', unknown: 'わかりません', noPain: '痛みなし', worstPain: '最悪の痛み' },
+  ko: { yes: '예', no: '아니요', unknown: '모르겠어요', noPain: '통증 없음', worstPain: '최악의 통증' },
+  tr: { yes: 'Evet', no: 'Hayır', unknown: 'Bilmiyorum', noPain: 'Ağrı yok', worstPain: 'En kötü ağrı' },
+  hi: { yes: 'हाँ', no: 'नहीं', unknown: 'पता नहीं', noPain: 'कोई दर्द नहीं', worstPain: 'सबसे तेज़ दर्द' },
+  ro: { yes: 'Da', no: 'Nu', unknown: 'Nu știu', noPain: 'Fără durere', worstPain: 'Cea mai mare durere' },
+  uk: { yes: 'Так', no: 'Ні', unknown: 'Не знаю', noPain: 'Немає болю', worstPain: 'Найсильніший біль' },
+  sv: { yes: 'Ja', no: 'Nej', unknown: 'Jag vet inte', noPain: 'Ingen smärta', worstPain: 'Värsta smärta' },
+  el: { yes: 'Ναι', no: 'Όχι', unknown: 'Δεν ξέρω', noPain: 'Κανένας πόνος', worstPain: 'Χειρότερος πόνος' },
+};
+
+/**
+ * Retourne les libellés du répondeur dans une langue
+ *
+ * @function getAnswerLabels
+ * @param {string} language - Code de langue ou locale de la victime
+ * @returns {PhraseAnswerLabels} Les libellés, en anglais si la langue n'est pas traduite
+ */
+export const getAnswerLabels = (language: string): PhraseAnswerLabels =>
+  ANSWER_LABELS[toLanguageCode(language) ?? ''] ?? ANSWER_LABELS[FALLBACK_LANGUAGE];
+
+/**
+ * Formule une réponse dans une langue
+ *
+ * @function formatAnswer
+ * @param {PhraseAnswer} answer - Réponse de la victime
+ * @param {string} language - Code de langue du libellé
+ * @returns {string} La réponse lisible (ex: 'Yes', '3', '7/10', 'Left arm 2/3')
+ */
+export const formatAnswer = (answer: PhraseAnswer, language: string): string => {
+  switch (answer.type) {
+    case 'yes-no':
+      return getAnswerLabels(language)[answer.value];
+    case 'number':
+      return String(answer.value);
+    case 'pain-scale':
+      return `${answer.value}/10`;
+    case 'body-map':
+      return answer.value
+        .map(location => `${getBodyRegionName(location.region, language)} ${location.intensity}/${MAX_PAIN_INTENSITY}`)
+        .join(', ');
+  }
+};
+
+/**
+ * Signification d'une réponse en français
+ *
+ * @function describeAnswerMeaning
+ * @param {PhraseAnswer} answer - Réponse de la victime
+ * @returns {string} La réponse en français (ex: 'Non', 'Douleur 7/10', 'Tête (forte)')
+ */
+export const describeAnswerMeaning = (answer: PhraseAnswer): string => {
+  switch (answer.type) {
+    case 'pain-scale':
+      return `Douleur ${formatAnswer(answer, 'fr')}`;
+    case 'body-map':
+      return describePainLocations(answer.value);
+    default:
+      return formatAnswer(answer, 'fr');
+  }
+};
+
+/**
+ * Signification d'une réponse en français, avec la question posée
+ *
+ * @function describeAnswer
+ * @param {Phrase} phrase - Question du catalogue
+ * @param {PhraseAnswer} answer - Réponse de la victime
+ * @returns {string} La réponse en français (ex: 'Avez-vous perdu connaissance ? → Non')
+ */
+export const describeAnswer = (phrase: Phrase, answer: PhraseAnswer): string =>
+  `${phrase.fr} → ${describeAnswerMeaning(answer)}`;
+
+/**
+ * Enregistre la réponse de la victime dans la transcription de la conversation
+ *
+ * La réponse est attribuée à la victime (deuxième participant, ajoutée à la
+ * conversation si seul l'intervenant y participe) : elle n'est jamais mise au
+ * nom de l'intervenant. Le texte original est la réponse dans sa langue et la
+ * traduction sa signification en français. Les zones de la carte du corps sont aussi conservées telles
+ * quelles dans le tour de parole.
+ *
+ * @function recordAnswer
+ * @param {Phrase} phrase - Question du catalogue
+ * @param {PhraseAnswer} answer - Réponse de la victime
+ * @param {string} language - Langue dans laquelle la question a été posée
+ * @returns {Promise<ConversationTurn>} Le tour de parole enregistré
+ */
+export const recordAnswer = async (phrase: Phrase, answer: PhraseAnswer, language: string): Promise<ConversationTurn> => {
+  return conversationModeService.recordTurn({
+    originalText: formatAnswer(answer, language),
+    translatedText: describeAnswer(phrase, answer),
+    sourceLanguage: language,
+    targetLanguage: 'fr',
+    participantId: conversationModeService.getVictim().id,
+    ...(answer.type === 'body-map' ? { painLocations: answer.value } : {}),
+  });
+};
@@ -0,0 +1,702 @@
+/**
+ * @fileoverview Service d'import/export du catalogue de phrases
+ *
+ * Ce service permet aux interprètes de maintenir les traductions du catalogue
+ * dans un tableur (CSV) ou un outil de traduction assistée (XLIFF 1.2 et 2.0).
+ * Un import est d'abord analysé et validé (langues inconnues, doublons,
+ * traductions manquantes) ; le catalogue n'est modifié qu'après confirmation.
+ *
+ * Les traductions vérifiées sont enregistrées dans le catalogue (phrases
+ * personnalisées) ou comme traductions vérifiées (phrases prédéfinies). Les
+ * traductions non vérifiées sont placées dans le cache de traduction, où
+ * elles apparaissent comme traductions automatiques à faire valider.
+ *
+ * @module services/phraseCatalogExchangeService
+ * @requires ./languageRegistry
+ * @requires ./phraseRepository
+ * @requires ./translationService
+ * @requires ./translationVerificationService
+ * @requires ./compressionService
+ * @requires ./types
+ */
+
+import { decompressTranslationEntry } from './compressionService';
+import { CUSTOM_CATEGORY_ICONS, normalizePhraseText, phraseRepository } from './phraseRepository';
+import { LANGUAGES } from './languageRegistry';
+import { getTranslationCache, storeTranslationsInCache } from './translationService';
+import { translationVerificationService } from './translationVerificationService';
+import {
+  Phrase,
+  PhraseCatalogFormat,
+  PhraseCatalogImportEntry,
+  PhraseCatalogImportReport,
+  PhraseCatalogImportSummary,
+  PhraseCategory
+} from './types';
+
+/**
+ * Colonnes fixes du format CSV ; les autres colonnes sont des codes de langue,
+ * éventuellement suivis de `_verified` pour le statut de vérification
+ *
+ * @constant {Object} CSV_COLUMNS
+ * @private
+ */
+const CSV_COLUMNS = {
+  ID: 'id',
+  CATEGORY: 'category',
+  SOURCE: 'fr',
+  VERIFIED: 'verified',
+  VERIFIED_SUFFIX: '_verified',
+};
+
+/**
+ * Valeurs acceptées comme "vérifiée" dans les colonnes de vérification CSV
+ * @constant {string[]}
+ * @private
+ */
+const CSV_TRUE_VALUES = ['oui', 'yes', 'true', 'vrai', '1', 'x'];
+
+/**
+ * États XLIFF considérés comme une traduction vérifiée
+ * @constant {Object}
+ * @private
+ */
+const XLIFF_VERIFIED_STATES = {
+  '1.2': ['signed-off', 'final'],
+  '2.0': ['reviewed', 'final'],
+};
+
+/**
+ * Codes des langues cibles connues de l'application
+ * @private
+ */
+const getKnownLanguageCodes = (): string[] =>
+  LANGUAGES.map(language => language.code).filter(code => code !== 'fr');
+
+/**
+ * Traduction exportée d'une phrase, avec son statut de vérification
+ * @private
+ */
+type ExportedTranslation = { text: string; verified: boolean };
+
+/**
+ * Rassemble les traductions de chaque phrase du catalogue
+ *
+ * Priorité aux traductions vérifiées manuellement, puis au catalogue, puis aux
+ * traductions automatiques du cache (non vérifiées).
+ * @private
+ */
+const collectTranslations = async (
+  phrases: Phrase[],
+  languages: string[]
+): Promise<Map<string, Record<string, ExportedTranslation>>> => {
+  await translationVerificationService.initialize();
+
+  const cache = await getTranslationCache();
+  const machineTranslations = new Map<string, string>();
+  cache.entries
+    .filter(entry => entry.sourceLang === 'fr')
+    .forEach(entry => {
+      const { text, translation, targetLang } = decompressTranslationEntry(entry);
+      machineTranslations.set(`${targetLang}|${normalizePhraseText(text)}`, translation);
+    });
+
+  const collected = new Map<string, Record<string, ExportedTranslation>>();
+  phrases.forEach(phrase => {
+    const translations: Record<string, ExportedTranslation> = {};
+    languages.forEach(lang => {
+      const verification = translationVerificationService.getVerification(phrase.fr, 'fr', lang);
+      const catalogTranslation = verification?.translation ?? phrase.translations[lang];
+      const machineTranslation = machineTranslations.get(`${lang}|${normalizePhraseText(phrase.fr)}`);
+      if (catalogTranslation) {
+        translations[lang] = { text: catalogTranslation, verified: true };
+      } else if (machineTranslation) {
+        translations[lang] = { text: machineTranslation, verified: false };
+      }
+    });
+    collected.set(phrase.id, translations);
+  });
+  return collected;
+};
+
+/**
+ * Échappe une valeur CSV (RFC 4180)
+ * @private
+ */
+const escapeCsvValue = (value: string): string =>
+  /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Découpe un contenu CSV en lignes de valeurs
+ *
+ * Gère les valeurs entre guillemets (séparateurs et retours à la ligne inclus).
+ * @private
+ */
+const parseCsvRows = (content: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Échappe un texte pour un document XML
+ * @private
+ */
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Extrait le texte d'un contenu XML (balises de mise en forme retirées, entités décodées)
+ * @private
+ */
+const readXmlText = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => escapeXml(data))
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+/**
+ * Lit la valeur d'un attribut XML
+ * @private
+ */
+const readXmlAttribute = (attributes: string, name: string): string | undefined => {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? readXmlText(match[1] ?? match[2]) : undefined;
+};
+
+/**
+ * Retourne les éléments XML d'un nom donné (non imbriqués) avec leurs attributs et leur contenu
+ * @private
+ */
+const readXmlElements = (xml: string, name: string): { attributes: string; content: string }[] => {
+  const pattern = new RegExp(`<${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${name}>)`, 'g');
+  return Array.from(xml.matchAll(pattern)).map(match => ({ attributes: match[1], content: match[2] ?? '' }));
+};
+
+/**
+ * Convertit les unités d'un élément XLIFF (fichier ou groupe) en phrases importées
+ * @private
+ */
+const readXliffUnits = (
+  xml: string,
+  version: '1.2' | '2.0',
+  targetLang: string,
+  category: string
+): PhraseCatalogImportEntry[] => {
+  const unitName = version === '1.2' ? 'trans-unit' : 'unit';
+  return readXmlElements(xml, unitName).map(unit => {
+    // En XLIFF 2.0, le texte et l'état sont portés par les segments de l'unité
+    const segments = version === '1.2' ? [unit] : readXmlElements(unit.content, 'segment');
+    const source = segments.map(segment => readXmlText(readXmlElements(segment.content, 'source')[0]?.content ?? '')).join(' ');
+    const targets = segments.map(segment => readXmlElements(segment.content, 'target')[0]);
+    const target = targets.map(element => readXmlText(element?.content ?? '')).join(' ').trim();
+
+    const states = version === '1.2'
+      ? targets.map(element => readXmlAttribute(element?.attributes ?? '', 'state'))
+      : segments.map(segment => readXmlAttribute(segment.attributes, 'state'));
+    const isApproved = version === '1.2' && readXmlAttribute(unit.attributes, 'approved') === 'yes';
+    const verified = isApproved || states.every(state => !!state && XLIFF_VERIFIED_STATES[version].includes(state));
+
+    return {
+      id: readXmlAttribute(unit.attributes, 'id'),
+      category,
+      fr: source.trim(),
+      translations: target ? { [targetLang]: target } : {},
+      verified: target ? { [targetLang]: verified } : {},
+    };
+  });
+};
+
+/**
+ * Fusionne les phrases de plusieurs langues cibles (un fichier XLIFF par paire de langues)
+ * @private
+ */
+const mergeEntriesById = (entries: PhraseCatalogImportEntry[]): PhraseCatalogImportEntry[] => {
+  const merged = new Map<string, PhraseCatalogImportEntry>();
+  const result: PhraseCatalogImportEntry[] = [];
+  entries.forEach(entry => {
+    const key = `${entry.id ?? ''}|${normalizePhraseText(entry.fr)}`;
+    const existing = merged.get(key);
+    if (existing && !Object.keys(entry.translations).some(lang => lang in existing.translations)) {
+      Object.assign(existing.translations, entry.translations);
+      Object.assign(existing.verified, entry.verified);
+      return;
+    }
+    merged.set(key, entry);
+    result.push(entry);
+  });
+  return result;
+};
+
+/**
+ * Analyse un fichier CSV
+ * @private
+ */
+const parseCsv = (content: string): { entries: PhraseCatalogImportEntry[]; languages: string[]; errors: string[] } => {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  // Les tableurs configurés en français utilisent le point-virgule comme séparateur
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const [header, ...rows] = parseCsvRows(content, delimiter);
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+
+  if (!columns.includes(CSV_COLUMNS.SOURCE)) {
+    return { entries: [], languages: [], errors: [`Colonne "${CSV_COLUMNS.SOURCE}" (texte source) introuvable.`] };
+  }
+
+  const fixedColumns = [CSV_COLUMNS.ID, CSV_COLUMNS.CATEGORY, CSV_COLUMNS.SOURCE, CSV_COLUMNS.VERIFIED];
+  const languages = columns.filter(column => column && !fixedColumns.includes(column) && !column.endsWith(CSV_COLUMNS.VERIFIED_SUFFIX));
+  const readCell = (cells: string[], column: string): string => {
+    const index = columns.indexOf(column);
+    return index >= 0 ? (cells[index] ?? '').trim() : '';
+  };
+  const isTrue = (value: string) => CSV_TRUE_VALUES.includes(value.toLowerCase());
+
+  const entries = rows.map(cells => {
+    const rowVerified = isTrue(readCell(cells, CSV_COLUMNS.VERIFIED));
+    const translations: Record<string, string> = {};
+    const verified: Record<string, boolean> = {};
+    languages.forEach(lang => {
+      const translation = readCell(cells, lang);
+      if (!translation) return;
+      translations[lang] = translation;
+      // Le statut par langue prime sur le statut de la ligne
+      const languageVerified = readCell(cells, `${lang}${CSV_COLUMNS.VERIFIED_SUFFIX}`);
+      verified[lang] = columns.includes(`${lang}${CSV_COLUMNS.VERIFIED_SUFFIX}`) ? isTrue(languageVerified) : rowVerified;
+    });
+
+    return {
+      id: readCell(cells, CSV_COLUMNS.ID) || undefined,
+      category: readCell(cells, CSV_COLUMNS.CATEGORY),
+      fr: readCell(cells, CSV_COLUMNS.SOURCE),
+      translations,
+      verified,
+    };
+  });
+
+  return { entries, languages, errors: [] };
+};
+
+/**
+ * Analyse un fichier XLIFF 1.2 ou 2.0
+ * @private
+ */
+const parseXliff = (content: string): {
+  version: '1.2' | '2.0' | null;
+  entries: PhraseCatalogImportEntry[];
+  languages: string[];
+  errors: string[];
+} => {
+  const root = readXmlElements(content, 'xliff')[0];
+  const declaredVersion = root ? readXmlAttribute(root.attributes, 'version') : undefined;
+  const version = declaredVersion?.startsWith('2') ? '2.0' : declaredVersion === '1.2' ? '1.2' : null;
+  if (!root || !version) {
+    return { version: null, entries: [], languages: [], errors: ['Document XLIFF invalide ou version non prise en charge (1.2 ou 2.0 attendue).'] };
+  }
+
+  const entries: PhraseCatalogImportEntry[] = [];
+  const languages = new Set<string>();
+  const errors: string[] = [];
+
+  readXmlElements(root.content, 'file').forEach(file => {
+    // Les langues sont déclarées sur chaque fichier en 1.2 et sur la racine en 2.0
+    const languageAttributes = version === '1.2' ? file.attributes : root.attributes;
+    const sourceLang = readXmlAttribute(languageAttributes, version === '1.2' ? 'source-language' : 'srcLang') ?? '';
+    const targetLang = (readXmlAttribute(languageAttributes, version === '1.2' ? 'target-language' : 'trgLang') ?? '')
+      .split('-')[0]
+      .toLowerCase();
+
+    if (sourceLang.split('-')[0].toLowerCase() !== 'fr') {
+      errors.push(`Langue source "${sourceLang}" non prise en charge : le catalogue est rédigé en français.`);
+      return;
+    }
+    if (!targetLang) {
+      errors.push('Langue cible non déclarée dans le document XLIFF.');
+      return;
+    }
+    languages.add(targetLang);
+
+    const groups = readXmlElements(file.content, 'group');
+    groups.forEach(group => {
+      const category = readXmlAttribute(group.attributes, 'id') ?? readXmlAttribute(group.attributes, 'resname') ?? '';
+      entries.push(...readXliffUnits(group.content, version, targetLang, category));
+    });
+    // Unités hors groupe (sans catégorie)
+    const ungrouped = groups.reduce((xml, group) => xml.replace(group.content, ''), file.content);
+    entries.push(...readXliffUnits(ungrouped, version, targetLang, ''));
+  });
+
+  return { version, entries: mergeEntriesById(entries), languages: Array.from(languages), errors };
+};
+
+/**
+ * Retrouve la catégorie du catalogue désignée par un identifiant ou un nom
+ * @private
+ */
+const findCategory = (value: string): PhraseCategory | undefined => {
+  const normalized = normalizePhraseText(value);
+  return phraseRepository.getCategories().find(
+    category => category.id === value || normalizePhraseText(category.name) === normalized
+  );
+};
+
+/**
+ * Retrouve la phrase du catalogue correspondant à une phrase importée
+ * @private
+ */
+const findExistingPhrase = (entry: PhraseCatalogImportEntry): Phrase | undefined =>
+  (entry.id ? phraseRepository.getById(entry.id) : undefined) ?? phraseRepository.findByText(entry.fr);
+
+/**
+ * Exporte le catalogue de phrases
+ *
+ * Le CSV contient toutes les langues (une colonne de traduction et une colonne
+ * de vérification par langue). Un document XLIFF est produit par paire de
+ * langues, les catégories étant exportées comme groupes.
+ *
+ * @async
+ * @function exportPhraseCatalog
+ * @param {PhraseCatalogFormat} format - Format d'export
+ * @param {string} [targetLang] - Langue cible (obligatoire pour XLIFF)
+ * @returns {Promise<string>} Le contenu du fichier exporté
+ *
+ * @example
+ * const csv = await exportPhraseCatalog('csv');
+ * const xliff = await exportPhraseCatalog('xliff-2.0', 'ar');
+ */
+export const exportPhraseCatalog = async (format: PhraseCatalogFormat, targetLang?: string): Promise<string> => {
+  await phraseRepository.initialize();
+  const categories = phraseRepository.getCategories();
+  const phrases = phraseRepository.query({});
+
+  if (format === 'csv') {
+    const languages = getKnownLanguageCodes();
+    const translations = await collectTranslations(phrases, languages);
+    const header = [
+      CSV_COLUMNS.ID,
+      CSV_COLUMNS.CATEGORY,
+      CSV_COLUMNS.SOURCE,
+      ...languages.flatMap(lang => [lang, `${lang}${CSV_COLUMNS.VERIFIED_SUFFIX}`]),
+    ];
+    const rows = phrases.map(phrase => {
+      const phraseTranslations = translations.get(phrase.id) ?? {};
+      return [
+        phrase.id,
+        phrase.category,
+        phrase.fr,
+        ...languages.flatMap(lang => {
+          const translation = phraseTranslations[lang];
+          return translation ? [translation.text, translation.verified ? 'oui' : 'non'] : ['', ''];
+        }),
+      ];
+    });
+    // BOM UTF-8 pour que les tableurs détectent l'encodage
+    return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+  }
+
+  if (!targetLang) {
+    throw new Error('A target language is required for XLIFF export');
+  }
+
+  const translations = await collectTranslations(phrases, [targetLang]);
+  const isVersion12 = format === 'xliff-1.2';
+  const renderUnit = (phrase: Phrase, indent: string): string => {
+    const translation = translations.get(phrase.id)?.[targetLang];
+    const source = escapeXml(phrase.fr);
+    const id = escapeXml(phrase.id);
+
+    if (isVersion12) {
+      const target = translation
+        ? `\n${indent}  <target state="${translation.verified ? 'signed-off' : 'needs-review-translation'}">${escapeXml(translation.text)}</target>`
+        : '';
+      return `${indent}<trans-unit id="${id}">\n${indent}  <source>${source}</source>${target}\n${indent}</trans-unit>`;
+    }
+
+    const state = translation ? (translation.verified ? 'final' : 'translated') : 'initial';
+    const target = translation ? `\n${indent}    <target>${escapeXml(translation.text)}</target>` : '';
+    return `${indent}<unit id="${id}">\n${indent}  <segment state="${state}">\n${indent}    <source>${source}</source>${target}\n${indent}  </segment>\n${indent}</unit>`;
+  };
+
+  const groupIndent = isVersion12 ? '      ' : '    ';
+  const groups = categories
+    .map(category => {
+      const units = phrases
+        .filter(phrase => phrase.category === category.id)
+        .map(phrase => renderUnit(phrase, `${groupIndent}  `));
+      if (units.length === 0) return '';
+      const name = escapeXml(category.name);
+      const openTag = isVersion12
+        ? `<group id="${escapeXml(category.id)}" resname="${name}">`
+        : `<group id="${escapeXml(category.id)}" name="${name}">`;
+      return `${groupIndent}${openTag}\n${units.join('\n')}\n${groupIndent}</group>`;
+    })
+    .filter(Boolean)
+    .join('\n');
+
+  if (isVersion12) {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+      `  <file original="speechtotalk-phrases" datatype="plaintext" source-language="fr" target-language="${escapeXml(targetLang)}">`,
+      '    <body>',
+      groups,
+      '    </body>',
+      '  </file>',
+      '</xliff>',
+      '',
+    ].join('\n');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="fr" trgLang="${escapeXml(targetLang)}">`,
+    '  <file id="speechtotalk-phrases">',
+    groups,
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Retourne le nom de fichier proposé pour un export
+ *
+ * @function getPhraseCatalogFileName
+ * @param {PhraseCatalogFormat} format - Format d'export
+ * @param {string} [targetLang] - Langue cible (XLIFF)
+ * @returns {string} Le nom de fichier (ex: 'phrases-fr-en.xlf')
+ */
+export const getPhraseCatalogFileName = (format: PhraseCatalogFormat, targetLang?: string): string =>
+  format === 'csv'
+    ? 'phrases.csv'
+    : `phrases-fr-${targetLang}${format === 'xliff-2.0' ? '.xliff20' : ''}.xlf`;
+
+/**
+ * Analyse et valide un fichier d'import sans modifier le catalogue
+ *
+ * Le format est déduit du contenu (déclaration XLIFF) ou de l'extension du fichier.
+ *
+ * @async
+ * @function validatePhraseCatalogImport
+ * @param {string} content - Contenu du fichier
+ * @param {string} fileName - Nom du fichier
+ * @returns {Promise<PhraseCatalogImportReport>} Le rapport de validation
+ *
+ * @example
+ * const report = await validatePhraseCatalogImport(csvContent, 'phrases.csv');
+ * if (report.errors.length === 0) {
+ *   await applyPhraseCatalogImport(report, 'Import phrases.csv');
+ * }
+ */
+export const validatePhraseCatalogImport = async (
+  content: string,
+  fileName: string
+): Promise<PhraseCatalogImportReport> => {
+  await phraseRepository.initialize();
+  const text = content.replace(/^\uFEFF/, '');
+  const isXliff = /<xliff\b/.test(text) || /\.(xlf|xliff)$/i.test(fileName);
+
+  let format: PhraseCatalogFormat = 'csv';
+  let parsed: { entries: PhraseCatalogImportEntry[]; languages: string[]; errors: string[] };
+  if (isXliff) {
+    const xliff = parseXliff(text);
+    format = xliff.version === '2.0' ? 'xliff-2.0' : 'xliff-1.2';
+    parsed = xliff;
+  } else {
+    parsed = parseCsv(text);
+  }
+
+  const knownLanguages = getKnownLanguageCodes();
+  const languages = parsed.languages.filter(lang => knownLanguages.includes(lang));
+  const unknownLanguages = parsed.languages.filter(lang => !knownLanguages.includes(lang));
+
+  // Retirer les langues inconnues, les lignes vides et les doublons
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  const entries: PhraseCatalogImportEntry[] = [];
+  parsed.entries.forEach(entry => {
+    if (!entry.fr) return;
+    const key = normalizePhraseText(entry.fr);
+    if (seen.has(key)) {
+      duplicates.push(entry.fr);
+      return;
+    }
+    seen.add(key);
+
+    unknownLanguages.forEach(lang => {
+      delete entry.translations[lang];
+      delete entry.verified[lang];
+    });
+    entries.push(entry);
+  });
+
+  const missingTranslations: Record<string, string[]> = {};
+  languages.forEach(lang => {
+    const missing = entries.filter(entry => !entry.translations[lang]).map(entry => entry.fr);
+    if (missing.length > 0) {
+      missingTranslations[lang] = missing;
+    }
+  });
+
+  const unknownCategories = Array.from(new Set(
+    entries
+      .filter(entry => entry.category && !findCategory(entry.category) && !findExistingPhrase(entry))
+      .map(entry => entry.category)
+  ));
+  const newPhraseCount = entries.filter(entry => !findExistingPhrase(entry)).length;
+
+  const errors = [...parsed.errors];
+  if (errors.length === 0 && entries.length === 0) {
+    errors.push('Aucune phrase trouvée dans le fichier.');
+  }
+
+  return {
+    fileName,
+    format,
+    entries,
+    languages,
+    unknownLanguages,
+    duplicates,
+    missingTranslations,
+    unknownCategories,
+    newPhraseCount,
+    updatedPhraseCount: entries.length - newPhraseCount,
+    errors,
+  };
+};
+
+/**
+ * Applique au catalogue un import préalablement validé
+ *
+ * - Phrases inconnues : créées comme phrases personnalisées (catégories manquantes créées)
+ * - Phrases personnalisées existantes : traductions vérifiées fusionnées
+ * - Phrases prédéfinies : traductions vérifiées enregistrées comme vérifications
+ * - Traductions non vérifiées : placées dans le cache, sans remplacer une traduction vérifiée
+ *
+ * @async
+ * @function applyPhraseCatalogImport
+ * @param {PhraseCatalogImportReport} report - Rapport retourné par validatePhraseCatalogImport
+ * @param {string} importedBy - Nom enregistré comme vérificateur des traductions importées
+ * @returns {Promise<PhraseCatalogImportSummary>} Le bilan de l'import
+ * @throws {Error} Si le rapport contient des erreurs bloquantes
+ */
+export const applyPhraseCatalogImport = async (
+  report: PhraseCatalogImportReport,
+  importedBy: string
+): Promise<PhraseCatalogImportSummary> => {
+  if (report.errors.length > 0) {
+    throw new Error('Cannot apply an import report with errors');
+  }
+  await Promise.all([phraseRepository.initialize(), translationVerificationService.initialize()]);
+
+  const summary: PhraseCatalogImportSummary = {
+    addedPhrases: 0,
+    updatedPhrases: 0,
+    createdCategories: 0,
+    verifiedTranslations: 0,
+    machineTranslations: 0,
+  };
+  const machineTranslations: { text: string; translation: string; sourceLang: string; targetLang: string }[] = [];
+
+  // Séquentiel : chaque modification du catalogue est enregistrée avant la suivante
+  for (const entry of report.entries) {
+    const verifiedTranslations: Record<string, string> = {};
+    Object.entries(entry.translations).forEach(([lang, translation]) => {
+      if (entry.verified[lang]) {
+        verifiedTranslations[lang] = translation;
+      }
+    });
+
+    let phrase = findExistingPhrase(entry);
+    if (!phrase) {
+      let category = entry.category ? findCategory(entry.category) : phraseRepository.getCategory('general');
+      if (!category) {
+        category = (await phraseRepository.addCategory(entry.category, CUSTOM_CATEGORY_ICONS[0])) ?? undefined;
+        if (category) summary.createdCategories++;
+      }
+      if (!category) continue;
+
+      phrase = (await phraseRepository.addPhrase({ category: category.id, fr: entry.fr, translations: verifiedTranslations })) ?? undefined;
+      if (!phrase) continue;
+      summary.addedPhrases++;
+      summary.verifiedTranslations += Object.keys(verifiedTranslations).length;
+    } else {
+      const existing = phrase;
+      const changedLanguages = Object.keys(verifiedTranslations).filter(lang => {
+        const current = translationVerificationService.getVerification(existing.fr, 'fr', lang)?.translation ?? existing.translations[lang];
+        return current !== verifiedTranslations[lang];
+      });
+
+      if (changedLanguages.length > 0) {
+        if (existing.isCustom) {
+          await phraseRepository.updatePhrase(existing.id, { translations: { ...existing.translations, ...verifiedTranslations } });
+        } else {
+          for (const lang of changedLanguages) {
+            await translationVerificationService.verify(existing.fr, 'fr', lang, verifiedTranslations[lang], importedBy);
+          }
+        }
+        summary.updatedPhrases++;
+        summary.verifiedTranslations += changedLanguages.length;
+      }
+    }
+
+    const target = phrase;
+    Object.entries(entry.translations).forEach(([lang, translation]) => {
+      const hasVerifiedTranslation = !!translationVerificationService.getVerification(target.fr, 'fr', lang) || !!target.translations[lang];
+      if (!entry.verified[lang] && !hasVerifiedTranslation) {
+        machineTranslations.push({ text: target.fr, translation, sourceLang: 'fr', targetLang: lang });
+      }
+    });
+  }
+
+  if (machineTranslations.length > 0) {
+    await storeTranslationsInCache(machineTranslations, true);
+    summary.machineTranslations = machineTranslations.length;
+  }
+  return summary;
+};
@@ -0,0 +1,815 @@
+/**
+ * @fileoverview Catalogue unique des phrases d'intervention
+ *
+ * Ce module regroupe toutes les phrases prédéfinies de l'application
+ * (phrases d'urgence par catégorie, barre d'accès rapide de l'accueil,
+ * phrasier hors ligne du service de traduction) avec des identifiants
+ * stables, des traductions vérifiées par langue et des tags de recherche.
+ *
+ * Les catégories et phrases ajoutées par l'utilisateur ainsi que les phrases
+ * épinglées sur l'écran d'accueil sont persistées dans AsyncStorage.
+ *
+ * @module services/phraseRepository
+ * @requires @react-native-async-storage/async-storage
+ * @requires ./types
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Phrase, PhraseCategory, PhraseQuery } from './types';
+
+/**
+ * Tag des phrases affichées dans la barre d'accès rapide de l'écran d'accueil
+ * @constant {string}
+ */
+export const QUICK_ACCESS_TAG = 'quick';
+
+/**
+ * Clé de stockage des phrases et catégories personnalisées dans AsyncStorage
+ * @constant {string}
+ * @private
+ */
+const CUSTOM_CATALOG_KEY = 'customPhraseCatalog_v1';
+
+/**
+ * Données personnalisées persistées
+ *
+ * @interface CustomPhraseCatalog
+ * @property {PhraseCategory[]} categories - Catégories créées par l'utilisateur
+ * @property {Phrase[]} phrases - Phrases créées par l'utilisateur
+ * @property {string[]|null} pinnedPhraseIds - Phrases épinglées (null : phrases `QUICK_ACCESS_TAG` par défaut)
+ * @private
+ */
+interface CustomPhraseCatalog {
+  categories: PhraseCategory[];
+  phrases: Phrase[];
+  pinnedPhraseIds: string[] | null;
+}
+
+/**
+ * Champs modifiables d'une phrase personnalisée
+ * @typedef {Object} PhraseInput
+ */
+export type PhraseInput = Pick<Phrase, 'category' | 'fr'> & Partial<Pick<Phrase, 'translations' | 'tags'>>;
+
+/**
+ * Icônes proposées pour les catégories personnalisées
+ * @constant {string[]}
+ */
+export const CUSTOM_CATEGORY_ICONS = [
+  'folder-star',
+  'factory',
+  'flask',
+  'hospital-building',
+  'home-alert',
+  'car-emergency',
+  'water',
+  'flash',
+  'map-marker',
+  'account-group',
+];
+
+/**
+ * Génère un identifiant unique pour un élément personnalisé
+ * @private
+ */
+const generateCustomId = (prefix: string): string =>
+  `${prefix}.${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+
+/**
+ * Catégories intégrées, dans l'ordre d'affichage
+ *
+ * @constant {PhraseCategory[]}
+ * @private
+ */
+const BUILT_IN_CATEGORIES: PhraseCategory[] = [
+  { id: 'medical', name: 'Médical', icon: 'medical-bag' },
+  { id: 'fire', name: 'Incendie', icon: 'fire' },
+  { id: 'reassurance', name: 'Réconfort', icon: 'hand-heart' },
+  { id: 'evacuation', name: 'Évacuation', icon: 'exit-run' },
+  { id: 'general', name: 'Général', icon: 'comment-question' },
+];
+
+/**
+ * Phrases intégrées et leurs traductions vérifiées
+ *
+ * @constant {Phrase[]}
+ * @private
+ */
+const BUILT_IN_PHRASES: Phrase[] = [
+  // Médical
+  {
+    id: 'medical.where-hurts',
+    category: 'medical',
+    fr: 'Où avez-vous mal ?',
+    translations: {
+      en: 'Where does it hurt?',
+      es: '¿Dónde le duele?',
+      de: 'Wo haben Sie Schmerzen?',
+      it: 'Dove le fa male?',
+      ar: 'أين يؤلمك؟',
+      zh: '哪里疼？',
+      ru: 'Где у вас болит?',
+    },
+    tags: ['douleur'],
+    answerType: 'body-map',
+  },
+  {
+    id: 'medical.pain-level',
+    category: 'medical',
+    fr: 'De 0 à 10, à combien évaluez-vous votre douleur ?',
+    translations: {
+      en: 'From 0 to 10, how bad is your pain?',
+      es: 'Del 0 al 10, ¿cuánto le duele?',
+      de: 'Wie stark sind Ihre Schmerzen von 0 bis 10?',
+      it: 'Da 0 a 10, quanto è forte il suo dolore?',
+      ar: 'من 0 إلى 10، ما مدى شدة ألمك؟',
+      zh: '从0到10，您的疼痛有多严重？',
+      ru: 'Насколько сильна ваша боль по шкале от 0 до 10?',
+    },
+    tags: ['douleur'],
+    answerType: 'pain-scale',
+  },
+  {
+    id: 'medical.breathing',
+    category: 'medical',
+    fr: 'Avez-vous des difficultés à respirer ?',
+    translations: {
+      en: 'Do you have trouble breathing?',
+      es: '¿Tiene dificultad para respirar?',
+      de: 'Haben Sie Schwierigkeiten beim Atmen?',
+      it: 'Ha difficoltà a respirare?',
+      ar: 'هل تجد صعوبة في التنفس؟',
+      zh: '您呼吸困难吗？',
+      ru: 'У вас есть проблемы с дыханием?',
+    },
+    tags: ['respiration'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'medical.drug-allergies',
+    category: 'medical',
+    fr: 'Êtes-vous allergique à des médicaments ?',
+    translations: { en: 'Are you allergic to any medications?' },
+    tags: ['allergie', 'médicaments'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'medical.allergies-or-medications',
+    category: 'medical',
+    fr: 'Avez-vous des allergies ou prenez-vous des médicaments ?',
+    translations: { en: 'Do you have any allergies or are you taking any medications?' },
+    tags: ['allergie', 'médicaments'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'medical.current-medications',
+    category: 'medical',
+    fr: 'Prenez-vous des médicaments ?',
+    translations: { en: 'Are you taking any medications?' },
+    tags: ['médicaments'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'medical.history',
+    category: 'medical',
+    fr: 'Avez-vous des antécédents médicaux ?',
+    translations: { en: 'Do you have any medical history?' },
+    tags: ['antécédents'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'medical.pain-duration',
+    category: 'medical',
+    fr: 'Depuis quand ressentez-vous cette douleur ?',
+    translations: { en: 'How long have you been feeling this pain?' },
+    tags: ['douleur'],
+  },
+  {
+    id: 'medical.lost-consciousness',
+    category: 'medical',
+    fr: 'Avez-vous perdu connaissance ?',
+    translations: { en: 'Did you lose consciousness?' },
+    tags: ['conscience'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'medical.call-doctor',
+    category: 'medical',
+    fr: 'Appelez un médecin',
+    translations: { en: 'Call a doctor' },
+    tags: [QUICK_ACCESS_TAG],
+  },
+  {
+    id: 'medical.where-hospital',
+    category: 'medical',
+    fr: 'Où est l\'hôpital ?',
+    translations: { en: 'Where is the hospital?' },
+    tags: [QUICK_ACCESS_TAG, 'hôpital'],
+  },
+  {
+    id: 'medical.feeling-unwell',
+    category: 'medical',
+    fr: 'Je ne me sens pas bien',
+    translations: { en: 'I don\'t feel well' },
+    tags: [QUICK_ACCESS_TAG],
+  },
+
+  // Incendie
+  {
+    id: 'fire.people-inside',
+    category: 'fire',
+    fr: 'Y a-t-il d\'autres personnes à l\'intérieur ?',
+    translations: { en: 'Are there other people inside?' },
+    tags: ['victimes'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'fire.how-many-inside',
+    category: 'fire',
+    fr: 'Combien de personnes sont à l\'intérieur ?',
+    translations: { en: 'How many people are inside?' },
+    tags: ['victimes'],
+    answerType: 'number',
+  },
+  {
+    id: 'fire.where-are-they',
+    category: 'fire',
+    fr: 'Où se trouvent-elles ?',
+    translations: { en: 'Where are they?' },
+    tags: ['victimes'],
+  },
+  {
+    id: 'fire.hazardous-materials',
+    category: 'fire',
+    fr: 'Y a-t-il des produits dangereux à l\'intérieur ?',
+    translations: { en: 'Are there any hazardous materials inside?' },
+    tags: ['danger'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'fire.fire-duration',
+    category: 'fire',
+    fr: 'Depuis combien de temps l\'incendie a-t-il commencé ?',
+    translations: { en: 'How long has the fire been burning?' },
+    tags: [],
+  },
+
+  // Réconfort
+  {
+    id: 'reassurance.here-to-help',
+    category: 'reassurance',
+    fr: 'Nous sommes là pour vous aider.',
+    translations: { en: 'We are here to help you.' },
+    tags: [],
+  },
+  {
+    id: 'reassurance.stay-calm',
+    category: 'reassurance',
+    fr: 'Restez calme, les secours sont là.',
+    translations: { en: 'Stay calm, help is here.' },
+    tags: [],
+  },
+  {
+    id: 'reassurance.everything-fine',
+    category: 'reassurance',
+    fr: 'Tout va bien se passer.',
+    translations: { en: 'Everything will be fine.' },
+    tags: [],
+  },
+  {
+    id: 'reassurance.take-care',
+    category: 'reassurance',
+    fr: 'Nous allons prendre soin de vous.',
+    translations: { en: 'We will take care of you.' },
+    tags: [],
+  },
+  {
+    id: 'reassurance.help-on-way',
+    category: 'reassurance',
+    fr: 'Les secours sont en route.',
+    translations: { en: 'Help is on the way.' },
+    tags: [],
+  },
+
+  // Évacuation
+  {
+    id: 'evacuation.evacuate-building',
+    category: 'evacuation',
+    fr: 'Nous devons évacuer le bâtiment.',
+    translations: { en: 'We need to evacuate the building.' },
+    tags: [],
+  },
+  {
+    id: 'evacuation.follow-me',
+    category: 'evacuation',
+    fr: 'Suivez-moi, s\'il vous plaît.',
+    translations: { en: 'Please follow me.' },
+    tags: [],
+  },
+  {
+    id: 'evacuation.no-elevator',
+    category: 'evacuation',
+    fr: 'Ne prenez pas l\'ascenseur.',
+    translations: { en: 'Do not use the elevator.' },
+    tags: ['ascenseur'],
+  },
+  {
+    id: 'evacuation.use-stairs',
+    category: 'evacuation',
+    fr: 'Utilisez les escaliers.',
+    translations: { en: 'Use the stairs.' },
+    tags: ['escaliers'],
+  },
+  {
+    id: 'evacuation.stay-low',
+    category: 'evacuation',
+    fr: 'Restez baissé pour éviter la fumée.',
+    translations: { en: 'Stay low to avoid the smoke.' },
+    tags: ['fumée'],
+  },
+
+  // Général
+  {
+    id: 'general.name',
+    category: 'general',
+    fr: 'Comment vous appelez-vous ?',
+    translations: { en: 'What is your name?' },
+    tags: ['identité'],
+  },
+  {
+    id: 'general.understand',
+    category: 'general',
+    fr: 'Comprenez-vous ce que je dis ?',
+    translations: { en: 'Do you understand what I\'m saying?' },
+    tags: ['communication'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'general.speak-slowly',
+    category: 'general',
+    fr: 'Pouvez-vous parler plus lentement ?',
+    translations: { en: 'Can you speak more slowly?' },
+    tags: ['communication'],
+  },
+  {
+    id: 'general.interpreter',
+    category: 'general',
+    fr: 'Avez-vous besoin d\'un interprète ?',
+    translations: { en: 'Do you need an interpreter?' },
+    tags: ['communication'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'general.phone',
+    category: 'general',
+    fr: 'Avez-vous un téléphone ?',
+    translations: { en: 'Do you have a phone?' },
+    tags: ['téléphone'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'general.call-french-speaker',
+    category: 'general',
+    fr: 'Pouvez-vous appeler quelqu\'un qui parle français ?',
+    translations: { en: 'Can you call someone who speaks French?' },
+    tags: ['communication', 'téléphone'],
+    answerType: 'yes-no',
+  },
+  {
+    id: 'general.need-help',
+    category: 'general',
+    fr: 'J\'ai besoin d\'aide',
+    translations: { en: 'I need help' },
+    tags: [QUICK_ACCESS_TAG],
+  },
+  {
+    id: 'general.help',
+    category: 'general',
+    fr: 'Au secours !',
+    translations: { en: 'Help!' },
+    tags: [QUICK_ACCESS_TAG],
+  },
+];
+
+/**
+ * Normalise un texte pour les comparaisons (casse, accents, espaces)
+ *
+ * @function normalizePhraseText
+ * @param {string} text - Texte à normaliser
+ * @returns {string} Le texte normalisé
+ *
+ * @example
+ * normalizePhraseText('  Où avez-vous MAL ?') // "ou avez-vous mal ?"
+ */
+export const normalizePhraseText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+
+/**
+ * Catalogue des phrases d'intervention
+ *
+ * Point d'accès unique aux phrases prédéfinies pour les écrans (accueil,
+ * phrases d'urgence) et pour le phrasier hors ligne du service de traduction.
+ *
+ * @class PhraseRepository
+ * @example
+ * // Phrases médicales traduites en espagnol
+ * const phrases = phraseRepository.query({ category: 'medical', language: 'es' });
+ *
+ * // Recherche plein texte (sans accents ni casse)
+ * const results = phraseRepository.query({ search: 'fumee' });
+ */
+class PhraseRepository {
+  private categories: PhraseCategory[] = BUILT_IN_CATEGORIES;
+  private phrases: Phrase[] = BUILT_IN_PHRASES;
+  private phrasesByText = new Map<string, Phrase>();
+  private custom: CustomPhraseCatalog = { categories: [], phrases: [], pinnedPhraseIds: null };
+  private listeners = new Set<() => void>();
+  private loadingPromise: Promise<void> | null = null;
+
+  constructor() {
+    this.rebuildTextIndex();
+  }
+
+  /**
+   * Charge les catégories, phrases et épingles personnalisées depuis AsyncStorage
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.loadCustomCatalog();
+    }
+    return this.loadingPromise;
+  }
+
+  /**
+   * Abonne une fonction aux modifications du catalogue
+   *
+   * @param {Function} listener - Fonction appelée après chaque modification
+   * @returns {Function} Fonction de désabonnement
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Retourne les catégories dans l'ordre d'affichage
+   *
+   * @returns {PhraseCategory[]} Les catégories
+   */
+  getCategories(): PhraseCategory[] {
+    return [...this.categories];
+  }
+
+  /**
+   * Retourne une catégorie par son identifiant
+   *
+   * @param {string} id - Identifiant de la catégorie
+   * @returns {PhraseCategory|undefined} La catégorie ou undefined si inconnue
+   */
+  getCategory(id: string): PhraseCategory | undefined {
+    return this.categories.find(category => category.id === id);
+  }
+
+  /**
+   * Retourne une phrase par son identifiant
+   *
+   * @param {string} id - Identifiant de la phrase
+   * @returns {Phrase|undefined} La phrase ou undefined si inconnue
+   */
+  getById(id: string): Phrase | undefined {
+    return this.phrases.find(phrase => phrase.id === id);
+  }
+
+  /**
+   * Retourne la phrase dont le texte français correspond au texte donné
+   *
+   * La comparaison ignore la casse, les accents et les espaces superflus.
+   *
+   * @param {string} text - Texte français
+   * @returns {Phrase|undefined} La phrase ou undefined si le texte n'est pas au catalogue
+   */
+  findByText(text: string): Phrase | undefined {
+    return this.phrasesByText.get(normalizePhraseText(text));
+  }
+
+  /**
+   * Cherche les phrases correspondant à tous les critères donnés
+   *
+   * @param {PhraseQuery} [query={}] - Critères de recherche
+   * @returns {Phrase[]} Les phrases correspondantes, dans l'ordre du catalogue
+   */
+  query(query: PhraseQuery = {}): Phrase[] {
+    const { category, search, tags, language, coverage = 'translated' } = query;
+    const normalizedSearch = search ? normalizePhraseText(search) : '';
+
+    return this.phrases.filter(phrase => {
+      if (category && phrase.category !== category) {
+        return false;
+      }
+      if (tags && !tags.every(tag => phrase.tags.includes(tag))) {
+        return false;
+      }
+      if (language) {
+        const isTranslated = language === 'fr' || !!phrase.translations[language];
+        if (isTranslated !== (coverage === 'translated')) {
+          return false;
+        }
+      }
+      if (normalizedSearch) {
+        const haystack = [phrase.fr, ...Object.values(phrase.translations), ...phrase.tags];
+        return haystack.some(value => normalizePhraseText(value).includes(normalizedSearch));
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Retourne la traduction vérifiée d'un texte français
+   *
+   * @param {string} text - Texte français
+   * @param {string} targetLang - Code de la langue cible
+   * @returns {string|null} La traduction ou null si elle n'existe pas au catalogue
+   */
+  getTranslation(text: string, targetLang: string): string | null {
+    return this.findByText(text)?.translations[targetLang] || null;
+  }
+
+  /**
+   * Calcule la couverture de traduction du catalogue pour une langue
+   *
+   * @param {string} language - Code de la langue
+   * @returns {{translated: number, total: number}} Nombre de phrases traduites et total
+   */
+  getLanguageCoverage(language: string): { translated: number; total: number } {
+    return {
+      translated: this.query({ language }).length,
+      total: this.phrases.length,
+    };
+  }
+
+  /**
+   * Retourne les phrases épinglées dans la barre d'accès rapide de l'accueil
+   *
+   * @returns {Phrase[]} Les phrases épinglées, dans l'ordre d'épinglage
+   */
+  getPinnedPhrases(): Phrase[] {
+    const pinnedIds = this.custom.pinnedPhraseIds;
+    if (!pinnedIds) {
+      return this.query({ tags: [QUICK_ACCESS_TAG] });
+    }
+    return pinnedIds
+      .map(id => this.getById(id))
+      .filter((phrase): phrase is Phrase => !!phrase);
+  }
+
+  /**
+   * Indique si une phrase est épinglée sur l'écran d'accueil
+   *
+   * @param {string} id - Identifiant de la phrase
+   * @returns {boolean} true si la phrase est épinglée
+   */
+  isPinned(id: string): boolean {
+    return this.getPinnedPhrases().some(phrase => phrase.id === id);
+  }
+
+  /**
+   * Épingle ou désépingle une phrase sur l'écran d'accueil
+   *
+   * @async
+   * @param {string} id - Identifiant de la phrase
+   * @param {boolean} pinned - true pour épingler, false pour désépingler
+   * @returns {Promise<boolean>} true si la modification a été enregistrée
+   */
+  async setPinned(id: string, pinned: boolean): Promise<boolean> {
+    await this.initialize();
+    if (!this.getById(id)) {
+      return false;
+    }
+
+    const pinnedIds = this.getPinnedPhrases().map(phrase => phrase.id).filter(pinnedId => pinnedId !== id);
+    this.custom.pinnedPhraseIds = pinned ? [...pinnedIds, id] : pinnedIds;
+    return this.saveCustomCatalog();
+  }
+
+  /**
+   * Crée une catégorie personnalisée
+   *
+   * @async
+   * @param {string} name - Nom de la catégorie
+   * @param {string} icon - Nom de l'icône MaterialCommunityIcons
+   * @returns {Promise<PhraseCategory|null>} La catégorie créée ou null en cas d'échec
+   */
+  async addCategory(name: string, icon: string): Promise<PhraseCategory | null> {
+    await this.initialize();
+    if (!name.trim()) {
+      return null;
+    }
+
+    const category: PhraseCategory = { id: generateCustomId('category'), name: name.trim(), icon, isCustom: true };
+    this.custom.categories = [...this.custom.categories, category];
+    return (await this.saveCustomCatalog()) ? category : null;
+  }
+
+  /**
+   * Modifie une catégorie personnalisée
+   *
+   * @async
+   * @param {string} id - Identifiant de la catégorie
+   * @param {Partial<Pick<PhraseCategory, 'name'|'icon'>>} changes - Champs à modifier
+   * @returns {Promise<boolean>} true si la modification a été enregistrée
+   */
+  async updateCategory(id: string, changes: Partial<Pick<PhraseCategory, 'name' | 'icon'>>): Promise<boolean> {
+    await this.initialize();
+    const existing = this.custom.categories.find(category => category.id === id);
+    if (!existing || (changes.name !== undefined && !changes.name.trim())) {
+      return false;
+    }
+
+    const updated = { ...existing, ...changes, name: (changes.name ?? existing.name).trim() };
+    this.custom.categories = this.custom.categories.map(category => (category.id === id ? updated : category));
+    return this.saveCustomCatalog();
+  }
+
+  /**
+   * Supprime une catégorie personnalisée et ses phrases
+   *
+   * @async
+   * @param {string} id - Identifiant de la catégorie
+   * @returns {Promise<boolean>} true si la suppression a été enregistrée
+   */
+  async deleteCategory(id: string): Promise<boolean> {
+    await this.initialize();
+    if (!this.custom.categories.some(category => category.id === id)) {
+      return false;
+    }
+
+    const removedIds = this.custom.phrases.filter(phrase => phrase.category === id).map(phrase => phrase.id);
+    this.custom.categories = this.custom.categories.filter(category => category.id !== id);
+    this.custom.phrases = this.custom.phrases.filter(phrase => phrase.category !== id);
+    this.unpinRemoved(removedIds);
+    return this.saveCustomCatalog();
+  }
+
+  /**
+   * Crée une phrase personnalisée
+   *
+   * @async
+   * @param {PhraseInput} input - Catégorie, texte français, traductions et tags
+   * @returns {Promise<Phrase|null>} La phrase créée ou null en cas d'échec
+   */
+  async addPhrase(input: PhraseInput): Promise<Phrase | null> {
+    await this.initialize();
+    if (!input.fr.trim() || !this.getCategory(input.category)) {
+      return null;
+    }
+
+    const phrase: Phrase = {
+      id: generateCustomId('custom'),
+      category: input.category,
+      fr: input.fr.trim(),
+      translations: input.translations ?? {},
+      tags: input.tags ?? [],
+      isCustom: true,
+    };
+    this.custom.phrases = [...this.custom.phrases, phrase];
+    return (await this.saveCustomCatalog()) ? phrase : null;
+  }
+
+  /**
+   * Modifie une phrase personnalisée
+   *
+   * @async
+   * @param {string} id - Identifiant de la phrase
+   * @param {Partial<PhraseInput>} changes - Champs à modifier
+   * @returns {Promise<boolean>} true si la modification a été enregistrée
+   */
+  async updatePhrase(id: string, changes: Partial<PhraseInput>): Promise<boolean> {
+    await this.initialize();
+    const existing = this.custom.phrases.find(phrase => phrase.id === id);
+    if (
+      !existing ||
+      (changes.fr !== undefined && !changes.fr.trim()) ||
+      (changes.category !== undefined && !this.getCategory(changes.category))
+    ) {
+      return false;
+    }
+
+    const updated: Phrase = { ...existing, ...changes, fr: (changes.fr ?? existing.fr).trim() };
+    this.custom.phrases = this.custom.phrases.map(phrase => (phrase.id === id ? updated : phrase));
+    return this.saveCustomCatalog();
+  }
+
+  /**
+   * Supprime une phrase personnalisée
+   *
+   * @async
+   * @param {string} id - Identifiant de la phrase
+   * @returns {Promise<boolean>} true si la suppression a été enregistrée
+   */
+  async deletePhrase(id: string): Promise<boolean> {
+    await this.initialize();
+    if (!this.custom.phrases.some(phrase => phrase.id === id)) {
+      return false;
+    }
+
+    this.custom.phrases = this.custom.phrases.filter(phrase => phrase.id !== id);
+    this.unpinRemoved([id]);
+    return this.saveCustomCatalog();
+  }
+
+  /**
+   * Retourne les langues pour lesquelles au moins une phrase est traduite
+   *
+   * @returns {string[]} Les codes de langue, français inclus
+   */
+  getLanguages(): string[] {
+    const languages = new Set<string>(['fr']);
+    this.phrases.forEach(phrase => {
+      Object.keys(phrase.translations).forEach(lang => languages.add(lang));
+    });
+    return Array.from(languages);
+  }
+
+  /**
+   * Charge les données personnalisées depuis AsyncStorage
+   * @private
+   */
+  private async loadCustomCatalog(): Promise<void> {
+    try {
+      const catalogJson = await AsyncStorage.getItem(CUSTOM_CATALOG_KEY);
+      if (catalogJson) {
+        this.custom = { ...this.custom, ...JSON.parse(catalogJson) };
+        this.rebuild();
+      }
+    } catch (error) {
+      console.error('Error loading custom phrases:', error);
+    }
+  }
+
+  /**
+   * Enregistre les données personnalisées et notifie les abonnés
+   * @private
+   */
+  private async saveCustomCatalog(): Promise<boolean> {
+    this.rebuild();
+    try {
+      await AsyncStorage.setItem(CUSTOM_CATALOG_KEY, JSON.stringify(this.custom));
+      return true;
+    } catch (error) {
+      console.error('Error saving custom phrases:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Retire des épingles les phrases supprimées
+   * @private
+   */
+  private unpinRemoved(removedIds: string[]): void {
+    if (this.custom.pinnedPhraseIds) {
+      this.custom.pinnedPhraseIds = this.custom.pinnedPhraseIds.filter(id => !removedIds.includes(id));
+    }
+  }
+
+  /**
+   * Fusionne le catalogue intégré et les données personnalisées puis notifie les abonnés
+   * @private
+   */
+  private rebuild(): void {
+    this.categories = [...BUILT_IN_CATEGORIES, ...this.custom.categories];
+    this.phrases = [...BUILT_IN_PHRASES, ...this.custom.phrases];
+    this.rebuildTextIndex();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Reconstruit l'index de recherche par texte français
+   * @private
+   */
+  private rebuildTextIndex(): void {
+    this.phrasesByText = new Map(
+      this.phrases.map(phrase => [normalizePhraseText(phrase.fr), phrase])
+    );
+  }
+}
+
+/**
+ * Instance singleton du catalogue de phrases
+ * @constant {PhraseRepository}
+ */
+export const phraseRepository = new PhraseRepository();
+
+// Chargement automatique des données personnalisées au chargement du module
+phraseRepository.initialize().catch(error => {
+  console.error('Error initializing phrase repository:', error);
+});
@@ -0,0 +1,462 @@
+/**
+ * @fileoverview Service de gestion des packs de phrases hors ligne
+ *
+ * Ce service télécharge, vérifie et installe des packs de phrases traduites
+ * par paire de langues afin que les phrases d'intervention restent disponibles
+ * sans connexion (sous-sols, parkings, zones blanches). Les packs sont stockés
+ * dans le dossier documents de l'application via expo-file-system, et leurs
+ * métadonnées dans AsyncStorage.
+ *
+ * @module services/phrasebookPackService
+ * @requires @react-native-async-storage/async-storage
+ * @requires expo-file-system
+ * @requires ../config
+ * @requires ./types
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { PHRASEBOOK_PACKS_BASE_URL } from '../config';
+import {
+  InstalledPhrasebookPack,
+  PhrasebookCategory,
+  PhrasebookPack,
+  PhrasebookPackManifest,
+  PhrasebookPackManifestEntry
+} from './types';
+
+/**
+ * Configuration des packs de phrases
+ *
+ * @constant {Object} PACK_CONFIG
+ * @property {number} FORMAT_VERSION - Version du format de pack supportée
+ * @property {string} DIRECTORY - Dossier de stockage des packs
+ * @property {string} INDEX_KEY - Clé AsyncStorage de l'index des packs installés
+ * @property {string} DOWNLOADED_LANGUAGES_KEY - Clé AsyncStorage des langues disponibles hors ligne
+ * @private
+ */
+const PACK_CONFIG = {
+  FORMAT_VERSION: 1,
+  DIRECTORY: `${FileSystem.documentDirectory}phrasebooks/`,
+  INDEX_KEY: 'installedPhrasebookPacks',
+  DOWNLOADED_LANGUAGES_KEY: 'downloadedLanguages',
+};
+
+/**
+ * Catégories attendues dans chaque pack
+ * @constant {PhrasebookCategory[]}
+ */
+export const PHRASEBOOK_CATEGORIES: PhrasebookCategory[] = ['medical', 'fire', 'reassurance', 'evacuation', 'general'];
+
+/**
+ * Calcule l'empreinte du contenu d'un pack
+ *
+ * Utilise l'algorithme FNV-1a 32 bits sur les catégories sérialisées en JSON.
+ * Il s'agit d'un contrôle d'intégrité (fichier tronqué ou corrompu),
+ * pas d'une signature cryptographique.
+ *
+ * @function computePhrasebookChecksum
+ * @param {PhrasebookPack['categories']} categories - Les catégories du pack
+ * @returns {string} L'empreinte sur 8 caractères hexadécimaux
+ *
+ * @example
+ * const isValid = computePhrasebookChecksum(pack.categories) === pack.checksum;
+ */
+export const computePhrasebookChecksum = (categories: PhrasebookPack['categories']): string => {
+  const content = JSON.stringify(categories);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+/**
+ * Normalise un texte pour la recherche dans les packs
+ * @private
+ */
+const normalizePhrase = (text: string): string =>
+  text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Construit la clé d'une paire de langues
+ * @private
+ */
+const getPairKey = (sourceLang: string, targetLang: string): string => `${sourceLang}-${targetLang}`;
+
+/**
+ * Vérifie la structure et l'empreinte d'un pack
+ *
+ * @function validatePack
+ * @param {unknown} data - Contenu JSON du pack
+ * @param {string} sourceLang - Langue source attendue
+ * @param {string} targetLang - Langue cible attendue
+ * @returns {data is PhrasebookPack} true si le pack est valide
+ * @private
+ */
+const validatePack = (data: unknown, sourceLang: string, targetLang: string): data is PhrasebookPack => {
+  const pack = data as PhrasebookPack;
+  if (!pack || typeof pack !== 'object' || !pack.categories) {
+    console.error('Invalid phrasebook pack: missing categories');
+    return false;
+  }
+  if (pack.formatVersion !== PACK_CONFIG.FORMAT_VERSION) {
+    console.error(`Unsupported phrasebook pack format: ${pack.formatVersion}`);
+    return false;
+  }
+  if (pack.sourceLang !== sourceLang || pack.targetLang !== targetLang) {
+    console.error(`Phrasebook pack language mismatch: ${pack.sourceLang}-${pack.targetLang}`);
+    return false;
+  }
+  if (!PHRASEBOOK_CATEGORIES.every(category => Array.isArray(pack.categories[category]))) {
+    console.error('Invalid phrasebook pack: incomplete categories');
+    return false;
+  }
+  if (computePhrasebookChecksum(pack.categories) !== pack.checksum) {
+    console.error('Invalid phrasebook pack: checksum mismatch');
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Compte le nombre de phrases d'un pack
+ * @private
+ */
+const countPhrases = (pack: PhrasebookPack): number =>
+  PHRASEBOOK_CATEGORIES.reduce((total, category) => total + pack.categories[category].length, 0);
+
+/**
+ * Service singleton de gestion des packs de phrases hors ligne
+ *
+ * Les packs installés sont chargés en mémoire sous forme d'index
+ * (texte source normalisé → traduction) pour des recherches instantanées.
+ *
+ * @class PhrasebookPackService
+ * @example
+ * // Installer le pack français → espagnol
+ * await phrasebookPackService.installPack('fr', 'es');
+ *
+ * // Chercher une traduction hors ligne
+ * const translation = await phrasebookPackService.lookup('Où avez-vous mal ?', 'fr', 'es');
+ */
+class PhrasebookPackService {
+  private installedPacks: InstalledPhrasebookPack[] = [];
+  private phraseIndexes = new Map<string, Map<string, string>>();
+  private loadingPromise: Promise<void> | null = null;
+
+  /**
+   * Charge l'index des packs installés et leur contenu en mémoire
+   *
+   * Les packs illisibles ou corrompus sont ignorés et retirés de l'index.
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.loadInstalledPacks();
+    }
+    return this.loadingPromise;
+  }
+
+  /**
+   * Retourne les métadonnées des packs installés
+   *
+   * @async
+   * @returns {Promise<InstalledPhrasebookPack[]>} Les packs installés
+   */
+  async getInstalledPacks(): Promise<InstalledPhrasebookPack[]> {
+    await this.initialize();
+    return [...this.installedPacks];
+  }
+
+  /**
+   * Retourne la taille totale occupée par les packs installés
+   *
+   * @async
+   * @returns {Promise<number>} La taille en octets
+   */
+  async getTotalSize(): Promise<number> {
+    await this.initialize();
+    return this.installedPacks.reduce((total, pack) => total + pack.sizeBytes, 0);
+  }
+
+  /**
+   * Indique si un pack est installé pour une paire de langues
+   *
+   * @async
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @returns {Promise<boolean>} true si le pack est installé
+   */
+  async isInstalled(sourceLang: string, targetLang: string): Promise<boolean> {
+    await this.initialize();
+    return this.phraseIndexes.has(getPairKey(sourceLang, targetLang));
+  }
+
+  /**
+   * Cherche la traduction d'un texte dans les packs installés
+   *
+   * @async
+   * @param {string} text - Texte à traduire
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @returns {Promise<string|null>} La traduction ou null si le texte n'est dans aucun pack
+   */
+  async lookup(text: string, sourceLang: string, targetLang: string): Promise<string | null> {
+    await this.initialize();
+    const index = this.phraseIndexes.get(getPairKey(sourceLang, targetLang));
+    return index?.get(normalizePhrase(text)) ?? null;
+  }
+
+  /**
+   * Récupère le manifeste des packs disponibles au téléchargement
+   *
+   * @async
+   * @returns {Promise<PhrasebookPackManifest|null>} Le manifeste ou null en cas d'erreur
+   */
+  async fetchManifest(): Promise<PhrasebookPackManifest | null> {
+    if (!PHRASEBOOK_PACKS_BASE_URL) {
+      console.error('No phrasebook pack source configured (EXPO_PUBLIC_PHRASEBOOK_PACKS_URL)');
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${PHRASEBOOK_PACKS_BASE_URL}/manifest.json`);
+      if (!response.ok) {
+        console.error(`Phrasebook manifest request failed: ${response.status}`);
+        return null;
+      }
+
+      const manifest = await response.json() as PhrasebookPackManifest;
+      if (manifest.formatVersion !== PACK_CONFIG.FORMAT_VERSION || !Array.isArray(manifest.packs)) {
+        console.error(`Unsupported phrasebook manifest format: ${manifest.formatVersion}`);
+        return null;
+      }
+      return manifest;
+    } catch (error) {
+      console.error('Error fetching phrasebook manifest:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Télécharge, vérifie et installe le pack d'une paire de langues
+   *
+   * Le pack est d'abord téléchargé dans un fichier temporaire ; il ne remplace
+   * le pack installé qu'une fois son empreinte vérifiée.
+   *
+   * @async
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @returns {Promise<InstalledPhrasebookPack|null>} Le pack installé ou null en cas d'échec
+   */
+  async installPack(sourceLang: string, targetLang: string): Promise<InstalledPhrasebookPack | null> {
+    await this.initialize();
+
+    const manifest = await this.fetchManifest();
+    const entry = manifest?.packs.find(
+      pack => pack.sourceLang === sourceLang && pack.targetLang === targetLang
+    );
+    if (!entry) {
+      console.error(`No phrasebook pack available for ${getPairKey(sourceLang, targetLang)}`);
+      return null;
+    }
+
+    return this.downloadPack(entry);
+  }
+
+  /**
+   * Met à jour le pack d'une paire de langues si une version plus récente est publiée
+   *
+   * @async
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @returns {Promise<boolean>} true si une nouvelle version a été installée
+   */
+  async updatePack(sourceLang: string, targetLang: string): Promise<boolean> {
+    await this.initialize();
+
+    const installed = this.findInstalledPack(sourceLang, targetLang);
+    const manifest = await this.fetchManifest();
+    const entry = manifest?.packs.find(
+      pack => pack.sourceLang === sourceLang && pack.targetLang === targetLang
+    );
+
+    if (!entry || (installed && entry.version <= installed.version)) {
+      return false;
+    }
+    return (await this.downloadPack(entry)) !== null;
+  }
+
+  /**
+   * Supprime le pack d'une paire de langues
+   *
+   * @async
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @returns {Promise<boolean>} true si la suppression a réussi
+   */
+  async uninstallPack(sourceLang: string, targetLang: string): Promise<boolean> {
+    await this.initialize();
+
+    try {
+      await FileSystem.deleteAsync(this.getPackPath(sourceLang, targetLang), { idempotent: true });
+
+      const pairKey = getPairKey(sourceLang, targetLang);
+      this.phraseIndexes.delete(pairKey);
+      this.installedPacks = this.installedPacks.filter(
+        pack => getPairKey(pack.sourceLang, pack.targetLang) !== pairKey
+      );
+      await this.saveIndex();
+      return true;
+    } catch (error) {
+      console.error(`Error uninstalling phrasebook pack ${getPairKey(sourceLang, targetLang)}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Télécharge et installe un pack décrit dans le manifeste
+   * @private
+   */
+  private async downloadPack(entry: PhrasebookPackManifestEntry): Promise<InstalledPhrasebookPack | null> {
+    const { sourceLang, targetLang } = entry;
+    const packPath = this.getPackPath(sourceLang, targetLang);
+    const tempPath = `${packPath}.download`;
+
+    try {
+      await FileSystem.makeDirectoryAsync(PACK_CONFIG.DIRECTORY, { intermediates: true });
+
+      const download = await FileSystem.downloadAsync(`${PHRASEBOOK_PACKS_BASE_URL}/${entry.file}`, tempPath);
+      if (download.status !== 200) {
+        console.error(`Phrasebook pack download failed: ${download.status}`);
+        return null;
+      }
+
+      const pack = JSON.parse(await FileSystem.readAsStringAsync(tempPath));
+      if (!validatePack(pack, sourceLang, targetLang) || pack.checksum !== entry.checksum) {
+        console.error(`Rejected phrasebook pack ${getPairKey(sourceLang, targetLang)}`);
+        return null;
+      }
+
+      // Remplacer le pack installé seulement après vérification
+      await FileSystem.deleteAsync(packPath, { idempotent: true });
+      await FileSystem.moveAsync({ from: tempPath, to: packPath });
+
+      const fileInfo = await FileSystem.getInfoAsync(packPath);
+      const installed: InstalledPhrasebookPack = {
+        sourceLang,
+        targetLang,
+        version: pack.version,
+        checksum: pack.checksum,
+        sizeBytes: fileInfo.exists ? fileInfo.size : 0,
+        phraseCount: countPhrases(pack),
+        installedAt: Date.now()
+      };
+
+      const pairKey = getPairKey(sourceLang, targetLang);
+      this.phraseIndexes.set(pairKey, this.buildIndex(pack));
+      this.installedPacks = [
+        ...this.installedPacks.filter(item => getPairKey(item.sourceLang, item.targetLang) !== pairKey),
+        installed
+      ];
+      await this.saveIndex();
+
+      console.log(`Phrasebook pack ${pairKey} v${pack.version} installed`);
+      return installed;
+    } catch (error) {
+      console.error(`Error installing phrasebook pack ${getPairKey(sourceLang, targetLang)}:`, error);
+      return null;
+    } finally {
+      await FileSystem.deleteAsync(tempPath, { idempotent: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Charge les packs listés dans l'index et reconstruit les index de recherche
+   * @private
+   */
+  private async loadInstalledPacks(): Promise<void> {
+    try {
+      const indexJson = await AsyncStorage.getItem(PACK_CONFIG.INDEX_KEY);
+      const storedPacks: InstalledPhrasebookPack[] = indexJson ? JSON.parse(indexJson) : [];
+      const loadedPacks: InstalledPhrasebookPack[] = [];
+
+      for (const installed of storedPacks) {
+        const { sourceLang, targetLang } = installed;
+        try {
+          const content = await FileSystem.readAsStringAsync(this.getPackPath(sourceLang, targetLang));
+          const pack = JSON.parse(content);
+          if (validatePack(pack, sourceLang, targetLang)) {
+            this.phraseIndexes.set(getPairKey(sourceLang, targetLang), this.buildIndex(pack));
+            loadedPacks.push(installed);
+          }
+        } catch (error) {
+          console.error(`Error loading phrasebook pack ${getPairKey(sourceLang, targetLang)}:`, error);
+        }
+      }
+
+      this.installedPacks = loadedPacks;
+      if (loadedPacks.length !== storedPacks.length) {
+        await this.saveIndex();
+      }
+    } catch (error) {
+      console.error('Error loading phrasebook pack index:', error);
+    }
+  }
+
+  /**
+   * Enregistre l'index des packs et la liste des langues disponibles hors ligne
+   * @private
+   */
+  private async saveIndex(): Promise<void> {
+    await AsyncStorage.setItem(PACK_CONFIG.INDEX_KEY, JSON.stringify(this.installedPacks));
+
+    // Les écrans lisent cette liste pour savoir quelles langues cibles fonctionnent hors ligne
+    const offlineLanguages = this.installedPacks
+      .filter(pack => pack.sourceLang === 'fr')
+      .map(pack => pack.targetLang);
+    await AsyncStorage.setItem(PACK_CONFIG.DOWNLOADED_LANGUAGES_KEY, JSON.stringify(offlineLanguages));
+  }
+
+  /**
+   * Construit l'index de recherche d'un pack
+   * @private
+   */
+  private buildIndex(pack: PhrasebookPack): Map<string, string> {
+    const index = new Map<string, string>();
+    PHRASEBOOK_CATEGORIES.forEach(category => {
+      pack.categories[category].forEach(phrase => {
+        index.set(normalizePhrase(phrase.source), phrase.translation);
+      });
+    });
+    return index;
+  }
+
+  /**
+   * Retourne les métadonnées d'un pack installé
+   * @private
+   */
+  private findInstalledPack(sourceLang: string, targetLang: string): InstalledPhrasebookPack | undefined {
+    return this.installedPacks.find(
+      pack => pack.sourceLang === sourceLang && pack.targetLang === targetLang
+    );
+  }
+
+  /**
+   * Retourne le chemin du fichier d'un pack
+   * @private
+   */
+  private getPackPath(sourceLang: string, targetLang: string): string {
+    return `${PACK_CONFIG.DIRECTORY}${getPairKey(sourceLang, targetLang)}.json`;
+  }
+}
+
+/**
+ * Instance singleton du service de packs de phrases
+ * @constant {PhrasebookPackService}
+ */
+export const phrasebookPackService = new PhrasebookPackService();
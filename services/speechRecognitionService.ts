@@ -0,0 +1,404 @@
+/**
+ * @fileoverview Moteurs de reconnaissance vocale
+ *
+ * Ce module fournit les implémentations du contrat `SpeechRecognizer` :
+ * un moteur natif basé sur `@react-native-voice/voice` (reconnaissance du
+ * système Android/iOS) et un moteur scénarisé qui rejoue des résultats
+ * prédéfinis, utilisé sur le web, en démonstration ou pour les formations.
+ * Le moteur actif est partagé par toute l'application.
+ *
+ * @module services/speechRecognitionService
+ * @requires @react-native-voice/voice
+ * @requires react-native
+ * @requires ./types
+ */
+
+import Voice, { SpeechErrorEvent, SpeechResultsEvent, SpeechVolumeChangeEvent } from '@react-native-voice/voice';
+import { Platform } from 'react-native';
+import {
+  SpeechRecognitionError,
+  SpeechRecognitionErrorType,
+  SpeechRecognitionEvent,
+  SpeechRecognizer
+} from './types';
+
+/**
+ * Classe de base gérant les abonnés et le cycle de vie d'une reconnaissance
+ *
+ * Garantit qu'un seul événement `end` est émis par reconnaissance et
+ * qu'aucun événement n'est diffusé après celui-ci.
+ *
+ * @class BaseSpeechRecognizer
+ * @abstract
+ * @private
+ */
+abstract class BaseSpeechRecognizer implements SpeechRecognizer {
+  abstract id: string;
+  protected recognizing = false;
+  protected locale: string | null = null;
+  private listeners = new Set<(event: SpeechRecognitionEvent) => void>();
+
+  abstract isAvailable(): Promise<boolean>;
+  abstract start(locale: string): Promise<void>;
+  abstract stop(): Promise<void>;
+  abstract cancel(): Promise<void>;
+
+  isRecognizing(): boolean {
+    return this.recognizing;
+  }
+
+  getLocale(): string | null {
+    return this.locale;
+  }
+
+  subscribe(listener: (event: SpeechRecognitionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Ouvre une reconnaissance et émet l'événement `start`
+   * @protected
+   */
+  protected begin(locale: string): void {
+    this.recognizing = true;
+    this.locale = locale;
+    this.emit({ type: 'start', locale });
+  }
+
+  /**
+   * Émet un résultat final puis termine la reconnaissance
+   * @protected
+   */
+  protected finish(text: string, alternatives: string[] = [text]): void {
+    if (!this.recognizing) return;
+    if (text.trim()) {
+      this.emit({ type: 'final', text: text.trim(), alternatives });
+    } else {
+      this.emit({
+        type: 'error',
+        error: { type: SpeechRecognitionErrorType.NO_MATCH, message: 'Aucune parole reconnue' }
+      });
+    }
+    this.end();
+  }
+
+  /**
+   * Émet une erreur puis termine la reconnaissance
+   * @protected
+   */
+  protected fail(error: SpeechRecognitionError): void {
+    if (!this.recognizing) return;
+    this.emit({ type: 'error', error });
+    this.end();
+  }
+
+  /**
+   * Termine la reconnaissance et émet l'événement `end`
+   * @protected
+   */
+  protected end(): void {
+    if (!this.recognizing) return;
+    this.recognizing = false;
+    this.emit({ type: 'end' });
+  }
+
+  /**
+   * Diffuse un événement aux abonnés
+   * @protected
+   */
+  protected emit(event: SpeechRecognitionEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+/**
+ * Convertit une erreur du module natif en erreur de reconnaissance typée
+ *
+ * Android transmet le code numérique de `SpeechRecognizer` (ex: '7' pour
+ * aucune correspondance) ; iOS transmet un code textuel et le code
+ * `SFSpeechRecognizer` en tête du message (ex: '1110/No speech detected').
+ *
+ * @function toSpeechRecognitionError
+ * @param {SpeechErrorEvent} event - Événement d'erreur du module natif
+ * @returns {SpeechRecognitionError} L'erreur typée
+ * @private
+ */
+const toSpeechRecognitionError = (event: SpeechErrorEvent): SpeechRecognitionError => {
+  const code = event.error?.code ?? '';
+  const message = event.error?.message ?? 'Erreur de reconnaissance vocale';
+  const nativeCode = message.split('/')[0];
+
+  let type = SpeechRecognitionErrorType.UNKNOWN_ERROR;
+  if (['6', '7'].includes(code) || (code === 'recognition_fail' && ['203', '1110'].includes(nativeCode))) {
+    type = SpeechRecognitionErrorType.NO_MATCH;
+  } else if (code === '9' || code === 'permissions') {
+    type = SpeechRecognitionErrorType.PERMISSION_DENIED;
+  } else if (['1', '2', '4'].includes(code)) {
+    type = SpeechRecognitionErrorType.NETWORK_ERROR;
+  } else if (code === '8') {
+    type = SpeechRecognitionErrorType.BUSY;
+  } else if (['recognition_init', 'input', 'start_recording', 'audio', '3', '5'].includes(code)) {
+    type = SpeechRecognitionErrorType.NOT_AVAILABLE;
+  }
+
+  return { type, message, code };
+};
+
+/**
+ * Moteur de reconnaissance vocale natif (`@react-native-voice/voice`)
+ *
+ * Les plateformes ne signalent pas la fin d'un énoncé de la même façon :
+ * Android émet `onSpeechEnd` puis les résultats définitifs dans
+ * `onSpeechResults`, alors qu'iOS émet `onSpeechResults` à chaque mise à jour
+ * et `onSpeechEnd` une fois le résultat définitif obtenu.
+ *
+ * @class VoiceSpeechRecognizer
+ * @implements {SpeechRecognizer}
+ */
+export class VoiceSpeechRecognizer extends BaseSpeechRecognizer {
+  id = 'voice';
+  private handlersAttached = false;
+  private lastResults: string[] = [];
+
+  async isAvailable(): Promise<boolean> {
+    if (Platform.OS === 'web') {
+      return false;
+    }
+    try {
+      return Boolean(await Voice.isAvailable());
+    } catch {
+      return false;
+    }
+  }
+
+  async start(locale: string): Promise<void> {
+    this.attachHandlers();
+    if (this.recognizing) {
+      await this.cancel();
+    }
+
+    this.lastResults = [];
+    this.begin(locale);
+    try {
+      await Voice.start(locale);
+    } catch (error) {
+      this.fail({
+        type: SpeechRecognitionErrorType.NOT_AVAILABLE,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.recognizing) return;
+    try {
+      await Voice.stop();
+    } catch (error) {
+      console.error('Error stopping speech recognition:', error);
+      this.finish(this.lastResults[0] ?? '', this.lastResults);
+    }
+  }
+
+  async cancel(): Promise<void> {
+    if (!this.recognizing) return;
+    try {
+      await Voice.cancel();
+    } catch (error) {
+      console.error('Error cancelling speech recognition:', error);
+    }
+    this.end();
+  }
+
+  /**
+   * Branche les événements du module natif (une seule fois, le module étant global)
+   * @private
+   */
+  private attachHandlers(): void {
+    if (this.handlersAttached) return;
+    this.handlersAttached = true;
+
+    Voice.onSpeechPartialResults = (event: SpeechResultsEvent) => {
+      const text = event.value?.[0];
+      if (this.recognizing && text) {
+        this.lastResults = event.value ?? [];
+        this.emit({ type: 'partial', text });
+      }
+    };
+
+    Voice.onSpeechResults = (event: SpeechResultsEvent) => {
+      const results = event.value ?? [];
+      if (Platform.OS === 'ios') {
+        // Sur iOS, le résultat définitif est signalé par onSpeechEnd
+        if (results[0]) this.lastResults = results;
+        return;
+      }
+      this.finish(results[0] ?? '', results);
+    };
+
+    Voice.onSpeechEnd = () => {
+      if (Platform.OS === 'ios') {
+        this.finish(this.lastResults[0] ?? '', this.lastResults);
+      }
+    };
+
+    Voice.onSpeechVolumeChanged = (event: SpeechVolumeChangeEvent) => {
+      if (!this.recognizing || event.value === undefined) return;
+      // Android transmet un niveau en dB ; iOS une racine de l'amplitude ramenée sur 0-10
+      const levelDb = Platform.OS === 'ios'
+        ? 40 * Math.log10(Math.max(event.value / 10, 0.001))
+        : event.value;
+      this.emit({ type: 'volume', levelDb });
+    };
+
+    Voice.onSpeechError = (event: SpeechErrorEvent) => {
+      this.fail(toSpeechRecognitionError(event));
+    };
+  }
+}
+
+/**
+ * Étape d'un scénario rejoué par le moteur scénarisé
+ *
+ * @interface ScriptedRecognitionStep
+ * @property {'partial'|'final'|'error'} type - Type d'événement à émettre
+ * @property {string} [text] - Texte reconnu (étapes partial et final)
+ * @property {SpeechRecognitionErrorType} [errorType] - Type d'erreur (étape error)
+ * @property {number} delayMs - Délai depuis l'étape précédente, en millisecondes
+ */
+export interface ScriptedRecognitionStep {
+  type: 'partial' | 'final' | 'error';
+  text?: string;
+  errorType?: SpeechRecognitionErrorType;
+  delayMs: number;
+}
+
+/**
+ * Moteur de reconnaissance vocale scénarisé
+ *
+ * Rejoue à chaque écoute l'énoncé suivant d'une liste de scénarios. Un arrêt
+ * anticipé émet le dernier résultat partiel comme résultat final, à l'image
+ * d'un moteur réel.
+ *
+ * @class ScriptedSpeechRecognizer
+ * @implements {SpeechRecognizer}
+ * @example
+ * setSpeechRecognizer(new ScriptedSpeechRecognizer([[
+ *   { type: 'partial', text: 'Where', delayMs: 400 },
+ *   { type: 'final', text: 'Where does it hurt?', delayMs: 800 },
+ * ]]));
+ */
+export class ScriptedSpeechRecognizer extends BaseSpeechRecognizer {
+  id = 'scripted';
+  private utteranceIndex = 0;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private lastPartial = '';
+
+  constructor(private readonly utterances: ScriptedRecognitionStep[][]) {
+    super();
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.utterances.length > 0;
+  }
+
+  async start(locale: string): Promise<void> {
+    await this.cancel();
+
+    const steps = this.utterances[this.utteranceIndex % this.utterances.length] ?? [];
+    this.utteranceIndex++;
+    this.lastPartial = '';
+    this.begin(locale);
+
+    let elapsed = 0;
+    steps.forEach(step => {
+      elapsed += step.delayMs;
+      this.timers.push(setTimeout(() => this.playStep(step), elapsed));
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.clearTimers();
+    this.finish(this.lastPartial);
+  }
+
+  async cancel(): Promise<void> {
+    this.clearTimers();
+    this.end();
+  }
+
+  /**
+   * Émet l'événement d'une étape du scénario
+   * @private
+   */
+  private playStep(step: ScriptedRecognitionStep): void {
+    if (step.type === 'partial') {
+      this.lastPartial = step.text ?? '';
+      this.emit({ type: 'partial', text: this.lastPartial });
+    } else if (step.type === 'final') {
+      this.clearTimers();
+      this.finish(step.text ?? '');
+    } else {
+      this.clearTimers();
+      this.fail({
+        type: step.errorType ?? SpeechRecognitionErrorType.UNKNOWN_ERROR,
+        message: 'Erreur de reconnaissance simulée'
+      });
+    }
+  }
+
+  /**
+   * Annule les étapes restantes du scénario
+   * @private
+   */
+  private clearTimers(): void {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+}
+
+/**
+ * Scénario de démonstration utilisé lorsque la reconnaissance native est indisponible (web)
+ *
+ * @constant {ScriptedRecognitionStep[][]}
+ * @private
+ */
+const DEMO_UTTERANCES: ScriptedRecognitionStep[][] = [
+  [
+    { type: 'partial', text: 'Êtes-vous', delayMs: 600 },
+    { type: 'partial', text: 'Êtes-vous blessé', delayMs: 500 },
+    { type: 'final', text: 'Êtes-vous blessé ?', delayMs: 700 },
+  ],
+  [
+    { type: 'partial', text: 'Avez-vous mal', delayMs: 600 },
+    { type: 'final', text: 'Avez-vous mal quelque part ?', delayMs: 900 },
+  ],
+];
+
+let activeRecognizer: SpeechRecognizer = Platform.OS === 'web'
+  ? new ScriptedSpeechRecognizer(DEMO_UTTERANCES)
+  : new VoiceSpeechRecognizer();
+
+/**
+ * Retourne le moteur de reconnaissance vocale actif
+ *
+ * @function getSpeechRecognizer
+ * @returns {SpeechRecognizer} Le moteur actif
+ */
+export const getSpeechRecognizer = (): SpeechRecognizer => activeRecognizer;
+
+/**
+ * Remplace le moteur de reconnaissance vocale actif (la reconnaissance en cours est annulée)
+ *
+ * @function setSpeechRecognizer
+ * @param {SpeechRecognizer} recognizer - Nouveau moteur
+ * @returns {void}
+ */
+export const setSpeechRecognizer = (recognizer: SpeechRecognizer): void => {
+  if (activeRecognizer.isRecognizing()) {
+    activeRecognizer.cancel();
+  }
+  activeRecognizer = recognizer;
+};
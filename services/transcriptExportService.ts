@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Service d'export des transcriptions de sessions
+ *
+ * Ce service exporte les tours de parole d'une session d'intervention sous
+ * forme de rapport PDF bilingue (original et traduction côte à côte), de
+ * texte brut ou de document JSON (schéma `speechtotalk.transcript`). Les
+ * fichiers sont enregistrés sur l'appareil puis peuvent être partagés.
+ *
+ * @module services/transcriptExportService
+ * @requires expo-file-system
+ * @requires expo-print
+ * @requires expo-sharing
+ * @requires ./languageRegistry
+ * @requires ./types
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { getLanguageName } from './languageRegistry';
+import { ConversationSession, TranscriptDocument, TranscriptFormat } from './types';
+
+/**
+ * Configuration des exports
+ *
+ * @constant {Object} TRANSCRIPT_CONFIG
+ * @property {string} DIRECTORY - Dossier des transcriptions exportées
+ * @property {number} SCHEMA_VERSION - Version du schéma JSON
+ * @private
+ */
+const TRANSCRIPT_CONFIG = {
+  DIRECTORY: `${FileSystem.documentDirectory}transcripts/`,
+  SCHEMA_VERSION: 1,
+};
+
+/**
+ * Extension et type MIME de chaque format
+ * @private
+ */
+const FORMAT_FILES: Record<TranscriptFormat, { extension: string; mimeType: string; uti: string }> = {
+  pdf: { extension: 'pdf', mimeType: 'application/pdf', uti: 'com.adobe.pdf' },
+  text: { extension: 'txt', mimeType: 'text/plain', uti: 'public.plain-text' },
+  json: { extension: 'json', mimeType: 'application/json', uti: 'public.json' },
+};
+
+/**
+ * Libellé d'une langue, ou tiret si elle n'est pas renseignée
+ * @private
+ */
+const getLanguageLabel = (code: string | null | undefined): string =>
+  code ? getLanguageName(code) : '—';
+
+/**
+ * Libellé d'un participant (ex: 'participant2' → 'Participant 2')
+ * @private
+ */
+const getParticipantLabel = (participantId: string): string =>
+  `Participant ${participantId.replace('participant', '')}`;
+
+/**
+ * Formate une date pour les rapports
+ * @private
+ */
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+/**
+ * Échappe un texte pour le HTML du rapport PDF
+ * @private
+ */
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Construit la transcription JSON d'une session
+ *
+ * @function buildTranscriptDocument
+ * @param {ConversationSession} session - Session à exporter
+ * @returns {TranscriptDocument} La transcription
+ *
+ * @example
+ * const transcript = buildTranscriptDocument(session);
+ * console.log(`${transcript.turns.length} tours de parole`);
+ */
+export const buildTranscriptDocument = (session: ConversationSession): TranscriptDocument => ({
+  schema: 'speechtotalk.transcript',
+  schemaVersion: TRANSCRIPT_CONFIG.SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: {
+    id: session.id,
+    title: session.title,
+    startedAt: new Date(session.startedAt).toISOString(),
+    endedAt: session.endedAt ? new Date(session.endedAt).toISOString() : null,
+  },
+  participants: session.participants.map(participant => ({
+    id: participant.id,
+    label: getParticipantLabel(participant.id),
+    preferredLanguage: participant.preferredLanguage,
+    lastDetectedLanguage: participant.lastDetectedLanguage ?? null,
+  })),
+  turns: session.turns.map((turn, index) => ({
+    index: index + 1,
+    timestamp: new Date(turn.timestamp).toISOString(),
+    participantId: turn.participantId,
+    sourceLanguage: turn.detectedLanguage,
+    targetLanguage: turn.targetLanguage ?? null,
+    original: turn.originalText,
+    translation: turn.translatedText ?? null,
+    ...(turn.painLocations ? { painLocations: turn.painLocations } : {}),
+  })),
+});
+
+/**
+ * Formate la transcription d'une session en texte brut
+ *
+ * @function formatTranscriptText
+ * @param {ConversationSession} session - Session à exporter
+ * @returns {string} La transcription en texte brut
+ */
+export const formatTranscriptText = (session: ConversationSession): string => {
+  const header = [
+    session.title,
+    `Début : ${formatDateTime(session.startedAt)}`,
+    `Fin : ${session.endedAt ? formatDateTime(session.endedAt) : 'session en cours'}`,
+    'Participants :',
+    ...session.participants.map(participant =>
+      `  - ${getParticipantLabel(participant.id)} : ${getLanguageLabel(participant.lastDetectedLanguage ?? participant.preferredLanguage)}`
+    ),
+  ];
+
+  const turns = session.turns.map((turn, index) => [
+    `[${index + 1}] ${formatDateTime(turn.timestamp)} — ${getParticipantLabel(turn.participantId)}`,
+    `  ${getLanguageLabel(turn.detectedLanguage)} : ${turn.originalText}`,
+    ...(turn.translatedText ? [`  ${getLanguageLabel(turn.targetLanguage)} : ${turn.translatedText}`] : []),
+  ].join('\n'));
+
+  return [...header, '', ...turns].join('\n') + '\n';
+};
+
+/**
+ * Construit le HTML du rapport PDF bilingue
+ * @private
+ */
+const formatTranscriptHtml = (session: ConversationSession): string => {
+  const participants = session.participants
+    .map(participant =>
+      `<li>${escapeHtml(getParticipantLabel(participant.id))} : ${escapeHtml(getLanguageLabel(participant.lastDetectedLanguage ?? participant.preferredLanguage))}</li>`
+    )
+    .join('');
+
+  const rows = session.turns
+    .map((turn, index) => `
+      <tr>
+        <td class="meta">${index + 1}<br/>${escapeHtml(formatDateTime(turn.timestamp))}<br/>${escapeHtml(getParticipantLabel(turn.participantId))}</td>
+        <td><span class="lang">${escapeHtml(getLanguageLabel(turn.detectedLanguage))}</span><p dir="auto">${escapeHtml(turn.originalText)}</p></td>
+        <td><span class="lang">${escapeHtml(getLanguageLabel(turn.targetLanguage))}</span><p dir="auto">${escapeHtml(turn.translatedText ?? '')}</p></td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: -apple-system, Roboto, sans-serif; color: #11181C; margin: 24px; }
+      h1 { color: #144291; font-size: 20px; margin-bottom: 4px; }
+      .summary { font-size: 12px; color: #687076; margin-bottom: 16px; }
+      table { width: 100%; border-collapse: collapse; font-size: 12px; }
+      th { background: #144291; color: #ffffff; text-align: left; padding: 6px; }
+      td { border-bottom: 1px solid #e0e0e0; padding: 6px; vertical-align: top; width: 42%; }
+      td.meta { width: 16%; color: #687076; }
+      .lang { font-size: 10px; color: #d20b12; text-transform: uppercase; }
+      p { margin: 2px 0 0; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(session.title)}</h1>
+    <div class="summary">
+      Début : ${escapeHtml(formatDateTime(session.startedAt))} ·
+      Fin : ${session.endedAt ? escapeHtml(formatDateTime(session.endedAt)) : 'session en cours'} ·
+      ${session.turns.length} tour(s) de parole
+      <ul>${participants}</ul>
+    </div>
+    <table>
+      <thead><tr><th>Tour</th><th>Original</th><th>Traduction</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </body>
+</html>`;
+};
+
+/**
+ * Exporte la transcription d'une session dans un fichier
+ *
+ * @async
+ * @function exportTranscript
+ * @param {ConversationSession} session - Session à exporter
+ * @param {TranscriptFormat} format - Format du fichier
+ * @returns {Promise<string>} L'URI du fichier enregistré
+ * @throws {Error} Si le fichier ne peut pas être écrit
+ *
+ * @example
+ * const uri = await exportTranscript(session, 'pdf');
+ * await shareTranscript(uri, 'pdf');
+ */
+export const exportTranscript = async (session: ConversationSession, format: TranscriptFormat): Promise<string> => {
+  await FileSystem.makeDirectoryAsync(TRANSCRIPT_CONFIG.DIRECTORY, { intermediates: true });
+
+  const date = new Date(session.startedAt).toISOString().slice(0, 16).replace(/[T:]/g, '-');
+  const fileUri = `${TRANSCRIPT_CONFIG.DIRECTORY}transcription-${date}.${FORMAT_FILES[format].extension}`;
+
+  if (format === 'pdf') {
+    const { uri } = await Print.printToFileAsync({ html: formatTranscriptHtml(session) });
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    await FileSystem.moveAsync({ from: uri, to: fileUri });
+  } else {
+    const content = format === 'json'
+      ? JSON.stringify(buildTranscriptDocument(session), null, 2)
+      : formatTranscriptText(session);
+    await FileSystem.writeAsStringAsync(fileUri, content);
+  }
+
+  return fileUri;
+};
+
+/**
+ * Ouvre la feuille de partage du système pour un fichier exporté
+ *
+ * @async
+ * @function shareTranscript
+ * @param {string} fileUri - URI du fichier exporté
+ * @param {TranscriptFormat} format - Format du fichier
+ * @returns {Promise<boolean>} false si le partage n'est pas disponible sur l'appareil
+ */
+export const shareTranscript = async (fileUri: string, format: TranscriptFormat): Promise<boolean> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    return false;
+  }
+
+  const { mimeType, uti } = FORMAT_FILES[format];
+  await Sharing.shareAsync(fileUri, { mimeType, UTI: uti, dialogTitle: 'Partager la transcription' });
+  return true;
+};
@@ -0,0 +1,710 @@
+/**
+ * @fileoverview Fournisseurs de traduction et registre de priorité
+ *
+ * Ce module définit les fournisseurs de traduction disponibles dans
+ * l'application (API Google Cloud Translation, phrasier hors ligne, packs de
+ * phrases téléchargés, serveur local compatible LibreTranslate) ainsi qu'un registre qui les interroge
+ * par ordre de priorité, en passant au suivant en cas d'échec.
+ *
+ * @module services/translationProviders
+ * @requires ./types
+ * @requires ./phrasebookPackService
+ * @requires ./phraseRepository
+ * @requires ../config
+ */
+
+import { getGoogleCloudApiKey, getLocalTranslationServerUrl } from '../config';
+import { phrasebookPackService } from './phrasebookPackService';
+import { phraseRepository } from './phraseRepository';
+import {
+  ProviderDetectionResult,
+  TranslationError,
+  TranslationErrorType,
+  TranslationProvider
+} from './types';
+
+/**
+ * Délai maximal d'attente d'un serveur de traduction local (en ms)
+ *
+ * Un serveur injoignable sur le réseau local ne doit pas bloquer
+ * le passage au fournisseur suivant.
+ *
+ * @constant {number}
+ * @private
+ */
+const LOCAL_SERVER_TIMEOUT = 5000;
+
+/**
+ * Effectue une requête HTTP interrompue après un délai donné
+ *
+ * @async
+ * @function fetchWithTimeout
+ * @param {string} url - URL à appeler
+ * @param {RequestInit} options - Options de la requête
+ * @param {number} timeoutMs - Délai maximal en millisecondes
+ * @returns {Promise<Response>} La réponse HTTP
+ * @private
+ */
+const fetchWithTimeout = async (url: string, options: RequestInit, timeoutMs: number): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Erreur typée levée par un fournisseur de traduction
+ *
+ * Porte un `TranslationErrorType` afin que l'interface puisse distinguer
+ * un quota dépassé d'une langue non supportée ou d'une panne réseau.
+ *
+ * @class TranslationProviderError
+ * @extends Error
+ * @implements {TranslationError}
+ */
+export class TranslationProviderError extends Error implements TranslationError {
+  constructor(
+    public readonly type: TranslationErrorType,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'TranslationProviderError';
+  }
+}
+
+/**
+ * Construit une erreur typée à partir d'une réponse HTTP en échec
+ *
+ * Reconnaît le format d'erreur de Google Cloud (`error.errors[].reason`)
+ * et celui de LibreTranslate (`error` sous forme de chaîne).
+ *
+ * @async
+ * @function createHttpError
+ * @param {Response} response - La réponse HTTP en échec
+ * @param {string} providerName - Nom du fournisseur (pour le message)
+ * @returns {Promise<TranslationProviderError>} L'erreur typée
+ * @private
+ */
+const createHttpError = async (response: Response, providerName: string): Promise<TranslationProviderError> => {
+  let body: any = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Corps de réponse absent ou non JSON
+  }
+
+  const message: string = body?.error?.message
+    || (typeof body?.error === 'string' ? body.error : '')
+    || `HTTP ${response.status}`;
+  const reasons: string[] = (body?.error?.errors || []).map((e: { reason?: string }) => e.reason || '');
+
+  let type = TranslationErrorType.API_ERROR;
+  if (response.status === 429 || reasons.some(reason => /quota|limit/i.test(reason))) {
+    type = TranslationErrorType.QUOTA_EXCEEDED;
+  } else if (response.status === 400 && /language|not supported/i.test(message)) {
+    type = TranslationErrorType.UNSUPPORTED_LANGUAGE;
+  } else if (response.status === 400) {
+    type = TranslationErrorType.INVALID_REQUEST;
+  }
+
+  return new TranslationProviderError(type, `${providerName}: ${message}`, { status: response.status, body });
+};
+
+/**
+ * Convertit une erreur quelconque en `TranslationError`
+ *
+ * Les échecs de `fetch` (TypeError) et les délais dépassés (AbortError)
+ * sont considérés comme des erreurs réseau.
+ *
+ * @function toTranslationError
+ * @param {unknown} error - L'erreur à convertir
+ * @returns {TranslationError} L'erreur normalisée
+ */
+export const toTranslationError = (error: unknown): TranslationError => {
+  if (error instanceof TranslationProviderError) {
+    return { type: error.type, message: error.message, details: error.details };
+  }
+  if (error instanceof TypeError || (error instanceof Error && error.name === 'AbortError')) {
+    return { type: TranslationErrorType.NETWORK_ERROR, message: error.message, details: error };
+  }
+  return {
+    type: TranslationErrorType.UNKNOWN_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+    details: error
+  };
+};
+
+/**
+ * Fournisseur basé sur l'API Google Cloud Translation v2
+ *
+ * Utilise la clé API configurée dans le module de configuration.
+ *
+ * @class GoogleTranslationProvider
+ * @implements {TranslationProvider}
+ */
+export class GoogleTranslationProvider implements TranslationProvider {
+  public readonly id = 'google';
+  public readonly name = 'Google Cloud Translation';
+  public readonly requiresNetwork = true;
+
+  private readonly baseUrl = 'https://translation.googleapis.com/language/translate/v2';
+
+  public isAvailable(): boolean {
+    return getGoogleCloudApiKey().length > 0;
+  }
+
+  public async translate(text: string, sourceLang: string, targetLang: string): Promise<string | null> {
+    const response = await fetch(`${this.baseUrl}?key=${getGoogleCloudApiKey()}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        q: text,
+        source: sourceLang,
+        target: targetLang,
+        format: 'text'
+      })
+    });
+
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    return data.data?.translations?.[0]?.translatedText || null;
+  }
+
+  public async translateBatch(texts: string[], sourceLang: string, targetLang: string): Promise<(string | null)[]> {
+    // L'API v2 accepte un tableau pour `q` et retourne les traductions dans le même ordre
+    const response = await fetch(`${this.baseUrl}?key=${getGoogleCloudApiKey()}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        q: texts,
+        source: sourceLang,
+        target: targetLang,
+        format: 'text'
+      })
+    });
+
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    const translations: { translatedText?: string }[] = data.data?.translations || [];
+    return texts.map((_, index) => translations[index]?.translatedText || null);
+  }
+
+  public async detect(text: string): Promise<ProviderDetectionResult | null> {
+    const response = await fetch(`${this.baseUrl}/detect?key=${getGoogleCloudApiKey()}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ q: text })
+    });
+
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    const detection = data.data?.detections?.[0]?.[0];
+    if (!detection) return null;
+
+    return {
+      language: detection.language.toLowerCase(),
+      confidence: detection.confidence || 0.5
+    };
+  }
+
+  public async supportedLanguages(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/languages?key=${getGoogleCloudApiKey()}`);
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    return (data.data?.languages || []).map((lang: { language: string }) => lang.language);
+  }
+}
+
+/**
+ * Fournisseur hors ligne basé sur le catalogue de phrases prédéfinies
+ *
+ * Ne traduit que les phrases présentes dans le catalogue (correspondance sur
+ * le texte source français, sans casse ni accents). Toujours disponible,
+ * même sans connexion.
+ *
+ * @class PhrasebookTranslationProvider
+ * @implements {TranslationProvider}
+ *
+ * @example
+ * const provider = new PhrasebookTranslationProvider();
+ * await provider.translate('Où avez-vous mal ?', 'fr', 'es'); // "¿Dónde le duele?"
+ */
+export class PhrasebookTranslationProvider implements TranslationProvider {
+  public readonly id = 'phrasebook';
+  public readonly name = 'Phrasier hors ligne';
+  public readonly requiresNetwork = false;
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async translate(text: string, sourceLang: string, targetLang: string): Promise<string | null> {
+    return sourceLang === 'fr' ? phraseRepository.getTranslation(text, targetLang) : null;
+  }
+
+  public async translateBatch(texts: string[], sourceLang: string, targetLang: string): Promise<(string | null)[]> {
+    return texts.map(text => (sourceLang === 'fr' ? phraseRepository.getTranslation(text, targetLang) : null));
+  }
+
+  public async detect(text: string): Promise<ProviderDetectionResult | null> {
+    // Une phrase connue du catalogue est une phrase source (française)
+    return phraseRepository.findByText(text) ? { language: 'fr', confidence: 1 } : null;
+  }
+
+  public async supportedLanguages(): Promise<string[]> {
+    return phraseRepository.getLanguages();
+  }
+}
+
+/**
+ * Fournisseur hors ligne basé sur les packs de phrases téléchargés
+ *
+ * Cherche le texte dans le pack installé pour la paire de langues demandée
+ * (voir `phrasebookPackService`). Toujours disponible, même sans connexion.
+ *
+ * @class OfflinePackTranslationProvider
+ * @implements {TranslationProvider}
+ */
+export class OfflinePackTranslationProvider implements TranslationProvider {
+  public readonly id = 'offline-pack';
+  public readonly name = 'Packs de phrases hors ligne';
+  public readonly requiresNetwork = false;
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async translate(text: string, sourceLang: string, targetLang: string): Promise<string | null> {
+    return phrasebookPackService.lookup(text, sourceLang, targetLang);
+  }
+
+  public async translateBatch(texts: string[], sourceLang: string, targetLang: string): Promise<(string | null)[]> {
+    return Promise.all(texts.map(text => phrasebookPackService.lookup(text, sourceLang, targetLang)));
+  }
+
+  public async detect(): Promise<ProviderDetectionResult | null> {
+    return null;
+  }
+
+  public async supportedLanguages(): Promise<string[]> {
+    const packs = await phrasebookPackService.getInstalledPacks();
+    const languages = new Set<string>();
+    packs.forEach(pack => {
+      languages.add(pack.sourceLang);
+      languages.add(pack.targetLang);
+    });
+    return Array.from(languages);
+  }
+}
+
+/**
+ * Fournisseur pour un serveur de traduction compatible LibreTranslate
+ *
+ * Permet d'utiliser un serveur auto-hébergé (par exemple à la caserne) sur
+ * le réseau local. L'URL du serveur est lue dans le module de configuration ;
+ * le fournisseur est indisponible tant qu'aucune URL n'est définie.
+ *
+ * @class LibreTranslateProvider
+ * @implements {TranslationProvider}
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  public readonly id = 'local';
+  public readonly name = 'Serveur de traduction local';
+  public readonly requiresNetwork = true;
+
+  /**
+   * @param {() => string} [getBaseUrl] - Fonction retournant l'URL de base du serveur
+   */
+  constructor(private readonly getBaseUrl: () => string = getLocalTranslationServerUrl) {}
+
+  public isAvailable(): boolean {
+    return this.getBaseUrl().length > 0;
+  }
+
+  public async translate(text: string, sourceLang: string, targetLang: string): Promise<string | null> {
+    const response = await fetchWithTimeout(`${this.getBaseUrl()}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        q: text,
+        source: sourceLang,
+        target: targetLang,
+        format: 'text'
+      })
+    }, LOCAL_SERVER_TIMEOUT);
+
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    return data.translatedText || null;
+  }
+
+  public async translateBatch(texts: string[], sourceLang: string, targetLang: string): Promise<(string | null)[]> {
+    // LibreTranslate accepte un tableau pour `q` et retourne un tableau `translatedText`
+    const response = await fetchWithTimeout(`${this.getBaseUrl()}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        q: texts,
+        source: sourceLang,
+        target: targetLang,
+        format: 'text'
+      })
+    }, LOCAL_SERVER_TIMEOUT);
+
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    const translations: string[] = Array.isArray(data.translatedText) ? data.translatedText : [];
+    return texts.map((_, index) => translations[index] || null);
+  }
+
+  public async detect(text: string): Promise<ProviderDetectionResult | null> {
+    const response = await fetchWithTimeout(`${this.getBaseUrl()}/detect`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ q: text })
+    }, LOCAL_SERVER_TIMEOUT);
+
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    const detection = Array.isArray(data) ? data[0] : null;
+    if (!detection) return null;
+
+    // LibreTranslate exprime la confiance en pourcentage
+    return {
+      language: detection.language.toLowerCase(),
+      confidence: (detection.confidence || 0) / 100
+    };
+  }
+
+  public async supportedLanguages(): Promise<string[]> {
+    const response = await fetchWithTimeout(`${this.getBaseUrl()}/languages`, {}, LOCAL_SERVER_TIMEOUT);
+    if (!response.ok) {
+      throw await createHttpError(response, this.name);
+    }
+
+    const data = await response.json();
+    return (data || []).map((lang: { code: string }) => lang.code);
+  }
+}
+
+/**
+ * Entrée du registre associant un fournisseur à sa priorité
+ *
+ * @interface RegisteredProvider
+ * @property {TranslationProvider} provider - Le fournisseur
+ * @property {number} priority - Priorité (la plus élevée est interrogée en premier)
+ * @property {boolean} enabled - Si false, le fournisseur est ignoré
+ */
+export interface RegisteredProvider {
+  provider: TranslationProvider;
+  priority: number;
+  enabled: boolean;
+}
+
+/**
+ * Résultat d'une traduction obtenue via la chaîne de fournisseurs
+ *
+ * @interface ProviderTranslation
+ * @property {string} translation - Le texte traduit
+ * @property {string} providerId - Identifiant du fournisseur ayant répondu
+ * @property {boolean} requiresNetwork - Si le fournisseur ayant répondu nécessite le réseau
+ */
+export interface ProviderTranslation {
+  translation: string;
+  providerId: string;
+  requiresNetwork: boolean;
+}
+
+/**
+ * Échec d'un fournisseur lors du parcours de la chaîne
+ *
+ * @interface ProviderFailure
+ * @property {string} providerId - Identifiant du fournisseur en échec
+ * @property {TranslationError} error - L'erreur normalisée
+ */
+export interface ProviderFailure {
+  providerId: string;
+  error: TranslationError;
+}
+
+/**
+ * Résultat du parcours de la chaîne de fournisseurs
+ *
+ * @interface ProviderChainResult
+ * @property {ProviderTranslation|null} result - La traduction obtenue, ou null
+ * @property {ProviderFailure[]} failures - Les échecs rencontrés, par ordre de priorité
+ */
+export interface ProviderChainResult {
+  result: ProviderTranslation | null;
+  failures: ProviderFailure[];
+}
+
+/**
+ * Registre des fournisseurs de traduction
+ *
+ * Les fournisseurs sont interrogés par priorité décroissante. Un fournisseur
+ * indisponible, désactivé, nécessitant le réseau hors connexion, qui retourne
+ * null ou qui lève une erreur est ignoré au profit du suivant.
+ *
+ * @class TranslationProviderRegistry
+ * @example
+ * translationProviderRegistry.register(new LibreTranslateProvider(), 75);
+ * const { result } = await translationProviderRegistry.translate('Bonjour', 'fr', 'en', true);
+ * if (result) {
+ *   console.log(`${result.translation} (via ${result.providerId})`);
+ * }
+ */
+class TranslationProviderRegistry {
+  private providers: RegisteredProvider[] = [];
+
+  /**
+   * Enregistrer un fournisseur (remplace un fournisseur de même identifiant)
+   * @param provider - Le fournisseur à enregistrer
+   * @param priority - Priorité du fournisseur
+   */
+  public register(provider: TranslationProvider, priority: number): void {
+    this.unregister(provider.id);
+    this.providers.push({ provider, priority, enabled: true });
+    this.sortProviders();
+  }
+
+  /**
+   * Retirer un fournisseur du registre
+   * @param providerId - Identifiant du fournisseur
+   * @returns true si le fournisseur a été retiré, false sinon
+   */
+  public unregister(providerId: string): boolean {
+    const initialLength = this.providers.length;
+    this.providers = this.providers.filter(entry => entry.provider.id !== providerId);
+    return this.providers.length < initialLength;
+  }
+
+  /**
+   * Modifier la priorité d'un fournisseur
+   * @param providerId - Identifiant du fournisseur
+   * @param priority - Nouvelle priorité
+   * @returns true si la mise à jour a réussi, false sinon
+   */
+  public setPriority(providerId: string, priority: number): boolean {
+    const entry = this.providers.find(e => e.provider.id === providerId);
+    if (!entry) return false;
+
+    entry.priority = priority;
+    this.sortProviders();
+    return true;
+  }
+
+  /**
+   * Activer ou désactiver un fournisseur sans le retirer du registre
+   * @param providerId - Identifiant du fournisseur
+   * @param enabled - true pour activer, false pour désactiver
+   * @returns true si la mise à jour a réussi, false sinon
+   */
+  public setEnabled(providerId: string, enabled: boolean): boolean {
+    const entry = this.providers.find(e => e.provider.id === providerId);
+    if (!entry) return false;
+
+    entry.enabled = enabled;
+    return true;
+  }
+
+  /**
+   * Obtenir un fournisseur par son identifiant
+   * @param providerId - Identifiant du fournisseur
+   * @returns Le fournisseur ou undefined s'il n'est pas enregistré
+   */
+  public getProvider(providerId: string): TranslationProvider | undefined {
+    return this.providers.find(e => e.provider.id === providerId)?.provider;
+  }
+
+  /**
+   * Obtenir la liste des fournisseurs enregistrés, par priorité décroissante
+   * @returns La liste des fournisseurs enregistrés
+   */
+  public getProviders(): RegisteredProvider[] {
+    return this.providers.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Traduire un texte en parcourant la chaîne de fournisseurs
+   * @param text - Texte à traduire
+   * @param sourceLang - Code de la langue source
+   * @param targetLang - Code de la langue cible
+   * @param isConnected - État de la connexion internet
+   * @returns La première traduction obtenue et les échecs rencontrés avant elle
+   */
+  public async translate(
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    isConnected: boolean
+  ): Promise<ProviderChainResult> {
+    const failures: ProviderFailure[] = [];
+
+    for (const provider of this.getUsableProviders(isConnected)) {
+      try {
+        const translation = await provider.translate(text, sourceLang, targetLang);
+        if (translation) {
+          return {
+            result: {
+              translation,
+              providerId: provider.id,
+              requiresNetwork: provider.requiresNetwork
+            },
+            failures
+          };
+        }
+      } catch (error) {
+        console.error(`Translation provider "${provider.id}" error:`, error);
+        failures.push({ providerId: provider.id, error: toTranslationError(error) });
+      }
+    }
+    return { result: null, failures };
+  }
+
+  /**
+   * Traduire plusieurs textes en parcourant la chaîne de fournisseurs
+   *
+   * Chaque fournisseur ne reçoit que les textes que les fournisseurs plus
+   * prioritaires n'ont pas su traduire. Les fournisseurs sans `translateBatch`
+   * sont interrogés texte par texte.
+   *
+   * @param texts - Textes à traduire
+   * @param sourceLang - Code de la langue source
+   * @param targetLang - Code de la langue cible
+   * @param isConnected - État de la connexion internet
+   * @returns Une traduction (ou null) par texte, dans l'ordre, et les échecs rencontrés
+   */
+  public async translateBatch(
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    isConnected: boolean
+  ): Promise<{ results: (ProviderTranslation | null)[]; failures: ProviderFailure[] }> {
+    const results: (ProviderTranslation | null)[] = texts.map(() => null);
+    const failures: ProviderFailure[] = [];
+
+    for (const provider of this.getUsableProviders(isConnected)) {
+      const pendingIndexes = results
+        .map((result, index) => (result ? -1 : index))
+        .filter(index => index >= 0);
+      if (pendingIndexes.length === 0) break;
+
+      const pendingTexts = pendingIndexes.map(index => texts[index]);
+      try {
+        const translations = provider.translateBatch
+          ? await provider.translateBatch(pendingTexts, sourceLang, targetLang)
+          : await Promise.all(pendingTexts.map(text => provider.translate(text, sourceLang, targetLang)));
+
+        translations.forEach((translation, i) => {
+          if (translation) {
+            results[pendingIndexes[i]] = {
+              translation,
+              providerId: provider.id,
+              requiresNetwork: provider.requiresNetwork
+            };
+          }
+        });
+      } catch (error) {
+        console.error(`Translation provider "${provider.id}" batch error:`, error);
+        failures.push({ providerId: provider.id, error: toTranslationError(error) });
+      }
+    }
+
+    return { results, failures };
+  }
+
+  /**
+   * Détecter la langue d'un texte en parcourant la chaîne de fournisseurs
+   * @param text - Texte à analyser
+   * @param isConnected - État de la connexion internet
+   * @returns La première détection obtenue, ou null si aucun fournisseur n'a répondu
+   */
+  public async detect(text: string, isConnected: boolean): Promise<ProviderDetectionResult | null> {
+    for (const provider of this.getUsableProviders(isConnected)) {
+      try {
+        const detection = await provider.detect(text);
+        if (detection) {
+          return detection;
+        }
+      } catch (error) {
+        console.error(`Translation provider "${provider.id}" detection error:`, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Filtrer les fournisseurs utilisables dans le contexte courant
+   * @param isConnected - État de la connexion internet
+   * @returns Les fournisseurs actifs, disponibles et compatibles avec l'état du réseau
+   */
+  private getUsableProviders(isConnected: boolean): TranslationProvider[] {
+    return this.providers
+      .filter(entry => entry.enabled)
+      .map(entry => entry.provider)
+      .filter(provider => (isConnected || !provider.requiresNetwork) && provider.isAvailable());
+  }
+
+  /**
+   * Trier les fournisseurs par priorité décroissante
+   */
+  private sortProviders(): void {
+    this.providers.sort((a, b) => b.priority - a.priority);
+  }
+}
+
+/**
+ * Priorités par défaut des fournisseurs intégrés
+ *
+ * Le phrasier (traductions vérifiées) passe en premier, puis les packs
+ * téléchargés, le serveur local et enfin l'API Google Cloud.
+ *
+ * @constant {Object} PROVIDER_PRIORITIES
+ */
+export const PROVIDER_PRIORITIES = {
+  PHRASEBOOK: 100,
+  OFFLINE_PACK: 90,
+  LOCAL_SERVER: 75,
+  GOOGLE: 50,
+};
+
+// Exporter une instance unique du registre
+export const translationProviderRegistry = new TranslationProviderRegistry();
@@ -10,8 +10,13 @@
  * @requires @react-native-async-storage/async-storage
  * @requires @react-native-community/netinfo
  * @requires ./compressionService
+ * @requires ./languageRegistry
+ * @requires ./phrasebookPackService
+ * @requires ./phraseRepository
+ * @requires ./translationProviders
+ * @requires ./translationVerificationService
+ * @requires ./ttsService
  * @requires ./types
- * @requires ../config
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -22,178 +27,472 @@ import {
   decompressTranslationEntry,
   optimizeTranslationStorage
 } from './compressionService';
-import { TranslationCache } from './types';
-import { getGoogleCloudApiKey } from '../config';
+import { getLanguage, isSupportedLanguage } from './languageRegistry';
+import { phrasebookPackService } from './phrasebookPackService';
+import { phraseRepository } from './phraseRepository';
+import {
+  GoogleTranslationProvider,
+  LibreTranslateProvider,
+  OfflinePackTranslationProvider,
+  PhrasebookTranslationProvider,
+  PROVIDER_PRIORITIES,
+  ProviderFailure,
+  translationProviderRegistry
+} from './translationProviders';
+import { translationVerificationService } from './translationVerificationService';
+import { ttsService } from './ttsService';
+import {
+  TranslationCache,
+  TranslationCacheEntry,
+  TranslationError,
+  TranslationErrorType,
+  TranslationResult
+} from './types';
 
 /**
- * Traduit un texte d'une langue source vers une langue cible
+ * Messages affichés à l'utilisateur pour chaque type d'erreur de traduction
  *
- * Cette fonction vérifie d'abord le cache local, puis les traductions prédéfinies,
- * et enfin appelle l'API Google Cloud Translation si nécessaire.
+ * @constant {Record<TranslationErrorType, string>}
+ * @private
+ */
+const TRANSLATION_ERROR_MESSAGES: Record<TranslationErrorType, string> = {
+  [TranslationErrorType.NETWORK_ERROR]: 'Pas de connexion internet - Traduction indisponible',
+  [TranslationErrorType.API_ERROR]: 'Le service de traduction a renvoyé une erreur',
+  [TranslationErrorType.QUOTA_EXCEEDED]: 'Quota de traduction dépassé - Réessayez plus tard',
+  [TranslationErrorType.UNSUPPORTED_LANGUAGE]: 'Cette paire de langues n\'est pas prise en charge',
+  [TranslationErrorType.INVALID_REQUEST]: 'Requête de traduction invalide',
+  [TranslationErrorType.UNKNOWN_ERROR]: 'Erreur de traduction',
+};
+
+/**
+ * Retourne le message à afficher à l'utilisateur pour une erreur de traduction
  *
- * @async
- * @function translateText
- * @param {string} text - Le texte à traduire
- * @param {string} sourceLang - Code de la langue source (ex: 'fr', 'en')
- * @param {string} targetLang - Code de la langue cible (ex: 'en', 'es')
- * @param {boolean} [isEmergencyPhrase=false] - Indique si c'est une phrase d'urgence (priorité dans le cache)
- * @returns {Promise<string>} Le texte traduit
- * @throws {Error} En cas d'erreur de traduction, retourne un message d'erreur formaté
+ * @function getTranslationErrorMessage
+ * @param {TranslationError} error - L'erreur de traduction
+ * @returns {string} Le message en français
  *
  * @example
- * const translation = await translateText('Bonjour', 'fr', 'en');
- * console.log(translation); // "Hello"
+ * if (result.error) {
+ *   Alert.alert('Erreur', getTranslationErrorMessage(result.error));
+ * }
+ */
+export const getTranslationErrorMessage = (error: TranslationError): string => {
+  return TRANSLATION_ERROR_MESSAGES[error.type] || TRANSLATION_ERROR_MESSAGES[TranslationErrorType.UNKNOWN_ERROR];
+};
+
+/**
+ * Configuration des traductions groupées
  *
- * @example
- * // Traduction d'une phrase d'urgence (sera conservée plus longtemps dans le cache)
- * const emergency = await translateText('Où avez-vous mal ?', 'fr', 'en', true);
+ * @constant {Object} BATCH_CONFIG
+ * @property {number} MAX_SEGMENTS - Nombre maximum de textes par requête (limite de l'API v2 : 128)
+ * @property {number} MAX_CHARACTERS - Nombre maximum de caractères par requête
+ * @private
  */
-export const translateText = async (
-  text: string,
+const BATCH_CONFIG = {
+  MAX_SEGMENTS: 100,
+  MAX_CHARACTERS: 5000,
+};
+
+/**
+ * Traductions en cours, indexées par langue source, langue cible et texte
+ *
+ * Permet de regrouper les appels concurrents identiques : un second appel
+ * pour le même texte attend le résultat du premier au lieu de relancer une requête.
+ *
+ * @type {Map<string, Promise<TranslationResult>>}
+ * @private
+ */
+const inFlightTranslations = new Map<string, Promise<TranslationResult>>();
+
+/**
+ * Construit la clé d'une traduction en cours
+ * @private
+ */
+const getInFlightKey = (text: string, sourceLang: string, targetLang: string): string =>
+  `${sourceLang}|${targetLang}|${text}`;
+
+/**
+ * Découpe une liste de textes en lots respectant les limites de `BATCH_CONFIG`
+ *
+ * @function chunkTexts
+ * @param {string[]} texts - Textes à découper
+ * @returns {string[][]} Les lots de textes
+ * @private
+ */
+const chunkTexts = (texts: string[]): string[][] => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  
+  texts.forEach(text => {
+    if (
+      current.length > 0 &&
+      (current.length >= BATCH_CONFIG.MAX_SEGMENTS || currentLength + text.length > BATCH_CONFIG.MAX_CHARACTERS)
+    ) {
+      chunks.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(text);
+    currentLength += text.length;
+  });
+  
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+/**
+ * Construit l'erreur associée à un texte qu'aucun fournisseur n'a traduit
+ *
+ * @function buildProviderFailureError
+ * @param {boolean} isConnected - État de la connexion internet
+ * @param {ProviderFailure[]} failures - Échecs des fournisseurs
+ * @returns {TranslationError} L'erreur à retourner
+ * @private
+ */
+const buildProviderFailureError = (isConnected: boolean, failures: ProviderFailure[]): TranslationError => {
+  if (!isConnected) {
+    return {
+      type: TranslationErrorType.NETWORK_ERROR,
+      message: 'Pas de connexion internet et aucune traduction hors ligne disponible'
+    };
+  }
+  
+  // Remonter l'erreur du fournisseur le plus prioritaire ayant échoué
+  if (failures.length > 0) {
+    return failures[0].error;
+  }
+  
+  return {
+    type: TranslationErrorType.API_ERROR,
+    message: 'Aucun fournisseur de traduction configuré (clé API ou serveur local manquant)'
+  };
+};
+
+/**
+ * Enregistre dans le cache les traductions réussies d'un lot
+ *
+ * Les traductions sont regroupées selon qu'elles sont des phrases d'urgence,
+ * soit au plus deux écritures du cache par lot ; les traductions déjà en
+ * cache voient leurs statistiques d'utilisation mises à jour.
+ *
+ * @async
+ * @function storeResultsInCache
+ * @param {string[]} texts - Textes du lot à enregistrer
+ * @param {Map<string, TranslationResult>} results - Résultats indexés par texte
+ * @returns {Promise<void>}
+ * @private
+ */
+const storeResultsInCache = async (texts: string[], results: Map<string, TranslationResult>): Promise<void> => {
+  const groups = new Map<boolean, Pick<TranslationCacheEntry, 'text' | 'translation' | 'sourceLang' | 'targetLang'>[]>();
+  for (const text of texts) {
+    const result = results.get(text);
+    if (!result || result.error) continue;
+    const group = groups.get(result.isEmergencyPhrase) ?? [];
+    group.push({ text, translation: result.text, sourceLang: result.sourceLang, targetLang: result.targetLang });
+    groups.set(result.isEmergencyPhrase, group);
+  }
+  for (const [isEmergencyPhrase, translations] of groups) {
+    await storeTranslationsInCache(translations, isEmergencyPhrase);
+  }
+};
+
+/**
+ * Fournisseur du catalogue de phrases, consulté avant le cache
+ * @constant {PhrasebookTranslationProvider}
+ * @private
+ */
+const phrasebookProvider = new PhrasebookTranslationProvider();
+
+/**
+ * Résout la traduction d'une liste de textes distincts
+ *
+ * Les traductions vérifiées (validées ou corrigées par une personne, puis
+ * celles du catalogue de phrases) sont toujours prioritaires. Les traductions
+ * saisies pour une phrase personnalisée sont reprises sans être marquées
+ * comme vérifiées. Vérifie ensuite
+ * le cache pour chaque texte, envoie les textes manquants aux fournisseurs par
+ * lots, puis enregistre les traductions obtenues dans le cache.
+ *
+ * @async
+ * @function resolveTranslations
+ * @returns {Promise<Map<string, TranslationResult>>} Les résultats indexés par texte
+ * @private
+ */
+const resolveTranslations = async (
+  texts: string[],
   sourceLang: string,
   targetLang: string,
-  isEmergencyPhrase: boolean = false
-): Promise<string> => {
-  if (!text) return '';
+  isEmergencyPhrase: boolean
+): Promise<Map<string, TranslationResult>> => {
+  const results = new Map<string, TranslationResult>();
+  const createResult = (text: string): TranslationResult => ({
+    text: '',
+    source: text,
+    sourceLang,
+    targetLang,
+    provider: null,
+    fromCache: false,
+    isEmergencyPhrase,
+    isVerified: false
+  });
   
   try {
-    // Si les langues source et cible sont identiques, retourner le texte original
-    if (sourceLang === targetLang) {
-      return text;
-    }
-    
-    // Essayer de rÃ©cupÃ©rer la traduction du cache d'abord
-    const cachedTranslation = await getTranslationFromCache(text, sourceLang, targetLang);
-    if (cachedTranslation) {
-      console.log('Using cached translation');
-      return cachedTranslation;
-    }
+    await translationVerificationService.initialize();
     
-    // VÃ©rifier la connexion internet
-    const netInfo = await NetInfo.fetch();
-    const isConnected = netInfo.isConnected;
-    
-    // VÃ©rifier d'abord si nous avons une traduction prÃ©dÃ©finie pour les phrases d'urgence courantes
-    if (DEMO_TRANSLATIONS[text] && DEMO_TRANSLATIONS[text][targetLang]) {
-      const translation = DEMO_TRANSLATIONS[text][targetLang];
-      // Stocker la traduction dans le cache pour une utilisation future
-      await storeTranslationInCache(text, translation, sourceLang, targetLang, true); // MarquÃ© comme phrase d'urgence
-      return translation;
-    }
-    
-    // Si hors ligne, retourner un message d'erreur
-    if (!isConnected) {
-      return `[Pas de connexion internet - Traduction indisponible]`;
-    }
+    // Lire le cache une seule fois pour tout le lot
+    const cachedTranslations = await getTranslationsFromCache(texts, sourceLang, targetLang);
     
-    // Utiliser une véritable API de traduction
-    let translation = '';
-    try {
-      // Utiliser l'API Google Cloud Translation avec la clé sécurisée
-      const apiKey = getGoogleCloudApiKey();
-      if (!apiKey) {
-        console.warn('Clé API non configurée, utilisation du mode démo');
-        return `[${targetLang}] ${text}`;
+    // Vérifier les traductions vérifiées puis le cache pour chaque texte
+    const hits: string[] = [];
+    const misses: string[] = [];
+    for (const text of texts) {
+      const verification = translationVerificationService.getVerification(text, sourceLang, targetLang);
+      if (verification) {
+        results.set(text, {
+          ...createResult(text),
+          text: verification.translation,
+          provider: 'verified',
+          isVerified: true,
+          verification
+        });
+        continue;
       }
-      const apiUrl = `https://translation.googleapis.com/language/translate/v2?key=${apiKey}`;
       
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          q: text,
-          source: sourceLang,
-          target: targetLang,
-          format: 'text'
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
+      const catalogTranslation = await phrasebookProvider.translate(text, sourceLang, targetLang);
+      if (catalogTranslation) {
+        results.set(text, {
+          ...createResult(text),
+          text: catalogTranslation,
+          provider: phrasebookProvider.id,
+          isEmergencyPhrase: true,
+          isVerified: !phraseRepository.findByText(text)?.isCustom
+        });
+        continue;
       }
       
-      const data = await response.json();
-      translation = data.data.translations[0].translatedText;
-      
-      // Si l'API n'est pas configurée, utiliser une simulation pour la démonstration
-      if (!translation) {
-        console.log('API key not configured, using demo translation');
-        translation = `[${targetLang}] ${text}`;
+      const cachedTranslation = cachedTranslations.get(text);
+      if (cachedTranslation) {
+        results.set(text, { ...createResult(text), text: cachedTranslation, fromCache: true });
+        hits.push(text);
+      } else {
+        misses.push(text);
       }
-    } catch (error) {
-      console.error('Translation API error:', error);
-      // Fallback en cas d'erreur d'API
-      translation = `[${targetLang}] ${text}`;  // Simulation pour la démo
     }
     
-    // Stocker la traduction dans le cache
-    await storeTranslationInCache(text, translation, sourceLang, targetLang, isEmergencyPhrase);
+    if (misses.length === 0) {
+      await storeResultsInCache(hits, results);
+      return results;
+    }
     
-    return translation;
+    // Vérifier la connexion internet
+    const netInfo = await NetInfo.fetch();
+    const isConnected = !!netInfo.isConnected;
+    
+    // Interroger les fournisseurs par ordre de priorité (phrasier, serveur local, Google...), lot par lot
+    for (const chunk of chunkTexts(misses)) {
+      const { results: chunkResults, failures } = await translationProviderRegistry.translateBatch(
+        chunk,
+        sourceLang,
+        targetLang,
+        isConnected
+      );
+      
+      chunk.forEach((text, index) => {
+        const providerResult = chunkResults[index];
+        if (!providerResult) {
+          results.set(text, { ...createResult(text), error: buildProviderFailureError(isConnected, failures) });
+          return;
+        }
+        
+        results.set(text, {
+          ...createResult(text),
+          text: providerResult.translation,
+          provider: providerResult.providerId,
+          // Les traductions hors ligne (phrasier, packs) sont marquées comme phrases d'urgence dans le cache
+          isEmergencyPhrase: isEmergencyPhrase || !providerResult.requiresNetwork
+        });
+      });
+    }
+    
+    // Stocker les nouvelles traductions et l'utilisation des traductions du cache en une seule fois
+    await storeResultsInCache([...hits, ...misses], results);
   } catch (error) {
     console.error('Error in translation:', error);
-    return `[Erreur de traduction]`;
+    texts.filter(text => !results.has(text)).forEach(text => {
+      results.set(text, {
+        ...createResult(text),
+        error: {
+          type: TranslationErrorType.UNKNOWN_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+          details: error
+        }
+      });
+    });
   }
+  
+  return results;
 };
 
 /**
- * Dictionnaire de traductions prédéfinies pour les phrases courantes
+ * Traduit plusieurs textes et retourne un résultat structuré par texte
  *
- * Ces traductions sont utilisées en priorité pour éviter les appels API
- * et garantir des traductions de qualité pour les phrases d'urgence.
+ * Chaque texte est d'abord cherché dans le cache ; seuls les textes manquants
+ * sont envoyés aux fournisseurs, regroupés en requêtes de taille limitée.
+ * Les appels concurrents portant sur un même texte sont fusionnés, et toutes
+ * les traductions obtenues sont enregistrées dans le cache.
  *
- * @constant {Record<string, Record<string, string>>}
- * @private
+ * @async
+ * @function translateBatch
+ * @param {string[]} texts - Les textes à traduire
+ * @param {string} sourceLang - Code de la langue source (ex: 'fr', 'en')
+ * @param {string} targetLang - Code de la langue cible (ex: 'en', 'es')
+ * @param {boolean} [isEmergencyPhrase=false] - Indique si ce sont des phrases d'urgence (priorité dans le cache)
+ * @returns {Promise<TranslationResult[]>} Les résultats, dans l'ordre des textes
+ *
+ * @example
+ * const results = await translateBatch(['Bonjour', 'Merci'], 'fr', 'en');
+ * results.forEach(result => console.log(result.error ? result.error.type : result.text));
  */
-const DEMO_TRANSLATIONS: Record<string, Record<string, string>> = {
-  'fr': {
-    'en': 'English',
-    'es': 'EspaÃ±ol',
-    'de': 'Deutsch',
-    'it': 'Italiano',
-    'ar': 'Ø§Ù„Ø¹Ø±Ø¨ÙŠØ©',
-    'zh': 'ä¸­æ–‡',
-    'ru': 'Ð ÑƒÑ�Ñ�ÐºÐ¸Ð¹'
-  },
-  'OÃ¹ avez-vous mal ?': {
-    'en': 'Where does it hurt?',
-    'es': 'Â¿DÃ³nde le duele?',
-    'de': 'Wo haben Sie Schmerzen?',
-    'it': 'Dove le fa male?',
-    'ar': 'Ø£ÙŠÙ† ÙŠØ¤Ù„Ù…ÙƒØŸ',
-    'zh': 'å“ªé‡Œç–¼ï¼Ÿ',
-    'ru': 'Ð“Ð´Ðµ Ñƒ Ð²Ð°Ñ� Ð±Ð¾Ð»Ð¸Ñ‚?'
-  },
-  'Avez-vous des difficultÃ©s Ã  respirer ?': {
-    'en': 'Do you have trouble breathing?',
-    'es': 'Â¿Tiene dificultad para respirar?',
-    'de': 'Haben Sie Schwierigkeiten beim Atmen?',
-    'it': 'Ha difficoltÃ  a respirare?',
-    'ar': 'Ù‡Ù„ ØªØ¬Ø¯ ØµØ¹ÙˆØ¨Ø© Ù�ÙŠ Ø§Ù„ØªÙ†Ù�Ø³ØŸ',
-    'zh': 'æ‚¨å‘¼å�¸å›°éš¾å�—ï¼Ÿ',
-    'ru': 'Ð£ Ð²Ð°Ñ� ÐµÑ�Ñ‚ÑŒ Ð¿Ñ€Ð¾Ð±Ð»ÐµÐ¼Ñ‹ Ñ� Ð´Ñ‹Ñ…Ð°Ð½Ð¸ÐµÐ¼?'
+export const translateBatch = async (
+  texts: string[],
+  sourceLang: string,
+  targetLang: string,
+  isEmergencyPhrase: boolean = false
+): Promise<TranslationResult[]> => {
+  const createResult = (text: string): TranslationResult => ({
+    text: '',
+    source: text,
+    sourceLang,
+    targetLang,
+    provider: null,
+    fromCache: false,
+    isEmergencyPhrase,
+    isVerified: false
+  });
+  
+  // Vérifier que les deux langues sont connues de l'application
+  const unsupportedLang = [sourceLang, targetLang].find(code => !isSupportedLanguage(code));
+  if (unsupportedLang) {
+    return texts.map(text => ({
+      ...createResult(text),
+      error: {
+        type: TranslationErrorType.UNSUPPORTED_LANGUAGE,
+        message: `Langue non supportée: ${unsupportedLang}`
+      }
+    }));
+  }
+  
+  // Si les langues source et cible sont identiques, retourner les textes originaux
+  if (sourceLang === targetLang) {
+    return texts.map(text => ({ ...createResult(text), text }));
   }
+  
+  // Séparer les textes déjà en cours de traduction de ceux à traiter par cet appel
+  const uniqueTexts = Array.from(new Set(texts.filter(Boolean)));
+  const pending = new Map<string, Promise<TranslationResult>>();
+  const ownTexts: string[] = [];
+  
+  uniqueTexts.forEach(text => {
+    const inFlight = inFlightTranslations.get(getInFlightKey(text, sourceLang, targetLang));
+    if (inFlight) {
+      pending.set(text, inFlight);
+    } else {
+      ownTexts.push(text);
+    }
+  });
+  
+  if (ownTexts.length > 0) {
+    const resolution = resolveTranslations(ownTexts, sourceLang, targetLang, isEmergencyPhrase);
+    ownTexts.forEach(text => {
+      const key = getInFlightKey(text, sourceLang, targetLang);
+      const promise = resolution.then(results => results.get(text) ?? createResult(text));
+      inFlightTranslations.set(key, promise);
+      pending.set(text, promise);
+      promise.then(() => inFlightTranslations.delete(key));
+    });
+  }
+  
+  const resolved = new Map<string, TranslationResult>();
+  await Promise.all(
+    Array.from(pending.entries()).map(async ([text, promise]) => {
+      resolved.set(text, await promise);
+    })
+  );
+  
+  return texts.map(text => resolved.get(text) ?? createResult(text));
+};
+
+/**
+ * Traduit un texte et retourne un résultat structuré
+ *
+ * Cette fonction vérifie d'abord le cache local, puis interroge les fournisseurs
+ * de traduction enregistrés par ordre de priorité (phrasier hors ligne, serveur
+ * local, API Google Cloud Translation...). Les échecs sont décrits par le champ
+ * `error` du résultat plutôt que par un message dans le texte traduit.
+ *
+ * @async
+ * @function translateTextWithResult
+ * @param {string} text - Le texte à traduire
+ * @param {string} sourceLang - Code de la langue source (ex: 'fr', 'en')
+ * @param {string} targetLang - Code de la langue cible (ex: 'en', 'es')
+ * @param {boolean} [isEmergencyPhrase=false] - Indique si c'est une phrase d'urgence (priorité dans le cache)
+ * @returns {Promise<TranslationResult>} Le résultat de la traduction
+ *
+ * @example
+ * const result = await translateTextWithResult('Bonjour', 'fr', 'en');
+ * if (result.error?.type === TranslationErrorType.QUOTA_EXCEEDED) {
+ *   console.log('Quota dépassé');
+ * } else {
+ *   console.log(result.text); // "Hello"
+ * }
+ */
+export const translateTextWithResult = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  isEmergencyPhrase: boolean = false
+): Promise<TranslationResult> => {
+  const [result] = await translateBatch([text], sourceLang, targetLang, isEmergencyPhrase);
+  return result;
 };
 
 /**
- * Liste des phrases d'urgence prédéfinies pour les sapeurs-pompiers
+ * Traduit un texte d'une langue source vers une langue cible
  *
- * Ces phrases sont les plus fréquemment utilisées lors des interventions
- * et sont prioritaires dans le système de cache.
+ * Version simplifiée de `translateTextWithResult` qui ne retourne que le texte.
+ * En cas d'échec, retourne le message d'erreur entre crochets.
  *
- * @constant {Array<{fr: string, translations: object}>}
- * @exports EMERGENCY_PHRASES
+ * @async
+ * @function translateText
+ * @param {string} text - Le texte à traduire
+ * @param {string} sourceLang - Code de la langue source (ex: 'fr', 'en')
+ * @param {string} targetLang - Code de la langue cible (ex: 'en', 'es')
+ * @param {boolean} [isEmergencyPhrase=false] - Indique si c'est une phrase d'urgence (priorité dans le cache)
+ * @returns {Promise<string>} Le texte traduit ou le message d'erreur formaté
+ * @deprecated Utiliser `translateTextWithResult` pour distinguer les erreurs des traductions
+ *
+ * @example
+ * const translation = await translateText('Bonjour', 'fr', 'en');
+ * console.log(translation); // "Hello"
  */
-export const EMERGENCY_PHRASES = [
-  { fr: "OÃ¹ avez-vous mal ?", translations: {} },
-  { fr: "Avez-vous des difficultÃ©s Ã  respirer ?", translations: {} },
-  { fr: "Y a-t-il d'autres personnes Ã  l'intÃ©rieur ?", translations: {} },
-  { fr: "Avez-vous des allergies ou prenez-vous des mÃ©dicaments ?", translations: {} },
-  { fr: "Nous sommes lÃ  pour vous aider.", translations: {} },
-  { fr: "Restez calme, les secours sont lÃ .", translations: {} },
-];
+export const translateText = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  isEmergencyPhrase: boolean = false
+): Promise<string> => {
+  const result = await translateTextWithResult(text, sourceLang, targetLang, isEmergencyPhrase);
+  return result.error ? `[${getTranslationErrorMessage(result.error)}]` : result.text;
+};
+
+// Enregistrer les fournisseurs de traduction intégrés
+translationProviderRegistry.register(phrasebookProvider, PROVIDER_PRIORITIES.PHRASEBOOK);
+translationProviderRegistry.register(new OfflinePackTranslationProvider(), PROVIDER_PRIORITIES.OFFLINE_PACK);
+translationProviderRegistry.register(new LibreTranslateProvider(), PROVIDER_PRIORITIES.LOCAL_SERVER);
+translationProviderRegistry.register(new GoogleTranslationProvider(), PROVIDER_PRIORITIES.GOOGLE);
 
 /**
  * Configuration du système de cache de traduction
@@ -221,6 +520,28 @@ const CACHE_CONFIG = {
  */
 const TRANSLATION_CACHE_KEY = 'translationCache_v1';
 
+/**
+ * File d'attente des lectures-écritures du cache
+ *
+ * Chaque mise à jour relit le cache enregistré puis le réécrit : les exécuter
+ * l'une après l'autre évite qu'une mise à jour en écrase une autre.
+ *
+ * @type {Promise<void>}
+ * @private
+ */
+let cacheWriteQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Ajoute une lecture-écriture du cache à la file d'attente
+ * @private
+ */
+const enqueueCacheWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = cacheWriteQueue.then(task);
+  // La file continue même si une écriture échoue
+  cacheWriteQueue = result.then(() => undefined, () => undefined);
+  return result;
+};
+
 /**
  * Récupère le cache de traduction depuis AsyncStorage
  *
@@ -365,76 +686,76 @@ const cleanupCache = async (cache: TranslationCache): Promise<TranslationCache>
 };
 
 /**
- * Stocke une traduction dans le cache
+ * Stocke plusieurs traductions dans le cache en une seule écriture
  *
- * Met à jour une entrée existante ou en crée une nouvelle.
- * Déclenche le nettoyage si la limite de taille est atteinte.
+ * Met à jour les entrées existantes ou en crée de nouvelles.
+ * Déclenche le nettoyage si la limite de taille est atteinte. Les écritures
+ * du cache sont exécutées l'une après l'autre.
  *
  * @async
- * @function storeTranslationInCache
- * @param {string} text - Le texte original
- * @param {string} translatedText - La traduction
- * @param {string} sourceLang - Code de la langue source
- * @param {string} targetLang - Code de la langue cible
- * @param {boolean} [isEmergencyPhrase=false] - Indique si c'est une phrase d'urgence
+ * @function storeTranslationsInCache
+ * @param {Array<{text: string, translation: string, sourceLang: string, targetLang: string}>} translations - Les traductions à stocker
+ * @param {boolean} [isEmergencyPhrase=false] - Indique si ce sont des phrases d'urgence
  * @returns {Promise<void>}
- * @private
+ *
+ * @example
+ * await storeTranslationsInCache([
+ *   { text: 'Bonjour', translation: 'Hello', sourceLang: 'fr', targetLang: 'en' }
+ * ], true);
  */
-const storeTranslationInCache = async (
-  text: string,
-  translatedText: string,
-  sourceLang: string,
-  targetLang: string,
+export const storeTranslationsInCache = async (
+  translations: Pick<TranslationCacheEntry, 'text' | 'translation' | 'sourceLang' | 'targetLang'>[],
   isEmergencyPhrase: boolean = false
-): Promise<void> => {
+): Promise<void> => enqueueCacheWrite(async () => {
   try {
-    // RÃ©cupÃ©rer le cache existant
+    // Récupérer le cache existant
     const cache = await getTranslationCache();
-    
-    // VÃ©rifier si cette traduction existe dÃ©jÃ 
-    const existingEntryIndex = cache.entries.findIndex(
-      entry => entry.text === text && 
-              entry.sourceLang === sourceLang && 
-              entry.targetLang === targetLang
-    );
-    
     const now = Date.now();
     
-    if (existingEntryIndex >= 0) {
-      // Mettre Ã  jour l'entrÃ©e existante
-      const entry = cache.entries[existingEntryIndex];
-      cache.entries[existingEntryIndex] = {
-        ...entry,
-        translation: translatedText,
-        timestamp: now,
-        useCount: entry.useCount + 1,
-        isEmergencyPhrase: entry.isEmergencyPhrase || isEmergencyPhrase
-      };
-    } else {
-      // Ajouter une nouvelle entrÃ©e
-      cache.entries.push({
-        text,
-        translation: translatedText,
-        sourceLang,
-        targetLang,
-        timestamp: now,
-        useCount: 1,
-        isEmergencyPhrase
-      });
+    translations.forEach(({ text, translation, sourceLang, targetLang }) => {
+      // Vérifier si cette traduction existe déjà
+      const existingEntryIndex = cache.entries.findIndex(
+        entry => entry.text === text && 
+                entry.sourceLang === sourceLang && 
+                entry.targetLang === targetLang
+      );
       
-      // Si le cache dÃ©passe la limite, le nettoyer
-      if (cache.entries.length > cache.sizeLimit) {
-        await cleanupCache(cache);
-        return;
+      if (existingEntryIndex >= 0) {
+        // Mettre à jour l'entrée existante
+        const entry = cache.entries[existingEntryIndex];
+        cache.entries[existingEntryIndex] = {
+          ...entry,
+          translation,
+          timestamp: now,
+          useCount: entry.useCount + 1,
+          isEmergencyPhrase: entry.isEmergencyPhrase || isEmergencyPhrase
+        };
+      } else {
+        // Ajouter une nouvelle entrée
+        cache.entries.push({
+          text,
+          translation,
+          sourceLang,
+          targetLang,
+          timestamp: now,
+          useCount: 1,
+          isEmergencyPhrase
+        });
       }
+    });
+    
+    // Si le cache dépasse la limite, le nettoyer (le nettoyage sauvegarde le cache)
+    if (cache.entries.length > cache.sizeLimit) {
+      await cleanupCache(cache);
+      return;
     }
     
-    // Sauvegarder le cache mis Ã  jour
+    // Sauvegarder le cache mis à jour
     await saveTranslationCache(cache);
   } catch (error) {
     console.error('Error storing translation in cache:', error);
   }
-};
+});
 
 /**
  * Récupère une traduction depuis le cache
@@ -459,7 +780,7 @@ export const getTranslationFromCache = async (
   text: string,
   sourceLang: string,
   targetLang: string
-): Promise<string | null> => {
+): Promise<string | null> => enqueueCacheWrite(async () => {
   try {
     // RÃ©cupÃ©rer le cache
     const cache = await getTranslationCache();
@@ -488,43 +809,51 @@ export const getTranslationFromCache = async (
     console.error('Error retrieving translation from cache:', error);
     return null;
   }
-};
+});
 
 /**
- * Liste des langues supportées par l'application
+ * Récupère les traductions en cache d'une liste de textes
  *
- * Chaque langue est définie par son code ISO 639-1 et son nom en français.
+ * Le cache est lu une seule fois et n'est pas réécrit : les statistiques
+ * d'utilisation sont mises à jour lorsque le lot est enregistré par
+ * `storeTranslationsInCache`.
  *
- * @constant {Array<{code: string, name: string}>}
- * @exports LANGUAGES
+ * @async
+ * @function getTranslationsFromCache
+ * @param {string[]} texts - Les textes originaux à rechercher
+ * @param {string} sourceLang - Code de la langue source
+ * @param {string} targetLang - Code de la langue cible
+ * @returns {Promise<Map<string, string>>} Les traductions trouvées, indexées par texte
+ * @private
  */
-export const LANGUAGES = [
-  { code: 'fr', name: 'Français' },
-  { code: 'en', name: 'Anglais' },
-  { code: 'es', name: 'Espagnol' },
-  { code: 'de', name: 'Allemand' },
-  { code: 'it', name: 'Italien' },
-  { code: 'pt', name: 'Portugais' },
-  { code: 'nl', name: 'Néerlandais' },
-  { code: 'pl', name: 'Polonais' },
-  { code: 'ru', name: 'Russe' },
-  { code: 'ar', name: 'Arabe' },
-  { code: 'zh', name: 'Chinois' },
-  { code: 'ja', name: 'Japonais' },
-  { code: 'ko', name: 'Coréen' },
-  { code: 'tr', name: 'Turc' },
-  { code: 'hi', name: 'Hindi' },
-  { code: 'ro', name: 'Roumain' },
-  { code: 'uk', name: 'Ukrainien' },
-  { code: 'sv', name: 'Suédois' },
-  { code: 'el', name: 'Grec' }
-];
+const getTranslationsFromCache = async (
+  texts: string[],
+  sourceLang: string,
+  targetLang: string
+): Promise<Map<string, string>> => enqueueCacheWrite(async () => {
+  const translations = new Map<string, string>();
+  try {
+    const wanted = new Set(texts);
+    const cache = await getTranslationCache();
+    cache.entries.forEach(entry => {
+      if (entry.sourceLang === sourceLang && entry.targetLang === targetLang && wanted.has(entry.text)) {
+        translations.set(entry.text, decompressTranslationEntry(entry).translation);
+      }
+    });
+  } catch (error) {
+    console.error('Error retrieving translations from cache:', error);
+  }
+  return translations;
+});
 
 /**
  * Télécharge une langue pour une utilisation hors ligne
  *
- * Marque la langue comme téléchargée dans le stockage local.
- * Nécessite une connexion internet.
+ * Installe (ou met à jour) le pack de phrases français → langue cible.
+ * Le pack est vérifié puis stocké sur l'appareil ; ses phrases sont ensuite
+ * traduites sans connexion. Nécessite une connexion internet. Si la langue
+ * n'a pas de voix sur l'appareil, les clips des phrases d'urgence sont
+ * ensuite synthétisés en arrière-plan, sans effet sur le résultat.
  *
  * @async
  * @function downloadLanguage
@@ -539,31 +868,31 @@ export const LANGUAGES = [
  */
 export const downloadLanguage = async (languageCode: string): Promise<boolean> => {
   try {
-    // VÃ©rifier la connexion internet
+    // Vérifier la connexion internet
     const netInfo = await NetInfo.fetch();
     if (!netInfo.isConnected) {
       console.error('Cannot download language without internet connection');
       return false;
     }
     
-    // VÃ©rifier si la langue est valide
-    const isValidLanguage = LANGUAGES.some(lang => lang.code === languageCode);
-    if (!isValidLanguage) {
+    // Vérifier que la langue dispose d'un pack hors ligne
+    if (!getLanguage(languageCode)?.capabilities.offlinePack) {
       console.error(`Invalid language code: ${languageCode}`);
       return false;
     }
     
-    // Stocker la langue comme tÃ©lÃ©chargÃ©e
-    const downloadedLanguagesJson = await AsyncStorage.getItem('downloadedLanguages');
-    const downloadedLanguages: string[] = downloadedLanguagesJson 
-      ? JSON.parse(downloadedLanguagesJson) 
-      : [];
-    
-    if (!downloadedLanguages.includes(languageCode)) {
-      downloadedLanguages.push(languageCode);
-      await AsyncStorage.setItem('downloadedLanguages', JSON.stringify(downloadedLanguages));
+    // Télécharger et installer le pack de phrases
+    const installedPack = await phrasebookPackService.installPack('fr', languageCode);
+    if (!installedPack) {
+      return false;
     }
     
+    // Sans voix installée sur l'appareil, préparer en arrière-plan la lecture hors ligne
+    // des phrases d'urgence ; le téléchargement du pack ne dépend pas de la synthèse
+    ttsService.hasDeviceVoice(languageCode)
+      .then(hasVoice => (hasVoice ? 0 : synthesizeEmergencyPhrases(languageCode)))
+      .catch(error => console.error(`Error preparing emergency clips for ${languageCode}:`, error));
+    
     console.log(`Language ${languageCode} downloaded successfully`);
     return true;
   } catch (error) {
@@ -572,6 +901,42 @@ export const downloadLanguage = async (languageCode: string): Promise<boolean> =
   }
 };
 
+/**
+ * Synthétise les phrases d'urgence du catalogue pour une lecture hors ligne
+ *
+ * Les phrases sont traduites (traductions vérifiées, catalogue, pack ou
+ * fournisseurs en ligne) puis synthétisées par le moteur vocal de secours ;
+ * les clips audio sont conservés sur l'appareil. Un échec n'est pas bloquant.
+ *
+ * @async
+ * @function synthesizeEmergencyPhrases
+ * @param {string} languageCode - Code ISO 639-1 de la langue (ex: 'uk')
+ * @param {Function} [onProgress] - Appelée après chaque phrase avec (traitées, total)
+ * @returns {Promise<number>} Le nombre de phrases disponibles hors ligne
+ *
+ * @example
+ * const count = await synthesizeEmergencyPhrases('uk');
+ * console.log(`${count} phrases prêtes hors ligne`);
+ */
+export const synthesizeEmergencyPhrases = async (
+  languageCode: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<number> => {
+  try {
+    await phraseRepository.initialize();
+    const phrases = phraseRepository.query().map(phrase => phrase.fr);
+    const results = await translateBatch(phrases, 'fr', languageCode, true);
+    const translations = results.filter(result => !result.error && result.text).map(result => result.text);
+    
+    const count = await ttsService.precacheSpeech(translations, languageCode, onProgress);
+    console.log(`${count} emergency phrases synthesized for ${languageCode}`);
+    return count;
+  } catch (error) {
+    console.error(`Error synthesizing emergency phrases for ${languageCode}:`, error);
+    return 0;
+  }
+};
+
 /**
  * Obtient des statistiques détaillées sur le cache de traduction
  *
@@ -719,7 +1084,7 @@ export const forceStorageOptimization = async (): Promise<{
  *   console.log('Cache effacé avec succès');
  * }
  */
-export const clearTranslationCache = async (): Promise<boolean> => {
+export const clearTranslationCache = async (): Promise<boolean> => enqueueCacheWrite(async () => {
   try {
     // Créer un nouveau cache vide
     const emptyCache: TranslationCache = {
@@ -737,7 +1102,7 @@ export const clearTranslationCache = async (): Promise<boolean> => {
     console.error('Error clearing translation cache:', error);
     return false;
   }
-};
+});
 
 /**
  * Définit la limite de taille du cache de traduction
@@ -754,7 +1119,7 @@ export const clearTranslationCache = async (): Promise<boolean> => {
  * @example
  * await setTranslationCacheLimit(1000);
  */
-export const setTranslationCacheLimit = async (limit: number): Promise<boolean> => {
+export const setTranslationCacheLimit = async (limit: number): Promise<boolean> => enqueueCacheWrite(async () => {
   try {
     if (limit < 0) {
       throw new Error('La limite du cache doit être un nombre positif');
@@ -784,4 +1149,4 @@ export const setTranslationCacheLimit = async (limit: number): Promise<boolean>
     console.error('Error setting translation cache limit:', error);
     return false;
   }
-};
+});
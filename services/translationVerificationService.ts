@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Service de vérification manuelle des traductions
+ *
+ * Ce service conserve les traductions validées par une personne (interprète,
+ * référent langue du centre de secours) ainsi que les corrections apportées
+ * aux traductions automatiques signalées comme fausses. Le service de
+ * traduction consulte ces vérifications avant le cache et les fournisseurs.
+ *
+ * @module services/translationVerificationService
+ * @requires @react-native-async-storage/async-storage
+ * @requires ./phraseRepository
+ * @requires ./types
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { normalizePhraseText } from './phraseRepository';
+import { VerifiedTranslation } from './types';
+
+/**
+ * Clés de stockage AsyncStorage
+ *
+ * @constant {Object} STORAGE_KEYS
+ * @property {string} VERIFICATIONS - Traductions vérifiées
+ * @property {string} LAST_VERIFIER - Dernier nom de vérificateur saisi
+ * @private
+ */
+const STORAGE_KEYS = {
+  VERIFICATIONS: 'verifiedTranslations_v1',
+  LAST_VERIFIER: 'lastTranslationVerifier',
+};
+
+/**
+ * Construit la clé d'une vérification
+ * @private
+ */
+const getVerificationKey = (text: string, sourceLang: string, targetLang: string): string =>
+  `${sourceLang}|${targetLang}|${normalizePhraseText(text)}`;
+
+/**
+ * Service singleton de gestion des traductions vérifiées
+ *
+ * @class TranslationVerificationService
+ * @example
+ * // Valider une traduction automatique
+ * await translationVerificationService.verify('Où avez-vous mal ?', 'fr', 'tr', 'Neresi ağrıyor?', 'Sgt. Martin');
+ *
+ * // Corriger une traduction automatique fausse
+ * await translationVerificationService.correct('Restez allongé', 'fr', 'en', 'Stay long', 'Stay lying down', 'Sgt. Martin');
+ */
+class TranslationVerificationService {
+  private verifications = new Map<string, VerifiedTranslation>();
+  private lastVerifierName = '';
+  private listeners = new Set<() => void>();
+  private loadingPromise: Promise<void> | null = null;
+
+  /**
+   * Charge les vérifications depuis AsyncStorage
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.loadVerifications();
+    }
+    return this.loadingPromise;
+  }
+
+  /**
+   * Abonne une fonction aux modifications des vérifications
+   *
+   * @param {Function} listener - Fonction appelée après chaque modification
+   * @returns {Function} Fonction de désabonnement
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Retourne la vérification d'une traduction
+   *
+   * @param {string} text - Texte original
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @returns {VerifiedTranslation|undefined} La vérification ou undefined si la traduction n'a pas été vérifiée
+   */
+  getVerification(text: string, sourceLang: string, targetLang: string): VerifiedTranslation | undefined {
+    return this.verifications.get(getVerificationKey(text, sourceLang, targetLang));
+  }
+
+  /**
+   * Retourne toutes les vérifications, de la plus récente à la plus ancienne
+   *
+   * @returns {VerifiedTranslation[]} Les vérifications
+   */
+  getAll(): VerifiedTranslation[] {
+    return Array.from(this.verifications.values()).sort((a, b) => b.verifiedAt - a.verifiedAt);
+  }
+
+  /**
+   * Retourne le dernier nom de vérificateur saisi (pour préremplir les formulaires)
+   *
+   * @returns {string} Le nom ou une chaîne vide
+   */
+  getLastVerifierName(): string {
+    return this.lastVerifierName;
+  }
+
+  /**
+   * Marque une traduction comme vérifiée
+   *
+   * @async
+   * @param {string} text - Texte original
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @param {string} translation - Traduction validée
+   * @param {string} verifiedBy - Nom de la personne qui valide
+   * @returns {Promise<VerifiedTranslation|null>} La vérification enregistrée ou null en cas d'échec
+   */
+  async verify(
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    translation: string,
+    verifiedBy: string
+  ): Promise<VerifiedTranslation | null> {
+    return this.saveVerification({
+      sourceText: text.trim(),
+      sourceLang,
+      targetLang,
+      translation: translation.trim(),
+      verifiedBy: verifiedBy.trim(),
+      verifiedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Signale une traduction automatique comme fausse et enregistre sa correction
+   *
+   * @async
+   * @param {string} text - Texte original
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @param {string} incorrectTranslation - Traduction automatique signalée
+   * @param {string} correction - Traduction corrigée
+   * @param {string} correctedBy - Nom de la personne qui corrige
+   * @returns {Promise<VerifiedTranslation|null>} La vérification enregistrée ou null en cas d'échec
+   */
+  async correct(
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    incorrectTranslation: string,
+    correction: string,
+    correctedBy: string
+  ): Promise<VerifiedTranslation | null> {
+    return this.saveVerification({
+      sourceText: text.trim(),
+      sourceLang,
+      targetLang,
+      translation: correction.trim(),
+      verifiedBy: correctedBy.trim(),
+      verifiedAt: Date.now(),
+      correctedFrom: incorrectTranslation,
+    });
+  }
+
+  /**
+   * Supprime la vérification d'une traduction
+   *
+   * @async
+   * @param {string} text - Texte original
+   * @param {string} sourceLang - Langue source
+   * @param {string} targetLang - Langue cible
+   * @returns {Promise<boolean>} true si la suppression a été enregistrée
+   */
+  async remove(text: string, sourceLang: string, targetLang: string): Promise<boolean> {
+    await this.initialize();
+    if (!this.verifications.delete(getVerificationKey(text, sourceLang, targetLang))) {
+      return false;
+    }
+    return this.persist();
+  }
+
+  /**
+   * Valide et enregistre une vérification
+   * @private
+   */
+  private async saveVerification(verification: VerifiedTranslation): Promise<VerifiedTranslation | null> {
+    await this.initialize();
+    if (!verification.sourceText || !verification.translation || !verification.verifiedBy) {
+      console.error('Invalid translation verification: text, translation and verifier are required');
+      return null;
+    }
+
+    const { sourceText, sourceLang, targetLang } = verification;
+    this.verifications.set(getVerificationKey(sourceText, sourceLang, targetLang), verification);
+    this.lastVerifierName = verification.verifiedBy;
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.LAST_VERIFIER, this.lastVerifierName);
+    } catch (error) {
+      console.error('Error saving verifier name:', error);
+    }
+    return (await this.persist()) ? verification : null;
+  }
+
+  /**
+   * Charge les vérifications et le dernier vérificateur
+   * @private
+   */
+  private async loadVerifications(): Promise<void> {
+    try {
+      const [verificationsJson, lastVerifier] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEYS.VERIFICATIONS),
+        AsyncStorage.getItem(STORAGE_KEYS.LAST_VERIFIER),
+      ]);
+      const stored: VerifiedTranslation[] = verificationsJson ? JSON.parse(verificationsJson) : [];
+      stored.forEach(verification => {
+        const { sourceText, sourceLang, targetLang } = verification;
+        this.verifications.set(getVerificationKey(sourceText, sourceLang, targetLang), verification);
+      });
+      this.lastVerifierName = lastVerifier || '';
+      this.notify();
+    } catch (error) {
+      console.error('Error loading verified translations:', error);
+    }
+  }
+
+  /**
+   * Enregistre les vérifications et notifie les abonnés
+   * @private
+   */
+  private async persist(): Promise<boolean> {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.VERIFICATIONS, JSON.stringify(this.getAll()));
+      return true;
+    } catch (error) {
+      console.error('Error saving verified translations:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Notifie les abonnés d'une modification
+   * @private
+   */
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Instance singleton du service de vérification des traductions
+ * @constant {TranslationVerificationService}
+ */
+export const translationVerificationService = new TranslationVerificationService();
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Questionnaires de bilan guidés (SAMPLE, OPQRST)
+ *
+ * Ce module charge tous les questionnaires décrits dans les fichiers JSON de
+ * `assets/triage`, maintenus par le médecin-chef sans toucher au code : un
+ * fichier ajouté ou modifié est intégré à la prochaine version de l'application.
+ * Chaque question reprend une phrase du catalogue ou porte son propre texte
+ * et ses traductions ; la question suivante dépend de la réponse de la
+ * victime. À la fin, les réponses sont résumées en français.
+ *
+ * @module services/triageService
+ * @requires ./languageRegistry
+ * @requires ./phraseAnswerService
+ * @requires ./phraseRepository
+ * @requires ./translationService
+ * @requires ./types
+ */
+
+/// <reference types="expo/types" />
+
+import { toLanguageCode } from './languageRegistry';
+import { describeAnswerMeaning } from './phraseAnswerService';
+import { phraseRepository } from './phraseRepository';
+import { translateTextWithResult } from './translationService';
+import { Phrase, PhraseAnswer, TriageAnswerRecord, TriageBranch, TriageFlow, TriageQuestion } from './types';
+
+/**
+ * Version du format des fichiers de questionnaire prise en charge
+ * @constant {number}
+ */
+export const TRIAGE_FORMAT_VERSION = 1;
+
+/**
+ * Catégorie des phrases construites à partir des questions écrites dans un questionnaire
+ * @constant {string}
+ * @private
+ */
+const TRIAGE_CATEGORY = 'triage';
+
+/**
+ * Fichiers de questionnaire livrés avec l'application (tous les fichiers JSON de `assets/triage`)
+ * @constant {TriageFlow[]}
+ * @private
+ */
+const FLOW_FILES: TriageFlow[] = (() => {
+  const files = require.context('../assets/triage', false, /\.json$/);
+  return files.keys().map(key => files<TriageFlow>(key));
+})();
+
+/**
+ * Vérifie un questionnaire avant de le proposer
+ *
+ * @function validateTriageFlow
+ * @param {TriageFlow} flow - Questionnaire lu dans un fichier
+ * @returns {string[]} Les problèmes détectés, en français (vide si le questionnaire est valide)
+ */
+export const validateTriageFlow = (flow: TriageFlow): string[] => {
+  if (!flow.id || !Array.isArray(flow.questions)) {
+    return ['Fichier de questionnaire invalide : identifiant ou questions manquants'];
+  }
+
+  const problems: string[] = [];
+  const ids = new Set(flow.questions.map(question => question.id));
+
+  if (flow.formatVersion !== TRIAGE_FORMAT_VERSION) {
+    problems.push(`Version de format non prise en charge : ${flow.formatVersion}`);
+  }
+  if (ids.size !== flow.questions.length) {
+    problems.push('Identifiants de question en double');
+  }
+  if (!ids.has(flow.start)) {
+    problems.push(`Première question introuvable : ${flow.start}`);
+  }
+
+  for (const question of flow.questions) {
+    if (!resolveTriagePhrase(flow, question)?.answerType) {
+      problems.push(`Question ${question.id} : phrase introuvable ou type de réponse manquant`);
+    }
+    const targets = [question.next, ...(question.branches ?? []).map(branch => branch.next)];
+    for (const target of targets) {
+      if (target && !ids.has(target)) {
+        problems.push(`Question ${question.id} : question suivante introuvable (${target})`);
+      }
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Retourne les questionnaires valides
+ *
+ * Les questionnaires invalides sont écartés et leurs problèmes journalisés.
+ *
+ * @function getTriageFlows
+ * @returns {TriageFlow[]} Les questionnaires disponibles
+ */
+export const getTriageFlows = (): TriageFlow[] =>
+  FLOW_FILES.filter(flow => {
+    const problems = validateTriageFlow(flow);
+    if (problems.length > 0) {
+      console.warn(`Invalid triage flow ${flow.id}:`, problems);
+    }
+    return problems.length === 0;
+  });
+
+/**
+ * Retourne une question d'un questionnaire
+ *
+ * @function getTriageQuestion
+ * @param {TriageFlow} flow - Questionnaire
+ * @param {string} questionId - Identifiant de la question
+ * @returns {TriageQuestion|undefined} La question, ou undefined si elle n'existe pas
+ */
+export const getTriageQuestion = (flow: TriageFlow, questionId: string): TriageQuestion | undefined =>
+  flow.questions.find(question => question.id === questionId);
+
+/**
+ * Retourne la phrase posée pour une question
+ *
+ * La phrase du catalogue est reprise telle quelle (le type de réponse du
+ * questionnaire l'emporte s'il est renseigné) ; une question écrite dans le
+ * questionnaire devient une phrase de la catégorie 'triage'.
+ *
+ * @function resolveTriagePhrase
+ * @param {TriageFlow} flow - Questionnaire
+ * @param {TriageQuestion} question - Question du questionnaire
+ * @returns {Phrase|undefined} La phrase, ou undefined si la phrase du catalogue n'existe pas
+ */
+export const resolveTriagePhrase = (flow: TriageFlow, question: TriageQuestion): Phrase | undefined => {
+  if (question.phraseId) {
+    const phrase = phraseRepository.getById(question.phraseId);
+    return phrase && { ...phrase, answerType: question.answerType ?? phrase.answerType };
+  }
+  if (!question.fr) {
+    return undefined;
+  }
+  return {
+    id: `${TRIAGE_CATEGORY}.${flow.id}.${question.id}`,
+    category: TRIAGE_CATEGORY,
+    fr: question.fr,
+    translations: question.translations ?? {},
+    tags: [],
+    answerType: question.answerType,
+  };
+};
+
+/**
+ * Retourne le texte d'une question dans la langue de la victime
+ *
+ * Une question écrite dans le questionnaire utilise d'abord ses propres
+ * traductions. Une phrase du catalogue passe par le service de traduction
+ * (traductions vérifiées ou corrigées, catalogue, cache, fournisseurs), tout
+ * comme une question du questionnaire non traduite dans cette langue.
+ *
+ * @function translateTriagePhrase
+ * @param {TriageQuestion} question - Question du questionnaire
+ * @param {Phrase} phrase - Phrase posée
+ * @param {string} language - Code de langue de la victime
+ * @returns {Promise<string|null>} La question traduite, ou null si la traduction a échoué
+ */
+export const translateTriagePhrase = async (
+  question: TriageQuestion,
+  phrase: Phrase,
+  language: string
+): Promise<string | null> => {
+  const translation = question.phraseId ? undefined : question.translations?.[toLanguageCode(language) ?? language];
+  if (translation) {
+    return translation;
+  }
+  const result = await translateTextWithResult(phrase.fr, 'fr', language, true);
+  return result.error ? null : result.text;
+};
+
+/**
+ * Indique si une règle de branchement s'applique à une réponse
+ *
+ * @function matchesBranch
+ * @param {TriageBranch} branch - Règle de branchement
+ * @param {PhraseAnswer} answer - Réponse de la victime
+ * @returns {boolean} true si la règle s'applique
+ * @private
+ */
+const matchesBranch = (branch: TriageBranch, answer: PhraseAnswer): boolean => {
+  switch (answer.type) {
+    case 'yes-no':
+      return branch.answer === answer.value;
+    case 'number':
+    case 'pain-scale':
+      return branch.answer === undefined
+        && (branch.min !== undefined || branch.max !== undefined)
+        && (branch.min === undefined || answer.value >= branch.min)
+        && (branch.max === undefined || answer.value <= branch.max);
+    case 'body-map':
+      return false;
+  }
+};
+
+/**
+ * Retourne la question suivante selon la réponse
+ *
+ * La première règle de branchement qui s'applique l'emporte ; sinon, la
+ * question suivante par défaut est posée.
+ *
+ * @function getNextQuestionId
+ * @param {TriageQuestion} question - Question à laquelle la victime a répondu
+ * @param {PhraseAnswer} answer - Réponse de la victime
+ * @returns {string|null} L'identifiant de la question suivante, ou null si le bilan est terminé
+ *
+ * @example
+ * // { branches: [{ answer: 'yes', next: 'unconscious-minutes' }], next: 'allergies' }
+ * getNextQuestionId(question, { type: 'yes-no', value: 'yes' }); // 'unconscious-minutes'
+ */
+export const getNextQuestionId = (question: TriageQuestion, answer: PhraseAnswer): string | null => {
+  const branch = question.branches?.find(candidate => matchesBranch(candidate, answer));
+  return (branch ? branch.next : question.next) ?? null;
+};
+
+/**
+ * Résume un bilan en français
+ *
+ * @function buildTriageSummary
+ * @param {TriageFlow} flow - Questionnaire suivi
+ * @param {TriageAnswerRecord[]} records - Réponses recueillies, dans l'ordre
+ * @returns {string} Le résumé, une ligne par réponse (ex: '- Perte de connaissance : Non')
+ */
+export const buildTriageSummary = (flow: TriageFlow, records: TriageAnswerRecord[]): string =>
+  [
+    flow.title,
+    ...records.map(record => `- ${record.question.label} : ${describeAnswerMeaning(record.answer)}`),
+  ].join('\n');
@@ -0,0 +1,517 @@
+/**
+ * @fileoverview Moteurs de synthèse vocale
+ *
+ * Ce module fournit les implémentations du contrat `TtsEngine` : le moteur
+ * natif basé sur `react-native-tts` (synthèse du système Android/iOS), le
+ * moteur Web Speech des navigateurs, un moteur en ligne dont les clips audio
+ * sont conservés sur l'appareil pour être rejoués hors ligne, et un moteur
+ * factice qui simule la durée de lecture, utilisé en démonstration et dans
+ * les tests.
+ *
+ * @module services/ttsEngines
+ * @requires @react-native-community/netinfo
+ * @requires expo-av
+ * @requires expo-file-system
+ * @requires react-native
+ * @requires react-native-tts
+ * @requires ../config
+ * @requires ./types
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import type { ReactNativeTts, Voice as NativeVoice } from 'react-native-tts';
+import { CLOUD_TTS_URL, getGoogleCloudApiKey } from '../config';
+import { TtsEngine, TtsSpeakOptions, TtsVoice } from './types';
+
+/**
+ * Qualité minimale d'une voix native considérée comme améliorée
+ *
+ * Les deux plateformes utilisent l'échelle Android : 300 (normale),
+ * 400 (haute), 500 (très haute ou voix améliorée iOS).
+ *
+ * @constant {number}
+ * @private
+ */
+const ENHANCED_VOICE_QUALITY = 400;
+
+/**
+ * Délai d'attente du chargement des voix du navigateur (en ms)
+ * @constant {number}
+ * @private
+ */
+const WEB_VOICES_TIMEOUT = 1000;
+
+/**
+ * Dossier des clips audio synthétisés en ligne (un sous-dossier par locale)
+ * @constant {string}
+ * @private
+ */
+const CLOUD_CLIP_DIRECTORY = `${FileSystem.documentDirectory}tts-clips/`;
+
+// Le module natif n'est chargé que sur mobile : il n'existe pas sur le web
+let nativeTts: ReactNativeTts | null = null;
+if (Platform.OS !== 'web') {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    nativeTts = require('react-native-tts').default;
+  } catch (error) {
+    console.warn('Could not load TTS module:', error);
+  }
+}
+
+/**
+ * Convertit un débit (1 = normal) en valeur attendue par `react-native-tts`
+ *
+ * Le module attend 0.5 pour le débit normal ; sur Android, il convertit
+ * ensuite la valeur en multiplicateur (×2 en dessous de 0.5, ×4 − 1 au-dessus).
+ *
+ * @function toNativeRate
+ * @param {number} rate - Débit relatif (de 0.5 à 2)
+ * @returns {number} La valeur transmise au module natif
+ * @private
+ */
+const toNativeRate = (rate: number): number => (rate <= 1 ? rate / 2 : 0.5 + (rate - 1) / 4);
+
+/**
+ * Normalise une locale de voix (ex: 'fr_FR' → 'fr-FR')
+ * @private
+ */
+const normalizeLocale = (locale: string): string => locale.replace('_', '-');
+
+/**
+ * Moteur de synthèse vocale natif (`react-native-tts`)
+ *
+ * Le module natif ne prononce qu'un texte à la fois et signale sa fin par
+ * les événements `tts-finish`, `tts-cancel` et `tts-error`.
+ *
+ * @class NativeTtsEngine
+ * @implements {TtsEngine}
+ */
+export class NativeTtsEngine implements TtsEngine {
+  id = 'native';
+  private handlersAttached = false;
+  private pending: { resolve: (completed: boolean) => void; reject: (error: Error) => void } | null = null;
+  // Incrémenté à chaque arrêt, pour abandonner un texte arrêté pendant sa préparation
+  private stopCount = 0;
+
+  async isAvailable(): Promise<boolean> {
+    if (!nativeTts) {
+      return false;
+    }
+    try {
+      await nativeTts.getInitStatus();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getVoices(): Promise<TtsVoice[]> {
+    if (!nativeTts) {
+      return [];
+    }
+    const voices: NativeVoice[] = await nativeTts.voices();
+    return voices.map(voice => ({
+      id: voice.id,
+      name: voice.name,
+      locale: normalizeLocale(voice.language),
+      isEnhanced: voice.quality >= ENHANCED_VOICE_QUALITY,
+      requiresNetwork: Boolean(voice.networkConnectionRequired),
+      isInstalled: !voice.notInstalled,
+    }));
+  }
+
+  async speak(text: string, options: TtsSpeakOptions): Promise<boolean> {
+    const tts = nativeTts;
+    if (!tts) {
+      throw new Error('TTS module is not available');
+    }
+    this.attachHandlers(tts);
+    this.settle(false);
+    const stopCount = this.stopCount;
+
+    await tts.getInitStatus();
+    try {
+      if (options.voiceId) {
+        await tts.setDefaultVoice(options.voiceId);
+      } else {
+        await tts.setDefaultLanguage(options.locale);
+      }
+    } catch {
+      throw new Error(`Aucune voix disponible pour ${options.locale}`);
+    }
+    await tts.setDefaultRate(toNativeRate(options.rate));
+    await tts.setDefaultPitch(options.pitch);
+    if (stopCount !== this.stopCount) {
+      return false;
+    }
+
+    return new Promise<boolean>((resolve, reject) => {
+      this.pending = { resolve, reject };
+      // Le volume n'est réglable que sur Android ; iOS utilise la voix fixée ci-dessus
+      const utterance = Platform.OS === 'android'
+        ? tts.speak(text, {
+            iosVoiceId: '',
+            rate: toNativeRate(options.rate),
+            androidParams: { KEY_PARAM_STREAM: 'STREAM_MUSIC', KEY_PARAM_VOLUME: options.volume, KEY_PARAM_PAN: 0 },
+          })
+        : tts.speak(text);
+      // Le module natif retourne une promesse rejetée si le moteur n'est pas prêt
+      Promise.resolve(utterance).catch(error => this.fail(error));
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!nativeTts) return;
+    this.stopCount++;
+    try {
+      await nativeTts.stop();
+    } catch (error) {
+      console.error('Error stopping TTS:', error);
+    }
+    this.settle(false);
+  }
+
+  /**
+   * Branche les événements du module natif (une seule fois, le module étant global)
+   * @private
+   */
+  private attachHandlers(tts: ReactNativeTts): void {
+    if (this.handlersAttached) return;
+    this.handlersAttached = true;
+
+    tts.addEventListener('tts-finish', () => this.settle(true));
+    tts.addEventListener('tts-cancel', () => this.settle(false));
+    tts.addEventListener('tts-error', () => this.fail(new Error('Erreur de synthèse vocale')));
+  }
+
+  /**
+   * Termine le texte en cours
+   * @private
+   */
+  private settle(completed: boolean): void {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.resolve(completed);
+  }
+
+  /**
+   * Termine le texte en cours sur une erreur
+   * @private
+   */
+  private fail(error: unknown): void {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Moteur de synthèse vocale des navigateurs (API Web Speech)
+ *
+ * @class WebSpeechTtsEngine
+ * @implements {TtsEngine}
+ */
+export class WebSpeechTtsEngine implements TtsEngine {
+  id = 'web';
+
+  async isAvailable(): Promise<boolean> {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  async getVoices(): Promise<TtsVoice[]> {
+    if (!(await this.isAvailable())) {
+      return [];
+    }
+    return (await this.loadVoices()).map(voice => ({
+      id: voice.voiceURI,
+      name: voice.name,
+      locale: normalizeLocale(voice.lang),
+      isEnhanced: false,
+      requiresNetwork: !voice.localService,
+      isInstalled: true,
+    }));
+  }
+
+  async speak(text: string, options: TtsSpeakOptions): Promise<boolean> {
+    if (!(await this.isAvailable())) {
+      throw new Error('Web Speech API is not available');
+    }
+    const voices = await this.loadVoices();
+
+    return new Promise<boolean>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = options.locale;
+      utterance.voice = voices.find(voice => voice.voiceURI === options.voiceId) ?? null;
+      utterance.rate = options.rate;
+      utterance.pitch = options.pitch;
+      utterance.volume = options.volume;
+      utterance.onend = () => resolve(true);
+      utterance.onerror = event => {
+        if (event.error === 'interrupted' || event.error === 'canceled') {
+          resolve(false);
+        } else {
+          reject(new Error(`Web Speech API error: ${event.error}`));
+        }
+      };
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (await this.isAvailable()) {
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  /**
+   * Retourne les voix du navigateur, qui peuvent être chargées après la page
+   * @private
+   */
+  private loadVoices(): Promise<SpeechSynthesisVoice[]> {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      return Promise.resolve(voices);
+    }
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => resolve(window.speechSynthesis.getVoices()), WEB_VOICES_TIMEOUT);
+      window.speechSynthesis.addEventListener('voiceschanged', () => {
+        clearTimeout(timeoutId);
+        resolve(window.speechSynthesis.getVoices());
+      }, { once: true });
+    });
+  }
+}
+
+/**
+ * Calcule la clé d'un clip audio à partir de son texte et de sa voix
+ *
+ * Deux passes FNV-1a 32 bits avec des bases différentes donnent une clé de
+ * 64 bits, suffisante pour éviter les collisions entre les phrases d'une langue.
+ *
+ * @function getClipKey
+ * @param {string} text - Texte prononcé
+ * @param {string} voice - Voix (locale BCP-47)
+ * @returns {string} La clé sur 16 caractères hexadécimaux
+ * @private
+ */
+const getClipKey = (text: string, voice: string): string => {
+  const content = `${voice}|${text.trim()}`;
+  return [0x811c9dc5, 0x01000193].map(offsetBasis => {
+    let hash = offsetBasis;
+    for (let i = 0; i < content.length; i++) {
+      hash ^= content.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  }).join('');
+};
+
+/**
+ * Moteur de synthèse vocale en ligne avec cache des clips audio
+ *
+ * Utilisé pour les langues sans voix installée sur l'appareil. Le texte est
+ * synthétisé par une API compatible Google Cloud Text-to-Speech ; le clip MP3
+ * obtenu est enregistré sur l'appareil, indexé par texte et voix, puis rejoué
+ * depuis le disque, y compris sans connexion. Le débit et le volume sont
+ * appliqués à la lecture ; la hauteur n'est pas appliquée, pour qu'un même
+ * clip serve quels que soient les réglages.
+ *
+ * @class CloudTtsEngine
+ * @implements {TtsEngine}
+ * @example
+ * const engine = new CloudTtsEngine();
+ * await engine.prepare('Не рухайтеся', { locale: 'uk-UA', rate: 1, pitch: 1, volume: 1 });
+ */
+export class CloudTtsEngine implements TtsEngine {
+  id = 'cloud';
+  private sound: Audio.Sound | null = null;
+  private pending: ((completed: boolean) => void) | null = null;
+  // Incrémenté à chaque arrêt, pour abandonner un clip arrêté pendant son téléchargement ou son chargement
+  private stopCount = 0;
+
+  constructor(
+    private readonly endpoint: string = CLOUD_TTS_URL,
+    private readonly getApiKey: () => string = getGoogleCloudApiKey
+  ) {}
+
+  async isAvailable(): Promise<boolean> {
+    // Les clips déjà enregistrés restent lisibles sans connexion ni clé API
+    return Boolean(this.endpoint) && Platform.OS !== 'web';
+  }
+
+  async getVoices(): Promise<TtsVoice[]> {
+    return [];
+  }
+
+  async prepare(text: string, options: TtsSpeakOptions): Promise<boolean> {
+    try {
+      await this.getClip(text, options.locale);
+      return true;
+    } catch (error) {
+      console.error('Error preparing TTS clip:', error);
+      return false;
+    }
+  }
+
+  async speak(text: string, options: TtsSpeakOptions): Promise<boolean> {
+    await this.stop();
+    const stopCount = this.stopCount;
+    const uri = await this.getClip(text, options.locale);
+    if (stopCount !== this.stopCount) {
+      return false;
+    }
+    const { sound } = await Audio.Sound.createAsync(
+      { uri },
+      { shouldPlay: false, rate: options.rate, shouldCorrectPitch: true, volume: options.volume }
+    );
+    if (stopCount !== this.stopCount) {
+      sound.unloadAsync().catch(error => console.error('Error unloading TTS clip:', error));
+      return false;
+    }
+
+    return new Promise<boolean>(resolve => {
+      this.sound = sound;
+      this.pending = resolve;
+      sound.setOnPlaybackStatusUpdate((status: AVPlaybackStatus) => {
+        if (status.isLoaded && status.didJustFinish) {
+          this.finish(true);
+        } else if (!status.isLoaded && status.error) {
+          console.error('TTS clip playback error:', status.error);
+          this.finish(false);
+        }
+      });
+      sound.playAsync().catch(error => {
+        console.error('Error playing TTS clip:', error);
+        this.finish(false);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.stopCount++;
+    this.finish(false);
+  }
+
+  /**
+   * Chemin du clip d'un texte
+   * @private
+   */
+  private getClipUri(text: string, locale: string): string {
+    return `${CLOUD_CLIP_DIRECTORY}${locale}/${getClipKey(text, locale)}.mp3`;
+  }
+
+  /**
+   * Retourne le clip d'un texte, synthétisé et enregistré s'il n'est pas en cache
+   * @private
+   */
+  private async getClip(text: string, locale: string): Promise<string> {
+    const uri = this.getClipUri(text, locale);
+    if ((await FileSystem.getInfoAsync(uri)).exists) {
+      return uri;
+    }
+
+    const netInfo = await NetInfo.fetch();
+    if (!netInfo.isConnected) {
+      throw new Error(`Clip audio absent du cache et pas de connexion Internet (${locale})`);
+    }
+
+    const apiKey = this.getApiKey();
+    const response = await fetch(apiKey ? `${this.endpoint}?key=${apiKey}` : this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        input: { text: text.trim() },
+        voice: { languageCode: locale },
+        audioConfig: { audioEncoding: 'MP3' },
+      }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(`Erreur API Text-to-Speech: ${errorData?.error?.message || response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.audioContent) {
+      throw new Error('Réponse Text-to-Speech sans contenu audio');
+    }
+    await FileSystem.makeDirectoryAsync(`${CLOUD_CLIP_DIRECTORY}${locale}/`, { intermediates: true });
+    await FileSystem.writeAsStringAsync(uri, data.audioContent, { encoding: FileSystem.EncodingType.Base64 });
+    return uri;
+  }
+
+  /**
+   * Termine la lecture en cours et libère le clip
+   * @private
+   */
+  private finish(completed: boolean): void {
+    const sound = this.sound;
+    const pending = this.pending;
+    this.sound = null;
+    this.pending = null;
+    if (sound) {
+      sound.setOnPlaybackStatusUpdate(null);
+      sound.unloadAsync().catch(error => console.error('Error unloading TTS clip:', error));
+    }
+    pending?.(completed);
+  }
+}
+
+/**
+ * Moteur de synthèse vocale factice
+ *
+ * Ne produit aucun son : chaque texte « dure » un temps proportionnel à sa
+ * longueur et est enregistré dans `spoken`, ce qui permet de vérifier l'ordre
+ * de lecture de la file et les réglages transmis.
+ *
+ * @class FakeTtsEngine
+ * @implements {TtsEngine}
+ * @example
+ * const engine = new FakeTtsEngine([{ id: 'uk-1', name: 'Oksana', locale: 'uk-UA',
+ *   isEnhanced: false, requiresNetwork: false, isInstalled: true }]);
+ * ttsService.setEngine(engine);
+ * await ttsService.speak('Дихайте спокійно', 'uk');
+ * engine.spoken[0].options.locale; // 'uk-UA'
+ */
+export class FakeTtsEngine implements TtsEngine {
+  id = 'fake';
+  spoken: { text: string; options: TtsSpeakOptions }[] = [];
+  private pending: { timer: ReturnType<typeof setTimeout>; resolve: (completed: boolean) => void } | null = null;
+
+  constructor(
+    private readonly voices: TtsVoice[] = [],
+    private readonly msPerCharacter: number = 50
+  ) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getVoices(): Promise<TtsVoice[]> {
+    return [...this.voices];
+  }
+
+  async speak(text: string, options: TtsSpeakOptions): Promise<boolean> {
+    await this.stop();
+    this.spoken.push({ text, options });
+    return new Promise<boolean>(resolve => {
+      const timer = setTimeout(() => {
+        this.pending = null;
+        resolve(true);
+      }, (text.length * this.msPerCharacter) / options.rate);
+      this.pending = { timer, resolve };
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.pending) return;
+    clearTimeout(this.pending.timer);
+    this.pending.resolve(false);
+    this.pending = null;
+  }
+}
@@ -0,0 +1,537 @@
+/**
+ * @fileoverview Service de synthèse vocale
+ *
+ * Ce service est le point d'entrée unique de la lecture à haute voix : il
+ * découvre les voix disponibles pour chaque locale, applique les réglages
+ * (voix, débit, hauteur, volume) enregistrés pour chaque langue et prononce
+ * les énoncés un par un dans une file d'attente. Les phrases d'urgence
+ * passent devant les autres énoncés et interrompent l'énoncé ordinaire en
+ * cours. Les abonnés sont prévenus du début et de la fin de chaque énoncé.
+ * Les langues sans voix installée sur l'appareil sont prononcées par un
+ * moteur de secours en ligne dont les clips restent disponibles hors ligne.
+ *
+ * @module services/ttsService
+ * @requires @react-native-async-storage/async-storage
+ * @requires react-native
+ * @requires ./languageRegistry
+ * @requires ./ttsEngines
+ * @requires ./types
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { getSpeechLocale, toLanguageCode } from './languageRegistry';
+import { CloudTtsEngine, FakeTtsEngine, NativeTtsEngine, WebSpeechTtsEngine } from './ttsEngines';
+import { TtsEngine, TtsEvent, TtsPriority, TtsSpeakOptions, TtsUtterance, TtsVoice, TtsVoiceSettings } from './types';
+
+/**
+ * Clé de stockage des réglages de voix par langue
+ * @constant {string}
+ * @private
+ */
+const SETTINGS_STORAGE_KEY = 'ttsVoiceSettings';
+
+/**
+ * Réglages de voix par défaut
+ *
+ * @constant {TtsVoiceSettings}
+ */
+export const DEFAULT_TTS_VOICE_SETTINGS: TtsVoiceSettings = {
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+};
+
+/**
+ * Options d'un énoncé
+ *
+ * @interface TtsSpeakRequest
+ * @property {TtsPriority} [priority='normal'] - Priorité dans la file
+ * @property {boolean} [interrupt=false] - Vide la file et interrompt l'énoncé en cours
+ */
+export interface TtsSpeakRequest {
+  priority?: TtsPriority;
+  interrupt?: boolean;
+}
+
+/**
+ * Énoncé de la file, avec la promesse à résoudre à sa fin
+ * @private
+ */
+interface QueuedUtterance {
+  utterance: TtsUtterance;
+  interrupted: boolean;
+  resolve: (completed: boolean) => void;
+}
+
+/**
+ * Crée le moteur adapté à la plateforme
+ * @private
+ */
+const createDefaultEngine = (): TtsEngine => {
+  if (Platform.OS !== 'web') {
+    return new NativeTtsEngine();
+  }
+  return typeof window !== 'undefined' && 'speechSynthesis' in window
+    ? new WebSpeechTtsEngine()
+    : new FakeTtsEngine();
+};
+
+/**
+ * Service de synthèse vocale
+ *
+ * @class TtsService
+ * @example
+ * // Consigne d'urgence : passe devant les énoncés en attente
+ * await ttsService.speak('Ne bougez pas', 'en', { priority: 'emergency' });
+ */
+class TtsService {
+  private engine: TtsEngine = createDefaultEngine();
+  private fallbackEngine: TtsEngine | null = new CloudTtsEngine();
+  private activeEngine: TtsEngine | null = null;
+  private voiceSettings: Record<string, TtsVoiceSettings> = {};
+  private loadingPromise: Promise<void> | null = null;
+  private voicesPromise: Promise<TtsVoice[]> | null = null;
+  private queue: QueuedUtterance[] = [];
+  private current: QueuedUtterance | null = null;
+  private utteranceCount = 0;
+  private listeners = new Set<(event: TtsEvent) => void>();
+
+  /**
+   * Charge les réglages de voix enregistrés (une seule fois)
+   *
+   * @returns {Promise<void>}
+   */
+  initialize(): Promise<void> {
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.loadVoiceSettings();
+    }
+    return this.loadingPromise;
+  }
+
+  /**
+   * Retourne le moteur de synthèse vocale actif
+   *
+   * @returns {TtsEngine} Le moteur actif
+   */
+  getEngine(): TtsEngine {
+    return this.engine;
+  }
+
+  /**
+   * Remplace le moteur de synthèse vocale (la file est vidée)
+   *
+   * @param {TtsEngine} engine - Nouveau moteur
+   * @returns {Promise<void>}
+   */
+  async setEngine(engine: TtsEngine): Promise<void> {
+    await this.stop();
+    this.engine = engine;
+    this.voicesPromise = null;
+  }
+
+  /**
+   * Remplace le moteur de secours utilisé pour les langues sans voix installée
+   *
+   * @param {TtsEngine|null} engine - Nouveau moteur de secours, ou null pour le désactiver
+   * @returns {Promise<void>}
+   */
+  async setFallbackEngine(engine: TtsEngine | null): Promise<void> {
+    await this.stop();
+    this.fallbackEngine = engine;
+  }
+
+  /**
+   * Abonne une fonction aux événements de la synthèse vocale
+   *
+   * @param {Function} listener - Fonction appelée à chaque événement
+   * @returns {Function} Fonction de désabonnement
+   */
+  subscribe(listener: (event: TtsEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Indique si un énoncé est en cours de lecture
+   *
+   * @returns {boolean} true entre les événements `start` et `idle`
+   */
+  isSpeaking(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Retourne l'énoncé en cours de lecture
+   *
+   * @returns {TtsUtterance|null} L'énoncé, ou null si rien n'est prononcé
+   */
+  getCurrentUtterance(): TtsUtterance | null {
+    return this.current?.utterance ?? null;
+  }
+
+  /**
+   * Retourne les énoncés en attente, dans l'ordre de lecture
+   *
+   * @returns {TtsUtterance[]} Les énoncés en attente
+   */
+  getQueue(): TtsUtterance[] {
+    return this.queue.map(item => item.utterance);
+  }
+
+  /**
+   * Liste les voix disponibles pour une langue
+   *
+   * Les voix de la locale demandée sont proposées en premier (ex: 'ar-MA'
+   * avant 'ar-SA'), puis les voix installées et les voix améliorées.
+   *
+   * @async
+   * @param {string} language - Code de langue ou locale BCP-47
+   * @returns {Promise<TtsVoice[]>} Les voix de la langue
+   *
+   * @example
+   * const voices = await ttsService.getVoices('pt-BR');
+   */
+  async getVoices(language: string): Promise<TtsVoice[]> {
+    const languageCode = toLanguageCode(language) ?? language.toLowerCase();
+    const locale = getSpeechLocale(language).toLowerCase();
+    const rank = (voice: TtsVoice) =>
+      (voice.locale.toLowerCase() === locale ? 0 : 4) + (voice.isInstalled ? 0 : 2) + (voice.isEnhanced ? 0 : 1);
+
+    return (await this.loadVoices())
+      .filter(voice => voice.locale.split('-')[0].toLowerCase() === languageCode)
+      .sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Indique si une voix installée sur l'appareil peut prononcer une langue
+   *
+   * Si la liste des voix n'a pas pu être lue ou est vide, les voix de
+   * l'appareil sont inconnues : la voix de l'appareil est alors supposée présente.
+   *
+   * @async
+   * @param {string} language - Code de langue ou locale BCP-47
+   * @returns {Promise<boolean>} false si la langue dépend du moteur de secours en ligne
+   */
+  async hasDeviceVoice(language: string): Promise<boolean> {
+    if ((await this.loadVoices()).length === 0) {
+      return true;
+    }
+    return (await this.getVoices(language)).some(voice => voice.isInstalled);
+  }
+
+  /**
+   * Charge une seule fois la liste des voix du moteur de l'appareil
+   * Une liste vide signifie que les voix sont inconnues ; un échec sera retenté
+   * @private
+   */
+  private loadVoices(): Promise<TtsVoice[]> {
+    if (!this.voicesPromise) {
+      this.voicesPromise = this.engine.getVoices().catch(error => {
+        console.error('Error loading TTS voices:', error);
+        this.voicesPromise = null;
+        return [];
+      });
+    }
+    return this.voicesPromise;
+  }
+
+  /**
+   * Prépare la lecture hors ligne d'une liste de textes
+   *
+   * Les textes sont synthétisés par le moteur de secours et enregistrés sur
+   * l'appareil ; ils pourront ensuite être prononcés sans connexion.
+   *
+   * @async
+   * @param {string[]} texts - Textes à préparer
+   * @param {string} language - Code de langue ou locale BCP-47
+   * @param {Function} [onProgress] - Appelée après chaque texte avec (traités, total)
+   * @returns {Promise<number>} Le nombre de textes disponibles hors ligne
+   *
+   * @example
+   * const count = await ttsService.precacheSpeech(['Ne bougez pas'], 'uk');
+   */
+  async precacheSpeech(
+    texts: string[],
+    language: string,
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<number> {
+    const engine = this.fallbackEngine;
+    if (!engine?.prepare || !(await engine.isAvailable())) {
+      return 0;
+    }
+    await this.initialize();
+
+    const uniqueTexts = [...new Set(texts.map(text => text.trim()).filter(Boolean))];
+    const options = { ...this.getVoiceSettings(language), locale: getSpeechLocale(language) };
+    let prepared = 0;
+    for (let i = 0; i < uniqueTexts.length; i++) {
+      if (await engine.prepare(uniqueTexts[i], options)) {
+        prepared++;
+      }
+      onProgress?.(i + 1, uniqueTexts.length);
+    }
+    return prepared;
+  }
+
+  /**
+   * Retourne les réglages de voix d'une langue
+   *
+   * @param {string} language - Code de langue ou locale BCP-47
+   * @returns {TtsVoiceSettings} Les réglages enregistrés, ou les réglages par défaut
+   */
+  getVoiceSettings(language: string): TtsVoiceSettings {
+    return { ...DEFAULT_TTS_VOICE_SETTINGS, ...this.voiceSettings[this.getSettingsKey(language)] };
+  }
+
+  /**
+   * Modifie les réglages de voix d'une langue
+   *
+   * @async
+   * @param {string} language - Code de langue ou locale BCP-47
+   * @param {Partial<TtsVoiceSettings>} settings - Réglages à modifier
+   * @returns {Promise<boolean>} true si l'enregistrement a réussi
+   *
+   * @example
+   * await ttsService.setVoiceSettings('uk', { rate: 0.8 });
+   */
+  async setVoiceSettings(language: string, settings: Partial<TtsVoiceSettings>): Promise<boolean> {
+    await this.initialize();
+    const key = this.getSettingsKey(language);
+    this.voiceSettings = { ...this.voiceSettings, [key]: { ...this.getVoiceSettings(key), ...settings } };
+    return this.saveVoiceSettings();
+  }
+
+  /**
+   * Rétablit les réglages de voix par défaut d'une langue
+   *
+   * @async
+   * @param {string} language - Code de langue ou locale BCP-47
+   * @returns {Promise<boolean>} true si l'enregistrement a réussi
+   */
+  async resetVoiceSettings(language: string): Promise<boolean> {
+    await this.initialize();
+    const voiceSettings = { ...this.voiceSettings };
+    delete voiceSettings[this.getSettingsKey(language)];
+    this.voiceSettings = voiceSettings;
+    return this.saveVoiceSettings();
+  }
+
+  /**
+   * Ajoute un texte à la file de lecture
+   *
+   * Un énoncé d'urgence est placé après les autres énoncés d'urgence en
+   * attente, devant les énoncés ordinaires, et interrompt l'énoncé ordinaire
+   * en cours.
+   *
+   * @param {string} text - Texte à prononcer
+   * @param {string} language - Code de langue ou locale BCP-47 (ex: 'ar-MA')
+   * @param {TtsSpeakRequest} [request] - Priorité et interruption
+   * @returns {Promise<boolean>} Résolue à la fin de l'énoncé : true s'il a été prononcé en entier
+   *
+   * @example
+   * ttsService.speak('Bonjour', 'fr');
+   * await ttsService.speak('Hello', 'en');
+   */
+  speak(text: string, language: string, request?: TtsSpeakRequest): Promise<boolean> {
+    return this.enqueue(text, language, request).completed;
+  }
+
+  /**
+   * Ajoute un texte à la file de lecture et retourne l'énoncé créé
+   *
+   * Identique à `speak`, mais l'énoncé permet de reconnaître ses propres
+   * événements parmi ceux de la file partagée.
+   *
+   * @param {string} text - Texte à prononcer
+   * @param {string} language - Code de langue ou locale BCP-47
+   * @param {TtsSpeakRequest} [request] - Priorité et interruption
+   * @returns {{utterance: TtsUtterance|null, completed: Promise<boolean>}} L'énoncé (null si le texte est vide) et sa fin
+   */
+  enqueue(
+    text: string,
+    language: string,
+    { priority = 'normal', interrupt = false }: TtsSpeakRequest = {}
+  ): { utterance: TtsUtterance | null; completed: Promise<boolean> } {
+    const trimmedText = text.trim();
+    if (!trimmedText) {
+      return { utterance: null, completed: Promise.resolve(false) };
+    }
+
+    const utterance: TtsUtterance = { id: `tts-${Date.now()}-${++this.utteranceCount}`, text: trimmedText, language, priority };
+    const completed = new Promise<boolean>(resolve => {
+      const item: QueuedUtterance = {
+        utterance,
+        interrupted: false,
+        resolve,
+      };
+
+      if (interrupt) {
+        this.clearQueue();
+      }
+      if (priority === 'emergency') {
+        const index = this.queue.findIndex(queued => queued.utterance.priority !== 'emergency');
+        this.queue.splice(index === -1 ? this.queue.length : index, 0, item);
+      } else {
+        this.queue.push(item);
+      }
+
+      if (this.current && (interrupt || (priority === 'emergency' && this.current.utterance.priority === 'normal'))) {
+        this.interruptCurrent();
+      }
+      this.playNext();
+    });
+    return { utterance, completed };
+  }
+
+  /**
+   * Arrête la lecture et vide la file
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    this.clearQueue();
+    await this.interruptCurrent();
+  }
+
+  /**
+   * Prononce les énoncés de la file l'un après l'autre
+   * @private
+   */
+  private async playNext(): Promise<void> {
+    if (this.current) return;
+    const item = this.queue.shift();
+    if (!item) return;
+
+    this.current = item;
+    const { utterance } = item;
+    this.emit({ type: 'start', utterance });
+
+    let completed = false;
+    try {
+      await this.initialize();
+      const options = { ...this.getVoiceSettings(utterance.language), locale: getSpeechLocale(utterance.language) };
+      const fallback = await this.getAvailableFallback();
+      const useFallback = fallback !== null && !options.voiceId && !(await this.hasDeviceVoice(utterance.language));
+      const engine = useFallback && fallback ? fallback : this.engine;
+      // En cas d'échec, l'autre moteur est essayé (voix de l'appareil si le moteur en ligne échoue, et inversement)
+      const otherEngine = engine === this.engine ? fallback : this.engine;
+      if (!item.interrupted) {
+        try {
+          completed = await this.speakWith(engine, utterance.text, options);
+        } catch (error) {
+          if (!otherEngine || item.interrupted) throw error;
+          console.warn('TTS engine failed, trying the other engine:', error);
+          completed = await this.speakWith(otherEngine, utterance.text, options);
+        }
+      }
+      this.emit({ type: completed ? 'done' : 'interrupted', utterance });
+    } catch (error) {
+      console.error('TTS error:', error);
+      this.emit({ type: 'error', utterance, message: error instanceof Error ? error.message : String(error) });
+    }
+
+    this.current = null;
+    item.resolve(completed);
+    if (this.queue.length > 0) {
+      this.playNext();
+    } else {
+      this.emit({ type: 'idle' });
+    }
+  }
+
+  /**
+   * Prononce un texte avec un moteur en le retenant comme moteur actif
+   * @private
+   */
+  private async speakWith(engine: TtsEngine, text: string, options: TtsSpeakOptions): Promise<boolean> {
+    this.activeEngine = engine;
+    try {
+      return await engine.speak(text, options);
+    } finally {
+      this.activeEngine = null;
+    }
+  }
+
+  /**
+   * Retourne le moteur de secours s'il est utilisable
+   * @private
+   */
+  private async getAvailableFallback(): Promise<TtsEngine | null> {
+    const fallback = this.fallbackEngine;
+    return fallback && fallback !== this.engine && (await fallback.isAvailable()) ? fallback : null;
+  }
+
+  /**
+   * Interrompt l'énoncé en cours ; la lecture passe à l'énoncé suivant
+   * @private
+   */
+  private async interruptCurrent(): Promise<void> {
+    if (!this.current) return;
+    this.current.interrupted = true;
+    await (this.activeEngine ?? this.engine).stop();
+  }
+
+  /**
+   * Retire tous les énoncés en attente
+   * @private
+   */
+  private clearQueue(): void {
+    const removed = this.queue;
+    this.queue = [];
+    removed.forEach(item => {
+      this.emit({ type: 'interrupted', utterance: item.utterance });
+      item.resolve(false);
+    });
+  }
+
+  /**
+   * Clé des réglages d'une langue (les variantes régionales partagent les réglages de leur langue)
+   * @private
+   */
+  private getSettingsKey(language: string): string {
+    return toLanguageCode(language) ?? language;
+  }
+
+  /**
+   * Charge les réglages de voix depuis AsyncStorage
+   * @private
+   */
+  private async loadVoiceSettings(): Promise<void> {
+    try {
+      const storedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (storedSettings) {
+        this.voiceSettings = JSON.parse(storedSettings);
+      }
+    } catch (error) {
+      console.error('Error loading TTS voice settings:', error);
+    }
+  }
+
+  /**
+   * Enregistre les réglages de voix dans AsyncStorage
+   * @private
+   */
+  private async saveVoiceSettings(): Promise<boolean> {
+    try {
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.voiceSettings));
+      return true;
+    } catch (error) {
+      console.error('Error saving TTS voice settings:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Diffuse un événement aux abonnés
+   * @private
+   */
+  private emit(event: TtsEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export const ttsService = new TtsService();
@@ -87,6 +87,62 @@ export interface TranslationError {
   details?: any;
 }
 
+/**
+ * Résultat structuré d'une opération de traduction
+ *
+ * Remplace les messages d'erreur entre crochets retournés par `translateText` :
+ * en cas d'échec, `text` est vide et `error` décrit la cause.
+ *
+ * @interface TranslationResult
+ * @property {string} text - Le texte traduit (vide en cas d'erreur)
+ * @property {string} source - Le texte original
+ * @property {string} sourceLang - Code ISO 639-1 de la langue source
+ * @property {string} targetLang - Code ISO 639-1 de la langue cible
+ * @property {string|null} provider - Identifiant du fournisseur ayant traduit (null si cache, identité ou erreur)
+ * @property {boolean} fromCache - Si true, la traduction provient du cache local
+ * @property {boolean} isEmergencyPhrase - Si true, la traduction est traitée comme une phrase d'urgence
+ * @property {boolean} isVerified - Si true, la traduction a été vérifiée par une personne (ou provient du catalogue intégré ou importé, hors phrases personnalisées)
+ * @property {VerifiedTranslation} [verification] - Détails de la vérification manuelle, le cas échéant
+ * @property {TranslationError} [error] - L'erreur survenue, le cas échéant
+ */
+export interface TranslationResult {
+  text: string;
+  source: string;
+  sourceLang: string;
+  targetLang: string;
+  provider: string | null;
+  fromCache: boolean;
+  isEmergencyPhrase: boolean;
+  isVerified: boolean;
+  verification?: VerifiedTranslation;
+  error?: TranslationError;
+}
+
+/**
+ * Traduction vérifiée manuellement
+ *
+ * Une vérification confirme une traduction automatique, ou la remplace par
+ * une correction lorsque la traduction automatique a été signalée comme fausse.
+ *
+ * @interface VerifiedTranslation
+ * @property {string} sourceText - Le texte original
+ * @property {string} sourceLang - Code ISO 639-1 de la langue source
+ * @property {string} targetLang - Code ISO 639-1 de la langue cible
+ * @property {string} translation - La traduction validée
+ * @property {string} verifiedBy - Nom de la personne ayant vérifié la traduction
+ * @property {number} verifiedAt - Timestamp de la vérification
+ * @property {string} [correctedFrom] - Traduction automatique signalée comme fausse, remplacée par `translation`
+ */
+export interface VerifiedTranslation {
+  sourceText: string;
+  sourceLang: string;
+  targetLang: string;
+  translation: string;
+  verifiedBy: string;
+  verifiedAt: number;
+  correctedFrom?: string;
+}
+
 /**
  * Statistiques de compression du cache de traduction
  *
@@ -112,14 +168,948 @@ export interface CompressionStats {
   version: number;            // Version du format de compression
 }
 
+/**
+ * Variante régionale d'une langue
+ *
+ * @interface LanguageVariant
+ * @property {string} locale - Locale BCP-47 (ex: 'fr-CA', 'pt-BR')
+ * @property {string} name - Nom de la variante en français (ex: 'Français (Canada)')
+ */
+export interface LanguageVariant {
+  locale: string;
+  name: string;
+}
+
+/**
+ * Fonctionnalités disponibles pour une langue
+ *
+ * @interface LanguageCapabilities
+ * @property {boolean} stt - Reconnaissance vocale
+ * @property {boolean} tts - Synthèse vocale
+ * @property {boolean} ocr - Reconnaissance de texte dans les images
+ * @property {boolean} offlinePack - Pack de phrases téléchargeable pour une utilisation hors ligne
+ */
+export interface LanguageCapabilities {
+  stt: boolean;
+  tts: boolean;
+  ocr: boolean;
+  offlinePack: boolean;
+}
+
 /**
  * Représente une langue supportée par l'application
  *
  * @interface Language
  * @property {string} code - Code ISO 639-1 de la langue (ex: 'fr', 'en', 'es')
  * @property {string} name - Nom de la langue en français (ex: 'Français', 'Anglais')
+ * @property {string} nativeName - Nom de la langue dans la langue elle-même (ex: 'English', 'العربية')
+ * @property {string} speakPrompt - Question « Parlez-vous … ? » écrite dans la langue elle-même (ex: 'Do you speak English?')
+ * @property {string} script - Écriture, code ISO 15924 (ex: 'Latn', 'Arab', 'Cyrl')
+ * @property {'ltr'|'rtl'} direction - Sens d'écriture
+ * @property {string} speechLocale - Locale BCP-47 utilisée par défaut pour la voix (ex: 'en-GB')
+ * @property {LanguageVariant[]} variants - Autres variantes régionales reconnues
+ * @property {LanguageCapabilities} capabilities - Fonctionnalités disponibles
  */
 export interface Language {
   code: string;
   name: string;
+  nativeName: string;
+  speakPrompt: string;
+  script: string;
+  direction: 'ltr' | 'rtl';
+  speechLocale: string;
+  variants: LanguageVariant[];
+  capabilities: LanguageCapabilities;
+}
+
+/**
+ * Résultat d'une détection de langue effectuée par un fournisseur de traduction
+ *
+ * @interface ProviderDetectionResult
+ * @property {string} language - Code ISO 639-1 de la langue détectée
+ * @property {number} confidence - Niveau de confiance normalisé (0.0 à 1.0)
+ */
+export interface ProviderDetectionResult {
+  language: string;
+  confidence: number;
+}
+
+/**
+ * Contrat commun à tous les fournisseurs de traduction
+ *
+ * Un fournisseur encapsule un moteur de traduction (API Google Cloud,
+ * phrasier hors ligne, serveur compatible LibreTranslate sur le réseau local...).
+ * Les fournisseurs sont enregistrés dans le registre de `translationProviders`
+ * et interrogés par ordre de priorité décroissante.
+ *
+ * @interface TranslationProvider
+ * @property {string} id - Identifiant unique du fournisseur (ex: 'google', 'phrasebook')
+ * @property {string} name - Nom lisible du fournisseur
+ * @property {boolean} requiresNetwork - Si true, le fournisseur est ignoré hors connexion
+ */
+export interface TranslationProvider {
+  id: string;
+  name: string;
+  requiresNetwork: boolean;
+
+  /**
+   * Indique si le fournisseur est configuré et utilisable
+   * @returns {boolean} true si le fournisseur peut être interrogé
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Traduit un texte
+   * @returns {Promise<string|null>} La traduction, ou null si le fournisseur ne sait pas traiter la demande
+   * @throws {Error} En cas d'erreur du moteur (le fournisseur suivant sera alors essayé)
+   */
+  translate(text: string, sourceLang: string, targetLang: string): Promise<string | null>;
+
+  /**
+   * Traduit plusieurs textes en une seule requête (optionnel)
+   * @returns {Promise<(string|null)[]>} Les traductions, dans l'ordre des textes (null si non traitée)
+   * @throws {Error} En cas d'erreur du moteur (le fournisseur suivant sera alors essayé)
+   */
+  translateBatch?(texts: string[], sourceLang: string, targetLang: string): Promise<(string | null)[]>;
+
+  /**
+   * Détecte la langue d'un texte
+   * @returns {Promise<ProviderDetectionResult|null>} La langue détectée, ou null si non déterminée
+   */
+  detect(text: string): Promise<ProviderDetectionResult | null>;
+
+  /**
+   * Liste les langues prises en charge par le fournisseur
+   * @returns {Promise<string[]>} Codes ISO 639-1 des langues supportées
+   */
+  supportedLanguages(): Promise<string[]>;
+}
+
+/**
+ * Catégories de phrases d'un pack, identiques à celles de l'écran des phrases d'urgence
+ *
+ * @typedef {string} PhrasebookCategory
+ */
+export type PhrasebookCategory = 'medical' | 'fire' | 'reassurance' | 'evacuation' | 'general';
+
+/**
+ * Phrase traduite contenue dans un pack de phrases hors ligne
+ *
+ * @interface PhrasebookPackPhrase
+ * @property {string} id - Identifiant stable de la phrase (ex: 'medical.where-hurts')
+ * @property {string} source - Texte dans la langue source du pack
+ * @property {string} translation - Texte dans la langue cible du pack
+ */
+export interface PhrasebookPackPhrase {
+  id: string;
+  source: string;
+  translation: string;
+}
+
+/**
+ * Pack de phrases hors ligne pour une paire de langues
+ *
+ * Le champ `checksum` est calculé sur le contenu de `categories` sérialisé en JSON,
+ * ce qui permet de détecter un fichier tronqué ou corrompu avant son installation.
+ *
+ * @interface PhrasebookPack
+ * @property {number} formatVersion - Version du format de pack (pour migrations futures)
+ * @property {number} version - Version du contenu du pack (incrémentée à chaque mise à jour)
+ * @property {string} sourceLang - Code ISO 639-1 de la langue source (ex: 'fr')
+ * @property {string} targetLang - Code ISO 639-1 de la langue cible (ex: 'en')
+ * @property {string} checksum - Empreinte hexadécimale du contenu des catégories
+ * @property {Record<PhrasebookCategory, PhrasebookPackPhrase[]>} categories - Phrases par catégorie
+ */
+export interface PhrasebookPack {
+  formatVersion: number;
+  version: number;
+  sourceLang: string;
+  targetLang: string;
+  checksum: string;
+  categories: Record<PhrasebookCategory, PhrasebookPackPhrase[]>;
+}
+
+/**
+ * Entrée du manifeste distant décrivant un pack disponible au téléchargement
+ *
+ * @interface PhrasebookPackManifestEntry
+ * @property {string} sourceLang - Langue source du pack
+ * @property {string} targetLang - Langue cible du pack
+ * @property {number} version - Dernière version publiée du pack
+ * @property {string} checksum - Empreinte attendue du pack
+ * @property {string} file - Nom du fichier du pack, relatif au manifeste
+ * @property {number} sizeBytes - Taille du fichier en octets
+ */
+export interface PhrasebookPackManifestEntry {
+  sourceLang: string;
+  targetLang: string;
+  version: number;
+  checksum: string;
+  file: string;
+  sizeBytes: number;
+}
+
+/**
+ * Manifeste distant listant les packs de phrases disponibles
+ *
+ * @interface PhrasebookPackManifest
+ * @property {number} formatVersion - Version du format de pack
+ * @property {PhrasebookPackManifestEntry[]} packs - Packs disponibles
+ */
+export interface PhrasebookPackManifest {
+  formatVersion: number;
+  packs: PhrasebookPackManifestEntry[];
+}
+
+/**
+ * Métadonnées d'un pack installé sur l'appareil
+ *
+ * @interface InstalledPhrasebookPack
+ * @property {string} sourceLang - Langue source du pack
+ * @property {string} targetLang - Langue cible du pack
+ * @property {number} version - Version installée
+ * @property {string} checksum - Empreinte du pack installé
+ * @property {number} sizeBytes - Taille du fichier sur l'appareil en octets
+ * @property {number} phraseCount - Nombre de phrases du pack
+ * @property {number} installedAt - Timestamp de l'installation
+ */
+export interface InstalledPhrasebookPack {
+  sourceLang: string;
+  targetLang: string;
+  version: number;
+  checksum: string;
+  sizeBytes: number;
+  phraseCount: number;
+  installedAt: number;
+}
+
+/**
+ * Catégorie de phrases d'intervention
+ *
+ * @interface PhraseCategory
+ * @property {string} id - Identifiant stable de la catégorie (ex: 'medical')
+ * @property {string} name - Nom affiché de la catégorie
+ * @property {string} icon - Nom de l'icône MaterialCommunityIcons
+ * @property {boolean} [isCustom] - true si la catégorie a été créée par l'utilisateur
+ */
+export interface PhraseCategory {
+  id: string;
+  name: string;
+  icon: string;
+  isCustom?: boolean;
+}
+
+/**
+ * Phrase d'intervention du catalogue
+ *
+ * @interface Phrase
+ * @property {string} id - Identifiant stable de la phrase (ex: 'medical.where-hurts')
+ * @property {string} category - Identifiant de la catégorie de la phrase
+ * @property {string} fr - Texte source en français
+ * @property {Record<string, string>} translations - Traductions vérifiées, indexées par code de langue
+ * @property {string[]} tags - Mots-clés pour la recherche et les raccourcis (ex: 'quick')
+ * @property {PhraseAnswerType} [answerType] - Type de réponse attendu si la phrase est une question
+ * @property {boolean} [isCustom] - true si la phrase a été créée par l'utilisateur
+ */
+export interface Phrase {
+  id: string;
+  category: string;
+  fr: string;
+  translations: Record<string, string>;
+  tags: string[];
+  answerType?: PhraseAnswerType;
+  isCustom?: boolean;
+}
+
+/**
+ * Type de réponse attendu à une question du catalogue
+ * - yes-no : oui, non ou je ne sais pas
+ * - number : nombre saisi sur un pavé numérique
+ * - pain-scale : intensité de la douleur de 0 à 10
+ * - body-map : zones douloureuses touchées sur une silhouette
+ * @typedef {'yes-no'|'number'|'pain-scale'|'body-map'} PhraseAnswerType
+ */
+export type PhraseAnswerType = 'yes-no' | 'number' | 'pain-scale' | 'body-map';
+
+/**
+ * Face de la silhouette affichée sur la carte du corps
+ * @typedef {'front'|'back'} BodySide
+ */
+export type BodySide = 'front' | 'back';
+
+/**
+ * Zone douloureuse désignée par la victime sur la carte du corps
+ *
+ * @interface PainLocation
+ * @property {string} region - Identifiant de la zone (ex: 'left-arm', 'lower-back')
+ * @property {BodySide} side - Face de la silhouette sur laquelle la zone a été touchée
+ * @property {number} intensity - Intensité de la douleur, de 1 (légère) à 3 (forte)
+ */
+export interface PainLocation {
+  region: string;
+  side: BodySide;
+  intensity: number;
+}
+
+/**
+ * Réponse donnée par la victime à une question du catalogue
+ * @typedef {Object} PhraseAnswer
+ */
+export type PhraseAnswer =
+  | { type: 'yes-no'; value: 'yes' | 'no' | 'unknown' }
+  | { type: 'number'; value: number }
+  | { type: 'pain-scale'; value: number }
+  | { type: 'body-map'; value: PainLocation[] };
+
+/**
+ * Règle de branchement d'une question de bilan
+ *
+ * La règle s'applique si la réponse oui/non vaut `answer`, ou si la réponse
+ * chiffrée (nombre, échelle de douleur) est comprise entre `min` et `max` inclus.
+ *
+ * @interface TriageBranch
+ * @property {'yes'|'no'|'unknown'} [answer] - Réponse oui/non attendue
+ * @property {number} [min] - Borne basse de la réponse chiffrée
+ * @property {number} [max] - Borne haute de la réponse chiffrée
+ * @property {string|null} next - Question suivante, ou null pour terminer le bilan
+ */
+export interface TriageBranch {
+  answer?: 'yes' | 'no' | 'unknown';
+  min?: number;
+  max?: number;
+  next: string | null;
+}
+
+/**
+ * Question d'un questionnaire de bilan
+ *
+ * Le texte vient du catalogue de phrases (`phraseId`) ou est écrit dans le
+ * fichier du questionnaire (`fr`, `translations`, `answerType`).
+ *
+ * @interface TriageQuestion
+ * @property {string} id - Identifiant de la question dans le questionnaire
+ * @property {string} [phraseId] - Identifiant de la phrase du catalogue posée
+ * @property {string} [fr] - Texte français, si la question n'est pas dans le catalogue
+ * @property {Record<string, string>} [translations] - Traductions indexées par code de langue
+ * @property {PhraseAnswerType} [answerType] - Type de réponse, si la question n'est pas dans le catalogue
+ * @property {string} label - Intitulé court de la ligne du bilan en français
+ * @property {TriageBranch[]} [branches] - Règles de branchement, évaluées dans l'ordre
+ * @property {string|null} [next] - Question suivante par défaut, null ou absente pour terminer
+ */
+export interface TriageQuestion {
+  id: string;
+  phraseId?: string;
+  fr?: string;
+  translations?: Record<string, string>;
+  answerType?: PhraseAnswerType;
+  label: string;
+  branches?: TriageBranch[];
+  next?: string | null;
+}
+
+/**
+ * Questionnaire de bilan (ex: SAMPLE, OPQRST), lu dans un fichier de données
+ *
+ * @interface TriageFlow
+ * @property {number} formatVersion - Version du format de fichier
+ * @property {string} id - Identifiant stable du questionnaire
+ * @property {string} title - Titre affiché
+ * @property {string} description - Description courte du contenu
+ * @property {string} start - Identifiant de la première question
+ * @property {TriageQuestion[]} questions - Questions du questionnaire
+ */
+export interface TriageFlow {
+  formatVersion: number;
+  id: string;
+  title: string;
+  description: string;
+  start: string;
+  questions: TriageQuestion[];
+}
+
+/**
+ * Réponse recueillie pendant un bilan
+ *
+ * @interface TriageAnswerRecord
+ * @property {TriageQuestion} question - Question du questionnaire
+ * @property {Phrase} phrase - Phrase posée à la victime
+ * @property {PhraseAnswer} answer - Réponse de la victime
+ * @property {string} language - Langue dans laquelle la question a été posée
+ */
+export interface TriageAnswerRecord {
+  question: TriageQuestion;
+  phrase: Phrase;
+  answer: PhraseAnswer;
+  language: string;
+}
+
+/**
+ * Critères de recherche dans le catalogue de phrases
+ *
+ * Tous les critères renseignés doivent être satisfaits.
+ *
+ * @interface PhraseQuery
+ * @property {string} [category] - Identifiant de catégorie
+ * @property {string} [search] - Texte recherché dans la phrase, ses traductions et ses tags (sans accents ni casse)
+ * @property {string[]} [tags] - Tags que la phrase doit tous posséder
+ * @property {string} [language] - Code de langue pour filtrer selon la couverture de traduction
+ * @property {'translated'|'missing'} [coverage='translated'] - Phrases traduites ou non traduites dans `language`
+ */
+export interface PhraseQuery {
+  category?: string;
+  search?: string;
+  tags?: string[];
+  language?: string;
+  coverage?: 'translated' | 'missing';
+}
+
+/**
+ * Formats d'échange du catalogue de phrases
+ *
+ * @typedef {'csv'|'xliff-1.2'|'xliff-2.0'} PhraseCatalogFormat
+ */
+export type PhraseCatalogFormat = 'csv' | 'xliff-1.2' | 'xliff-2.0';
+
+/**
+ * Phrase lue dans un fichier d'import du catalogue
+ *
+ * @interface PhraseCatalogImportEntry
+ * @property {string} [id] - Identifiant de la phrase dans le catalogue, s'il est renseigné
+ * @property {string} category - Catégorie telle qu'écrite dans le fichier (identifiant ou nom)
+ * @property {string} fr - Texte source en français
+ * @property {Record<string, string>} translations - Traductions indexées par code de langue
+ * @property {Record<string, boolean>} verified - Statut de vérification de chaque traduction
+ */
+export interface PhraseCatalogImportEntry {
+  id?: string;
+  category: string;
+  fr: string;
+  translations: Record<string, string>;
+  verified: Record<string, boolean>;
+}
+
+/**
+ * Rapport de validation d'un fichier d'import, présenté avant toute modification du catalogue
+ *
+ * @interface PhraseCatalogImportReport
+ * @property {string} fileName - Nom du fichier importé
+ * @property {PhraseCatalogFormat} format - Format détecté
+ * @property {PhraseCatalogImportEntry[]} entries - Phrases retenues (sans les doublons)
+ * @property {string[]} languages - Langues connues présentes dans le fichier
+ * @property {string[]} unknownLanguages - Codes de langue absents du registre des langues (ignorés)
+ * @property {string[]} duplicates - Phrases présentes plusieurs fois (seule la première est retenue)
+ * @property {Record<string, string[]>} missingTranslations - Phrases sans traduction, indexées par code de langue
+ * @property {string[]} unknownCategories - Catégories inconnues, créées comme catégories personnalisées
+ * @property {number} newPhraseCount - Nombre de phrases absentes du catalogue
+ * @property {number} updatedPhraseCount - Nombre de phrases déjà présentes dans le catalogue
+ * @property {string[]} errors - Erreurs bloquantes (fichier illisible, langue source incorrecte...)
+ */
+export interface PhraseCatalogImportReport {
+  fileName: string;
+  format: PhraseCatalogFormat;
+  entries: PhraseCatalogImportEntry[];
+  languages: string[];
+  unknownLanguages: string[];
+  duplicates: string[];
+  missingTranslations: Record<string, string[]>;
+  unknownCategories: string[];
+  newPhraseCount: number;
+  updatedPhraseCount: number;
+  errors: string[];
+}
+
+/**
+ * Bilan de l'application d'un import au catalogue
+ *
+ * @interface PhraseCatalogImportSummary
+ * @property {number} addedPhrases - Phrases personnalisées créées
+ * @property {number} updatedPhrases - Phrases existantes dont les traductions ont changé
+ * @property {number} createdCategories - Catégories personnalisées créées
+ * @property {number} verifiedTranslations - Traductions vérifiées enregistrées
+ * @property {number} machineTranslations - Traductions non vérifiées enregistrées dans le cache
+ */
+export interface PhraseCatalogImportSummary {
+  addedPhrases: number;
+  updatedPhrases: number;
+  createdCategories: number;
+  verifiedTranslations: number;
+  machineTranslations: number;
+}
+
+/**
+ * Participant à une conversation
+ *
+ * @interface ConversationParticipant
+ * @property {string} id - Identifiant du participant (ex: 'participant2')
+ * @property {string} preferredLanguage - Code de la langue préférée du participant
+ * @property {string} [lastDetectedLanguage] - Dernière langue détectée dans ses énoncés
+ * @property {number} [detectionConfidence] - Confiance de la dernière détection (0 à 1)
+ */
+export interface ConversationParticipant {
+  id: string;
+  preferredLanguage: string;
+  lastDetectedLanguage?: string;
+  detectionConfidence?: number;
+}
+
+/**
+ * Tour de parole d'une conversation
+ *
+ * @interface ConversationTurn
+ * @property {string} participantId - Identifiant du participant qui a parlé
+ * @property {string} originalText - Texte original
+ * @property {string} detectedLanguage - Langue du texte original (détectée ou choisie)
+ * @property {string} [translatedText] - Traduction principale
+ * @property {string} [targetLanguage] - Langue de la traduction principale
+ * @property {Record<string, string>} [translations] - Traductions dans la langue de chacun des autres participants, par code de langue
+ * @property {string} [audioUri] - Enregistrement audio de l'énoncé original, conservé sur l'appareil
+ * @property {PainLocation[]} [painLocations] - Zones douloureuses désignées par la victime sur la carte du corps
+ * @property {number} timestamp - Timestamp Unix du tour de parole
+ */
+export interface ConversationTurn {
+  participantId: string;
+  originalText: string;
+  detectedLanguage: string;
+  translatedText?: string;
+  targetLanguage?: string;
+  translations?: Record<string, string>;
+  audioUri?: string;
+  painLocations?: PainLocation[];
+  timestamp: number;
+}
+
+/**
+ * Session d'intervention enregistrée
+ *
+ * @interface ConversationSession
+ * @property {string} id - Identifiant unique de la session
+ * @property {string} title - Titre de la session (par défaut, la date de début)
+ * @property {number} startedAt - Timestamp Unix du début de la session
+ * @property {number} [endedAt] - Timestamp Unix de la fin de la session, absent tant qu'elle est en cours
+ * @property {ConversationParticipant[]} participants - Participants et leurs langues
+ * @property {ConversationTurn[]} turns - Tours de parole, dans l'ordre chronologique
+ */
+export interface ConversationSession {
+  id: string;
+  title: string;
+  startedAt: number;
+  endedAt?: number;
+  participants: ConversationParticipant[];
+  turns: ConversationTurn[];
+}
+
+/**
+ * Résumé d'une session, utilisé pour lister les sessions sans charger leurs tours de parole
+ *
+ * @typedef {Object} ConversationSessionSummary
+ * @property {number} turnCount - Nombre de tours de parole de la session
+ */
+export type ConversationSessionSummary = Omit<ConversationSession, 'turns'> & { turnCount: number };
+
+/**
+ * Formats d'export d'une transcription de session
+ *
+ * @typedef {'pdf'|'text'|'json'} TranscriptFormat
+ */
+export type TranscriptFormat = 'pdf' | 'text' | 'json';
+
+/**
+ * Tour de parole d'une transcription exportée
+ *
+ * @interface TranscriptTurn
+ * @property {number} index - Numéro du tour de parole (à partir de 1)
+ * @property {string} timestamp - Date et heure ISO 8601
+ * @property {string} participantId - Identifiant du participant
+ * @property {string} sourceLanguage - Code de la langue du texte original
+ * @property {string|null} targetLanguage - Code de la langue de traduction
+ * @property {string} original - Texte original
+ * @property {string|null} translation - Traduction, le cas échéant
+ * @property {PainLocation[]} [painLocations] - Zones douloureuses désignées sur la carte du corps
+ */
+export interface TranscriptTurn {
+  index: number;
+  timestamp: string;
+  participantId: string;
+  sourceLanguage: string;
+  targetLanguage: string | null;
+  original: string;
+  translation: string | null;
+  painLocations?: PainLocation[];
+}
+
+/**
+ * Transcription d'une session au format JSON (schéma `speechtotalk.transcript`, version 1)
+ *
+ * @interface TranscriptDocument
+ * @property {string} schema - Toujours 'speechtotalk.transcript'
+ * @property {number} schemaVersion - Version du schéma
+ * @property {string} exportedAt - Date et heure ISO 8601 de l'export
+ * @property {Object} session - Identifiant, titre, début et fin de la session
+ * @property {Array} participants - Participants et leurs langues
+ * @property {TranscriptTurn[]} turns - Tours de parole, dans l'ordre chronologique
+ */
+export interface TranscriptDocument {
+  schema: 'speechtotalk.transcript';
+  schemaVersion: number;
+  exportedAt: string;
+  session: {
+    id: string;
+    title: string;
+    startedAt: string;
+    endedAt: string | null;
+  };
+  participants: {
+    id: string;
+    label: string;
+    preferredLanguage: string;
+    lastDetectedLanguage: string | null;
+  }[];
+  turns: TranscriptTurn[];
+}
+
+/**
+ * Types d'erreurs de la reconnaissance vocale
+ *
+ * @enum {string} SpeechRecognitionErrorType
+ * @property {string} NO_MATCH - Aucune parole reconnue
+ * @property {string} PERMISSION_DENIED - Accès au microphone refusé
+ * @property {string} NOT_AVAILABLE - Moteur de reconnaissance indisponible sur l'appareil
+ * @property {string} NETWORK_ERROR - Moteur de reconnaissance en ligne injoignable
+ * @property {string} BUSY - Une reconnaissance est déjà en cours
+ * @property {string} UNKNOWN_ERROR - Erreur non identifiée
+ */
+export enum SpeechRecognitionErrorType {
+  NO_MATCH = 'NO_MATCH',
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  NOT_AVAILABLE = 'NOT_AVAILABLE',
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  BUSY = 'BUSY',
+  UNKNOWN_ERROR = 'UNKNOWN_ERROR'
+}
+
+/**
+ * Structure d'une erreur de reconnaissance vocale
+ *
+ * @interface SpeechRecognitionError
+ * @property {SpeechRecognitionErrorType} type - Type de l'erreur
+ * @property {string} message - Message descriptif de l'erreur
+ * @property {string} [code] - Code d'erreur d'origine du moteur
+ */
+export interface SpeechRecognitionError {
+  type: SpeechRecognitionErrorType;
+  message: string;
+  code?: string;
+}
+
+/**
+ * Événement émis par un moteur de reconnaissance vocale
+ *
+ * - `start` : le microphone est ouvert
+ * - `partial` : résultat provisoire, remplacé par les suivants
+ * - `final` : résultat définitif de l'énoncé (les alternatives sont classées par vraisemblance)
+ * - `volume` : niveau sonore du microphone (dB, sur une échelle propre au moteur)
+ * - `error` : la reconnaissance a échoué
+ * - `end` : le microphone est fermé (toujours émis en dernier)
+ *
+ * @typedef {Object} SpeechRecognitionEvent
+ */
+export type SpeechRecognitionEvent =
+  | { type: 'start'; locale: string }
+  | { type: 'partial'; text: string }
+  | { type: 'volume'; levelDb: number }
+  | { type: 'final'; text: string; alternatives: string[] }
+  | { type: 'error'; error: SpeechRecognitionError }
+  | { type: 'end' };
+
+/**
+ * Contrat commun aux moteurs de reconnaissance vocale
+ *
+ * Un moteur encapsule une reconnaissance vocale (module natif
+ * `@react-native-voice/voice`, moteur scénarisé pour les démonstrations...).
+ * Les événements sont diffusés aux abonnés dans l'ordre `start`, `partial`*
+ * et `volume`*, puis `final` ou `error`, puis `end`.
+ *
+ * @interface SpeechRecognizer
+ * @property {string} id - Identifiant unique du moteur (ex: 'voice', 'scripted')
+ */
+export interface SpeechRecognizer {
+  id: string;
+
+  /**
+   * Indique si le moteur est utilisable sur l'appareil
+   * @returns {Promise<boolean>} true si la reconnaissance peut être démarrée
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * Indique si une reconnaissance est en cours
+   * @returns {boolean} true entre les événements `start` et `end`
+   */
+  isRecognizing(): boolean;
+
+  /**
+   * Langue de la reconnaissance en cours ou de la dernière reconnaissance
+   * @returns {string|null} Locale BCP-47 (ex: 'fr-FR') ou null
+   */
+  getLocale(): string | null;
+
+  /**
+   * Démarre l'écoute (la reconnaissance en cours est annulée)
+   * @param {string} locale - Locale BCP-47 de la langue parlée (ex: 'fr-FR')
+   * @returns {Promise<void>}
+   */
+  start(locale: string): Promise<void>;
+
+  /**
+   * Arrête l'écoute ; le résultat final de ce qui a été dit est émis
+   * @returns {Promise<void>}
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Annule l'écoute sans émettre de résultat final
+   * @returns {Promise<void>}
+   */
+  cancel(): Promise<void>;
+
+  /**
+   * Abonne une fonction aux événements de reconnaissance
+   * @returns {Function} Fonction de désabonnement
+   */
+  subscribe(listener: (event: SpeechRecognitionEvent) => void): () => void;
+}
+
+/**
+ * Encodages audio acceptés par l'API Google Cloud Speech-to-Text
+ *
+ * - `LINEAR16` : PCM 16 bits signé little-endian (iOS)
+ * - `AMR_WB` : AMR large bande à 16 kHz (Android, qui ne sait pas enregistrer de PCM)
+ * - `WEBM_OPUS` : Opus dans un conteneur WebM (navigateur)
+ *
+ * @typedef {'LINEAR16'|'AMR_WB'|'WEBM_OPUS'} SpeechAudioEncoding
+ */
+export type SpeechAudioEncoding = 'LINEAR16' | 'AMR_WB' | 'WEBM_OPUS';
+
+/**
+ * Format d'un contenu audio envoyé à la reconnaissance vocale
+ *
+ * @interface SpeechAudioFormat
+ * @property {SpeechAudioEncoding} encoding - Encodage de l'audio
+ * @property {number} sampleRateHertz - Fréquence d'échantillonnage
+ */
+export interface SpeechAudioFormat {
+  encoding: SpeechAudioEncoding;
+  sampleRateHertz: number;
+}
+
+/**
+ * Enregistrement audio capturé par le microphone
+ *
+ * @interface AudioClip
+ * @property {string} uri - URI du fichier enregistré sur l'appareil
+ * @property {number} durationMs - Durée en millisecondes
+ * @property {SpeechAudioFormat} format - Encodage et fréquence d'échantillonnage
+ * @property {number} channels - Nombre de canaux (toujours 1, mono)
+ * @property {string} mimeType - Type MIME du fichier (ex: 'audio/wav')
+ * @property {number} recordedAt - Horodatage de la fin de l'enregistrement
+ */
+export interface AudioClip {
+  uri: string;
+  durationMs: number;
+  format: SpeechAudioFormat;
+  channels: number;
+  mimeType: string;
+  recordedAt: number;
+}
+
+/**
+ * Contenu PCM extrait d'un fichier WAV
+ *
+ * @interface PcmAudio
+ * @property {string} pcmBase64 - Échantillons PCM encodés en base64
+ * @property {number} sampleRate - Fréquence d'échantillonnage
+ * @property {number} channels - Nombre de canaux
+ * @property {number} bitsPerSample - Nombre de bits par échantillon
+ */
+export interface PcmAudio {
+  pcmBase64: string;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+/**
+ * Réglages de la détection d'activité vocale
+ *
+ * @interface VoiceActivitySettings
+ * @property {number} speechMarginDb - Écart au-dessus du bruit de fond à partir duquel une trame est considérée comme parlée (dB)
+ * @property {number} hangoverMs - Durée de silence après laquelle la fin de l'énoncé est déclarée
+ * @property {number} minSpeechMs - Durée minimale de parole pour déclarer le début d'un énoncé (filtre les bruits brefs)
+ */
+export interface VoiceActivitySettings {
+  speechMarginDb: number;
+  hangoverMs: number;
+  minSpeechMs: number;
+}
+
+/**
+ * Événement émis par la détection d'activité vocale
+ *
+ * - `speech-start` : début d'un énoncé (horodatage de la première trame parlée)
+ * - `speech-end` : fin de l'énoncé, après la durée de maintien
+ *
+ * @typedef {Object} VoiceActivityEvent
+ */
+export type VoiceActivityEvent =
+  | { type: 'speech-start'; timestamp: number }
+  | { type: 'speech-end'; timestamp: number; durationMs: number };
+
+/**
+ * Voix de synthèse vocale proposée par un moteur
+ *
+ * @interface TtsVoice
+ * @property {string} id - Identifiant de la voix pour le moteur
+ * @property {string} name - Nom affiché de la voix
+ * @property {string} locale - Locale BCP-47 de la voix (ex: 'fr-FR')
+ * @property {boolean} isEnhanced - Voix de qualité supérieure
+ * @property {boolean} requiresNetwork - La voix nécessite une connexion Internet
+ * @property {boolean} isInstalled - Les données de la voix sont présentes sur l'appareil
+ */
+export interface TtsVoice {
+  id: string;
+  name: string;
+  locale: string;
+  isEnhanced: boolean;
+  requiresNetwork: boolean;
+  isInstalled: boolean;
+}
+
+/**
+ * Réglages de la voix d'une langue
+ *
+ * @interface TtsVoiceSettings
+ * @property {string} [voiceId] - Voix choisie (voix par défaut de la locale si absente)
+ * @property {number} rate - Débit (1 = débit normal, de 0.5 à 2)
+ * @property {number} pitch - Hauteur (1 = hauteur normale, de 0.5 à 2)
+ * @property {number} volume - Volume (de 0 à 1)
+ */
+export interface TtsVoiceSettings {
+  voiceId?: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+/**
+ * Paramètres transmis à un moteur pour prononcer un texte
+ *
+ * @interface TtsSpeakOptions
+ * @property {string} locale - Locale BCP-47 de la voix (ex: 'ar-MA')
+ */
+export interface TtsSpeakOptions extends TtsVoiceSettings {
+  locale: string;
+}
+
+/**
+ * Priorité d'un énoncé dans la file de synthèse vocale
+ *
+ * Un énoncé `emergency` passe devant les énoncés `normal` en attente et
+ * interrompt l'énoncé `normal` en cours.
+ *
+ * @typedef {string} TtsPriority
+ */
+export type TtsPriority = 'normal' | 'emergency';
+
+/**
+ * Énoncé de la file de synthèse vocale
+ *
+ * @interface TtsUtterance
+ * @property {string} id - Identifiant unique de l'énoncé
+ * @property {string} text - Texte à prononcer
+ * @property {string} language - Code de langue ou locale BCP-47
+ * @property {TtsPriority} priority - Priorité de l'énoncé
+ */
+export interface TtsUtterance {
+  id: string;
+  text: string;
+  language: string;
+  priority: TtsPriority;
+}
+
+/**
+ * Événement de la synthèse vocale
+ *
+ * - `start` : l'énoncé commence à être prononcé
+ * - `done` : l'énoncé a été prononcé en entier
+ * - `interrupted` : l'énoncé a été arrêté ou retiré de la file avant la fin
+ * - `error` : le moteur n'a pas pu prononcer l'énoncé
+ * - `idle` : la file est vide, plus rien n'est prononcé
+ *
+ * @typedef {Object} TtsEvent
+ */
+export type TtsEvent =
+  | { type: 'start'; utterance: TtsUtterance }
+  | { type: 'done'; utterance: TtsUtterance }
+  | { type: 'interrupted'; utterance: TtsUtterance }
+  | { type: 'error'; utterance: TtsUtterance; message: string }
+  | { type: 'idle' };
+
+/**
+ * Contrat commun aux moteurs de synthèse vocale
+ *
+ * Un moteur prononce un texte à la fois ; la file d'attente, les priorités et
+ * les réglages par langue sont gérés par le service de synthèse vocale.
+ *
+ * @interface TtsEngine
+ * @property {string} id - Identifiant unique du moteur (ex: 'native', 'web', 'fake')
+ */
+export interface TtsEngine {
+  id: string;
+
+  /**
+   * Indique si le moteur est utilisable sur l'appareil
+   * @returns {Promise<boolean>} true si le moteur peut prononcer un texte
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * Liste les voix proposées par le moteur
+   * @returns {Promise<TtsVoice[]>} Les voix, toutes langues confondues
+   */
+  getVoices(): Promise<TtsVoice[]>;
+
+  /**
+   * Prononce un texte
+   * @param {string} text - Texte à prononcer
+   * @param {TtsSpeakOptions} options - Locale, voix et réglages
+   * @returns {Promise<boolean>} true si le texte a été prononcé en entier, false s'il a été arrêté
+   * @throws {Error} Si le moteur ne peut pas prononcer le texte
+   */
+  speak(text: string, options: TtsSpeakOptions): Promise<boolean>;
+
+  /**
+   * Arrête le texte en cours
+   * @returns {Promise<void>}
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Prépare un texte pour une lecture ultérieure sans connexion (moteurs à cache uniquement)
+   * @param {string} text - Texte à préparer
+   * @param {TtsSpeakOptions} options - Locale, voix et réglages
+   * @returns {Promise<boolean>} true si le texte pourra être lu hors ligne
+   */
+  prepare?(text: string, options: TtsSpeakOptions): Promise<boolean>;
+}
+
+/**
+ * Langue candidate proposée par un détecteur de langue
+ *
+ * @interface LanguageCandidate
+ * @property {string} language - Code ISO 639-1 de la langue
+ * @property {number} confidence - Confiance entre 0 et 1
+ */
+export interface LanguageCandidate {
+  language: string;
+  confidence: number;
 }
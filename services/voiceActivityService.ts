@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Détection d'activité vocale (VAD) par énergie
+ *
+ * Ce module détecte le début et la fin des énoncés à partir du niveau
+ * sonore des trames audio (niveau du moteur de reconnaissance ou mesure du
+ * microphone pendant un enregistrement). Le bruit de fond est estimé en continu, ce qui
+ * permet de reconnaître la fin d'une phrase même sur une intervention
+ * bruyante (moteurs, sirènes, foule) où le silence n'est jamais complet.
+ * Les seuils sont réglables dans les paramètres de l'application.
+ *
+ * @module services/voiceActivityService
+ * @requires @react-native-async-storage/async-storage
+ * @requires ./types
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VoiceActivityEvent, VoiceActivitySettings } from './types';
+
+/**
+ * Clé de stockage des réglages
+ * @constant {string}
+ * @private
+ */
+const SETTINGS_STORAGE_KEY = 'voiceActivitySettings';
+
+/**
+ * Réglages par défaut de la détection d'activité vocale
+ *
+ * @constant {VoiceActivitySettings}
+ */
+export const DEFAULT_VOICE_ACTIVITY_SETTINGS: VoiceActivitySettings = {
+  speechMarginDb: 6,
+  hangoverMs: 1200,
+  minSpeechMs: 250,
+};
+
+/**
+ * Vitesses d'adaptation du bruit de fond (part de l'écart corrigée à chaque trame)
+ *
+ * Le bruit de fond descend vite (fin d'un bruit ponctuel) et monte lentement,
+ * pour ne pas absorber la parole. Pendant la parole, il monte encore plus
+ * lentement afin qu'une hausse durable du bruit (pompe mise en route) finisse
+ * par être intégrée et ne bloque pas la détection en « parole ».
+ *
+ * @constant {Object} NOISE_FLOOR_ADAPTATION
+ * @private
+ */
+const NOISE_FLOOR_ADAPTATION = {
+  FALLING: 0.3,
+  RISING: 0.05,
+  DURING_SPEECH: 0.01,
+};
+
+/**
+ * Réglages en mémoire (évite les lectures répétées)
+ * @private
+ */
+let cachedSettings: VoiceActivitySettings = { ...DEFAULT_VOICE_ACTIVITY_SETTINGS };
+
+/**
+ * Détecteur d'activité vocale pour un flux audio
+ *
+ * Une trame est parlée si son niveau dépasse le bruit de fond de
+ * `speechMarginDb`. Un énoncé commence après `minSpeechMs` de parole et se
+ * termine après `hangoverMs` sans trame parlée.
+ *
+ * @class VoiceActivityDetector
+ * @example
+ * const detector = new VoiceActivityDetector(getVoiceActivitySettings());
+ * detector.subscribe(event => {
+ *   if (event.type === 'speech-end') recognizer.stop();
+ * });
+ * detector.processLevel(levelDb);
+ */
+export class VoiceActivityDetector {
+  private noiseFloorDb: number | null = null;
+  private speaking = false;
+  // Première et dernière trame parlée de l'énoncé en cours ou candidat
+  private speechStartedAt: number | null = null;
+  private lastVoicedAt: number | null = null;
+  private voicedDurationMs = 0;
+  private lastFrameAt: number | null = null;
+  private listeners = new Set<(event: VoiceActivityEvent) => void>();
+
+  constructor(private settings: VoiceActivitySettings = getVoiceActivitySettings()) {}
+
+  /**
+   * Met à jour les réglages sans réinitialiser le bruit de fond
+   *
+   * @param {VoiceActivitySettings} settings - Nouveaux réglages
+   * @returns {void}
+   */
+  updateSettings(settings: VoiceActivitySettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Indique si un énoncé est en cours
+   *
+   * @returns {boolean} true entre `speech-start` et `speech-end`
+   */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Retourne le bruit de fond estimé
+   *
+   * @returns {number|null} Le niveau du bruit de fond, ou null avant la première trame
+   */
+  getNoiseFloorDb(): number | null {
+    return this.noiseFloorDb;
+  }
+
+  /**
+   * Abonne une fonction aux débuts et fins d'énoncés
+   *
+   * @param {Function} listener - Fonction appelée à chaque événement
+   * @returns {Function} Fonction de désabonnement
+   */
+  subscribe(listener: (event: VoiceActivityEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Analyse le niveau d'une trame audio
+   *
+   * @param {number} levelDb - Niveau de la trame (dB)
+   * @param {number} [timestamp=Date.now()] - Horodatage de la fin de la trame (ms)
+   * @returns {void}
+   */
+  processLevel(levelDb: number, timestamp: number = Date.now()): void {
+    const frameDurationMs = this.lastFrameAt === null ? 0 : Math.max(0, timestamp - this.lastFrameAt);
+    this.lastFrameAt = timestamp;
+
+    if (this.noiseFloorDb === null) {
+      // La première trame sert d'estimation initiale du bruit de fond
+      this.noiseFloorDb = levelDb;
+      return;
+    }
+
+    const isVoiced = levelDb > this.noiseFloorDb + this.settings.speechMarginDb;
+    this.adaptNoiseFloor(levelDb, isVoiced);
+
+    if (isVoiced) {
+      if (this.speechStartedAt === null) {
+        this.speechStartedAt = timestamp - frameDurationMs;
+        this.voicedDurationMs = 0;
+      }
+      this.voicedDurationMs += frameDurationMs;
+      this.lastVoicedAt = timestamp;
+
+      if (!this.speaking && this.voicedDurationMs >= this.settings.minSpeechMs) {
+        this.speaking = true;
+        this.emit({ type: 'speech-start', timestamp: this.speechStartedAt });
+      }
+      return;
+    }
+
+    if (this.lastVoicedAt === null || timestamp - this.lastVoicedAt < this.settings.hangoverMs) {
+      return;
+    }
+
+    if (this.speaking) {
+      this.emit({
+        type: 'speech-end',
+        timestamp: this.lastVoicedAt,
+        durationMs: this.lastVoicedAt - (this.speechStartedAt ?? this.lastVoicedAt),
+      });
+    }
+    // Fin de l'énoncé, ou bruit trop bref pour être de la parole
+    this.speaking = false;
+    this.speechStartedAt = null;
+    this.lastVoicedAt = null;
+    this.voicedDurationMs = 0;
+  }
+
+  /**
+   * Réinitialise le détecteur (nouveau flux audio)
+   *
+   * @returns {void}
+   */
+  reset(): void {
+    this.noiseFloorDb = null;
+    this.speaking = false;
+    this.speechStartedAt = null;
+    this.lastVoicedAt = null;
+    this.voicedDurationMs = 0;
+    this.lastFrameAt = null;
+  }
+
+  /**
+   * Fait évoluer l'estimation du bruit de fond
+   * @private
+   */
+  private adaptNoiseFloor(levelDb: number, isVoiced: boolean): void {
+    const noiseFloorDb = this.noiseFloorDb ?? levelDb;
+    const rate = levelDb < noiseFloorDb
+      ? NOISE_FLOOR_ADAPTATION.FALLING
+      : isVoiced
+        ? NOISE_FLOOR_ADAPTATION.DURING_SPEECH
+        : NOISE_FLOOR_ADAPTATION.RISING;
+    this.noiseFloorDb = noiseFloorDb + (levelDb - noiseFloorDb) * rate;
+  }
+
+  /**
+   * Diffuse un événement aux abonnés
+   * @private
+   */
+  private emit(event: VoiceActivityEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+/**
+ * Charge les réglages de la détection d'activité vocale depuis AsyncStorage
+ *
+ * @async
+ * @function loadVoiceActivitySettings
+ * @returns {Promise<VoiceActivitySettings>} Les réglages enregistrés, complétés par les valeurs par défaut
+ */
+export const loadVoiceActivitySettings = async (): Promise<VoiceActivitySettings> => {
+  try {
+    const storedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (storedSettings) {
+      cachedSettings = { ...DEFAULT_VOICE_ACTIVITY_SETTINGS, ...JSON.parse(storedSettings) };
+    }
+  } catch (error) {
+    console.error('Error loading voice activity settings:', error);
+  }
+  return cachedSettings;
+};
+
+/**
+ * Enregistre les réglages de la détection d'activité vocale
+ *
+ * Les réglages s'appliquent à partir de la prochaine écoute.
+ *
+ * @async
+ * @function saveVoiceActivitySettings
+ * @param {VoiceActivitySettings} settings - Réglages à enregistrer
+ * @returns {Promise<boolean>} true si l'enregistrement a réussi
+ *
+ * @example
+ * await saveVoiceActivitySettings({ ...getVoiceActivitySettings(), hangoverMs: 1500 });
+ */
+export const saveVoiceActivitySettings = async (settings: VoiceActivitySettings): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    cachedSettings = { ...settings };
+    return true;
+  } catch (error) {
+    console.error('Error saving voice activity settings:', error);
+    return false;
+  }
+};
+
+/**
+ * Retourne les réglages de la détection d'activité vocale
+ *
+ * @function getVoiceActivitySettings
+ * @returns {VoiceActivitySettings} Les réglages en mémoire
+ */
+export const getVoiceActivitySettings = (): VoiceActivitySettings => ({ ...cachedSettings });
+
+// Chargement des réglages au chargement du module
+loadVoiceActivitySettings();